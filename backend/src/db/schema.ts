@@ -2,6 +2,9 @@ import {
   sqliteTable,
   text,
   integer,
+  real,
+  unique,
+  type AnySQLiteColumn,
 } from 'drizzle-orm/sqlite-core';
 
 // Enums (handled as arrays for application-level validation if needed, Drizzle SQLite doesn't enforce DB-level enums like Postgres)
@@ -24,6 +27,7 @@ export const fileTypeEnum = [
   'prd',
   'diagram',
   'screenshot',
+  'api_spec',
   'other',
 ] as const;
 
@@ -31,17 +35,49 @@ export const oauthProviderEnum = [
   'google_drive',
 ] as const;
 
+export const methodologyEnum = [
+  'stride',
+  'linddun',
+  'pasta',
+  'owasp_top10',
+  'owasp_api_top10',
+] as const;
+
+export const organizationRoleEnum = [
+  'owner', // Manages members and can delete threat models
+  'editor', // Creates, edits and generates threat models
+  'reviewer', // Triages threats and mitigations
+  'viewer',
+] as const;
+
+export const sharePermissionEnum = [
+  'view',
+  'comment',
+  'edit', // Triage threats and mitigations
+] as const;
+
+export const quotaScopeEnum = ['user', 'organization'] as const;
+
+export const generationJobStatusEnum = [
+  'queued',
+  'processing',
+  'completed',
+  'failed',
+  'cancelled',
+] as const;
+
 // Threat Models table
 export const threatModels = sqliteTable('threat_models', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   title: text('title').notNull(),
   description: text('description'),
   status: text('status', { enum: threatModelStatusEnum }).notNull().default('draft'),
-  organizationId: text('organization_id').notNull().default('default'),
+  organizationId: text('organization_id').notNull().default('default'), // 'default' for personal models
   createdBy: text('created_by').notNull().default('anonymous'),
   userId: text('user_id'), // Clerk user ID
 
   // Context data
+  methodology: text('methodology', { enum: methodologyEnum }).notNull().default('stride'),
   systemDescription: text('system_description'),
   questionsAnswers: text('questions_answers', { mode: 'json' }).$type<QuestionAnswer[]>().$defaultFn(() => []),
 
@@ -49,6 +85,7 @@ export const threatModels = sqliteTable('threat_models', {
   threats: text('threats', { mode: 'json' }).$type<Threat[]>().$defaultFn(() => []),
   summary: text('summary'),
   recommendations: text('recommendations', { mode: 'json' }).$type<string[]>().$defaultFn(() => []),
+  componentGraph: text('component_graph', { mode: 'json' }).$type<ComponentGraph | null>(),
 
   // Sharing
   shareToken: text('share_token').unique(),
@@ -58,6 +95,11 @@ export const threatModels = sqliteTable('threat_models', {
   generationStartedAt: integer('generation_started_at', { mode: 'timestamp' }),
   generationCompletedAt: integer('generation_completed_at', { mode: 'timestamp' }),
   generationError: text('generation_error'),
+  generationReport: text('generation_report', { mode: 'json' }).$type<GenerationReport | null>(),
+  generationProvider: text('generation_provider'), // Provider that produced the current threats
+  generationModel: text('generation_model'),
+  currentRevisionId: text('current_revision_id'), // Revision the threats above were taken from
+  generationSettings: text('generation_settings', { mode: 'json' }).$type<GenerationSettings | null>(), // Reused by later runs
 
   // Timestamps
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -77,6 +119,10 @@ export const contextFiles = sqliteTable('context_files', {
   fileType: text('file_type', { enum: fileTypeEnum }).notNull().default('other'),
   storagePath: text('storage_path').notNull(),
   extractedText: text('extracted_text'),
+  iacInventory: text('iac_inventory', { mode: 'json' }).$type<IacInventory | null>(),
+  apiSpec: text('api_spec', { mode: 'json' }).$type<ApiSpec | null>(),
+  diagramGraph: text('diagram_graph', { mode: 'json' }).$type<DiagramGraph | null>(),
+  renderedDiagramPath: text('rendered_diagram_path'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
@@ -115,16 +161,251 @@ export const jiraTickets = sqliteTable('jira_tickets', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
-// User Usage table
+export const dfdElementTypeEnum = ['process', 'data_store', 'external_entity'] as const;
+
+// Data Flow Diagrams table - at most one per threat model
+export const dataFlowDiagrams = sqliteTable('data_flow_diagrams', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  threatModelId: text('threat_model_id')
+    .notNull()
+    .unique()
+    .references(() => threatModels.id, { onDelete: 'cascade' }),
+  elements: text('elements', { mode: 'json' }).$type<DfdElement[]>().notNull(),
+  flows: text('flows', { mode: 'json' }).$type<DfdFlow[]>().notNull(),
+  boundaries: text('boundaries', { mode: 'json' }).$type<DfdTrustBoundary[]>().notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Generation Jobs table
+export const generationJobs = sqliteTable('generation_jobs', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  threatModelId: text('threat_model_id')
+    .notNull()
+    .references(() => threatModels.id, { onDelete: 'cascade' }),
+  userId: text('user_id'), // Clerk user ID of whoever requested the generation
+
+  // Job state
+  status: text('status', { enum: generationJobStatusEnum }).notNull().default('queued'),
+  progress: integer('progress').notNull().default(0),
+  currentStep: text('current_step'),
+  error: text('error'),
+
+  // Retry bookkeeping
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  runAfter: integer('run_after', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  cancelRequested: integer('cancel_requested', { mode: 'boolean' }).notNull().default(false),
+
+  // How the generation was requested
+  options: text('options', { mode: 'json' }).$type<GenerationOptions>(),
+
+  // Quota the generation counted against, handed back if it fails or is cancelled
+  chargedUserId: text('charged_user_id'),
+  chargedOrganizationId: text('charged_organization_id'), // Null for personal models
+
+  // Timestamps
+  startedAt: integer('started_at', { mode: 'timestamp' }),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+export const revisionSourceEnum = [
+  'generation', // Output of an LLM run
+  'manual', // Human edits captured before they were replaced
+  'restore', // Copy of an earlier revision
+] as const;
+
+// Threat Model Revisions table - immutable snapshot of each analysis, so
+// regenerating or restoring never loses earlier output
+export const threatModelRevisions = sqliteTable(
+  'threat_model_revisions',
+  {
+    id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+    threatModelId: text('threat_model_id')
+      .notNull()
+      .references(() => threatModels.id, { onDelete: 'cascade' }),
+    revisionNumber: integer('revision_number').notNull(),
+    source: text('source', { enum: revisionSourceEnum }).notNull().default('generation'),
+    restoredFromId: text('restored_from_id'),
+    jobId: text('job_id'),
+    createdBy: text('created_by'), // Clerk user ID
+
+    // What the analysis was based on
+    inputs: text('inputs', { mode: 'json' }).$type<RevisionInputs>().notNull(),
+    provider: text('provider'),
+    model: text('model'),
+
+    // Output
+    threats: text('threats', { mode: 'json' }).$type<Threat[]>().notNull(),
+    summary: text('summary'),
+    recommendations: text('recommendations', { mode: 'json' }).$type<string[]>().$defaultFn(() => []),
+    componentGraph: text('component_graph', { mode: 'json' }).$type<ComponentGraph | null>(),
+    generationReport: text('generation_report', { mode: 'json' }).$type<GenerationReport | null>(),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  },
+  (table) => [unique().on(table.threatModelId, table.revisionNumber)]
+);
+
+export const llmCallPurposeEnum = [
+  'generation',
+  'repair',
+  'digest',
+] as const;
+
+// LLM Usage table - one row per LLM call, kept after the threat model is
+// deleted so spend can still be budgeted
+export const llmUsage = sqliteTable('llm_usage', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id'), // Clerk user ID of the threat model owner
+  threatModelId: text('threat_model_id')
+    .references(() => threatModels.id, { onDelete: 'set null' }),
+  jobId: text('job_id'),
+  purpose: text('purpose', { enum: llmCallPurposeEnum }).notNull().default('generation'),
+
+  // Who answered
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+
+  // Cost
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  latencyMs: integer('latency_ms').notNull(),
+  estimatedCostUsd: real('estimated_cost_usd'), // Null when the model has no known pricing
+
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// User Usage table - generation quota per user, reset monthly
 export const userUsage = sqliteTable('user_usage', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   userId: text('user_id').notNull().unique(),
   generationsUsed: integer('generations_used').notNull().default(0),
-  generationsLimit: integer('generations_limit').notNull().default(5),
+  generationsLimit: integer('generations_limit').default(5), // Null means unlimited
+  periodStart: integer('period_start', { mode: 'timestamp' }), // Start of the month generationsUsed counts
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Organization Usage table - generation quota shared by an organization's threat models
+export const organizationUsage = sqliteTable('organization_usage', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organizationId: text('organization_id').notNull().unique(),
+  generationsUsed: integer('generations_used').notNull().default(0),
+  generationsLimit: integer('generations_limit'), // Null means unlimited
+  periodStart: integer('period_start', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Quota Changes table - every admin change to a user's or organization's quota
+export const quotaChanges = sqliteTable('quota_changes', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  scope: text('scope', { enum: quotaScopeEnum }).notNull(),
+  subjectId: text('subject_id').notNull(), // User or organization ID
+  changedBy: text('changed_by').notNull(), // Admin's Clerk user ID
+  previousLimit: integer('previous_limit'), // Null means unlimited
+  newLimit: integer('new_limit'),
+  previousUsed: integer('previous_used').notNull(),
+  newUsed: integer('new_used').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Organizations table - a team workspace whose members share threat models
+export const organizations = sqliteTable('organizations', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text('name').notNull(),
+  createdBy: text('created_by').notNull(), // Clerk user ID
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Organization Members table - one row per user per organization
+export const organizationMembers = sqliteTable(
+  'organization_members',
+  {
+    id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+    organizationId: text('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID
+    email: text('email'), // Shown in the member list when known
+    role: text('role', { enum: organizationRoleEnum }).notNull().default('viewer'),
+    addedBy: text('added_by'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  },
+  (table) => [unique().on(table.organizationId, table.userId)]
+);
+
+// Share Links table - each link has its own token, expiry and permissions, so
+// a model can be shared differently with different audiences
+export const shareLinks = sqliteTable('share_links', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  threatModelId: text('threat_model_id')
+    .notNull()
+    .references(() => threatModels.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  label: text('label'),
+  permissions: text('permissions', { mode: 'json' }).$type<Array<(typeof sharePermissionEnum)[number]>>().notNull(),
+  allowedEmails: text('allowed_emails', { mode: 'json' }).$type<string[]>().notNull().$defaultFn(() => []), // Empty means anyone with the link
+  passwordHash: text('password_hash'),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }),
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+  createdBy: text('created_by'), // Clerk user ID
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Share Link Accesses table - every request made with a share link, allowed or not
+export const shareLinkAccesses = sqliteTable('share_link_accesses', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  shareLinkId: text('share_link_id')
+    .notNull()
+    .references(() => shareLinks.id, { onDelete: 'cascade' }),
+  action: text('action', { enum: sharePermissionEnum }).notNull(),
+  format: text('format'), // Export format, for exports
+  allowed: integer('allowed', { mode: 'boolean' }).notNull(),
+  denialReason: text('denial_reason'),
+  email: text('email'), // Signed-in visitor, when the link is limited to emails
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Comments table - discussion threads on a threat, or on one of its
+// mitigations. Replies point at the thread's first comment
+export const comments = sqliteTable('comments', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  threatModelId: text('threat_model_id')
+    .notNull()
+    .references(() => threatModels.id, { onDelete: 'cascade' }),
+  threatId: text('threat_id').notNull(),
+  mitigationId: text('mitigation_id'),
+  parentId: text('parent_id').references((): AnySQLiteColumn => comments.id, { onDelete: 'cascade' }),
+  authorId: text('author_id'), // Clerk user ID, null for share link visitors who aren't signed in
+  authorName: text('author_name').notNull(),
+  authorEmail: text('author_email'),
+  shareLinkId: text('share_link_id').references(() => shareLinks.id, { onDelete: 'set null' }), // Posted through a share link
+  body: text('body').notNull(),
+  mentions: text('mentions', { mode: 'json' }).$type<string[]>().notNull().$defaultFn(() => []), // Mentioned emails
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+  resolvedBy: text('resolved_by'), // Display name
+  editedAt: integer('edited_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Comment Edits table - the body a comment had before each edit
+export const commentEdits = sqliteTable('comment_edits', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  commentId: text('comment_id')
+    .notNull()
+    .references(() => comments.id, { onDelete: 'cascade' }),
+  body: text('body').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // OAuth Tokens table
 export const oauthTokens = sqliteTable('oauth_tokens', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -178,6 +459,7 @@ interface Mitigation {
   priority: 'immediate' | 'short_term' | 'long_term';
   effort: 'low' | 'medium' | 'high';
   status: 'proposed' | 'accepted' | 'implemented' | 'rejected';
+  editedFields?: string[];
 }
 
 interface Threat {
@@ -190,8 +472,138 @@ interface Threat {
   impact: number;
   riskScore: number;
   affectedComponents: string[];
+  dfdElementIds?: string[];
   attackVector?: string;
   mitigations: Mitigation[];
+  editedFields?: string[];
+  refreshStatus?: 'new' | 'disappeared';
+}
+
+interface GenerationReport {
+  repairAttempts: number;
+  coercedFields: string[];
+  droppedFields: string[];
+  refresh?: {
+    matched: number;
+    added: number;
+    disappeared: number;
+    preservedEdits: number;
+  };
+  digest?: {
+    sources: number;
+    calls: number;
+    passes: number;
+  };
+}
+
+interface ComponentGraph {
+  components: {
+    id: string;
+    name: string;
+    type: 'client' | 'service' | 'data_store' | 'queue' | 'external';
+    trustZone?: string;
+  }[];
+  flows: { sourceId: string; targetId: string; label: string }[];
+}
+
+interface DfdElement {
+  id: string;
+  type: (typeof dfdElementTypeEnum)[number];
+  name: string;
+  description?: string;
+  x: number;
+  y: number;
+}
+
+interface DfdFlow {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  label: string;
+  protocol?: string;
+}
+
+interface DfdTrustBoundary {
+  id: string;
+  name: string;
+  elementIds: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface IacEntry {
+  name: string;
+  kind: string;
+  source: string;
+  details: string[];
+}
+
+interface IacInventory {
+  services: IacEntry[];
+  exposures: IacEntry[];
+  secrets: IacEntry[];
+  dataStores: IacEntry[];
+}
+
+interface ApiOperation {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  security: string[];
+  parameters: { name: string; in: string; required: boolean; type: string }[];
+  requestBody?: string;
+  responses: string[];
+  deprecated?: boolean;
+}
+
+interface ApiSpec {
+  title: string;
+  version: string;
+  specVersion: string;
+  servers: string[];
+  securitySchemes: { name: string; type: string; details: string }[];
+  operations: ApiOperation[];
+  models: { name: string; properties: string[]; sensitiveProperties: string[] }[];
+}
+
+interface DiagramGraph {
+  format: 'mermaid' | 'plantuml' | 'drawio';
+  kind: string;
+  direction: 'TB' | 'LR';
+  nodes: {
+    id: string;
+    label: string;
+    shape: 'box' | 'rounded' | 'circle' | 'diamond' | 'database' | 'actor' | 'cloud' | 'queue';
+    description?: string;
+    group?: string;
+  }[];
+  edges: { source: string; target: string; label?: string; bidirectional?: boolean }[];
+  groups: { id: string; label: string; parent?: string }[];
+}
+
+export interface GenerationSettings {
+  threatCount: number;
+  minSeverity: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  focusAreas: string[];
+}
+
+export interface GenerationOptions {
+  mode: 'full' | 'refresh';
+  settings?: GenerationSettings;
+}
+
+interface RevisionInputs {
+  title: string;
+  description: string | null;
+  systemDescription: string | null;
+  questionsAnswers: QuestionAnswer[];
+  files: { id: string; originalName: string; fileType: string; size: number }[];
+  jiraTickets: { issueKey: string; title: string }[];
+  settings?: GenerationSettings;
+  methodology?: (typeof methodologyEnum)[number];
 }
 
 // Export types
@@ -199,9 +611,33 @@ export type ThreatModelInsert = typeof threatModels.$inferInsert;
 export type ThreatModelSelect = typeof threatModels.$inferSelect;
 export type ContextFileInsert = typeof contextFiles.$inferInsert;
 export type ContextFileSelect = typeof contextFiles.$inferSelect;
+export type DataFlowDiagramInsert = typeof dataFlowDiagrams.$inferInsert;
+export type DataFlowDiagramSelect = typeof dataFlowDiagrams.$inferSelect;
 export type JiraTicketInsert = typeof jiraTickets.$inferInsert;
 export type JiraTicketSelect = typeof jiraTickets.$inferSelect;
 export type OAuthTokenInsert = typeof oauthTokens.$inferInsert;
 export type OAuthTokenSelect = typeof oauthTokens.$inferSelect;
+export type GenerationJobInsert = typeof generationJobs.$inferInsert;
+export type GenerationJobSelect = typeof generationJobs.$inferSelect;
+export type ThreatModelRevisionInsert = typeof threatModelRevisions.$inferInsert;
+export type ThreatModelRevisionSelect = typeof threatModelRevisions.$inferSelect;
+export type LlmUsageInsert = typeof llmUsage.$inferInsert;
+export type LlmUsageSelect = typeof llmUsage.$inferSelect;
 export type UserUsageInsert = typeof userUsage.$inferInsert;
 export type UserUsageSelect = typeof userUsage.$inferSelect;
+export type OrganizationUsageInsert = typeof organizationUsage.$inferInsert;
+export type OrganizationUsageSelect = typeof organizationUsage.$inferSelect;
+export type QuotaChangeInsert = typeof quotaChanges.$inferInsert;
+export type QuotaChangeSelect = typeof quotaChanges.$inferSelect;
+export type OrganizationInsert = typeof organizations.$inferInsert;
+export type OrganizationSelect = typeof organizations.$inferSelect;
+export type OrganizationMemberInsert = typeof organizationMembers.$inferInsert;
+export type OrganizationMemberSelect = typeof organizationMembers.$inferSelect;
+export type ShareLinkInsert = typeof shareLinks.$inferInsert;
+export type ShareLinkSelect = typeof shareLinks.$inferSelect;
+export type ShareLinkAccessInsert = typeof shareLinkAccesses.$inferInsert;
+export type ShareLinkAccessSelect = typeof shareLinkAccesses.$inferSelect;
+export type CommentInsert = typeof comments.$inferInsert;
+export type CommentSelect = typeof comments.$inferSelect;
+export type CommentEditInsert = typeof commentEdits.$inferInsert;
+export type CommentEditSelect = typeof commentEdits.$inferSelect;
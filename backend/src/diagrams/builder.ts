@@ -0,0 +1,113 @@
+import type { DiagramEdge, DiagramFormat, DiagramGraph, DiagramGroup, DiagramNode } from './types';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Plain text of a label: line breaks (`<br>`, `\n`) become spaces, HTML
+ * tags are dropped and entities decoded
+ */
+export function cleanLabel(text: string): string {
+  return text
+    .replace(/<br\s*\/?>|\\n/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+      name.startsWith('#') ? String.fromCharCode(Number(name.slice(1))) : ENTITIES[name.toLowerCase()] ?? entity
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Collects nodes, edges and nested groups while a source is read line by
+ * line. Nodes are created on first mention and take the group open at the
+ * time; a later declaration with a label can fill in their details.
+ */
+export class DiagramBuilder {
+  private nodes = new Map<string, DiagramNode>();
+  private edges: DiagramEdge[] = [];
+  private groups = new Map<string, DiagramGroup>();
+  private openGroups: string[] = [];
+
+  get currentGroup(): string | undefined {
+    return this.openGroups.at(-1);
+  }
+
+  hasNode(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  node(id: string, details: Partial<Pick<DiagramNode, 'label' | 'shape' | 'description'>> = {}): string {
+    const existing = this.nodes.get(id);
+    const label = details.label !== undefined ? cleanLabel(details.label) : undefined;
+
+    if (!existing) {
+      this.nodes.set(id, {
+        id,
+        label: label || id,
+        shape: details.shape ?? 'box',
+        ...(details.description && { description: cleanLabel(details.description) }),
+        ...(this.currentGroup && { group: this.currentGroup }),
+      });
+      return id;
+    }
+
+    if (label) existing.label = label;
+    if (details.shape) existing.shape = details.shape;
+    if (details.description) existing.description = cleanLabel(details.description);
+    // A declaration inside a group moves a node that was mentioned earlier
+    if ((label || details.shape) && this.currentGroup) existing.group = this.currentGroup;
+    return id;
+  }
+
+  edge(source: string, target: string, label?: string, bidirectional = false): void {
+    const text = label ? cleanLabel(label) : '';
+    this.edges.push({
+      source,
+      target,
+      ...(text && { label: text }),
+      ...(bidirectional && { bidirectional }),
+    });
+  }
+
+  openGroup(id: string, label: string): void {
+    if (!this.groups.has(id)) {
+      this.groups.set(id, {
+        id,
+        label: cleanLabel(label) || id,
+        ...(this.currentGroup && { parent: this.currentGroup }),
+      });
+    }
+    this.openGroups.push(id);
+  }
+
+  closeGroup(): void {
+    this.openGroups.pop();
+  }
+
+  /**
+   * The finished graph, without edges to unknown nodes or empty groups.
+   * Throws if the source had no nodes.
+   */
+  build(format: DiagramFormat, kind: string, direction: DiagramGraph['direction']): DiagramGraph {
+    const nodes = [...this.nodes.values()];
+    if (nodes.length === 0) {
+      throw new Error('no nodes found');
+    }
+
+    const used = new Set(nodes.flatMap((node) => (node.group ? [node.group] : [])));
+    for (const id of [...used]) {
+      for (let parent = this.groups.get(id)?.parent; parent; parent = this.groups.get(parent)?.parent) {
+        used.add(parent);
+      }
+    }
+
+    return {
+      format,
+      kind,
+      direction,
+      nodes,
+      edges: this.edges.filter((edge) => this.nodes.has(edge.source) && this.nodes.has(edge.target)),
+      groups: [...this.groups.values()].filter((group) => used.has(group.id)),
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DRAWIO_MIME_TYPE,
+  MERMAID_MIME_TYPE,
+  PLANTUML_MIME_TYPE,
+  readDiagram,
+  renderDiagram,
+  type DiagramGraph,
+} from '.';
+import { MAX_RENDERED_NODES } from './render';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chain(length: number): DiagramGraph {
+  const nodes = Array.from({ length }, (_, i) => ({ id: `n${i}`, label: `Service ${i}`, shape: 'box' as const }));
+  return {
+    format: 'mermaid',
+    kind: 'flowchart',
+    direction: 'TB',
+    nodes,
+    edges: nodes.slice(1).map((node, i) => ({ source: nodes[i].id, target: node.id })),
+    groups: [],
+  };
+}
+
+describe('readDiagram', () => {
+  test('picks the parser from the MIME type and normalises line endings', () => {
+    const source = Buffer.from('flowchart LR\r\n  web[Web] --> api[API]\r\n');
+
+    expect(readDiagram(source, MERMAID_MIME_TYPE, 'shop.mmd')).toMatchObject({
+      format: 'mermaid',
+      nodes: [{ id: 'web' }, { id: 'api' }],
+    });
+    expect(readDiagram(source, 'text/plain', 'shop.txt')).toBeNull();
+  });
+
+  test('names the file and format when a source cannot be read', () => {
+    expect(() => readDiagram(Buffer.from('erDiagram'), MERMAID_MIME_TYPE, 'schema.mmd')).toThrow(
+      'schema.mmd could not be read as a Mermaid diagram: unsupported Mermaid diagram type "erDiagram"'
+    );
+    expect(() => readDiagram(Buffer.from('@startuml\n@enduml'), PLANTUML_MIME_TYPE, 'empty.puml')).toThrow(
+      'empty.puml could not be read as a PlantUML diagram: no nodes found'
+    );
+    expect(() => readDiagram(Buffer.from('<svg/>'), DRAWIO_MIME_TYPE, 'logo.drawio')).toThrow(
+      'logo.drawio could not be read as a draw.io diagram: not a draw.io file'
+    );
+  });
+});
+
+describe('renderDiagram', () => {
+  test('renders a PNG', () => {
+    const diagram = readDiagram(
+      Buffer.from('flowchart LR\n  user((Customer)) -->|HTTPS| api([API]) --> db[(Orders)]'),
+      MERMAID_MIME_TYPE,
+      'shop.mmd'
+    )!;
+
+    const png = renderDiagram(diagram, 'shop.mmd', new Map([['api', { text: '3', color: '#dc2626' }]]));
+
+    expect(png).not.toBeNull();
+    expect(png!.subarray(0, PNG_SIGNATURE.length)).toEqual(PNG_SIGNATURE);
+  });
+
+  test('falls back to text only for diagrams over the node limit', () => {
+    expect(renderDiagram(chain(MAX_RENDERED_NODES + 1), 'huge.mmd')).toBeNull();
+  });
+});
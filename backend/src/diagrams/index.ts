@@ -0,0 +1,120 @@
+/**
+ * Architecture Diagram Module Exports
+ *
+ * Usage:
+ *   import { readDiagram, renderDiagram, buildDiagramContext } from './diagrams';
+ *   const diagram = readDiagram(buffer, mimeType, file.name);
+ *   const png = diagram && renderDiagram(diagram, file.name);
+ */
+
+import type { DiagramFormat, DiagramGraph, NodeBadge } from './types';
+import { parseMermaid } from './parsers/mermaid';
+import { parsePlantUml } from './parsers/plantuml';
+import { parseDrawio } from './parsers/drawio';
+import { MAX_RENDERED_NODES, renderDiagramPng } from './render';
+
+// Types
+export type { DiagramFormat, DiagramGraph, DiagramNode, DiagramEdge, DiagramGroup, DiagramShape, NodeBadge } from './types';
+
+export const MERMAID_MIME_TYPE = 'text/vnd.mermaid';
+export const PLANTUML_MIME_TYPE = 'text/x-plantuml';
+export const DRAWIO_MIME_TYPE = 'application/vnd.jgraph.mxfile';
+
+const FORMAT_LABELS: Record<DiagramFormat, string> = {
+  mermaid: 'Mermaid',
+  plantuml: 'PlantUML',
+  drawio: 'draw.io',
+};
+
+const PARSERS: Record<string, [DiagramFormat, (source: string) => DiagramGraph]> = {
+  [MERMAID_MIME_TYPE]: ['mermaid', parseMermaid],
+  [PLANTUML_MIME_TYPE]: ['plantuml', parsePlantUml],
+  [DRAWIO_MIME_TYPE]: ['drawio', parseDrawio],
+};
+
+export function isDiagramSource(mimeType: string): boolean {
+  return mimeType in PARSERS;
+}
+
+/**
+ * Parse a Mermaid, PlantUML or draw.io upload. Returns null for other
+ * formats and throws, with the reason, for sources that can't be read.
+ */
+export function readDiagram(data: Buffer, mimeType: string, filename: string): DiagramGraph | null {
+  if (!(mimeType in PARSERS)) return null;
+  const [format, parse] = PARSERS[mimeType];
+
+  try {
+    return parse(data.toString('utf-8').replace(/\r\n?/g, '\n'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${filename} could not be read as a ${FORMAT_LABELS[format]} diagram: ${reason}`);
+  }
+}
+
+/**
+ * Render a diagram to PNG, with optional badges keyed by node ID. Returns
+ * null for diagrams too large to lay out legibly or if rendering fails, which
+ * is logged rather than thrown so the source can still be used as text.
+ */
+export function renderDiagram(
+  diagram: DiagramGraph,
+  filename: string,
+  badges?: Map<string, NodeBadge>
+): Buffer | null {
+  if (diagram.nodes.length > MAX_RENDERED_NODES) {
+    console.warn(`Not rendering "${filename}": ${diagram.nodes.length} nodes is over the ${MAX_RENDERED_NODES} node limit`);
+    return null;
+  }
+
+  try {
+    return renderDiagramPng(diagram, badges);
+  } catch (error) {
+    console.warn(`Could not render "${filename}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Render a diagram's structure for the analysis request
+ */
+export function buildDiagramContext(diagram: DiagramGraph, filename: string): string {
+  const labels = new Map(diagram.nodes.map((node) => [node.id, node.label]));
+  const groups = new Map(diagram.groups.map((group) => [group.id, group.label]));
+
+  let context = `## Architecture Diagram: ${filename} (${FORMAT_LABELS[diagram.format]} ${diagram.kind})\n`;
+
+  context += `\n### Components (${diagram.nodes.length})\n`;
+  context += diagram.nodes
+    .map((node) => {
+      const shape = node.shape === 'box' || node.shape === 'rounded' ? '' : ` (${node.shape})`;
+      const group = node.group ? ` in ${groups.get(node.group)}` : '';
+      const description = node.description ? `: ${node.description}` : '';
+      return `- ${node.label}${shape}${group}${description}`;
+    })
+    .join('\n');
+
+  if (diagram.edges.length > 0) {
+    context += `\n\n### Connections (${diagram.edges.length})\n`;
+    context += diagram.edges
+      .map((edge) => {
+        const arrow = edge.bidirectional ? '<->' : '->';
+        const label = edge.label ? `: ${edge.label}` : '';
+        return `- ${labels.get(edge.source)} ${arrow} ${labels.get(edge.target)}${label}`;
+      })
+      .join('\n');
+  }
+
+  if (diagram.groups.length > 0) {
+    context += `\n\n### Groups\n`;
+    context += diagram.groups
+      .map((group) => {
+        const parent = group.parent ? ` (inside ${groups.get(group.parent)})` : '';
+        const members = diagram.nodes.filter((node) => node.group === group.id).map((node) => node.label);
+        return `- ${group.label}${parent}: ${members.join(', ') || 'nested groups only'}`;
+      })
+      .join('\n');
+  }
+
+  return context;
+}
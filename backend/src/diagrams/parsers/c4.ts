@@ -0,0 +1,95 @@
+import type { DiagramBuilder } from '../builder';
+import type { DiagramShape } from '../types';
+
+/**
+ * C4 model macros, shared by C4-PlantUML and Mermaid's C4 diagrams:
+ * `Person(alias, "Label", "Description")`, `Container(alias, "Label",
+ * "Technology", "Description")`, `Rel(from, to, "Label", "Technology")` and
+ * boundaries opened with `{`.
+ */
+
+const ELEMENT = /^(Person|System|Container|Component)(Db|Queue)?(_Ext)?$/;
+const BOUNDARY = /^(Enterprise_Boundary|System_Boundary|Container_Boundary|Boundary|Deployment_Node(?:_[LR])?|Node(?:_[LR])?)$/;
+const RELATION = /^(Bi)?Rel(_Back)?(?:_(?:Up|Down|Left|Right|U|D|L|R|Neighbor))?(_Back)?(?:_Neighbor)?$/;
+const MACRO_CALL = /^(\w+)\s*\((.*)\)\s*(\{)?\s*$/;
+
+/**
+ * Split macro arguments on commas outside quotes, dropping named arguments
+ * such as `$tags="..."`
+ */
+function splitArgs(args: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of args) {
+    if (char === '"') quoted = !quoted;
+    if (char === ',' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => part.trim())
+    .filter((part) => !part.startsWith('$'))
+    .map((part) => part.replace(/^"(.*)"$/, '$1'));
+}
+
+function shapeOf(type: string, variant?: string): DiagramShape {
+  if (type === 'Person') return 'actor';
+  if (variant === 'Db') return 'database';
+  if (variant === 'Queue') return 'queue';
+  return type === 'System' ? 'box' : 'rounded';
+}
+
+/**
+ * Read one C4 macro line into the builder. Returns false for lines that
+ * aren't C4 macros.
+ */
+export function parseC4Line(line: string, builder: DiagramBuilder): boolean {
+  const match = MACRO_CALL.exec(line);
+  if (!match) return false;
+  const [, macro, rawArgs, opensGroup] = match;
+  const args = splitArgs(rawArgs);
+
+  const element = ELEMENT.exec(macro);
+  if (element && args[0]) {
+    const [, type, variant] = element;
+    const [alias, label, ...details] = args;
+    // Person and System take a description; containers and components a technology first
+    const description = type === 'Person' || type === 'System' ? details[0] : details.filter(Boolean).join(': ');
+    builder.node(alias, { label: label || alias, shape: shapeOf(type, variant), description });
+    return true;
+  }
+
+  if (BOUNDARY.test(macro) && args[0]) {
+    const [alias, label, type] = args;
+    if (opensGroup) {
+      builder.openGroup(alias, type ? `${label || alias} (${type})` : label || alias);
+    } else {
+      builder.node(alias, { label: label || alias, shape: 'box', description: type });
+    }
+    return true;
+  }
+
+  const relation = RELATION.exec(macro);
+  if (relation && args[0] && args[1]) {
+    const [, bidirectional, back, backSuffix] = relation;
+    const [from, to, label, technology] = args;
+    const text = technology ? `${label} (${technology})` : label;
+    builder.node(from);
+    builder.node(to);
+    if (back || backSuffix) {
+      builder.edge(to, from, text, Boolean(bidirectional));
+    } else {
+      builder.edge(from, to, text, Boolean(bidirectional));
+    }
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { deflateSync, strToU8 } from 'fflate';
+import { parseDrawio } from './drawio';
+
+const MODEL = `<mxGraphModel><root>
+  <mxCell id="0"/>
+  <mxCell id="1" parent="0"/>
+  <mxCell id="vpc" value="VPC" style="swimlane" vertex="1" parent="1"/>
+  <mxCell id="api" value="API" style="rounded=1" vertex="1" parent="vpc"/>
+  <mxCell id="db" value="Orders" style="shape=cylinder3" vertex="1" parent="vpc"/>
+  <object id="user" label="Customer"><mxCell style="shape=umlActor" vertex="1" parent="1"/></object>
+  <mxCell id="note" value="Draft" style="text;html=1" vertex="1" parent="1"/>
+  <mxCell id="e1" style="endArrow=classic" edge="1" parent="1" source="user" target="api"/>
+  <mxCell id="e1-label" value="HTTPS" style="edgeLabel" vertex="1" parent="e1"/>
+  <mxCell id="e2" value="SQL" style="startArrow=classic" edge="1" parent="1" source="api" target="db"/>
+</root></mxGraphModel>`;
+
+// How draw.io saves pages when compression is on
+const compress = (xml: string) => Buffer.from(deflateSync(strToU8(encodeURIComponent(xml)))).toString('base64');
+
+describe('parseDrawio', () => {
+  test('turns containers into groups and reads edge labels and wrapped cells', () => {
+    const diagram = parseDrawio(`<mxfile><diagram name="Prod">${MODEL}</diagram></mxfile>`);
+
+    expect(diagram).toEqual({
+      format: 'drawio',
+      kind: 'diagram',
+      direction: 'TB',
+      nodes: [
+        { id: 'api', label: 'API', shape: 'rounded', group: 'vpc' },
+        { id: 'db', label: 'Orders', shape: 'database', group: 'vpc' },
+        { id: 'user', label: 'Customer', shape: 'actor' },
+      ],
+      edges: [
+        { source: 'user', target: 'api', label: 'HTTPS' },
+        { source: 'api', target: 'db', label: 'SQL', bidirectional: true },
+      ],
+      groups: [{ id: 'vpc', label: 'VPC' }],
+    });
+  });
+
+  test('inflates compressed pages and keeps each page apart', () => {
+    const diagram = parseDrawio(
+      `<mxfile><diagram name="Prod">${compress(MODEL)}</diagram><diagram name="Staging">${MODEL}</diagram></mxfile>`
+    );
+
+    expect(diagram.kind).toBe('2 pages');
+    expect(diagram.nodes.map((node) => node.id)).toEqual(['1:api', '1:db', '1:user', '2:api', '2:db', '2:user']);
+    expect(diagram.edges).toContainEqual({ source: '1:user', target: '1:api', label: 'HTTPS' });
+    expect(diagram.groups).toEqual([
+      { id: 'page-1', label: 'Prod' },
+      { id: '1:vpc', label: 'VPC', parent: 'page-1' },
+      { id: 'page-2', label: 'Staging' },
+      { id: '2:vpc', label: 'VPC', parent: 'page-2' },
+    ]);
+  });
+
+  test('throws for XML that is not a draw.io file', () => {
+    expect(() => parseDrawio('<svg xmlns="http://www.w3.org/2000/svg"/>')).toThrow('not a draw.io file');
+  });
+});
@@ -0,0 +1,146 @@
+import { XMLParser } from 'fast-xml-parser';
+import { inflateSync, strFromU8 } from 'fflate';
+import { DiagramBuilder } from '../builder';
+import type { DiagramGraph, DiagramShape } from '../types';
+
+/**
+ * draw.io / diagrams.net files: an `mxfile` of one or more pages, each an
+ * `mxGraphModel` that may be stored deflated. Vertices become nodes, vertices
+ * that contain others become groups, and edges between vertices become
+ * edges. With several pages each page is a group.
+ */
+
+interface Cell {
+  id: string;
+  value: string;
+  style: string;
+  vertex: boolean;
+  edge: boolean;
+  parent?: string;
+  source?: string;
+  target?: string;
+}
+
+type XmlNode = Record<string, any>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseAttributeValue: false,
+  isArray: (name) => ['diagram', 'mxCell', 'object', 'UserObject'].includes(name),
+});
+
+function shapeOf(style: string): DiagramShape {
+  const s = style.toLowerCase();
+  if (/cylinder|datastore|database|storage|\.(rds|dynamo_db|sql\w*)\b/.test(s)) return 'database';
+  if (/umlactor|shape=actor|\.(user|users|person)\b/.test(s)) return 'actor';
+  if (/cloud/.test(s)) return 'cloud';
+  if (/queue|\.sqs\b/.test(s)) return 'queue';
+  if (/rhombus/.test(s)) return 'diamond';
+  if (/(^|;)ellipse|shape=(double)?ellipse/.test(s)) return 'circle';
+  if (/rounded=1/.test(s)) return 'rounded';
+  return 'box';
+}
+
+function toCell(xml: XmlNode, wrapper?: XmlNode): Cell {
+  return {
+    id: String(wrapper?.id ?? xml.id ?? ''),
+    value: String(wrapper?.label ?? xml.value ?? ''),
+    style: String(xml.style ?? ''),
+    vertex: xml.vertex === '1',
+    edge: xml.edge === '1',
+    parent: xml.parent,
+    source: xml.source,
+    target: xml.target,
+  };
+}
+
+/**
+ * The cells of a page, inflating pages saved in draw.io's compressed form
+ */
+function readCells(diagram: XmlNode): Cell[] {
+  let model = diagram.mxGraphModel as XmlNode | undefined;
+  const compressed = typeof diagram === 'string' ? diagram : diagram['#text'];
+  if (!model && typeof compressed === 'string' && compressed.trim()) {
+    const xml = decodeURIComponent(strFromU8(inflateSync(Buffer.from(compressed.trim(), 'base64'))));
+    model = parser.parse(xml).mxGraphModel;
+  }
+
+  const root = model?.root as XmlNode | undefined;
+  if (!root) return [];
+
+  // Cells with custom properties are wrapped in <object> or <UserObject>
+  const wrapped = [...(root.object ?? []), ...(root.UserObject ?? [])] as XmlNode[];
+  return [
+    ...((root.mxCell ?? []) as XmlNode[]).map((cell) => toCell(cell)),
+    ...wrapped.flatMap((wrapper) => (wrapper.mxCell ?? []).map((cell: XmlNode) => toCell(cell, wrapper))),
+  ];
+}
+
+function addPage(cells: Cell[], prefix: string, builder: DiagramBuilder): void {
+  const byId = new Map(cells.map((cell) => [cell.id, cell]));
+  const edges = cells.filter((cell) => cell.edge && cell.source && cell.target);
+  const connected = new Set(edges.flatMap((edge) => [edge.source, edge.target]));
+
+  // Labels on edges are often separate vertices whose parent is the edge
+  const edgeLabels = new Map<string, string[]>();
+  const children = new Map<string, Cell[]>();
+  for (const cell of cells) {
+    if (!cell.vertex || !cell.parent) continue;
+    if (byId.get(cell.parent)?.edge) {
+      edgeLabels.set(cell.parent, [...(edgeLabels.get(cell.parent) ?? []), cell.value]);
+    } else {
+      children.set(cell.parent, [...(children.get(cell.parent) ?? []), cell]);
+    }
+  }
+
+  const visit = (parentId: string) => {
+    for (const cell of children.get(parentId) ?? []) {
+      if (children.has(cell.id)) {
+        builder.openGroup(prefix + cell.id, cell.value || 'Group');
+        visit(cell.id);
+        builder.closeGroup();
+      } else if (!/^text;/.test(cell.style) || connected.has(cell.id)) {
+        // Free-standing text is annotation, not a component
+        builder.node(prefix + cell.id, { label: cell.value || cell.id, shape: shapeOf(cell.style) });
+      }
+    }
+  };
+
+  // Top-level cells sit on layers, which are the children of the root cell
+  for (const layer of cells.filter((cell) => !cell.vertex && !cell.edge && cell.parent)) {
+    visit(layer.id);
+  }
+
+  for (const edge of edges) {
+    const label = [edge.value, ...(edgeLabels.get(edge.id) ?? [])].filter(Boolean).join(' ');
+    const bidirectional = /startArrow=(?!none)/.test(edge.style);
+    builder.edge(prefix + edge.source, prefix + edge.target, label, bidirectional);
+  }
+}
+
+/**
+ * Parse a draw.io file. Throws if it isn't one or has no shapes.
+ */
+export function parseDrawio(source: string): DiagramGraph {
+  const document = parser.parse(source) as XmlNode;
+  const pages: XmlNode[] = document.mxfile?.diagram ?? (document.mxGraphModel ? [document] : []);
+  if (pages.length === 0) {
+    throw new Error('not a draw.io file (no mxfile or mxGraphModel element)');
+  }
+
+  const builder = new DiagramBuilder();
+  pages.forEach((page, i) => {
+    const cells = readCells(page);
+    if (pages.length === 1) {
+      addPage(cells, '', builder);
+      return;
+    }
+    // Cell IDs are only unique within a page
+    builder.openGroup(`page-${i + 1}`, page.name || `Page ${i + 1}`);
+    addPage(cells, `${i + 1}:`, builder);
+    builder.closeGroup();
+  });
+
+  return builder.build('drawio', pages.length > 1 ? `${pages.length} pages` : 'diagram', 'TB');
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { parseMermaid } from './mermaid';
+
+describe('parseMermaid', () => {
+  test('reads flowchart shapes, link labels and nested subgraphs', () => {
+    const diagram = parseMermaid(`---
+title: Shop
+---
+flowchart LR
+  %% Customers come in through the web app
+  subgraph aws [AWS]
+    api([API]) -- reads --> db[(Orders DB)]
+    subgraph private [Private subnet]
+      worker[Worker]; api <--> queue{{Events}}
+    end
+  end
+  user((Customer)) -->|HTTPS| api
+  classDef hot fill:#f00`);
+
+    expect(diagram).toEqual({
+      format: 'mermaid',
+      kind: 'flowchart',
+      direction: 'LR',
+      nodes: [
+        { id: 'api', label: 'API', shape: 'rounded', group: 'aws' },
+        { id: 'db', label: 'Orders DB', shape: 'database', group: 'aws' },
+        { id: 'worker', label: 'Worker', shape: 'box', group: 'private' },
+        { id: 'queue', label: 'Events', shape: 'diamond', group: 'private' },
+        { id: 'user', label: 'Customer', shape: 'circle' },
+      ],
+      edges: [
+        { source: 'api', target: 'db', label: 'reads' },
+        { source: 'api', target: 'queue', bidirectional: true },
+        { source: 'user', target: 'api', label: 'HTTPS' },
+      ],
+      groups: [
+        { id: 'aws', label: 'AWS' },
+        { id: 'private', label: 'Private subnet', parent: 'aws' },
+      ],
+    });
+  });
+
+  test('keeps participants and messages of sequence diagrams, ignoring control blocks', () => {
+    const diagram = parseMermaid(`sequenceDiagram
+  participant B as Browser
+  box Backend
+  participant A as API
+  end
+  loop retry
+  B->>A: POST /orders
+  end
+  A-->>B: 201`);
+
+    expect(diagram).toMatchObject({
+      kind: 'sequence',
+      nodes: [
+        { id: 'B', label: 'Browser' },
+        { id: 'A', label: 'API', group: 'box-Backend' },
+      ],
+      edges: [
+        { source: 'B', target: 'A', label: 'POST /orders' },
+        { source: 'A', target: 'B', label: '201' },
+      ],
+      groups: [{ id: 'box-Backend', label: 'Backend' }],
+    });
+  });
+
+  test('reads C4 elements, boundaries and relationships', () => {
+    const diagram = parseMermaid(`C4Container
+  Person(user, "Customer")
+  System_Boundary(shop, "Shop") {
+    Container(api, "API", "Go", "Handles orders")
+    ContainerDb(db, "Orders", "PostgreSQL")
+  }
+  Rel(user, api, "Uses", "HTTPS")`);
+
+    expect(diagram).toMatchObject({
+      kind: 'C4 container',
+      nodes: [
+        { id: 'user', shape: 'actor' },
+        { id: 'api', shape: 'rounded', description: 'Go: Handles orders', group: 'shop' },
+        { id: 'db', shape: 'database', description: 'PostgreSQL', group: 'shop' },
+      ],
+      edges: [{ source: 'user', target: 'api', label: 'Uses (HTTPS)' }],
+    });
+  });
+
+  test('rejects diagram types that do not describe components', () => {
+    expect(() => parseMermaid('classDiagram\n  Order <|-- RushOrder')).toThrow(
+      'unsupported Mermaid diagram type "classDiagram"'
+    );
+    expect(() => parseMermaid('flowchart TD\n  %% nothing yet')).toThrow('no nodes found');
+  });
+});
@@ -0,0 +1,208 @@
+import { DiagramBuilder } from '../builder';
+import type { DiagramGraph, DiagramShape } from '../types';
+import { parseC4Line } from './c4';
+
+/**
+ * Mermaid flowcharts (`flowchart` / `graph`), sequence diagrams and C4
+ * diagrams. Other Mermaid diagram types (class, ER, state, gantt) don't
+ * describe a system's components and are rejected.
+ */
+
+const HEADER = /^(flowchart(?:-elk)?|graph|sequenceDiagram|C4Context|C4Container|C4Component|C4Dynamic|C4Deployment)\b\s*(\w+)?/;
+
+// Bracket pairs around a node's label, longest first
+const NODE_SHAPES: Array<[open: string, close: string, shape: DiagramShape]> = [
+  ['(((', ')))', 'circle'],
+  ['((', '))', 'circle'],
+  ['([', '])', 'rounded'],
+  ['[(', ')]', 'database'],
+  ['[[', ']]', 'box'],
+  ['{{', '}}', 'diamond'],
+  ['[/', '/]', 'box'],
+  ['[/', '\\]', 'box'],
+  ['[\\', '\\]', 'box'],
+  ['[\\', '/]', 'box'],
+  ['(', ')', 'rounded'],
+  ['[', ']', 'box'],
+  ['{', '}', 'diamond'],
+  ['>', ']', 'box'],
+];
+
+const NODE_ID = /^\s*([\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*)/u;
+const CLASS_SUFFIX = /^:::[\w-]+/;
+// `-- text -->`, `-. text .->`, `== text ==>`
+const TEXT_LINK = /^\s*(<?)(?:--|==|-\.)\s+([^\s\->=.][^>]*?)\s+(?:-{2,}|={2,}|\.-+)([>xo]?)\s*/;
+// `-->`, `---`, `-.->`, `==>`, `<-->`, `~~~`, with an optional `|text|`
+const LINK = /^\s*(<?)(?:-{2,}|={2,}|-\.+-|~{3,})([>xo]?)(?:\s*\|([^|]*)\|)?\s*/;
+
+const IGNORED = /^(classDef|class|style|linkStyle|click|direction|accTitle|accDescr|title)\b/;
+
+/**
+ * A node reference with an optional label, e.g. `api[API Server]:::service`
+ */
+function readNode(text: string, builder: DiagramBuilder): { id: string; rest: string } | null {
+  const idMatch = NODE_ID.exec(text);
+  if (!idMatch) return null;
+  const id = idMatch[1];
+  let rest = text.slice(idMatch[0].length);
+
+  for (const [open, close, shape] of NODE_SHAPES) {
+    if (!rest.startsWith(open)) continue;
+
+    const body = rest.slice(open.length);
+    let label: string;
+    let end: number;
+    if (body.startsWith('"')) {
+      const quoteEnd = body.indexOf('"', 1);
+      if (quoteEnd === -1 || !body.slice(quoteEnd + 1).startsWith(close)) continue;
+      label = body.slice(1, quoteEnd);
+      end = quoteEnd + 1 + close.length;
+    } else {
+      const closeAt = body.indexOf(close);
+      if (closeAt === -1) continue;
+      label = body.slice(0, closeAt);
+      end = closeAt + close.length;
+    }
+
+    builder.node(id, { label: label.replace(/^`|`$/g, ''), shape });
+    rest = body.slice(end);
+    break;
+  }
+
+  if (!builder.hasNode(id)) builder.node(id);
+  return { id, rest: rest.replace(CLASS_SUFFIX, '') };
+}
+
+/**
+ * Nodes joined with `&`, e.g. `a & b --> c`
+ */
+function readNodeList(text: string, builder: DiagramBuilder): { ids: string[]; rest: string } | null {
+  const ids: string[] = [];
+  let rest = text;
+
+  for (;;) {
+    const node = readNode(rest, builder);
+    if (!node) return ids.length > 0 ? { ids, rest } : null;
+    ids.push(node.id);
+    rest = node.rest;
+    const separator = /^\s*&\s*/.exec(rest);
+    if (!separator) return { ids, rest };
+    rest = rest.slice(separator[0].length);
+  }
+}
+
+function parseFlowchartStatement(statement: string, builder: DiagramBuilder): void {
+  const subgraph = /^subgraph\s+(.+)$/.exec(statement);
+  if (subgraph) {
+    // `subgraph id [Title]`, `subgraph id["Title"]` or `subgraph Title`
+    const title = subgraph[1].trim();
+    const withId = /^([\w-]+)\s*\[\s*"?(.*?)"?\s*\]$/.exec(title);
+    const label = withId ? withId[2] : title.replace(/^"(.*)"$/, '$1');
+    builder.openGroup(withId ? withId[1] : label, label);
+    return;
+  }
+  if (statement === 'end') {
+    builder.closeGroup();
+    return;
+  }
+  if (IGNORED.test(statement)) return;
+
+  let sources = readNodeList(statement, builder);
+  while (sources) {
+    const textLink = TEXT_LINK.exec(sources.rest);
+    const link = textLink ?? LINK.exec(sources.rest);
+    if (!link) return;
+    const [matched, leftArrow] = link;
+    const rightArrow = textLink ? textLink[3] : link[2];
+    const label = (textLink ? textLink[2] : link[3])?.replace(/^"(.*)"$/, '$1');
+
+    const targets = readNodeList(sources.rest.slice(matched.length), builder);
+    if (!targets) return;
+    // ~~~ only positions nodes, it isn't a connection
+    if (!matched.includes('~~~')) {
+      for (const source of sources.ids) {
+        for (const target of targets.ids) {
+          builder.edge(source, target, label, Boolean(leftArrow) && rightArrow === '>');
+        }
+      }
+    }
+    sources = targets;
+  }
+}
+
+const PARTICIPANT = /^(participant|actor)\s+("?)([^"]+?)\2(?:\s+as\s+(.+))?$/;
+const MESSAGE = /^([^\s\-<>+:]+?)\s*(<<)?--?(?:>>|>|x|\))\s*[+-]?\s*([^\s:]+)\s*:\s*(.*)$/;
+
+function parseSequenceStatement(statement: string, builder: DiagramBuilder): void {
+  const box = /^box\b\s*(.*)$/.exec(statement);
+  if (box) {
+    // `box Aqua Frontend`: the colour is optional
+    const label = box[1].replace(/^(rgba?\([^)]*\)|transparent|\w+\s+(?=\S))/, '').trim() || 'Group';
+    builder.openGroup(`box-${label}`, label);
+    return;
+  }
+  const participant = PARTICIPANT.exec(statement);
+  if (participant) {
+    const [, keyword, , id, label] = participant;
+    builder.node(id, { label: label ?? id, shape: keyword === 'actor' ? 'actor' : 'box' });
+    return;
+  }
+
+  const message = MESSAGE.exec(statement);
+  if (message) {
+    const [, from, both, to, text] = message;
+    builder.node(from);
+    builder.node(to);
+    builder.edge(from, to, text, Boolean(both));
+  }
+}
+
+/**
+ * Parse Mermaid source. Throws if the diagram type isn't supported or it has no nodes.
+ */
+export function parseMermaid(source: string): DiagramGraph {
+  const lines = source
+    // Front matter and init directives
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .split('\n')
+    .map((line) => line.replace(/%%.*$/, '').trim())
+    .filter(Boolean);
+
+  const header = HEADER.exec(lines[0] ?? '');
+  if (!header) {
+    throw new Error(`unsupported Mermaid diagram type "${(lines[0] ?? '').split(/\s/)[0]}"`);
+  }
+
+  const [, type, orientation] = header;
+  const builder = new DiagramBuilder();
+  // Sequence blocks (loop, alt...) end with `end` too, so boxes are matched against them
+  const sequenceBlocks: boolean[] = [];
+
+  for (const line of lines.slice(1)) {
+    if (type === 'sequenceDiagram') {
+      if (/^(loop|alt|opt|par|critical|break|rect)\b/.test(line)) {
+        sequenceBlocks.push(false);
+      } else if (/^box\b/.test(line)) {
+        sequenceBlocks.push(true);
+        parseSequenceStatement(line, builder);
+      } else if (line === 'end') {
+        if (sequenceBlocks.pop()) builder.closeGroup();
+      } else {
+        parseSequenceStatement(line, builder);
+      }
+    } else if (type.startsWith('C4')) {
+      if (line === '}') builder.closeGroup();
+      else parseC4Line(line, builder);
+    } else {
+      for (const statement of line.split(';')) {
+        if (statement.trim()) parseFlowchartStatement(statement.trim(), builder);
+      }
+    }
+  }
+
+  if (type === 'sequenceDiagram') return builder.build('mermaid', 'sequence', 'LR');
+  if (type.startsWith('C4')) {
+    return builder.build('mermaid', `C4 ${type.slice(2).toLowerCase()}`, 'TB');
+  }
+  return builder.build('mermaid', 'flowchart', orientation && /^(LR|RL)$/.test(orientation) ? 'LR' : 'TB');
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { parsePlantUml } from './plantuml';
+
+describe('parsePlantUml', () => {
+  test('reads declared and inline elements, packages and arrow directions', () => {
+    const diagram = parsePlantUml(`@startuml
+left to right direction
+' Deployed in the shop account
+actor Customer
+package "Backend" {
+  component [API] as api
+  database "Orders" as db
+}
+queue Events
+Customer --> api : HTTPS
+api --> db : SQL
+db <-- Events
+@enduml`);
+
+    expect(diagram).toEqual({
+      format: 'plantuml',
+      kind: 'component',
+      direction: 'LR',
+      nodes: [
+        { id: 'Customer', label: 'Customer', shape: 'actor' },
+        { id: 'api', label: 'API', shape: 'box', group: 'Backend' },
+        { id: 'db', label: 'Orders', shape: 'database', group: 'Backend' },
+        { id: 'Events', label: 'Events', shape: 'queue' },
+      ],
+      edges: [
+        { source: 'Customer', target: 'api', label: 'HTTPS' },
+        { source: 'api', target: 'db', label: 'SQL' },
+        { source: 'Events', target: 'db' },
+      ],
+      groups: [{ id: 'Backend', label: 'Backend' }],
+    });
+  });
+
+  test('recognises sequence diagrams and lays them out left to right', () => {
+    const diagram = parsePlantUml(`@startuml
+participant Browser
+participant API
+Browser -> API : POST /orders
+API --> Browser : 201
+@enduml`);
+
+    expect(diagram).toMatchObject({
+      kind: 'sequence',
+      direction: 'LR',
+      edges: [
+        { source: 'Browser', target: 'API', label: 'POST /orders' },
+        { source: 'API', target: 'Browser', label: '201' },
+      ],
+    });
+  });
+
+  test('throws when there are no elements', () => {
+    expect(() => parsePlantUml("@startuml\n' empty\n@enduml")).toThrow('no nodes found');
+  });
+});
@@ -0,0 +1,203 @@
+import { DiagramBuilder } from '../builder';
+import type { DiagramGraph, DiagramShape } from '../types';
+import { parseC4Line } from './c4';
+
+/**
+ * PlantUML component, deployment, use case and sequence diagrams, including
+ * C4-PlantUML macros. Elements are declared with a keyword (`component`,
+ * `database`, `actor`...) or used inline as `[Component]`, `(Use case)` and
+ * `:Actor:`; containers opened with `{` become groups.
+ */
+
+const ELEMENT_SHAPES: Record<string, DiagramShape> = {
+  actor: 'actor',
+  person: 'actor',
+  agent: 'actor',
+  participant: 'box',
+  boundary: 'circle',
+  control: 'circle',
+  entity: 'circle',
+  usecase: 'circle',
+  circle: 'circle',
+  interface: 'circle',
+  database: 'database',
+  storage: 'database',
+  queue: 'queue',
+  collections: 'queue',
+  cloud: 'cloud',
+  hexagon: 'diamond',
+  component: 'box',
+  node: 'box',
+  rectangle: 'box',
+  card: 'box',
+  artifact: 'box',
+  file: 'box',
+  folder: 'box',
+  frame: 'box',
+  package: 'box',
+  stack: 'box',
+  process: 'rounded',
+  action: 'rounded',
+  label: 'box',
+};
+
+const DECLARATION = new RegExp(`^(${Object.keys(ELEMENT_SHAPES).join('|')})\\s+(.+)$`);
+const NAME = /^\s*("[^"]+"|\[[^\]]+\]|\([^)]+\)|:[^:]+:|[^\s"{}[\]()<#]+)/;
+const NODE = String.raw`"[^"]+"|\[[^\]]+\]|\([^)]+\)|:[^:]+:|[\w$@]+`;
+const ARROW = String.raw`(<<|<\||<|\*|#|\}|\+|\^|\\\\|//)?([-.]+(?:\[[^\]]*\]|up|down|left|right|[udlr])?[-.]*)(>>|\|>|>|\*|#|\{|\+|\^|\\\\|//|[ox](?=\s))?`;
+const RELATION = new RegExp(`^(${NODE})\\s*(?:"[^"]*"\\s*)?${ARROW}\\s*(?:"[^"]*"\\s*)?(${NODE})\\s*(?::\\s*(.*))?$`);
+
+const IGNORED = /^(!|skinparam|hide|show|title|header|footer|caption|scale|autonumber|activate|deactivate|destroy|return|ref\b|hnote|rnote|==|\.\.\.|\|\|\||alt\b|else\b|opt\b|loop\b|par\b|break\b|critical\b|group\b|end\b|newpage|legend|\$|sprite|AddElementTag|AddRelTag|LAYOUT_|SHOW_|HIDE_|UpdateElementStyle)/;
+const BLOCK_STARTS: Array<[start: RegExp, end: RegExp]> = [
+  [/^[rh]?note\b(?!.*:)/, /^end\s?note$/],
+  [/^legend\b/, /^end\s?legend$/],
+  [/^title$/, /^end\s?title$/],
+];
+
+const SEQUENCE_HINT = /^(participant|activate|deactivate|autonumber|alt|loop|box)\b/;
+
+function unwrap(name: string): { text: string; isLabel: boolean } {
+  const wrapped = /^(?:"(.*)"|\[(.*)\]|\((.*)\)|:(.*):)$/.exec(name);
+  if (!wrapped) return { text: name, isLabel: false };
+  return { text: wrapped.slice(1).find((part) => part !== undefined) ?? name, isLabel: true };
+}
+
+/**
+ * A node used in a relation: `[Web App]`, `(Login)`, `:User:` or an alias
+ */
+function inlineNode(token: string, builder: DiagramBuilder): string {
+  const { text, isLabel } = unwrap(token);
+  if (builder.hasNode(text)) return text;
+
+  let shape: DiagramShape | undefined;
+  if (token.startsWith('(')) shape = 'circle';
+  else if (token.startsWith(':')) shape = 'actor';
+  builder.node(text, isLabel ? { label: text, shape } : {});
+  return text;
+}
+
+/**
+ * `component "Web App" as web <<frontend>> #lightblue {`. Returns whether
+ * the declaration opened a group.
+ */
+function parseDeclaration(keyword: string, rest: string, builder: DiagramBuilder): boolean {
+  const first = NAME.exec(rest);
+  if (!first) return false;
+  let remainder = rest.slice(first[0].length);
+
+  let second: RegExpExecArray | null = null;
+  const alias = /^\s+as\s+/.exec(remainder);
+  if (alias) {
+    second = NAME.exec(remainder.slice(alias[0].length));
+    if (second) remainder = remainder.slice(alias[0].length + second[0].length);
+  }
+
+  const a = unwrap(first[1]);
+  const b = second ? unwrap(second[1]) : undefined;
+  // `participant "Long name" as L` or `participant L as "Long name"`
+  const [id, label] = !b ? [a.text, a.text] : b.isLabel && !a.isLabel ? [a.text, b.text] : [b.text, a.text];
+  const description = /:\s*(.+)$/.exec(remainder)?.[1];
+
+  if (/\{\s*$/.test(remainder)) {
+    builder.openGroup(id, label);
+    return true;
+  }
+  builder.node(id, { label, shape: ELEMENT_SHAPES[keyword], description });
+  return false;
+}
+
+/**
+ * Parse PlantUML source. Throws if it has no elements.
+ */
+export function parsePlantUml(source: string): DiagramGraph {
+  const body = /@start\w+([\s\S]*?)(?:@end\w+|$)/.exec(source)?.[1] ?? source;
+  const lines = body
+    .replace(/\/'[\s\S]*?'\//g, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("'"));
+
+  const builder = new DiagramBuilder();
+  let direction: DiagramGraph['direction'] = 'TB';
+  let usesC4 = false;
+  let skipUntil: RegExp | null = null;
+  // Whether each open `{` started a group, so `}` closes the right thing
+  const braces: boolean[] = [];
+
+  for (const line of lines) {
+    if (skipUntil) {
+      if (skipUntil.test(line)) skipUntil = null;
+      continue;
+    }
+    const block = BLOCK_STARTS.find(([start]) => start.test(line));
+    if (block) {
+      skipUntil = block[1];
+      continue;
+    }
+
+    if (line === 'left to right direction') {
+      direction = 'LR';
+      continue;
+    }
+    if (line === 'top to bottom direction') {
+      direction = 'TB';
+      continue;
+    }
+    if (line.startsWith('}')) {
+      if (braces.pop()) builder.closeGroup();
+      continue;
+    }
+
+    const box = /^box\b\s*(?:"([^"]+)"|([^#]+))?/.exec(line);
+    if (box) {
+      const label = (box[1] ?? box[2] ?? '').trim() || 'Group';
+      builder.openGroup(`box-${label}`, label);
+      continue;
+    }
+    if (line === 'end box') {
+      builder.closeGroup();
+      continue;
+    }
+
+    if (parseC4Line(line, builder)) {
+      usesC4 = true;
+      if (line.endsWith('{')) braces.push(/Boundary|Node/.test(line));
+      continue;
+    }
+    if (IGNORED.test(line)) continue;
+
+    const declaration = DECLARATION.exec(line);
+    if (declaration) {
+      const opened = parseDeclaration(declaration[1], declaration[2], builder);
+      if (opened) braces.push(true);
+      else if (line.endsWith('{')) braces.push(false);
+      continue;
+    }
+
+    const relation = RELATION.exec(line);
+    if (relation) {
+      const [, from, leftHead, , rightHead, to, label] = relation;
+      const source = inlineNode(from, builder);
+      const target = inlineNode(to, builder);
+      const pointsLeft = leftHead?.startsWith('<') ?? false;
+      const pointsRight = rightHead?.startsWith('>') ?? false;
+      if (pointsLeft && !pointsRight) {
+        builder.edge(target, source, label);
+      } else {
+        builder.edge(source, target, label, pointsLeft && pointsRight);
+      }
+      continue;
+    }
+
+    if (line.endsWith('{')) braces.push(false);
+  }
+
+  const kind = usesC4
+    ? 'C4'
+    : lines.some((line) => SEQUENCE_HINT.test(line))
+      ? 'sequence'
+      : lines.some((line) => /^usecase\b|^\(/.test(line))
+        ? 'use case'
+        : 'component';
+  return builder.build('plantuml', kind, kind === 'sequence' ? 'LR' : direction);
+}
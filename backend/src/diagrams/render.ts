@@ -0,0 +1,244 @@
+import dagre from '@dagrejs/dagre';
+import { Resvg } from '@resvg/resvg-js';
+import type { DiagramGraph, DiagramNode, NodeBadge } from './types';
+
+/**
+ * Lays a parsed diagram out with dagre and draws it as SVG, rasterised to PNG
+ * with resvg. The result follows the structure of the source rather than
+ * reproducing Mermaid's, PlantUML's or draw.io's own styling.
+ */
+
+// Above this the layout gets slow and the image unreadable
+export const MAX_RENDERED_NODES = 250;
+
+const FONT_FAMILY = 'DejaVu Sans, Arial, Helvetica, sans-serif';
+const FONT_SIZE = 12;
+const CHAR_WIDTH = 7.2;
+const LINE_HEIGHT = 15;
+const WRAP_AT = 24;
+const MAX_LINES = 4;
+const ACTOR_HEIGHT = 36;
+
+// Longest side of the PNG, and the scale for diagrams smaller than that
+const MAX_IMAGE_SIZE = 4096;
+const MAX_ZOOM = 2;
+
+const COLORS = {
+  nodeFill: '#eff6ff',
+  nodeStroke: '#2563eb',
+  edge: '#475569',
+  groupFill: '#f8fafc',
+  groupStroke: '#94a3b8',
+  text: '#0f172a',
+  muted: '#64748b',
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function wrap(text: string): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && (line + ' ' + word).length > WRAP_AT) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= MAX_LINES) return lines;
+  return [...lines.slice(0, MAX_LINES - 1), `${lines[MAX_LINES - 1]}…`];
+}
+
+function textBlock(lines: string[], x: number, centreY: number, color = COLORS.text): string {
+  const top = centreY - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3;
+  return lines
+    .map(
+      (line, i) =>
+        `<text x="${x}" y="${top + i * LINE_HEIGHT}" text-anchor="middle" font-size="${FONT_SIZE}" fill="${color}">${escapeXml(line)}</text>`
+    )
+    .join('');
+}
+
+function nodeSize(node: DiagramNode, lines: string[]): { width: number; height: number } {
+  const textWidth = Math.max(...lines.map((line) => line.length)) * CHAR_WIDTH;
+  const width = Math.max(textWidth + 28, 90);
+  const height = lines.length * LINE_HEIGHT + 22;
+
+  switch (node.shape) {
+    case 'circle':
+      return { width: width + 20, height: height + 16 };
+    case 'diamond':
+      return { width: width * 1.5, height: height * 1.6 };
+    case 'database':
+      return { width, height: height + 14 };
+    case 'actor':
+      return { width, height: height + ACTOR_HEIGHT };
+    default:
+      return { width, height };
+  }
+}
+
+function drawNode(node: DiagramNode, lines: string[], x: number, y: number, width: number, height: number): string {
+  const left = x - width / 2;
+  const top = y - height / 2;
+  const style = `fill="${COLORS.nodeFill}" stroke="${COLORS.nodeStroke}" stroke-width="1.5"`;
+
+  switch (node.shape) {
+    case 'rounded':
+      return `<rect x="${left}" y="${top}" width="${width}" height="${height}" rx="12" ${style}/>${textBlock(lines, x, y)}`;
+    case 'cloud':
+      return `<rect x="${left}" y="${top}" width="${width}" height="${height}" rx="${height / 2}" ${style} stroke-dasharray="6 3"/>${textBlock(lines, x, y)}`;
+    case 'circle':
+      return `<ellipse cx="${x}" cy="${y}" rx="${width / 2}" ry="${height / 2}" ${style}/>${textBlock(lines, x, y)}`;
+    case 'diamond':
+      return `<polygon points="${x},${top} ${left + width},${y} ${x},${top + height} ${left},${y}" ${style}/>${textBlock(lines, x, y)}`;
+    case 'database': {
+      const ry = 7;
+      return (
+        `<path d="M${left},${top + ry} v${height - 2 * ry} a${width / 2},${ry} 0 0 0 ${width},0 v${-(height - 2 * ry)}" ${style}/>` +
+        `<ellipse cx="${x}" cy="${top + ry}" rx="${width / 2}" ry="${ry}" ${style}/>` +
+        textBlock(lines, x, y + ry / 2)
+      );
+    }
+    case 'queue':
+      return (
+        `<rect x="${left}" y="${top}" width="${width}" height="${height}" rx="6" ${style}/>` +
+        `<line x1="${left + width - 12}" y1="${top}" x2="${left + width - 12}" y2="${top + height}" stroke="${COLORS.nodeStroke}"/>` +
+        textBlock(lines, x - 6, y)
+      );
+    case 'actor': {
+      const head = top + 8;
+      const stroke = `stroke="${COLORS.nodeStroke}" stroke-width="1.5" fill="none"`;
+      return (
+        `<circle cx="${x}" cy="${head}" r="7" ${stroke}/>` +
+        `<path d="M${x},${head + 7} v14 M${x - 11},${head + 12} h22 M${x},${head + 21} l-9,10 M${x},${head + 21} l9,10" ${stroke}/>` +
+        textBlock(lines, x, top + ACTOR_HEIGHT + (height - ACTOR_HEIGHT) / 2)
+      );
+    }
+    default:
+      return `<rect x="${left}" y="${top}" width="${width}" height="${height}" rx="2" ${style}/>${textBlock(lines, x, y)}`;
+  }
+}
+
+function drawBadge(badge: NodeBadge, x: number, y: number, width: number, height: number): string {
+  const badgeWidth = badge.text.length * CHAR_WIDTH + 12;
+  const left = x + width / 2 - badgeWidth + 8;
+  const top = y - height / 2 - 10;
+  return (
+    `<rect x="${left}" y="${top}" width="${badgeWidth}" height="18" rx="9" fill="${badge.color}"/>` +
+    `<text x="${left + badgeWidth / 2}" y="${top + 13}" text-anchor="middle" font-size="${FONT_SIZE - 1}" font-weight="bold" fill="white">${escapeXml(badge.text)}</text>`
+  );
+}
+
+/**
+ * Lay a diagram out and draw it as SVG
+ */
+function drawDiagram(
+  diagram: DiagramGraph,
+  badges: Map<string, NodeBadge>
+): { svg: string; width: number; height: number } {
+  const graph = new dagre.graphlib.Graph({ compound: true, multigraph: true });
+  // The margin leaves room for badges on the outermost nodes
+  graph.setGraph({ rankdir: diagram.direction, nodesep: 40, ranksep: 60, edgesep: 20, marginx: 32, marginy: 32 });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  const labels = new Map(diagram.nodes.map((node) => [node.id, wrap(node.label)]));
+  for (const group of diagram.groups) {
+    graph.setNode(`g:${group.id}`, { width: 0, height: 0, label: group.label });
+  }
+  for (const group of diagram.groups) {
+    if (group.parent) graph.setParent(`g:${group.id}`, `g:${group.parent}`);
+  }
+  for (const node of diagram.nodes) {
+    graph.setNode(`n:${node.id}`, nodeSize(node, labels.get(node.id)!));
+    if (node.group) graph.setParent(`n:${node.id}`, `g:${node.group}`);
+  }
+  diagram.edges.forEach((edge, i) => {
+    const lines = edge.label ? wrap(edge.label) : [];
+    graph.setEdge(
+      `n:${edge.source}`,
+      `n:${edge.target}`,
+      {
+        width: lines.length > 0 ? Math.max(...lines.map((line) => line.length)) * CHAR_WIDTH + 8 : 0,
+        height: lines.length * LINE_HEIGHT,
+        labelpos: 'c',
+      },
+      String(i)
+    );
+  });
+
+  dagre.layout(graph);
+  const width = Math.ceil(graph.graph().width ?? 0);
+  const height = Math.ceil(graph.graph().height ?? 0);
+
+  const parts: string[] = [];
+
+  // Outer groups first so nested ones are drawn on top
+  const depth = (id: string): number => {
+    const parent = diagram.groups.find((group) => group.id === id)?.parent;
+    return parent ? depth(parent) + 1 : 0;
+  };
+  for (const group of [...diagram.groups].sort((a, b) => depth(a.id) - depth(b.id))) {
+    const box = graph.node(`g:${group.id}`);
+    if (!box?.x || !box.y) continue;
+    const left = box.x - box.width / 2;
+    const top = box.y - box.height / 2;
+    parts.push(
+      `<rect x="${left}" y="${top}" width="${box.width}" height="${box.height}" rx="6" fill="${COLORS.groupFill}" stroke="${COLORS.groupStroke}" stroke-dasharray="6 4"/>`,
+      `<text x="${left + 8}" y="${top + 14}" font-size="${FONT_SIZE}" font-weight="bold" fill="${COLORS.muted}">${escapeXml(group.label)}</text>`
+    );
+  }
+
+  diagram.edges.forEach((edge, i) => {
+    const layout = graph.edge(`n:${edge.source}`, `n:${edge.target}`, String(i));
+    const points: Array<{ x: number; y: number }> = layout?.points ?? [];
+    if (points.length < 2) return;
+    const path = points.map((point, j) => `${j === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' ');
+    parts.push(
+      `<path d="${path}" fill="none" stroke="${COLORS.edge}" stroke-width="1.3" marker-end="url(#arrow)"${edge.bidirectional ? ' marker-start="url(#arrow-start)"' : ''}/>`
+    );
+    if (edge.label && layout.x !== undefined && layout.y !== undefined) {
+      const lines = wrap(edge.label);
+      const labelWidth = layout.width ?? 0;
+      const labelHeight = layout.height ?? 0;
+      parts.push(
+        `<rect x="${layout.x - labelWidth / 2}" y="${layout.y - labelHeight / 2}" width="${labelWidth}" height="${labelHeight}" fill="white" opacity="0.9"/>`,
+        textBlock(lines, layout.x, layout.y, COLORS.muted)
+      );
+    }
+  });
+
+  for (const node of diagram.nodes) {
+    const box = graph.node(`n:${node.id}`);
+    parts.push(drawNode(node, labels.get(node.id)!, box.x!, box.y!, box.width, box.height));
+    const badge = badges.get(node.id);
+    if (badge) parts.push(drawBadge(badge, box.x!, box.y!, box.width, box.height));
+  }
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">` +
+    `<defs>` +
+    `<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="${COLORS.edge}"/></marker>` +
+    `<marker id="arrow-start" viewBox="0 0 10 10" refX="0" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M10,0 L0,5 L10,10 z" fill="${COLORS.edge}"/></marker>` +
+    `</defs>` +
+    `<rect width="100%" height="100%" fill="white"/>` +
+    parts.join('') +
+    `</svg>`;
+
+  return { svg, width, height };
+}
+
+/**
+ * Render a diagram to PNG, scaled up for legibility but kept within the
+ * image sizes LLM providers accept. Badges are keyed by node ID.
+ */
+export function renderDiagramPng(diagram: DiagramGraph, badges = new Map<string, NodeBadge>()): Buffer {
+  const { svg, width, height } = drawDiagram(diagram, badges);
+  const zoom = Math.min(MAX_ZOOM, MAX_IMAGE_SIZE / Math.max(width, height, 1));
+  const resvg = new Resvg(svg, { font: { loadSystemFonts: true }, fitTo: { mode: 'zoom', value: zoom } });
+  return Buffer.from(resvg.render().asPng());
+}
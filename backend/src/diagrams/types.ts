@@ -0,0 +1,52 @@
+/**
+ * Architecture Diagram Types
+ *
+ * Mermaid, PlantUML and draw.io sources are parsed into a graph of nodes,
+ * edges and groups. The graph is stored with the uploaded file and rendered
+ * into the generation context as text, and laid out and rasterised to a PNG
+ * for providers that accept images and for the view and PDF report.
+ */
+
+export type DiagramFormat = 'mermaid' | 'plantuml' | 'drawio';
+
+export type DiagramShape = 'box' | 'rounded' | 'circle' | 'diamond' | 'database' | 'actor' | 'cloud' | 'queue';
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  shape: DiagramShape;
+  /** Technology or description, e.g. from C4 `Container(api, "API", "Go")` */
+  description?: string;
+  /** ID of the innermost group containing the node */
+  group?: string;
+}
+
+export interface DiagramEdge {
+  source: string;
+  target: string;
+  label?: string;
+  bidirectional?: boolean;
+}
+
+export interface DiagramGroup {
+  id: string;
+  label: string;
+  /** ID of the enclosing group */
+  parent?: string;
+}
+
+export interface DiagramGraph {
+  format: DiagramFormat;
+  /** Diagram type as the source names it, e.g. `flowchart`, `sequence` or `C4 container` */
+  kind: string;
+  direction: 'TB' | 'LR';
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  groups: DiagramGroup[];
+}
+
+/** A marker drawn on a node's corner, e.g. the threats affecting it */
+export interface NodeBadge {
+  text: string;
+  color: string;
+}
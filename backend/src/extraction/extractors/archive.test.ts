@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import { strToU8, zipSync } from 'fflate';
+import { readArchive, zipExtractor } from './archive';
+
+describe('readArchive', () => {
+  test('keeps source files and leaves out dependencies, lockfiles and binaries', () => {
+    const zip = zipSync({
+      'src/app.ts': strToU8('export const app = 1;'),
+      'node_modules/left-pad/index.js': strToU8('module.exports = {}'),
+      'package-lock.json': strToU8('{}'),
+      'logo.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0]),
+    });
+
+    const { files, skipped } = readArchive(Buffer.from(zip));
+
+    expect(files).toEqual([{ path: 'src/app.ts', text: 'export const app = 1;' }]);
+    expect(skipped).toEqual(['logo.png (binary)']);
+  });
+
+  test('summarises entries past the archive limits in one line', () => {
+    const files = Object.fromEntries(Array.from({ length: 2005 }, (_, i) => [`docs/${i}.md`, strToU8(`# ${i}`)]));
+
+    const { files: included, skipped } = readArchive(Buffer.from(zipSync(files)));
+
+    expect(included).toHaveLength(2000);
+    expect(skipped).toEqual(['5 more entries (archive size limit reached)']);
+  });
+});
+
+describe('zipExtractor', () => {
+  test('lists the files, then each in a fenced block', async () => {
+    const zip = zipSync({ 'main.tf': strToU8('resource "aws_s3_bucket" "logs" {}') });
+
+    const text = await zipExtractor.extract(Buffer.from(zip), 'infra.zip');
+
+    expect(text).toBe(
+      'Archive infra.zip: 1 files included\n- main.tf\n\n### main.tf\n```hcl\nresource "aws_s3_bucket" "logs" {}\n```'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import type { TextExtractor } from '../types';
+import { readZip } from '../zip';
+
+// Limits that keep a zip of a repository (or a zip bomb) from swamping the
+// context or memory, counted on the bytes actually decompressed
+const ARCHIVE_LIMITS = {
+  maxEntryBytes: 512 * 1024,
+  maxTotalBytes: 8 * 1024 * 1024,
+  maxEntries: 2000,
+};
+const MAX_ARCHIVE_CHARS = 2_000_000;
+
+// Dependencies, build output and VCS metadata say nothing about the design
+const IGNORED_PATH = /(^|\/)(node_modules|vendor|\.git|\.terraform|\.venv|venv|__pycache__|dist|build|target|coverage|__MACOSX)\//;
+const IGNORED_FILE = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|Cargo\.lock|poetry\.lock|go\.sum|composer\.lock|\.DS_Store)$|\.min\.(js|css)$|\.map$/;
+
+const FENCE_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', py: 'python', go: 'go', rb: 'ruby',
+  java: 'java', kt: 'kotlin', cs: 'csharp', rs: 'rust', php: 'php', sh: 'bash', sql: 'sql',
+  tf: 'hcl', hcl: 'hcl', yaml: 'yaml', yml: 'yaml', json: 'json', toml: 'toml', xml: 'xml',
+  md: 'markdown', html: 'html', dockerfile: 'dockerfile',
+};
+
+function fenceLanguage(path: string): string {
+  const name = path.split('/').pop()!.toLowerCase();
+  if (name === 'dockerfile') return 'dockerfile';
+  return FENCE_LANGUAGES[name.split('.').pop() ?? ''] ?? '';
+}
+
+// Binary files have NUL bytes near the start; text files don't
+function isText(data: Uint8Array): boolean {
+  return !data.subarray(0, 8000).includes(0);
+}
+
+export interface ArchiveContents {
+  /** Text files, sorted by path */
+  files: Array<{ path: string; text: string }>;
+  /** Entries left out, with the reason */
+  skipped: string[];
+}
+
+/**
+ * Read the text files in a zip archive, leaving out dependencies, build
+ * output, binaries and anything over the size limits
+ */
+export function readArchive(data: Buffer): ArchiveContents {
+  const { entries, tooLarge, overBudget } = readZip(
+    new Uint8Array(data),
+    ARCHIVE_LIMITS,
+    (name) => !name.endsWith('/') && !IGNORED_PATH.test(name) && !IGNORED_FILE.test(name)
+  );
+
+  const skipped = tooLarge.map((path) => `${path} (too large)`);
+  // Counted as one line, so a zip of thousands of entries doesn't flood the listing either
+  if (overBudget > 0) {
+    skipped.push(`${overBudget} more ${overBudget === 1 ? 'entry' : 'entries'} (archive size limit reached)`);
+  }
+
+  const files: ArchiveContents['files'] = [];
+  let chars = 0;
+
+  for (const [path, content] of [...entries].sort(([a], [b]) => a.localeCompare(b))) {
+    if (!isText(content)) {
+      skipped.push(`${path} (binary)`);
+      continue;
+    }
+
+    const text = new TextDecoder().decode(content);
+    if (chars + text.length > MAX_ARCHIVE_CHARS) {
+      skipped.push(`${path} (archive text limit reached)`);
+      continue;
+    }
+
+    chars += text.length;
+    files.push({ path, text });
+  }
+
+  return { files, skipped };
+}
+
+/**
+ * Zip archives of source code (e.g. the part of a repository under review),
+ * as a file listing followed by the text files in fenced code blocks
+ */
+export const zipExtractor: TextExtractor = {
+  name: 'zip',
+
+  supports(mimeType, filename) {
+    return (
+      mimeType === 'application/zip' ||
+      mimeType === 'application/x-zip-compressed' ||
+      filename.toLowerCase().endsWith('.zip')
+    );
+  },
+
+  async extract(data, filename) {
+    const { files, skipped } = readArchive(data);
+    const sections = files.map(
+      ({ path, text }) => `### ${path}\n\`\`\`${fenceLanguage(path)}\n${text.trimEnd()}\n\`\`\``
+    );
+
+    let listing = `Archive ${filename}: ${files.length} files included\n${files.map(({ path }) => `- ${path}`).join('\n')}`;
+    if (skipped.length > 0) {
+      listing += `\n\nSkipped:\n${skipped.map((entry) => `- ${entry}`).join('\n')}`;
+    }
+
+    return [listing, ...sections].join('\n\n');
+  },
+};
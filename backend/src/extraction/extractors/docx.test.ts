@@ -0,0 +1,13 @@
+import { describe, expect, test } from 'bun:test';
+import { zipSync } from 'fflate';
+import { docxExtractor } from './docx';
+
+describe('docxExtractor', () => {
+  test('refuses documents that decompress past the limit before parsing them', async () => {
+    const bomb = zipSync({ 'word/document.xml': new Uint8Array(40 * 1024 * 1024) });
+
+    await expect(docxExtractor.extract(Buffer.from(bomb), 'bomb.docx')).rejects.toThrow(
+      'larger than 32 MB uncompressed'
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import mammoth from 'mammoth';
+import type { TextExtractor } from '../types';
+import { checkZipSize } from '../zip';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// mammoth unzips and parses the whole document in memory
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Word documents via mammoth, one paragraph per line
+ */
+export const docxExtractor: TextExtractor = {
+  name: 'docx',
+
+  supports(mimeType, filename) {
+    return mimeType === DOCX_MIME_TYPE || filename.toLowerCase().endsWith('.docx');
+  },
+
+  async extract(data) {
+    checkZipSize(data, MAX_DOCUMENT_BYTES);
+    const result = await mammoth.extractRawText({ buffer: data });
+    return result.value;
+  },
+};
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { htmlExtractor } from './html';
+
+describe('htmlExtractor', () => {
+  test('keeps headings, lists and table cells and drops scripts, styles and comments', async () => {
+    const html = `<!DOCTYPE html>
+<html>
+  <head><title>Ignored</title><style>h1 { color: red }</style></head>
+  <body>
+    <!-- exported from Confluence -->
+    <h1 class="title">Payments&nbsp;API</h1>
+    <p>Takes card payments &amp; stores <b>orders</b>.</p>
+    <script>track('view')</script>
+    <h3>Dependencies</h3>
+    <ul><li>Stripe</li><li>Postgres &#8211; orders &#x26; refunds</li></ul>
+    <table><tr><th>Port</th><th>Protocol</th></tr><tr><td>443</td><td>HTTPS</td></tr></table>
+    Line one<br>Line two &bogus;
+  </body>
+</html>`;
+
+    expect(await htmlExtractor.extract(Buffer.from(html), 'payments.html')).toBe(
+      [
+        '# Payments API',
+        '',
+        'Takes card payments & stores orders.',
+        '',
+        '### Dependencies',
+        '',
+        '- Stripe',
+        '- Postgres – orders & refunds',
+        '',
+        // Rows are separated like paragraphs
+        'Port | Protocol |',
+        '',
+        '443 | HTTPS |',
+        '',
+        'Line one',
+        'Line two &bogus;',
+      ].join('\n')
+    );
+  });
+
+  test('handles HTML by MIME type or extension', () => {
+    expect(htmlExtractor.supports('text/html', 'page')).toBe(true);
+    expect(htmlExtractor.supports('application/octet-stream', 'Space.HTM')).toBe(true);
+    expect(htmlExtractor.supports('text/plain', 'notes.txt')).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import type { TextExtractor } from '../types';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+/**
+ * HTML pages (e.g. saved Confluence pages) as text, with headings and list
+ * items kept in Markdown form and scripts and styles dropped
+ */
+export const htmlExtractor: TextExtractor = {
+  name: 'html',
+
+  supports(mimeType, filename) {
+    return mimeType === 'text/html' || /\.html?$/i.test(filename);
+  },
+
+  async extract(data) {
+    const text = data
+      .toString('utf-8')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(head|script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<h([1-6])\b[^>]*>/gi, (_, level: string) => `\n\n${'#'.repeat(parseInt(level))} `)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<\/(td|th)>/gi, ' | ')
+      .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+      .replace(/<\/?(p|div|section|article|header|footer|main|nav|aside|blockquote|pre|table|tr|ul|ol|dl|dt|dd|h[1-6])\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(text)
+      .replace(/[ \t\u00a0]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  },
+};
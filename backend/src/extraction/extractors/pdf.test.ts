@@ -0,0 +1,20 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { pdfExtractor } from './pdf';
+
+// One of the sample PRDs this repository ships with
+const SAMPLE = join(import.meta.dir, '../../../../samples/PRD & TechDoc - SharedCart/PRD - Shared Cart Feature.pdf');
+
+describe('pdfExtractor', () => {
+  test('reads the text layer page by page', async () => {
+    const text = await pdfExtractor.extract(readFileSync(SAMPLE), 'PRD - Shared Cart Feature.pdf');
+
+    expect(text).toStartWith('Product Requirement Document (PRD)\n1. Title & Document Info\nFeature Name: Shared Cart');
+    expect(text).toContain('Executive Summary');
+  });
+
+  test('throws for files that are not PDFs', async () => {
+    await expect(pdfExtractor.extract(Buffer.from('%PDF-1.4 truncated'), 'broken.pdf')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,20 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { TextExtractor } from '../types';
+
+/**
+ * PDF text via PDF.js. Scanned PDFs have no text layer and extract to
+ * nothing; providers that read PDFs natively still see their pages.
+ */
+export const pdfExtractor: TextExtractor = {
+  name: 'pdf',
+
+  supports(mimeType) {
+    return mimeType === 'application/pdf';
+  },
+
+  async extract(data) {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text.map((page) => page.trim()).filter(Boolean).join('\n\n');
+  },
+};
@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import ExcelJS from 'exceljs';
+import { zipSync } from 'fflate';
+import { xlsxExtractor } from './spreadsheet';
+
+async function workbook(build: (workbook: ExcelJS.Workbook) => void): Promise<Buffer> {
+  const book = new ExcelJS.Workbook();
+  build(book);
+  return Buffer.from(await book.xlsx.writeBuffer());
+}
+
+describe('xlsxExtractor', () => {
+  test('turns each sheet into a Markdown table', async () => {
+    const data = await workbook((book) => {
+      const sheet = book.addWorksheet('Assets');
+      sheet.addRow(['Name', 'Owner']);
+      sheet.addRow(['Orders DB', 'Payments | Core']);
+    });
+
+    expect(await xlsxExtractor.extract(data, 'assets.xlsx')).toBe(
+      '## Sheet: Assets\n\n| Name | Owner |\n| --- | --- |\n| Orders DB | Payments \\| Core |'
+    );
+  });
+
+  test('caps the rows and columns of large sheets', async () => {
+    const data = await workbook((book) => {
+      const sheet = book.addWorksheet('Inventory');
+      for (let i = 1; i <= 2100; i++) sheet.getCell(i, 1).value = `host-${i}`;
+      // One stray cell far to the right makes the sheet 10,000 columns wide
+      sheet.getCell(1, 10_000).value = 'notes';
+    });
+
+    const text = await xlsxExtractor.extract(data, 'inventory.xlsx');
+    const lines = text.split('\n');
+
+    expect(lines.filter((line) => line.startsWith('| host-'))).toHaveLength(2000);
+    expect(lines[2].split(' | ')).toHaveLength(50);
+    expect(lines.at(-1)).toBe('(100 more rows and 9950 more columns not shown)');
+  });
+
+  test('refuses workbooks that decompress past the limit', async () => {
+    const bomb = zipSync({ 'xl/worksheets/sheet1.xml': new Uint8Array(40 * 1024 * 1024) });
+
+    await expect(xlsxExtractor.extract(Buffer.from(bomb), 'bomb.xlsx')).rejects.toThrow('larger than 32 MB uncompressed');
+  });
+});
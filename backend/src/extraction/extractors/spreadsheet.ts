@@ -0,0 +1,95 @@
+import ExcelJS from 'exceljs';
+import type { TextExtractor } from '../types';
+import { checkZipSize } from '../zip';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// A workbook's XML is parsed in memory, so its decompressed size is capped
+// before loading. The table limits keep one huge sheet from taking over the
+// context; the column cap also stops sparse, very wide sheets being walked
+// cell by empty cell.
+const MAX_WORKBOOK_BYTES = 32 * 1024 * 1024;
+const MAX_SHEET_ROWS = 2000;
+const MAX_SHEET_COLUMNS = 50;
+const MAX_WORKBOOK_CHARS = 500_000;
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('text' in value) return String(value.text);
+  if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+  if ('error' in value) return value.error;
+  return '';
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.map((cell) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')).join(' | ')} |`;
+}
+
+/**
+ * Excel workbooks (e.g. asset inventories) as one Markdown table per sheet,
+ * with the first row as the header
+ */
+export const xlsxExtractor: TextExtractor = {
+  name: 'xlsx',
+
+  supports(mimeType, filename) {
+    return mimeType === XLSX_MIME_TYPE || filename.toLowerCase().endsWith('.xlsx');
+  },
+
+  async extract(data) {
+    checkZipSize(data, MAX_WORKBOOK_BYTES);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(data as unknown as ExcelJS.Buffer);
+
+    const sheets: string[] = [];
+    let chars = 0;
+    workbook.eachSheet((sheet) => {
+      const columns = Math.min(sheet.columnCount, MAX_SHEET_COLUMNS);
+      const rows: string[][] = [];
+      let rowCount = 0;
+      sheet.eachRow((row) => {
+        rowCount++;
+        if (rows.length >= MAX_SHEET_ROWS || chars >= MAX_WORKBOOK_CHARS) return;
+
+        const cells: string[] = [];
+        for (let col = 1; col <= columns; col++) {
+          cells.push(cellText(row.getCell(col).value).trim());
+        }
+        rows.push(cells);
+        chars += cells.reduce((length, cell) => length + cell.length + 3, 2);
+      });
+      if (rows.length === 0) return;
+
+      const [header, ...body] = rows;
+      const table = [`## Sheet: ${sheet.name}`, '', tableRow(header), tableRow(header.map(() => '---')), ...body.map(tableRow)];
+      const hidden = [
+        rowCount > rows.length && `${rowCount - rows.length} more rows`,
+        sheet.columnCount > columns && `${sheet.columnCount - columns} more columns`,
+      ].filter(Boolean);
+      if (hidden.length > 0) {
+        table.push('', `(${hidden.join(' and ')} not shown)`);
+      }
+      sheets.push(table.join('\n'));
+    });
+
+    return sheets.join('\n\n');
+  },
+};
+
+/**
+ * CSV, as it is - it's already compact and readable
+ */
+export const csvExtractor: TextExtractor = {
+  name: 'csv',
+
+  supports(mimeType, filename) {
+    return mimeType === 'text/csv' || filename.toLowerCase().endsWith('.csv');
+  },
+
+  async extract(data) {
+    return data.toString('utf-8');
+  },
+};
@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { markdownExtractor, plainTextExtractor } from './text';
+
+describe('markdownExtractor', () => {
+  test('replaces inline base64 images with their alt text', async () => {
+    const markdown = '# Checkout\n\n![Sequence diagram](data:image/png;base64,iVBORw0KGgo=)\n\n![Logo](logo.png)\n';
+
+    expect(await markdownExtractor.extract(Buffer.from(markdown), 'checkout.md')).toBe(
+      '# Checkout\n\n[image: Sequence diagram]\n\n![Logo](logo.png)'
+    );
+  });
+});
+
+describe('plainTextExtractor', () => {
+  test('handles text, JSON, YAML and Terraform', () => {
+    expect(plainTextExtractor.supports('application/json', 'openapi')).toBe(true);
+    expect(plainTextExtractor.supports('application/x-yaml', 'values')).toBe(true);
+    expect(plainTextExtractor.supports('application/octet-stream', 'main.tf')).toBe(true);
+    expect(plainTextExtractor.supports('application/octet-stream', 'logo.png')).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import type { TextExtractor } from '../types';
+
+/**
+ * Markdown, kept as Markdown apart from inline base64 images, which are
+ * large and mean nothing as text
+ */
+export const markdownExtractor: TextExtractor = {
+  name: 'markdown',
+
+  supports(mimeType, filename) {
+    return mimeType === 'text/markdown' || /\.(md|markdown)$/i.test(filename);
+  },
+
+  async extract(data) {
+    return data
+      .toString('utf-8')
+      .replace(/!\[([^\]]*)\]\(data:[^)]*\)/g, '[image: $1]')
+      .trim();
+  },
+};
+
+const YAML_MIME_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'];
+
+/**
+ * Plain text, JSON and YAML, as they are
+ */
+export const plainTextExtractor: TextExtractor = {
+  name: 'text',
+
+  supports(mimeType, filename) {
+    return (
+      mimeType === 'text/plain' ||
+      mimeType === 'application/json' ||
+      YAML_MIME_TYPES.includes(mimeType) ||
+      mimeType === 'text/x-hcl' ||
+      /\.(txt|json|ya?ml|tf|tfvars|hcl)$/i.test(filename)
+    );
+  },
+
+  async extract(data) {
+    return data.toString('utf-8');
+  },
+};
@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { DOCX_MIME_TYPE, extractText, getExtractor, resolveMimeType } from '.';
+
+describe('resolveMimeType', () => {
+  test('prefers the extension for document formats', () => {
+    expect(resolveMimeType('application/vnd.ms-excel', 'hosts.csv')).toBe('text/csv');
+    expect(resolveMimeType('', 'Design.DOCX')).toBe(DOCX_MIME_TYPE);
+    expect(resolveMimeType('application/octet-stream', 'flows.puml')).toBe('text/x-plantuml');
+  });
+
+  test('keeps what the browser reported for other files', () => {
+    expect(resolveMimeType('image/png', 'diagram.png')).toBe('image/png');
+    expect(resolveMimeType('', 'blob')).toBe('application/octet-stream');
+  });
+});
+
+describe('extractText', () => {
+  test('picks the first extractor that supports the file', async () => {
+    expect(getExtractor('text/html', 'page.html')?.name).toBe('html');
+    expect(getExtractor('application/zip', 'source.zip')?.name).toBe('zip');
+    expect(getExtractor('image/png', 'diagram.png')).toBeUndefined();
+
+    expect(await extractText(Buffer.from('<p>Hello</p>'), 'text/html', 'page.html')).toBe('Hello');
+  });
+
+  test('returns null for unsupported, empty and unreadable files', async () => {
+    expect(await extractText(Buffer.from('PNG'), 'image/png', 'diagram.png')).toBeNull();
+    expect(await extractText(Buffer.from('  \n'), 'text/plain', 'empty.txt')).toBeNull();
+    expect(await extractText(Buffer.from('not a zip'), DOCX_MIME_TYPE, 'design.docx')).toBeNull();
+  });
+});
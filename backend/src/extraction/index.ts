@@ -0,0 +1,99 @@
+/**
+ * Text Extraction Module Exports
+ *
+ * Usage:
+ *   import { extractText } from './extraction';
+ *   const text = await extractText(buffer, file.type, file.name);
+ */
+
+import type { TextExtractor } from './types';
+import { pdfExtractor } from './extractors/pdf';
+import { docxExtractor, DOCX_MIME_TYPE } from './extractors/docx';
+import { htmlExtractor } from './extractors/html';
+import { markdownExtractor, plainTextExtractor } from './extractors/text';
+import { csvExtractor, xlsxExtractor, XLSX_MIME_TYPE } from './extractors/spreadsheet';
+import { zipExtractor } from './extractors/archive';
+
+// Types
+export type { TextExtractor } from './types';
+
+// Extractors
+export { pdfExtractor } from './extractors/pdf';
+export { docxExtractor, DOCX_MIME_TYPE } from './extractors/docx';
+export { htmlExtractor } from './extractors/html';
+export { markdownExtractor, plainTextExtractor } from './extractors/text';
+export { csvExtractor, xlsxExtractor, XLSX_MIME_TYPE } from './extractors/spreadsheet';
+export { zipExtractor, readArchive, type ArchiveContents } from './extractors/archive';
+
+// First match wins
+const extractors: TextExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  xlsxExtractor,
+  zipExtractor,
+  htmlExtractor,
+  markdownExtractor,
+  csvExtractor,
+  plainTextExtractor,
+];
+
+// Browsers report these formats inconsistently (no type, a generic one, or
+// e.g. application/vnd.ms-excel for CSV on Windows)
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: DOCX_MIME_TYPE,
+  xlsx: XLSX_MIME_TYPE,
+  zip: 'application/zip',
+  html: 'text/html',
+  htm: 'text/html',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  json: 'application/json',
+  tf: 'text/x-hcl',
+  tfvars: 'text/x-hcl',
+  hcl: 'text/x-hcl',
+  mmd: 'text/vnd.mermaid',
+  mermaid: 'text/vnd.mermaid',
+  puml: 'text/x-plantuml',
+  plantuml: 'text/x-plantuml',
+  pu: 'text/x-plantuml',
+  iuml: 'text/x-plantuml',
+  drawio: 'application/vnd.jgraph.mxfile',
+  txt: 'text/plain',
+};
+
+/**
+ * The MIME type to store for an upload: from the extension for document
+ * formats, otherwise as the browser reported it
+ */
+export function resolveMimeType(reported: string, filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES_BY_EXTENSION[extension] ?? (reported || 'application/octet-stream');
+}
+
+/**
+ * Find the extractor for a file, if any handles it
+ */
+export function getExtractor(mimeType: string, filename: string): TextExtractor | undefined {
+  return extractors.find((extractor) => extractor.supports(mimeType, filename));
+}
+
+/**
+ * Extract a file's text, or null if its format has no extractor, it has no
+ * text (e.g. a scanned PDF) or extraction fails. Failures are logged rather
+ * than thrown so an unreadable document can still be uploaded.
+ */
+export async function extractText(data: Buffer, mimeType: string, filename: string): Promise<string | null> {
+  const extractor = getExtractor(mimeType, filename);
+  if (!extractor) return null;
+
+  try {
+    const text = await extractor.extract(data, filename);
+    return text.trim() || null;
+  } catch (error) {
+    console.warn(`Could not extract text from "${filename}" with the ${extractor.name} extractor:`, error);
+    return null;
+  }
+}
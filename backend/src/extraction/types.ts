@@ -0,0 +1,27 @@
+/**
+ * Text Extraction Types
+ *
+ * Extractors turn uploaded documents into plain text at upload time. The text
+ * is stored with the file and sent to the LLM in place of the original when
+ * the provider can't read the native format (PDFs for OpenAI and local
+ * models; HTML, Office documents, spreadsheets and archives for every
+ * provider).
+ */
+
+export interface TextExtractor {
+  /**
+   * Extractor name for identification
+   */
+  readonly name: string;
+
+  /**
+   * Check if the extractor handles a file
+   */
+  supports(mimeType: string, filename: string): boolean;
+
+  /**
+   * Extract the file's text, keeping headings, lists and paragraphs where
+   * the format has them
+   */
+  extract(data: Buffer, filename: string): Promise<string>;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { strToU8, zipSync } from 'fflate';
+import { checkZipSize, readZip } from './zip';
+
+const limits = { maxEntryBytes: 64 * 1024, maxTotalBytes: 256 * 1024, maxEntries: 10 };
+
+/**
+ * Rewrite every uncompressed size in the zip's headers to `size`, as a zip
+ * bomb would to slip past checks on the declared size
+ */
+function forgeSizes(zip: Uint8Array, size: number): Uint8Array {
+  const forged = zip.slice();
+  const view = new DataView(forged.buffer);
+  for (let offset = 0; offset < forged.length - 4; offset++) {
+    const signature = view.getUint32(offset, true);
+    if (signature === 0x04034b50) view.setUint32(offset + 22, size, true); // Local file header
+    if (signature === 0x02014b50) view.setUint32(offset + 24, size, true); // Central directory
+  }
+  return forged;
+}
+
+describe('readZip', () => {
+  test('reads entries within the limits', () => {
+    const zip = zipSync({ 'README.md': strToU8('# Service'), 'src/': {}, 'src/app.ts': strToU8('export {}') });
+
+    const { entries, tooLarge, overBudget } = readZip(zip, limits);
+
+    expect(new TextDecoder().decode(entries.get('src/app.ts'))).toBe('export {}');
+    expect([...entries.keys()].sort()).toEqual(['README.md', 'src/app.ts']);
+    expect(tooLarge).toEqual([]);
+    expect(overBudget).toBe(0);
+  });
+
+  test('skips entries whose headers admit they are too large without inflating them', () => {
+    const zip = zipSync({ 'dump.sql': new Uint8Array(100 * 1024), 'app.ts': strToU8('export {}') });
+
+    const { entries, tooLarge } = readZip(zip, limits);
+
+    expect(tooLarge).toEqual(['dump.sql']);
+    expect([...entries.keys()]).toEqual(['app.ts']);
+  });
+
+  test('counts the bytes actually inflated rather than the declared sizes', () => {
+    const files = { 'bomb.txt': new Uint8Array(16 * 1024 * 1024), 'app.ts': strToU8('export {}') };
+    const zip = forgeSizes(zipSync(files), 10);
+
+    const { entries, tooLarge } = readZip(zip, { ...limits, maxTotalBytes: 8 * 1024 * 1024 });
+
+    expect(tooLarge).toEqual(['bomb.txt']);
+    expect([...entries.keys()]).toEqual(['app.ts']);
+  });
+
+  test('stops at the archive total, including across forged entries', () => {
+    const files = Object.fromEntries(
+      Array.from({ length: 8 }, (_, i) => [`part-${i}.txt`, new Uint8Array(60 * 1024).fill(i)])
+    );
+    const zip = forgeSizes(zipSync(files), 10);
+
+    const { entries, overBudget } = readZip(zip, limits);
+
+    expect(entries.size).toBe(4);
+    expect(overBudget).toBe(4);
+  });
+
+  test('stops at the entry count', () => {
+    const files = Object.fromEntries(Array.from({ length: 15 }, (_, i) => [`file-${i}.ts`, strToU8('export {}')]));
+
+    const { entries, overBudget } = readZip(zipSync(files), limits);
+
+    expect(entries.size).toBe(10);
+    expect(overBudget).toBe(5);
+  });
+});
+
+describe('checkZipSize', () => {
+  test('passes documents under the limit and rejects forged ones over it', () => {
+    expect(() => checkZipSize(zipSync({ 'word/document.xml': strToU8('<w:document/>') }), 1024 * 1024)).not.toThrow();
+
+    const bomb = forgeSizes(zipSync({ 'xl/worksheets/sheet1.xml': new Uint8Array(4 * 1024 * 1024) }), 10);
+    expect(() => checkZipSize(bomb, 1024 * 1024)).toThrow('Document is larger than 1 MB uncompressed');
+  });
+});
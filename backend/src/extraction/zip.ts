@@ -0,0 +1,153 @@
+import { Inflate, Unzip, type AsyncFlateStreamHandler, type FlateError, type UnzipDecoder } from 'fflate';
+
+/**
+ * Zip Reading
+ *
+ * Source archives and Office documents are zips, and the sizes in a zip's
+ * headers are whatever its author wrote there. Entries are inflated a small
+ * chunk at a time and the bytes actually produced are counted, so one that
+ * turns out bigger than it claimed is abandoned as soon as it crosses a limit
+ * rather than after it has filled memory.
+ */
+
+// Compressed bytes fed to the inflater at a time. Deflate expands at most
+// ~1000:1, so this bounds what one step can produce to a few MB.
+const CHUNK_BYTES = 4 * 1024;
+
+export interface ZipLimits {
+  /** Largest entry kept; bigger ones are listed in `tooLarge` */
+  maxEntryBytes: number;
+  /** Bytes inflated across the archive, counting abandoned entries */
+  maxTotalBytes: number;
+  /** Entries inflated across the archive */
+  maxEntries: number;
+}
+
+export interface ZipContents {
+  entries: Map<string, Uint8Array>;
+  /** Entries over the per-entry limit */
+  tooLarge: string[];
+  /** Entries left out once the archive's limits were reached */
+  overBudget: number;
+}
+
+/**
+ * Deflate decoder that can be stopped part way through an entry. fflate's own
+ * synchronous one keeps inflating whatever it's given after `terminate()`.
+ */
+class StoppableInflate implements UnzipDecoder {
+  static compression = 8;
+
+  ondata!: AsyncFlateStreamHandler;
+  private stopped = false;
+  private inflate = new Inflate((data, final) => this.ondata(null, data, final));
+
+  push(chunk: Uint8Array, final: boolean): void {
+    if (this.stopped) return;
+    try {
+      this.inflate.push(chunk, final);
+    } catch (error) {
+      this.ondata(error as FlateError, new Uint8Array(0), final);
+    }
+  }
+
+  terminate(): void {
+    this.stopped = true;
+  }
+}
+
+/**
+ * Inflate the entries `include` accepts (all files by default) within
+ * `limits`. Throws if the archive is corrupt.
+ */
+export function readZip(
+  data: Uint8Array,
+  limits: ZipLimits,
+  include: (name: string) => boolean = (name) => !name.endsWith('/')
+): ZipContents {
+  return scanZip(data, limits, include, true);
+}
+
+/**
+ * Throw unless every entry of the zip inflates to `maxBytes` in total, before
+ * it's handed to a parser that would inflate it without limits
+ */
+export function checkZipSize(data: Uint8Array, maxBytes: number): void {
+  const limits = { maxEntryBytes: maxBytes, maxTotalBytes: maxBytes, maxEntries: Infinity };
+  const { tooLarge, overBudget } = scanZip(data, limits, () => true, false);
+
+  if (tooLarge.length > 0 || overBudget > 0) {
+    throw new Error(`Document is larger than ${Math.round(maxBytes / (1024 * 1024))} MB uncompressed`);
+  }
+}
+
+function scanZip(
+  data: Uint8Array,
+  limits: ZipLimits,
+  include: (name: string) => boolean,
+  keep: boolean
+): ZipContents {
+  const contents: ZipContents = { entries: new Map(), tooLarge: [], overBudget: 0 };
+  let entryCount = 0;
+  let totalBytes = 0;
+  let full = false;
+
+  const unzip = new Unzip((file) => {
+    if (!include(file.name)) return;
+    // An honest header saves inflating the entry at all
+    if (file.originalSize !== undefined && file.originalSize > limits.maxEntryBytes) {
+      contents.tooLarge.push(file.name);
+      return;
+    }
+    if (full || entryCount >= limits.maxEntries) {
+      contents.overBudget++;
+      return;
+    }
+    entryCount++;
+
+    const chunks: Uint8Array[] = [];
+    let entryBytes = 0;
+    let abandoned = false;
+    file.ondata = (error, chunk, final) => {
+      if (error) throw error;
+      // Stored (uncompressed) entries can't be stopped, but they're no bigger than the upload
+      if (abandoned) return;
+
+      entryBytes += chunk.length;
+      totalBytes += chunk.length;
+      if (entryBytes > limits.maxEntryBytes) {
+        abandoned = true;
+        file.terminate();
+        contents.tooLarge.push(file.name);
+      } else if (totalBytes > limits.maxTotalBytes) {
+        abandoned = true;
+        full = true;
+        file.terminate();
+        contents.overBudget++;
+      } else {
+        if (keep) chunks.push(chunk);
+        if (final && keep) contents.entries.set(file.name, concat(chunks, entryBytes));
+      }
+    };
+    file.start();
+  });
+  unzip.register(StoppableInflate);
+
+  for (let offset = 0; offset < data.length; offset += CHUNK_BYTES) {
+    unzip.push(data.subarray(offset, offset + CHUNK_BYTES), offset + CHUNK_BYTES >= data.length);
+  }
+
+  return contents;
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+
+  const joined = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
@@ -0,0 +1,185 @@
+/**
+ * Minimal HCL Reader
+ *
+ * Enough of HashiCorp Configuration Language to walk Terraform files: blocks
+ * with their labels and nested blocks, and attributes as their raw
+ * expression text. Expressions are not evaluated - callers check for the
+ * literal values they care about (a `"0.0.0.0/0"` CIDR, `true`, a quoted
+ * password).
+ */
+
+export interface HclBlock {
+  /** Block type, e.g. `resource`, `variable` or `ingress` */
+  type: string;
+  labels: string[];
+  /** Attribute name to raw expression text */
+  attributes: Record<string, string>;
+  blocks: HclBlock[];
+}
+
+function stripComments(source: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '"') {
+      const end = skipString(source, i);
+      result += source.slice(i, end);
+      i = end;
+    } else if (char === '#' || (char === '/' && source[i + 1] === '/')) {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/** Index just past the string starting at `start` */
+function skipString(source: string, start: number): number {
+  let i = start + 1;
+  while (i < source.length && source[i] !== '"') {
+    if (source[i] === '\\') i++;
+    if (source[i] === '\n') break;
+    i++;
+  }
+  return i + 1;
+}
+
+/**
+ * Index just past the end of the expression starting at `start`: the end of
+ * the line, once any brackets, strings and heredocs opened on it are closed
+ */
+function skipExpression(source: string, start: number): number {
+  let depth = 0;
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '"') {
+      i = skipString(source, i);
+      continue;
+    }
+
+    const heredoc = char === '<' && source.slice(i).match(/^<<-?([A-Za-z_]\w*)\n/);
+    if (heredoc) {
+      const end = source.slice(i).search(new RegExp(`\\n\\s*${heredoc[1]}\\s*(\\n|$)`));
+      i = end === -1 ? source.length : i + end + 1;
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') depth++;
+    else if (char === ')' || char === ']' || char === '}') depth--;
+    else if (char === '\n' && depth <= 0) return i;
+
+    // A closing brace of the enclosing block ends a one-line body
+    if (depth < 0) return i;
+    i++;
+  }
+
+  return i;
+}
+
+/** Index of the brace that closes the block opened at `open` */
+function findClosingBrace(source: string, open: number): number {
+  let depth = 0;
+
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"') {
+      i = skipString(source, i) - 1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return source.length;
+}
+
+function parseBody(source: string): Pick<HclBlock, 'attributes' | 'blocks'> {
+  const attributes: Record<string, string> = {};
+  const blocks: HclBlock[] = [];
+  const identifier = /[A-Za-z_][\w-]*/y;
+  let i = 0;
+
+  while (i < source.length) {
+    // Skip to the next identifier
+    while (i < source.length && !/[A-Za-z_]/.test(source[i])) i++;
+    identifier.lastIndex = i;
+    const name = identifier.exec(source)?.[0];
+    if (!name) break;
+    i += name.length;
+
+    while (source[i] === ' ' || source[i] === '\t') i++;
+
+    // Attribute: name = expression (but not a == comparison)
+    if (source[i] === '=' && source[i + 1] !== '=') {
+      const end = skipExpression(source, i + 1);
+      attributes[name] = source.slice(i + 1, end).trim();
+      i = end;
+      continue;
+    }
+
+    // Block: name "label" label {
+    const labels: string[] = [];
+    while (source[i] === '"' || /[A-Za-z_]/.test(source[i] ?? '')) {
+      if (source[i] === '"') {
+        const end = skipString(source, i);
+        labels.push(source.slice(i + 1, end - 1));
+        i = end;
+      } else {
+        identifier.lastIndex = i;
+        const label = identifier.exec(source)![0];
+        labels.push(label);
+        i += label.length;
+      }
+      while (source[i] === ' ' || source[i] === '\t') i++;
+    }
+
+    if (source[i] === '{') {
+      const close = findClosingBrace(source, i);
+      blocks.push({ type: name, labels, ...parseBody(source.slice(i + 1, close)) });
+      i = close + 1;
+    } else {
+      // Not something we understand; move on to the next line
+      while (i < source.length && source[i] !== '\n') i++;
+    }
+  }
+
+  return { attributes, blocks };
+}
+
+/**
+ * Parse HCL source into its top-level attributes and blocks
+ */
+export function parseHcl(source: string): Pick<HclBlock, 'attributes' | 'blocks'> {
+  return parseBody(stripComments(source));
+}
+
+/**
+ * The value of a quoted string literal with no interpolation, if the
+ * expression is one
+ */
+export function hclString(expression: string | undefined): string | undefined {
+  const match = expression?.match(/^"([^"$]*)"$/);
+  return match?.[1];
+}
+
+/**
+ * Whether an expression is the literal `true`
+ */
+export function hclTrue(expression: string | undefined): boolean {
+  return expression === 'true';
+}
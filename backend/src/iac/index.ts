@@ -0,0 +1,119 @@
+/**
+ * Infrastructure-as-Code Analysis Module Exports
+ *
+ * Usage:
+ *   import { analyzeInfrastructure, buildInventoryContext } from './iac';
+ *   const inventory = analyzeInfrastructure(buffer, file.type, file.name);
+ */
+
+import { parseAllDocuments } from 'yaml';
+import { readArchive } from '../extraction';
+import type { IacEntry, IacInventory, IacSource } from './types';
+import { emptyInventory } from './rules';
+import { analyzeTerraform, isTerraform } from './parsers/terraform';
+import { CLOUDFORMATION_TAGS, analyzeCloudFormation, isCloudFormationTemplate } from './parsers/cloudformation';
+import { analyzeKubernetes, isKubernetesManifest } from './parsers/kubernetes';
+import { analyzeCompose, isComposeFile } from './parsers/compose';
+
+// Types
+export type { IacEntry, IacInventory, IacSource } from './types';
+
+// JSON is valid YAML, so one reader covers both
+const YAML_FILE = /\.(ya?ml|json|template)$/i;
+
+const SECTIONS: Array<[keyof IacInventory, string]> = [
+  ['services', 'Services'],
+  ['exposures', 'Network Exposure'],
+  ['secrets', 'Secrets'],
+  ['dataStores', 'Data Stores'],
+];
+
+function isEmpty(inventory: IacInventory): boolean {
+  return SECTIONS.every(([key]) => inventory[key].length === 0);
+}
+
+function parseYamlDocuments(text: string): unknown[] {
+  return parseAllDocuments(text, { customTags: CLOUDFORMATION_TAGS, logLevel: 'error' }).flatMap((document) =>
+    'errors' in document && document.errors.length === 0 ? [document.toJS()] : []
+  );
+}
+
+/**
+ * Add whatever IaC a file contains to an inventory. Files in other formats,
+ * and files that fail to parse, are left out.
+ */
+function analyzeSource(source: IacSource, inventory: IacInventory): void {
+  try {
+    if (isTerraform(source.path)) {
+      analyzeTerraform(source.text, source.path, inventory);
+      return;
+    }
+    if (!YAML_FILE.test(source.path)) return;
+
+    for (const document of parseYamlDocuments(source.text)) {
+      if (isCloudFormationTemplate(document)) analyzeCloudFormation(document, source.path, inventory);
+      else if (isKubernetesManifest(document)) analyzeKubernetes(document, source.path, inventory);
+      else if (isComposeFile(document)) analyzeCompose(document, source.path, inventory);
+    }
+  } catch (error) {
+    console.warn(`Could not analyze "${source.path}" as infrastructure as code:`, error);
+  }
+}
+
+/**
+ * Build the inventory of the Terraform, CloudFormation, Kubernetes and
+ * docker-compose files in an upload, including those inside a zip. Returns
+ * null for uploads with no IaC in them.
+ */
+export function analyzeInfrastructure(data: Buffer, mimeType: string, filename: string): IacInventory | null {
+  const inventory = emptyInventory();
+
+  if (mimeType === 'application/zip' || filename.toLowerCase().endsWith('.zip')) {
+    try {
+      for (const file of readArchive(data).files) {
+        analyzeSource(file, inventory);
+      }
+    } catch (error) {
+      console.warn(`Could not read "${filename}" to analyze its infrastructure as code:`, error);
+    }
+  } else {
+    analyzeSource({ path: filename, text: data.toString('utf-8') }, inventory);
+  }
+
+  return isEmpty(inventory) ? null : inventory;
+}
+
+/**
+ * Combine the inventories of a threat model's files
+ */
+export function mergeInventories(inventories: IacInventory[]): IacInventory {
+  const merged = emptyInventory();
+  for (const inventory of inventories) {
+    for (const [key] of SECTIONS) {
+      merged[key].push(...inventory[key]);
+    }
+  }
+  return merged;
+}
+
+function renderEntry(entry: IacEntry): string {
+  const details = entry.details.length > 0 ? `: ${entry.details.join('; ')}` : '';
+  return `- ${entry.name} (${entry.kind}, ${entry.source})${details}`;
+}
+
+/**
+ * Render an inventory for the analysis request, or an empty string if there
+ * is nothing in it
+ */
+export function buildInventoryContext(inventory: IacInventory): string {
+  if (isEmpty(inventory)) return '';
+
+  const sections = SECTIONS.filter(([key]) => inventory[key].length > 0).map(
+    ([key, title]) => `### ${title}\n${inventory[key].map(renderEntry).join('\n')}`
+  );
+
+  return `## Infrastructure Inventory
+Parsed from the uploaded infrastructure-as-code files. Use the resource names below in affectedComponents where a threat applies to them.
+
+${sections.join('\n\n')}`;
+}
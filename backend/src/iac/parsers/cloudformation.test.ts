@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { analyzeInfrastructure } from '..';
+
+// Uses the short-form intrinsic tags, which plain YAML parsers reject
+const template = `
+AWSTemplateFormatVersion: '2010-09-09'
+Parameters:
+  DbPassword:
+    Type: String
+    NoEcho: true
+  ApiKey:
+    Type: String
+    Default: live-key-123
+Resources:
+  OrdersDb:
+    Type: AWS::RDS::DBInstance
+    Properties:
+      Engine: postgres
+      PubliclyAccessible: true
+      StorageEncrypted: true
+      MasterUserPassword: !Ref DbPassword
+  WebSecurityGroup:
+    Type: AWS::EC2::SecurityGroup
+    Properties:
+      SecurityGroupIngress:
+        - IpProtocol: tcp
+          FromPort: 443
+          ToPort: 443
+          CidrIp: 0.0.0.0/0
+  Worker:
+    Type: AWS::Lambda::Function
+    Properties:
+      Runtime: python3.12
+      Environment:
+        Variables:
+          SIGNING_SECRET: plain-text-secret
+  WorkerUrl:
+    Type: AWS::Lambda::Url
+    Properties:
+      AuthType: NONE
+      TargetFunctionArn: !GetAtt Worker.Arn
+  Uploads:
+    Type: AWS::S3::Bucket
+    Properties:
+      AccessControl: PublicRead
+`;
+
+describe('CloudFormation analysis', () => {
+  const inventory = analyzeInfrastructure(Buffer.from(template), 'application/yaml', 'template.yaml')!;
+
+  test('lists functions and data stores', () => {
+    expect(inventory.services).toEqual([
+      { name: 'Worker', kind: 'AWS::Lambda::Function', source: 'template.yaml', details: ['Runtime: python3.12'] },
+    ]);
+    expect(inventory.dataStores).toMatchObject([
+      {
+        name: 'OrdersDb',
+        kind: 'AWS::RDS::DBInstance',
+        details: ['Engine: postgres', 'PubliclyAccessible: true', 'StorageEncrypted: true'],
+      },
+      { name: 'Uploads', kind: 'AWS::S3::Bucket', details: ['AccessControl: PublicRead'] },
+    ]);
+  });
+
+  test('flags public databases, open security groups, unauthenticated URLs and public buckets', () => {
+    expect(inventory.exposures).toMatchObject([
+      { name: 'OrdersDb', details: ['publicly accessible'] },
+      { name: 'WebSecurityGroup', details: ['ingress 443/tcp open to the internet'] },
+      { name: 'WorkerUrl', details: ['function URL with no authorization'] },
+      { name: 'Uploads', details: ['bucket ACL PublicRead'] },
+    ]);
+  });
+
+  test('tells NoEcho parameters and references apart from hard-coded secrets', () => {
+    expect(inventory.secrets).toMatchObject([
+      { name: 'DbPassword', kind: 'parameter', details: ['NoEcho'] },
+      { name: 'ApiKey', kind: 'parameter', details: ['not NoEcho', 'has a hard-coded default value'] },
+      { name: 'OrdersDb: MasterUserPassword', kind: 'setting', details: ['taken from {"Ref":"DbPassword"}'] },
+      { name: 'Worker: SIGNING_SECRET', kind: 'setting', details: ['hard-coded value in plain text'] },
+    ]);
+  });
+});
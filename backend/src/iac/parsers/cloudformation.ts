@@ -0,0 +1,199 @@
+import { PUBLIC_CIDRS, dataStoreForImage, isLiteralSecret, isSecretName, scanSettings } from '../rules';
+import type { IacInventory } from '../types';
+
+type Resource = { Type: string; Properties?: Record<string, any> };
+type Template = { Resources: Record<string, Resource>; Parameters?: Record<string, Record<string, unknown>> };
+
+/**
+ * CloudFormation intrinsic function tags, e.g. `!Ref DbPassword`, so the YAML
+ * reader turns them into the `{ "Ref": "DbPassword" }` form JSON templates use
+ */
+export const CLOUDFORMATION_TAGS = [
+  'Ref',
+  'Base64',
+  'Cidr',
+  'Condition',
+  'FindInMap',
+  'GetAtt',
+  'GetAZs',
+  'ImportValue',
+  'Join',
+  'Select',
+  'Split',
+  'Sub',
+  'Transform',
+  'And',
+  'Equals',
+  'If',
+  'Not',
+  'Or',
+].flatMap((name) => {
+  const key = name === 'Ref' || name === 'Condition' ? name : `Fn::${name}`;
+  return [
+    { tag: `!${name}`, resolve: (value: string) => ({ [key]: value }) },
+    {
+      tag: `!${name}`,
+      collection: 'seq' as const,
+      resolve: (value: { toJSON(): unknown }) => ({ [key]: value.toJSON() }),
+    },
+    {
+      tag: `!${name}`,
+      collection: 'map' as const,
+      resolve: (value: { toJSON(): unknown }) => ({ [key]: value.toJSON() }),
+    },
+  ];
+});
+
+const DATA_STORE_TYPES =
+  /^AWS::(RDS::DB(Instance|Cluster)|DynamoDB::(Global)?Table|S3::Bucket|ElastiCache::(CacheCluster|ReplicationGroup)|DocDB::DBCluster|Redshift::Cluster|EFS::FileSystem|OpenSearchService::Domain|Elasticsearch::Domain|SQS::Queue|Kinesis::Stream|Neptune::DBCluster)$/;
+
+const SECRET_TYPES = /^AWS::(SecretsManager::Secret|KMS::Key|IAM::AccessKey)$/;
+
+const SERVICE_TYPES =
+  /^AWS::(EC2::Instance|EC2::LaunchTemplate|AutoScaling::AutoScalingGroup|Lambda::Function|Serverless::Function|ECS::(Service|TaskDefinition)|EKS::Cluster|ElasticLoadBalancing(V2)?::LoadBalancer|ApiGateway::RestApi|ApiGatewayV2::Api|Serverless::(Api|HttpApi)|CloudFront::Distribution|AppRunner::Service|ElasticBeanstalk::Environment|StepFunctions::StateMachine|Cognito::UserPool)$/;
+
+// Properties worth passing on to the threat analysis when a resource sets them
+const NOTABLE_PROPERTIES = [
+  'Engine',
+  'EngineVersion',
+  'ImageId',
+  'Runtime',
+  'InstanceType',
+  'DBInstanceClass',
+  'Port',
+  'PubliclyAccessible',
+  'Scheme',
+  'AccessControl',
+  'StorageEncrypted',
+  'Encrypted',
+  'KmsKeyId',
+  'EnableIAMDatabaseAuthentication',
+  'DeletionProtection',
+  'AuthType',
+];
+
+/**
+ * Whether a parsed YAML or JSON document is a CloudFormation template
+ */
+export function isCloudFormationTemplate(document: unknown): document is Template {
+  if (!document || typeof document !== 'object') return false;
+  const resources = (document as Record<string, unknown>).Resources;
+  return (
+    !!resources &&
+    typeof resources === 'object' &&
+    Object.values(resources).some(
+      (resource) => typeof resource?.Type === 'string' && /^(AWS|Alexa|Custom)::/.test(resource.Type)
+    )
+  );
+}
+
+function format(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function notableDetails(properties: Record<string, any>): string[] {
+  const details = NOTABLE_PROPERTIES.filter((name) => name in properties).map(
+    (name) => `${name}: ${format(properties[name])}`
+  );
+  if (properties.BucketEncryption) details.push('server-side encryption configured');
+  if (properties.SSESpecification?.SSEEnabled === true) details.push('server-side encryption configured');
+  return details;
+}
+
+/** Ways a resource is reachable from the internet */
+function publicExposure(resource: Resource): string[] {
+  const properties = resource.Properties ?? {};
+  const details: string[] = [];
+  const rules: Record<string, any>[] =
+    resource.Type === 'AWS::EC2::SecurityGroupIngress' ? [properties] : (properties.SecurityGroupIngress ?? []);
+
+  for (const rule of rules) {
+    if (PUBLIC_CIDRS.includes(rule.CidrIp) || PUBLIC_CIDRS.includes(rule.CidrIpv6)) {
+      const ports =
+        rule.FromPort !== undefined && rule.FromPort !== rule.ToPort
+          ? `${rule.FromPort}-${rule.ToPort}`
+          : (rule.FromPort ?? 'all ports');
+      details.push(`ingress ${ports}/${rule.IpProtocol ?? '?'} open to the internet`);
+    }
+  }
+
+  if (/^AWS::ElasticLoadBalancing(V2)?::LoadBalancer$/.test(resource.Type) && properties.Scheme !== 'internal') {
+    details.push('internet-facing load balancer');
+  }
+  if (properties.PubliclyAccessible === true || properties.PubliclyAccessible === 'true') {
+    details.push('publicly accessible');
+  }
+  if (/^Public/.test(properties.AccessControl ?? '')) details.push(`bucket ACL ${properties.AccessControl}`);
+  if (resource.Type === 'AWS::Lambda::Url' && properties.AuthType === 'NONE') {
+    details.push('function URL with no authorization');
+  }
+  if (/^AWS::(ApiGateway::RestApi|ApiGatewayV2::Api|Serverless::(Api|HttpApi))$/.test(resource.Type)) {
+    details.push('public API endpoint');
+  }
+  if (resource.Type === 'AWS::CloudFront::Distribution') details.push('CDN distribution');
+
+  return details;
+}
+
+/** Environment variables of a function or the containers of a task */
+function environmentsOf(resource: Resource): Array<[string, Record<string, unknown>]> {
+  const properties = resource.Properties ?? {};
+  if (properties.Environment?.Variables) {
+    return [['', properties.Environment.Variables]];
+  }
+  return (properties.ContainerDefinitions ?? []).map((container: Record<string, any>) => [
+    `/${container.Name}`,
+    {
+      ...Object.fromEntries((container.Environment ?? []).map((variable: any) => [variable.Name, variable.Value])),
+      ...Object.fromEntries(
+        (container.Secrets ?? []).map((secret: any) => [secret.Name, { ValueFrom: secret.ValueFrom }])
+      ),
+    },
+  ]);
+}
+
+/**
+ * Add the resources and parameters of a CloudFormation template to an inventory
+ */
+export function analyzeCloudFormation(template: Template, source: string, inventory: IacInventory): void {
+  for (const [name, parameter] of Object.entries(template.Parameters ?? {})) {
+    if (!isSecretName(name) && parameter.NoEcho !== true) continue;
+
+    const details = [parameter.NoEcho === true ? 'NoEcho' : 'not NoEcho'];
+    if (isLiteralSecret(parameter.Default)) details.push('has a hard-coded default value');
+    inventory.secrets.push({ name, kind: 'parameter', source, details });
+  }
+
+  for (const [name, resource] of Object.entries(template.Resources)) {
+    if (!resource || typeof resource !== 'object' || typeof resource.Type !== 'string') continue;
+
+    const properties = resource.Properties ?? {};
+    const details = notableDetails(properties);
+    const images = (properties.ContainerDefinitions ?? []).map((container: Record<string, any>) =>
+      format(container.Image)
+    );
+    if (images.length > 0) details.push(`images ${images.join(', ')}`);
+
+    if (DATA_STORE_TYPES.test(resource.Type) || images.some((image: string) => dataStoreForImage(image))) {
+      inventory.dataStores.push({ name, kind: resource.Type, source, details });
+    } else if (SECRET_TYPES.test(resource.Type)) {
+      inventory.secrets.push({ name, kind: resource.Type, source, details });
+    } else if (SERVICE_TYPES.test(resource.Type)) {
+      inventory.services.push({ name, kind: resource.Type, source, details });
+    }
+
+    const exposure = publicExposure(resource);
+    if (exposure.length > 0) {
+      inventory.exposures.push({ name, kind: resource.Type, source, details: exposure });
+    }
+
+    for (const [suffix, environment] of environmentsOf(resource)) {
+      scanSettings(inventory, { name: `${name}${suffix}`, source }, environment);
+    }
+    for (const [key, value] of Object.entries(properties)) {
+      if (isSecretName(key) && !/(Arn|Id|Name|Length)$/.test(key) && typeof value !== 'boolean') {
+        scanSettings(inventory, { name, source }, { [key]: value });
+      }
+    }
+  }
+}
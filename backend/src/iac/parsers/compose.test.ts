@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { analyzeInfrastructure, type IacInventory } from '..';
+
+// The compose files this repository ships with
+const REPO_ROOT = join(import.meta.dir, '../../../..');
+
+function analyzeRepoFile(filename: string): IacInventory {
+  return analyzeInfrastructure(readFileSync(join(REPO_ROOT, filename)), 'application/yaml', filename)!;
+}
+
+const names = (entries: IacInventory[keyof IacInventory]) => entries.map((entry) => entry.name);
+
+describe('docker-compose analysis', () => {
+  test('finds the development database, its published port and password', () => {
+    const inventory = analyzeRepoFile('docker-compose.yml');
+
+    expect(inventory.services).toEqual([]);
+    expect(inventory.dataStores).toEqual([
+      {
+        name: 'postgres',
+        kind: 'PostgreSQL',
+        source: 'docker-compose.yml',
+        details: ['image postgres:16-alpine', 'publishes 5432:5432', 'volumes postgres_data:/var/lib/postgresql/data'],
+      },
+    ]);
+    expect(inventory.exposures).toMatchObject([{ name: 'postgres', details: ['5432:5432 on all host interfaces'] }]);
+    expect(inventory.secrets).toMatchObject([
+      { name: 'postgres: POSTGRES_PASSWORD', details: ['hard-coded value in plain text'] },
+    ]);
+  });
+
+  test('reads list-form environments in the production file', () => {
+    const inventory = analyzeRepoFile('docker-compose.prod.yml');
+
+    expect(inventory.services).toMatchObject([
+      {
+        name: 'app',
+        kind: 'compose service',
+        details: ['built from source', 'publishes 3001:3001', 'depends on postgres'],
+      },
+    ]);
+    expect(names(inventory.dataStores)).toEqual(['postgres']);
+    expect(names(inventory.exposures)).toEqual(['app', 'postgres']);
+    expect(inventory.secrets).toMatchObject([
+      { name: 'app: DATABASE_URL', details: ['connection string with an embedded password'] },
+      { name: 'postgres: POSTGRES_PASSWORD', details: ['hard-coded value in plain text'] },
+    ]);
+  });
+
+  test('only counts the proxy as exposed in the deployment file', () => {
+    const inventory = analyzeRepoFile('docker-compose.deploy.yml');
+
+    expect(inventory.services).toMatchObject([
+      {
+        name: 'app',
+        details: [
+          'built from source',
+          'exposes 3001 to other services',
+          'volumes sqlite_data:/app/data',
+          'reads environment from ./backend/.env',
+        ],
+      },
+      { name: 'proxy', details: expect.arrayContaining(['image caddy:2-alpine', 'publishes 80:80, 443:443']) },
+    ]);
+    expect(inventory.exposures).toMatchObject([
+      { name: 'proxy', details: ['80:80 on all host interfaces', '443:443 on all host interfaces'] },
+    ]);
+    expect(inventory.secrets).toEqual([]);
+  });
+
+  test('records networks, compose secrets and risky container settings', () => {
+    const compose = `
+services:
+  api:
+    image: registry.example.com/api:1.4
+    ports:
+      - "127.0.0.1:8080:8080"
+    networks: [frontend, backend]
+    secrets: [db_password]
+    environment:
+      DB_PASSWORD: changeme
+      API_TOKEN: \${API_TOKEN}
+  agent:
+    image: datadog/agent:7
+    network_mode: host
+    privileged: true
+    volumes:
+      - /var/run/docker.sock:/var/run/docker.sock:ro
+  cache:
+    image: redis:7
+    networks:
+      backend: {}
+networks:
+  frontend:
+  backend:
+    internal: true
+secrets:
+  db_password:
+    file: ./secrets/db_password.txt
+`;
+
+    const inventory = analyzeInfrastructure(Buffer.from(compose), 'application/yaml', 'compose.yaml')!;
+
+    expect(inventory.services).toMatchObject([
+      { name: 'api', details: expect.arrayContaining(['publishes 127.0.0.1:8080:8080', 'networks frontend, backend']) },
+      {
+        name: 'agent',
+        details: expect.arrayContaining(['runs privileged', 'uses the host network', 'mounts the Docker socket']),
+      },
+    ]);
+    expect(inventory.dataStores).toMatchObject([
+      { name: 'cache', kind: 'Redis', details: expect.arrayContaining(['networks backend']) },
+    ]);
+    // Bound to localhost, so only the host-network agent is reachable
+    expect(inventory.exposures).toMatchObject([{ name: 'agent', details: ['all ports, through the host network'] }]);
+    expect(inventory.secrets).toMatchObject([
+      { name: 'api: DB_PASSWORD', kind: 'setting', details: ['hard-coded value in plain text'] },
+      { name: 'api: API_TOKEN', kind: 'setting', details: ['taken from ${API_TOKEN}'] },
+      { name: 'db_password', kind: 'compose secret', details: ['from file ./secrets/db_password.txt'] },
+    ]);
+  });
+});
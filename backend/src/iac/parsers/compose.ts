@@ -0,0 +1,120 @@
+import { dataStoreForImage, scanSettings } from '../rules';
+import type { IacInventory } from '../types';
+
+type ComposeService = Record<string, unknown>;
+
+/**
+ * Whether a YAML document is a docker-compose file
+ */
+export function isComposeFile(document: unknown): document is { services: Record<string, ComposeService> } {
+  if (!document || typeof document !== 'object') return false;
+  const services = (document as Record<string, unknown>).services;
+  return (
+    !!services &&
+    typeof services === 'object' &&
+    !Array.isArray(services) &&
+    Object.values(services).some(
+      (service) => !!service && typeof service === 'object' && ('image' in service || 'build' in service)
+    )
+  );
+}
+
+/** Environment in either the map or the `KEY=value` list form */
+function environmentOf(service: ComposeService): Record<string, unknown> {
+  const environment = service.environment;
+  if (Array.isArray(environment)) {
+    return Object.fromEntries(
+      environment.map((item) => {
+        const [key, ...value] = String(item).split('=');
+        return [key, value.length > 0 ? value.join('=') : undefined];
+      })
+    );
+  }
+  return environment && typeof environment === 'object' ? (environment as Record<string, unknown>) : {};
+}
+
+/** Published ports as `host:container` strings */
+function publishedPorts(service: ComposeService): string[] {
+  if (!Array.isArray(service.ports)) return [];
+  return service.ports.map((port) => {
+    if (port && typeof port === 'object') {
+      const { published, target, host_ip: hostIp } = port as Record<string, unknown>;
+      return [hostIp, published, target].filter((part) => part !== undefined).join(':');
+    }
+    return String(port);
+  });
+}
+
+/** Whether a published port is bound to every interface rather than localhost */
+function bindsAllInterfaces(port: string): boolean {
+  return !/^(127\.0\.0\.1|localhost|\[?::1\]?):/.test(port) && port.includes(':');
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (value && typeof value === 'object') return Object.keys(value);
+  return value ? [String(value)] : [];
+}
+
+/**
+ * Add the services of a docker-compose file to an inventory
+ */
+export function analyzeCompose(
+  document: { services: Record<string, ComposeService> },
+  source: string,
+  inventory: IacInventory
+): void {
+  for (const [name, service] of Object.entries(document.services)) {
+    if (!service || typeof service !== 'object') continue;
+
+    const image = typeof service.image === 'string' ? service.image : undefined;
+    const details: string[] = [image ? `image ${image}` : 'built from source'];
+    const ports = publishedPorts(service);
+    const dependsOn = stringList(service.depends_on);
+    const networks = stringList(service.networks);
+    const volumes = stringList(service.volumes);
+
+    if (ports.length > 0) details.push(`publishes ${ports.join(', ')}`);
+    if (Array.isArray(service.expose)) details.push(`exposes ${service.expose.join(', ')} to other services`);
+    if (dependsOn.length > 0) details.push(`depends on ${dependsOn.join(', ')}`);
+    if (networks.length > 0) details.push(`networks ${networks.join(', ')}`);
+    if (volumes.length > 0) details.push(`volumes ${volumes.join(', ')}`);
+    if (service.privileged === true) details.push('runs privileged');
+    if (service.network_mode === 'host') details.push('uses the host network');
+    if (volumes.some((volume) => volume.startsWith('/var/run/docker.sock'))) details.push('mounts the Docker socket');
+    if (service.env_file) details.push(`reads environment from ${stringList(service.env_file).join(', ')}`);
+
+    const dataStore = image ? dataStoreForImage(image) : undefined;
+    const entry = { name, kind: dataStore ?? 'compose service', source, details };
+    if (dataStore) inventory.dataStores.push(entry);
+    else inventory.services.push(entry);
+
+    const exposed = ports.filter(bindsAllInterfaces);
+    if (exposed.length > 0 || service.network_mode === 'host') {
+      inventory.exposures.push({
+        name,
+        kind: 'published port',
+        source,
+        details:
+          exposed.length > 0
+            ? exposed.map((port) => `${port} on all host interfaces`)
+            : ['all ports, through the host network'],
+      });
+    }
+
+    scanSettings(inventory, { name, source }, environmentOf(service));
+  }
+
+  const secrets = (document as Record<string, unknown>).secrets;
+  if (secrets && typeof secrets === 'object') {
+    for (const [name, secret] of Object.entries(secrets)) {
+      const from = secret && typeof secret === 'object' ? Object.entries(secret)[0] : undefined;
+      inventory.secrets.push({
+        name,
+        kind: 'compose secret',
+        source,
+        details: from ? [`from ${from[0]} ${String(from[1])}`] : [],
+      });
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test';
+import { analyzeInfrastructure } from '..';
+
+const manifests = `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: shop
+spec:
+  replicas: 3
+  template:
+    spec:
+      serviceAccountName: api
+      containers:
+        - name: api
+          image: ghcr.io/shop/api:2.1
+          securityContext:
+            allowPrivilegeEscalation: true
+          env:
+            - name: DATABASE_PASSWORD
+              valueFrom:
+                secretKeyRef: { name: db-credentials, key: password }
+            - name: STRIPE_API_KEY
+              value: sk_live_123
+---
+apiVersion: apps/v1
+kind: StatefulSet
+metadata:
+  name: orders-db
+  namespace: shop
+spec:
+  template:
+    spec:
+      containers:
+        - name: postgres
+          image: postgres:16
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+  namespace: shop
+spec:
+  type: LoadBalancer
+  selector: { app: api }
+  ports:
+    - port: 443
+      targetPort: 8443
+---
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: storefront
+  namespace: shop
+spec:
+  rules:
+    - host: shop.example.com
+      http:
+        paths:
+          - path: /api
+            backend:
+              service: { name: api }
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: db-credentials
+  namespace: shop
+type: Opaque
+data:
+  password: c2VjcmV0
+---
+apiVersion: networking.k8s.io/v1
+kind: NetworkPolicy
+metadata:
+  name: db-only-from-api
+  namespace: shop
+spec:
+  podSelector: { matchLabels: { app: orders-db } }
+  policyTypes: [Ingress]
+`;
+
+describe('Kubernetes analysis', () => {
+  const inventory = analyzeInfrastructure(Buffer.from(manifests), 'application/yaml', 'shop.yaml')!;
+
+  test('lists workloads, services and network policies by namespace', () => {
+    expect(inventory.services).toEqual([
+      {
+        name: 'shop/api',
+        kind: 'Deployment',
+        source: 'shop.yaml',
+        details: ['images ghcr.io/shop/api:2.1', '3 replicas', 'service account api', 'api allows privilege escalation'],
+      },
+      { name: 'shop/api', kind: 'LoadBalancer Service', source: 'shop.yaml', details: ['ports 443->8443', 'selects {"app":"api"}'] },
+      {
+        name: 'shop/db-only-from-api',
+        kind: 'NetworkPolicy',
+        source: 'shop.yaml',
+        details: ['applies to {"matchLabels":{"app":"orders-db"}}', 'policy types Ingress'],
+      },
+    ]);
+    expect(inventory.dataStores).toMatchObject([{ name: 'shop/orders-db', kind: 'PostgreSQL StatefulSet' }]);
+  });
+
+  test('flags the load balancer and the ingress without TLS as exposed', () => {
+    expect(inventory.exposures).toMatchObject([
+      { name: 'shop/api', kind: 'LoadBalancer Service', details: ['ports 443->8443', 'reachable from outside the cluster'] },
+      {
+        name: 'shop/storefront',
+        kind: 'Ingress',
+        details: ['routes shop.example.com (/api -> api)', 'no TLS configured'],
+      },
+    ]);
+  });
+
+  test('separates secret references from inline values and Secret manifests', () => {
+    expect(inventory.secrets).toMatchObject([
+      {
+        name: 'shop/api/api: DATABASE_PASSWORD',
+        details: ['taken from {"secretKeyRef":{"name":"db-credentials","key":"password"}}'],
+      },
+      { name: 'shop/api/api: STRIPE_API_KEY', details: ['hard-coded value in plain text'] },
+      {
+        name: 'shop/db-credentials',
+        kind: 'Secret (Opaque)',
+        details: ['keys password', 'values are in the manifest (base64 is not encryption)'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import { dataStoreForImage, scanSettings } from '../rules';
+import type { IacInventory } from '../types';
+
+type Manifest = {
+  apiVersion: string;
+  kind: string;
+  metadata?: { name?: string; namespace?: string };
+  spec?: Record<string, any>;
+  data?: Record<string, unknown>;
+  stringData?: Record<string, unknown>;
+  type?: string;
+};
+
+const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'Job', 'CronJob', 'Pod'];
+
+/**
+ * Whether a YAML document is a Kubernetes manifest
+ */
+export function isKubernetesManifest(document: unknown): document is Manifest {
+  if (!document || typeof document !== 'object') return false;
+  const { apiVersion, kind } = document as Record<string, unknown>;
+  return typeof apiVersion === 'string' && typeof kind === 'string';
+}
+
+/** The pod spec of a workload, wherever its kind keeps it */
+function podSpecOf(manifest: Manifest): Record<string, any> | undefined {
+  if (manifest.kind === 'Pod') return manifest.spec;
+  if (manifest.kind === 'CronJob') return manifest.spec?.jobTemplate?.spec?.template?.spec;
+  return manifest.spec?.template?.spec;
+}
+
+function nameOf(manifest: Manifest): string {
+  const name = manifest.metadata?.name ?? '(unnamed)';
+  return manifest.metadata?.namespace ? `${manifest.metadata.namespace}/${name}` : name;
+}
+
+function analyzeWorkload(manifest: Manifest, podSpec: Record<string, any>, source: string, inventory: IacInventory) {
+  const name = nameOf(manifest);
+  const containers: Record<string, any>[] = [...(podSpec.initContainers ?? []), ...(podSpec.containers ?? [])];
+  const images = containers.map((container) => String(container.image ?? 'unknown image'));
+  const details = [`images ${images.join(', ')}`];
+
+  if (manifest.spec?.replicas !== undefined) details.push(`${manifest.spec.replicas} replicas`);
+  if (podSpec.serviceAccountName) details.push(`service account ${podSpec.serviceAccountName}`);
+  if (podSpec.hostNetwork) details.push('uses the host network');
+  if (podSpec.hostPID) details.push('shares the host PID namespace');
+
+  for (const container of containers) {
+    const securityContext = container.securityContext ?? {};
+    if (securityContext.privileged) details.push(`${container.name} runs privileged`);
+    if (securityContext.allowPrivilegeEscalation === true) details.push(`${container.name} allows privilege escalation`);
+    if (securityContext.runAsUser === 0 || securityContext.runAsNonRoot === false) {
+      details.push(`${container.name} runs as root`);
+    }
+
+    const env: Record<string, any>[] = container.env ?? [];
+    scanSettings(
+      inventory,
+      { name: `${name}/${container.name}`, source },
+      Object.fromEntries(env.map((variable) => [variable.name, variable.valueFrom ?? variable.value]))
+    );
+  }
+
+  for (const volume of podSpec.volumes ?? []) {
+    if (volume.hostPath) details.push(`mounts host path ${volume.hostPath.path}`);
+  }
+
+  const dataStore = images.map(dataStoreForImage).find(Boolean);
+  const entry = { name, kind: dataStore ? `${dataStore} ${manifest.kind}` : manifest.kind, source, details };
+  if (dataStore || manifest.kind === 'StatefulSet') inventory.dataStores.push(entry);
+  else inventory.services.push(entry);
+
+  if (podSpec.hostNetwork) {
+    inventory.exposures.push({ name, kind: manifest.kind, source, details: ['all ports, through the host network'] });
+  }
+}
+
+/**
+ * Add a Kubernetes manifest to an inventory
+ */
+export function analyzeKubernetes(manifest: Manifest, source: string, inventory: IacInventory): void {
+  const name = nameOf(manifest);
+  const spec = manifest.spec ?? {};
+
+  if (manifest.kind === 'List') {
+    for (const item of (manifest as Record<string, any>).items ?? []) {
+      if (isKubernetesManifest(item)) analyzeKubernetes(item, source, inventory);
+    }
+    return;
+  }
+
+  if (WORKLOAD_KINDS.includes(manifest.kind)) {
+    const podSpec = podSpecOf(manifest);
+    if (podSpec) analyzeWorkload(manifest, podSpec, source, inventory);
+    return;
+  }
+
+  switch (manifest.kind) {
+    case 'Service': {
+      const ports = (spec.ports ?? []).map((port: Record<string, unknown>) =>
+        [port.port, port.targetPort].filter((part) => part !== undefined).join('->')
+      );
+      const type = spec.type ?? 'ClusterIP';
+      inventory.services.push({
+        name,
+        kind: `${type} Service`,
+        source,
+        details: [`ports ${ports.join(', ') || 'none'}`, `selects ${JSON.stringify(spec.selector ?? {})}`],
+      });
+      if (type === 'LoadBalancer' || type === 'NodePort') {
+        const ranges: string[] = spec.loadBalancerSourceRanges ?? [];
+        inventory.exposures.push({
+          name,
+          kind: `${type} Service`,
+          source,
+          details: [
+            `ports ${ports.join(', ')}`,
+            ranges.length > 0 ? `restricted to ${ranges.join(', ')}` : 'reachable from outside the cluster',
+          ],
+        });
+      }
+      break;
+    }
+
+    case 'Ingress': {
+      const hosts = (spec.rules ?? []).map((rule: Record<string, any>) => {
+        const paths = (rule.http?.paths ?? []).map(
+          (path: Record<string, any>) =>
+            `${path.path ?? '/'} -> ${path.backend?.service?.name ?? path.backend?.serviceName ?? '?'}`
+        );
+        return `${rule.host ?? '*'} (${paths.join(', ')})`;
+      });
+      inventory.exposures.push({
+        name,
+        kind: 'Ingress',
+        source,
+        details: [
+          `routes ${hosts.join('; ') || 'all hosts'}`,
+          spec.tls?.length ? 'TLS configured' : 'no TLS configured',
+        ],
+      });
+      break;
+    }
+
+    case 'Secret': {
+      const keys = [...Object.keys(manifest.data ?? {}), ...Object.keys(manifest.stringData ?? {})];
+      const details = [`keys ${keys.join(', ') || 'none'}`];
+      if (keys.length > 0) details.push('values are in the manifest (base64 is not encryption)');
+      inventory.secrets.push({ name, kind: `Secret${manifest.type ? ` (${manifest.type})` : ''}`, source, details });
+      break;
+    }
+
+    case 'ConfigMap':
+      scanSettings(inventory, { name, source }, manifest.data ?? {});
+      break;
+
+    case 'PersistentVolumeClaim':
+      inventory.dataStores.push({
+        name,
+        kind: 'PersistentVolumeClaim',
+        source,
+        details: [
+          `storage ${spec.resources?.requests?.storage ?? 'unspecified'}`,
+          `class ${spec.storageClassName ?? 'default'}`,
+        ],
+      });
+      break;
+
+    case 'NetworkPolicy':
+      inventory.services.push({
+        name,
+        kind: 'NetworkPolicy',
+        source,
+        details: [
+          `applies to ${JSON.stringify(spec.podSelector ?? {})}`,
+          `policy types ${(spec.policyTypes ?? ['Ingress']).join(', ')}`,
+        ],
+      });
+      break;
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import { analyzeInfrastructure } from '..';
+
+const configuration = `
+variable "db_password" {
+  type    = string
+  default = "hunter2"
+}
+
+variable "api_key" {
+  sensitive = true
+}
+
+resource "aws_db_instance" "orders" {
+  engine              = "postgres"
+  instance_class      = "db.t3.micro"
+  publicly_accessible = true
+  storage_encrypted   = false
+  password            = var.db_password
+}
+
+resource "aws_security_group" "web" {
+  ingress {
+    from_port   = 443
+    to_port     = 443
+    protocol    = "tcp"
+    cidr_blocks = ["0.0.0.0/0"]
+  }
+  ingress {
+    from_port   = 22
+    to_port     = 22
+    protocol    = "tcp"
+    cidr_blocks = ["10.0.0.0/8"]
+  }
+}
+
+resource "aws_lb" "public" {
+  load_balancer_type = "application"
+}
+
+resource "aws_lambda_function" "worker" {
+  runtime = "nodejs20.x"
+  environment {
+    variables = {
+      API_TOKEN = "abc123"
+    }
+  }
+}
+
+resource "aws_secretsmanager_secret" "stripe" {
+  name = "stripe-key"
+}
+
+module "vpc" {
+  source = "terraform-aws-modules/vpc/aws"
+}
+`;
+
+describe('Terraform analysis', () => {
+  const inventory = analyzeInfrastructure(Buffer.from(configuration), 'text/plain', 'main.tf')!;
+
+  test('lists compute, modules and data stores', () => {
+    expect(inventory.services).toMatchObject([
+      { name: 'aws_lb.public', details: ['load_balancer_type = "application"'] },
+      { name: 'aws_lambda_function.worker', details: ['runtime = "nodejs20.x"'] },
+      { name: 'module.vpc', kind: 'module', details: ['source terraform-aws-modules/vpc/aws'] },
+    ]);
+    expect(inventory.dataStores).toEqual([
+      {
+        name: 'aws_db_instance.orders',
+        kind: 'aws_db_instance',
+        source: 'main.tf',
+        details: [
+          'engine = "postgres"',
+          'instance_class = "db.t3.micro"',
+          'publicly_accessible = true',
+          'storage_encrypted = false',
+        ],
+      },
+    ]);
+  });
+
+  test('only counts internet-wide ingress rules as exposed', () => {
+    expect(inventory.exposures).toMatchObject([
+      { name: 'aws_db_instance.orders', details: ['publicly accessible'] },
+      { name: 'aws_security_group.web', details: ['ingress 443/tcp open to the internet'] },
+      { name: 'aws_lb.public', details: ['internet-facing load balancer'] },
+    ]);
+  });
+
+  test('reports secret variables, their uses and inline values', () => {
+    expect(inventory.secrets).toMatchObject([
+      { name: 'var.db_password', kind: 'variable', details: ['not marked sensitive', 'has a hard-coded default value'] },
+      { name: 'var.api_key', kind: 'variable', details: ['marked sensitive'] },
+      { name: 'aws_db_instance.orders: password', details: ['taken from var.db_password'] },
+      {
+        name: 'aws_lambda_function.worker: environment.variables.API_TOKEN',
+        details: ['hard-coded value in plain text'],
+      },
+      { name: 'aws_secretsmanager_secret.stripe', kind: 'aws_secretsmanager_secret' },
+    ]);
+  });
+
+  test('reads secret values from .tfvars files', () => {
+    const vars = 'api_key = "live-123"\nregion  = "eu-west-1"\n';
+    const inventory = analyzeInfrastructure(Buffer.from(vars), 'text/plain', 'prod.tfvars')!;
+
+    expect(inventory.secrets).toEqual([
+      { name: 'api_key', kind: 'variable value', source: 'prod.tfvars', details: ['hard-coded value in plain text'] },
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import { hclString, hclTrue, parseHcl, type HclBlock } from '../hcl';
+import { PUBLIC_CIDRS, isLiteralSecret, isSecretName } from '../rules';
+import type { IacInventory } from '../types';
+
+const DATA_STORE_TYPES =
+  /^aws_(db_instance|rds_cluster|dynamodb_table|s3_bucket|elasticache_(cluster|replication_group)|docdb_cluster|redshift_cluster|efs_file_system|opensearch_domain|elasticsearch_domain|sqs_queue|kinesis_stream|neptune_cluster)$|^google_(sql_database_instance|storage_bucket|bigquery_dataset|redis_instance|spanner_instance|firestore_database|pubsub_topic)$|^azurerm_(storage_account|(mssql|postgresql|mysql)_(flexible_)?server|cosmosdb_account|redis_cache|servicebus_namespace)$/;
+
+const SECRET_TYPES =
+  /^aws_(secretsmanager_secret|kms_key|iam_access_key)$|^google_(secret_manager_secret|kms_crypto_key|service_account_key)$|^azurerm_key_vault(_secret|_key)?$/;
+
+const SERVICE_TYPES =
+  /^aws_(instance|launch_template|autoscaling_group|lambda_function|ecs_service|ecs_task_definition|eks_cluster|lb|alb|elb|api_gateway_rest_api|apigatewayv2_api|cloudfront_distribution|apprunner_service|elastic_beanstalk_environment|sfn_state_machine|cognito_user_pool)$|^google_(compute_instance|cloud_run_service|cloud_run_v2_service|cloudfunctions2?_function|container_cluster|app_engine_application|api_gateway_api)$|^azurerm_((linux|windows)_(web_app|virtual_machine|function_app)|kubernetes_cluster|container_app|api_management|application_gateway)$|^kubernetes_(deployment|stateful_set|service|ingress)(_v1)?$/;
+
+// Attributes worth passing on to the threat analysis when a resource sets them
+const NOTABLE_ATTRIBUTES = [
+  'engine',
+  'engine_version',
+  'image',
+  'image_id',
+  'ami',
+  'runtime',
+  'instance_type',
+  'instance_class',
+  'port',
+  'publicly_accessible',
+  'internal',
+  'load_balancer_type',
+  'acl',
+  'storage_encrypted',
+  'encrypted',
+  'kms_key_id',
+  'iam_database_authentication_enabled',
+  'deletion_protection',
+  'authorization_type',
+  'associate_public_ip_address',
+  'public_network_access_enabled',
+  'min_tls_version',
+];
+
+function notableDetails(block: HclBlock): string[] {
+  const details = NOTABLE_ATTRIBUTES.filter((name) => name in block.attributes).map(
+    (name) => `${name} = ${block.attributes[name]}`
+  );
+  for (const nested of block.blocks) {
+    if (nested.type === 'server_side_encryption_configuration' || nested.type === 'server_side_encryption') {
+      details.push('server-side encryption configured');
+    }
+  }
+  return details;
+}
+
+/** Whether a list expression such as `["0.0.0.0/0"]` contains a public CIDR */
+function hasPublicCidr(expression: string | undefined): boolean {
+  return !!expression && PUBLIC_CIDRS.some((cidr) => expression.includes(`"${cidr}"`));
+}
+
+function portRange(attributes: Record<string, string>): string {
+  const from = attributes.from_port ?? attributes.port;
+  const to = attributes.to_port;
+  const protocol = attributes.protocol ?? attributes.ip_protocol;
+  const ports = from && to && from !== to ? `${from}-${to}` : (from ?? to ?? 'all ports');
+  return protocol ? `${ports}/${protocol.replace(/"/g, '')}` : ports;
+}
+
+/** Ways a resource is reachable from the internet */
+function publicExposure(type: string, block: HclBlock): string[] {
+  const { attributes } = block;
+  const details: string[] = [];
+
+  for (const ingress of block.blocks.filter((nested) => nested.type === 'ingress')) {
+    if (hasPublicCidr(ingress.attributes.cidr_blocks) || hasPublicCidr(ingress.attributes.ipv6_cidr_blocks)) {
+      details.push(`ingress ${portRange(ingress.attributes)} open to the internet`);
+    }
+  }
+
+  if (
+    (type === 'aws_security_group_rule' && hclString(attributes.type) === 'ingress') ||
+    type === 'aws_vpc_security_group_ingress_rule'
+  ) {
+    if (
+      hasPublicCidr(attributes.cidr_blocks) ||
+      hasPublicCidr(attributes.ipv6_cidr_blocks) ||
+      PUBLIC_CIDRS.includes(hclString(attributes.cidr_ipv4) ?? '') ||
+      PUBLIC_CIDRS.includes(hclString(attributes.cidr_ipv6) ?? '')
+    ) {
+      details.push(`ingress ${portRange(attributes)} open to the internet`);
+    }
+  }
+
+  if (type === 'google_compute_firewall' && hasPublicCidr(attributes.source_ranges)) {
+    const allowed = block.blocks
+      .filter((nested) => nested.type === 'allow')
+      .map((allow) => `${allow.attributes.ports ?? 'all ports'}/${hclString(allow.attributes.protocol) ?? '?'}`);
+    details.push(`allows ${allowed.join(', ') || 'traffic'} from the internet`);
+  }
+
+  if (type === 'azurerm_network_security_rule' && hclString(attributes.direction) === 'Inbound') {
+    const prefix = hclString(attributes.source_address_prefix);
+    if (prefix === '*' || prefix === 'Internet' || PUBLIC_CIDRS.includes(prefix ?? '')) {
+      details.push(`inbound ${attributes.destination_port_range ?? 'all ports'} allowed from ${prefix}`);
+    }
+  }
+
+  if ((type === 'aws_lb' || type === 'aws_alb' || type === 'aws_elb') && !hclTrue(attributes.internal)) {
+    details.push('internet-facing load balancer');
+  }
+  if (hclTrue(attributes.publicly_accessible)) details.push('publicly accessible');
+  if (hclTrue(attributes.associate_public_ip_address)) details.push('has a public IP address');
+  if (hclTrue(attributes.public_network_access_enabled)) details.push('public network access enabled');
+  if (/^"public-read(-write)?"$/.test(attributes.acl ?? '')) details.push(`bucket ACL ${attributes.acl}`);
+  if (type === 'aws_s3_bucket_public_access_block' && Object.values(attributes).includes('false')) {
+    details.push('public access block partly disabled');
+  }
+  if (type === 'aws_lambda_function_url' && hclString(attributes.authorization_type) === 'NONE') {
+    details.push('function URL with no authorization');
+  }
+  if (/^aws_api_gateway_rest_api$|^aws_apigatewayv2_api$|^google_api_gateway_api$/.test(type)) {
+    details.push('public API endpoint');
+  }
+  if (type === 'aws_cloudfront_distribution') details.push('CDN distribution');
+
+  return details;
+}
+
+/** Attributes that set a secret, anywhere in a block */
+function secretAttributes(block: HclBlock, path = ''): Array<[string, string]> {
+  const found: Array<[string, string]> = Object.entries(block.attributes)
+    .filter(
+      ([name, expression]) =>
+        isSecretName(name) &&
+        !/_(arn|id|name|length|version|enabled)$/.test(name) &&
+        !/^(true|false|null|\d+)$/.test(expression)
+    )
+    .map(([name, expression]) => [`${path}${name}`, expression]);
+
+  // Keys of map literals, e.g. a function's environment variables
+  for (const [name, expression] of Object.entries(block.attributes)) {
+    if (!expression.startsWith('{')) continue;
+    for (const [, key, value] of expression.matchAll(/"?([\w-]+)"?\s*[=:]\s*("[^"\n]*"|[^\s,}]+)/g)) {
+      if (isSecretName(key)) found.push([`${path}${name}.${key}`, value]);
+    }
+  }
+
+  for (const nested of block.blocks) {
+    found.push(...secretAttributes(nested, `${path}${nested.type}.`));
+  }
+  return found;
+}
+
+/**
+ * Whether a file is Terraform, by its name
+ */
+export function isTerraform(filename: string): boolean {
+  return /\.(tf|tfvars|hcl)$/i.test(filename);
+}
+
+/**
+ * Add the resources, variables and variable values of a Terraform file to an
+ * inventory
+ */
+export function analyzeTerraform(text: string, source: string, inventory: IacInventory): void {
+  // .tfvars files are just variable assignments
+  if (/\.tfvars$/i.test(source)) {
+    for (const [name, expression] of Object.entries(parseHcl(text).attributes)) {
+      if (isSecretName(name) && isLiteralSecret(hclString(expression))) {
+        inventory.secrets.push({ name, kind: 'variable value', source, details: ['hard-coded value in plain text'] });
+      }
+    }
+    return;
+  }
+
+  for (const block of parseHcl(text).blocks) {
+    if (block.type === 'variable') {
+      const [name] = block.labels;
+      const sensitive = hclTrue(block.attributes.sensitive);
+      if (!sensitive && !isSecretName(name)) continue;
+
+      const defaultValue = hclString(block.attributes.default);
+      const details = [sensitive ? 'marked sensitive' : 'not marked sensitive'];
+      if (isLiteralSecret(defaultValue)) details.push('has a hard-coded default value');
+      inventory.secrets.push({ name: `var.${name}`, kind: 'variable', source, details });
+      continue;
+    }
+
+    if (block.type !== 'resource' && block.type !== 'module') continue;
+
+    const [type, label] = block.labels;
+    const name = block.type === 'module' ? `module.${type}` : `${type}.${label}`;
+    const details = notableDetails(block);
+
+    if (block.type === 'module') {
+      const moduleSource = hclString(block.attributes.source);
+      inventory.services.push({
+        name,
+        kind: 'module',
+        source,
+        details: moduleSource ? [`source ${moduleSource}`, ...details] : details,
+      });
+    } else if (DATA_STORE_TYPES.test(type)) {
+      inventory.dataStores.push({ name, kind: type, source, details });
+    } else if (SECRET_TYPES.test(type)) {
+      inventory.secrets.push({ name, kind: type, source, details });
+    } else if (type === 'aws_ssm_parameter' && hclString(block.attributes.type) === 'SecureString') {
+      inventory.secrets.push({ name, kind: 'SecureString parameter', source, details });
+    } else if (SERVICE_TYPES.test(type)) {
+      inventory.services.push({ name, kind: type, source, details });
+    }
+
+    const exposure = publicExposure(type, block);
+    if (exposure.length > 0) {
+      inventory.exposures.push({ name, kind: type, source, details: exposure });
+    }
+
+    for (const [attribute, expression] of secretAttributes(block)) {
+      const literal = hclString(expression);
+      inventory.secrets.push({
+        name: `${name}: ${attribute}`,
+        kind: 'attribute',
+        source,
+        details: [isLiteralSecret(literal) ? 'hard-coded value in plain text' : `taken from ${expression}`],
+      });
+    }
+  }
+}
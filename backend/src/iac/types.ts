@@ -0,0 +1,35 @@
+/**
+ * Infrastructure-as-Code Inventory Types
+ *
+ * Uploaded Terraform, CloudFormation, Kubernetes and docker-compose files are
+ * parsed into an inventory of what runs, what is reachable, where secrets live
+ * and where data is kept. The inventory is stored with each file and given to
+ * the LLM alongside the system description, so threats can be tied to actual
+ * resources rather than whatever the description happens to mention.
+ */
+
+export interface IacEntry {
+  /** Resource, service or workload name */
+  name: string;
+  /** Resource type, e.g. `aws_db_instance`, `Deployment` or `compose service` */
+  kind: string;
+  /** File the entry was found in (the path inside an archive for zips) */
+  source: string;
+  /** Security-relevant facts: images, ports, public access, encryption */
+  details: string[];
+}
+
+export interface IacInventory {
+  services: IacEntry[];
+  /** Ports, load balancers, ingresses and firewall rules reachable from outside */
+  exposures: IacEntry[];
+  /** Secret stores, secret references and credentials written in plain text */
+  secrets: IacEntry[];
+  dataStores: IacEntry[];
+}
+
+/** A file to analyze */
+export interface IacSource {
+  path: string;
+  text: string;
+}
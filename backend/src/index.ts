@@ -7,6 +7,9 @@ import threatModelsRoutes from './routes/threat-models';
 import sharedRoutes from './routes/shared';
 import questionsRoutes from './routes/questions';
 import { jiraRoutes } from './routes/jira';
+import { adminRoutes } from './routes/admin';
+import { organizationRoutes } from './routes/organizations';
+import { generationService } from './services/generation.service';
 
 const app = new Hono();
 
@@ -20,7 +23,7 @@ const allowedOrigins = process.env.CORS_ORIGINS
 app.use('*', cors({
   origin: allowedOrigins,
   allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Share-Password'],
   credentials: true,
 }));
 
@@ -41,6 +44,8 @@ app.route('/api/threat-models', threatModelsRoutes);
 app.route('/api/shared', sharedRoutes);
 app.route('/api/questions', questionsRoutes);
 app.route('/api/jira', jiraRoutes);
+app.route('/api/admin', adminRoutes);
+app.route('/api/organizations', organizationRoutes);
 
 // Serve frontend static files in production (after API routes)
 app.use('/assets/*', serveStatic({ root: '../frontend/dist' }));
@@ -74,6 +79,11 @@ app.onError((err, c) => {
 const port = parseInt(process.env.PORT || '3001');
 console.log(`Server starting on port ${port}`);
 
+// Start the generation worker (recovers jobs interrupted by a restart)
+generationService.start().catch((err) => {
+  console.error('Failed to start generation worker:', err);
+});
+
 export default {
   port,
   fetch: app.fetch,
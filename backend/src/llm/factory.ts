@@ -1,6 +1,19 @@
-import type { LLMProvider, ProviderConfig, ProviderType } from './types';
+import type {
+  LLMProvider,
+  ProviderConfig,
+  ProviderType,
+  OpenAIConfig,
+  OllamaConfig,
+  MockConfig,
+  MockScenario,
+  FallbackConfig,
+  FallbackPolicy,
+} from './types';
 import { AnthropicProvider } from './providers/anthropic';
 import { OpenAIProvider } from './providers/openai';
+import { OllamaProvider } from './providers/ollama';
+import { MockProvider } from './providers/mock';
+import { FallbackProvider } from './providers/fallback';
 
 /**
  * LLM Provider Factory
@@ -12,9 +25,22 @@ import { OpenAIProvider } from './providers/openai';
 // Default provider from environment
 const DEFAULT_PROVIDER = (process.env.LLM_PROVIDER as ProviderType) || 'openai';
 
+// Overrides each provider's default context window, e.g. for a local model
+// served with a larger or smaller context
+const CONTEXT_WINDOW = process.env.LLM_CONTEXT_WINDOW ? parseInt(process.env.LLM_CONTEXT_WINDOW) : undefined;
+
 // Provider registry
 const providers = new Map<string, LLMProvider>();
 
+// Retry, timeout and circuit breaker defaults for providers in a fallback chain
+const DEFAULT_FALLBACK_POLICY: FallbackPolicy = {
+  maxRetries: 2,
+  retryBaseDelayMs: 1000,
+  timeoutMs: 180000,
+  circuitBreakerThreshold: 3,
+  circuitBreakerCooldownMs: 60000,
+};
+
 /**
  * Create a new provider instance
  */
@@ -24,6 +50,21 @@ export function createProvider(config: ProviderConfig): LLMProvider {
       return new AnthropicProvider(config);
     case 'openai':
       return new OpenAIProvider(config);
+    case 'openai-compatible':
+      return new OpenAIProvider(config as OpenAIConfig);
+    case 'ollama':
+      return new OllamaProvider(config as OllamaConfig);
+    case 'mock':
+      return new MockProvider(config as MockConfig);
+    case 'fallback': {
+      const { chain, policy } = config as FallbackConfig;
+      return new FallbackProvider(
+        chain.map((entry) => ({
+          provider: createProvider(entry),
+          policy: { ...DEFAULT_FALLBACK_POLICY, ...policy, ...entry.policy },
+        }))
+      );
+    }
     default:
       throw new Error(`Unknown provider: ${config.provider}`);
   }
@@ -67,9 +108,7 @@ export function registerProvider(name: string, provider: LLMProvider): void {
 /**
  * Build config from environment variables
  */
-function getConfigFromEnv(): ProviderConfig {
-  const provider = DEFAULT_PROVIDER;
-
+function getConfigFromEnv(provider: ProviderType = DEFAULT_PROVIDER): ProviderConfig {
   switch (provider) {
     case 'anthropic':
       return {
@@ -78,6 +117,7 @@ function getConfigFromEnv(): ProviderConfig {
         model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
         defaultMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
         defaultTemperature: parseFloat(process.env.LLM_TEMPERATURE || '0'),
+        contextWindow: CONTEXT_WINDOW,
       };
 
     case 'openai':
@@ -86,15 +126,100 @@ function getConfigFromEnv(): ProviderConfig {
         apiKey: process.env.OPENAI_API_KEY,
         model: process.env.OPENAI_MODEL || 'gpt-4o',
         baseUrl: process.env.OPENAI_BASE_URL,
+        structuredOutput: process.env.OPENAI_STRUCTURED_OUTPUT !== 'false',
+        defaultMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
+        defaultTemperature: parseFloat(process.env.LLM_TEMPERATURE || '0'),
+        contextWindow: CONTEXT_WINDOW,
+      };
+
+    case 'ollama':
+      return {
+        provider: 'ollama',
+        model: process.env.OLLAMA_MODEL || 'llama3.1',
+        baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+        vision: process.env.LLM_VISION === 'true',
+        structuredOutput: process.env.OLLAMA_STRUCTURED_OUTPUT !== 'false',
         defaultMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
         defaultTemperature: parseFloat(process.env.LLM_TEMPERATURE || '0'),
+        contextWindow: CONTEXT_WINDOW,
       };
 
+    case 'openai-compatible':
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        throw new Error('LOCAL_LLM_BASE_URL is required for the openai-compatible provider');
+      }
+      return {
+        provider: 'openai-compatible',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        model: process.env.LOCAL_LLM_MODEL,
+        baseUrl: process.env.LOCAL_LLM_BASE_URL,
+        vision: process.env.LLM_VISION === 'true',
+        structuredOutput: process.env.LOCAL_LLM_STRUCTURED_OUTPUT === 'true',
+        defaultMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
+        defaultTemperature: parseFloat(process.env.LLM_TEMPERATURE || '0'),
+        contextWindow: CONTEXT_WINDOW,
+      };
+
+    case 'mock':
+      return {
+        provider: 'mock',
+        fixturesDir: process.env.MOCK_LLM_FIXTURES_DIR,
+        latencyMs: parseInt(process.env.MOCK_LLM_LATENCY_MS || '0'),
+        scenario: (process.env.MOCK_LLM_SCENARIO as MockScenario) || 'valid',
+        contextWindow: CONTEXT_WINDOW,
+      } as MockConfig;
+
+    case 'fallback': {
+      // e.g. LLM_FALLBACK_CHAIN=anthropic,openai,ollama
+      const chain = (process.env.LLM_FALLBACK_CHAIN || '')
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean) as ProviderType[];
+
+      if (chain.length === 0) {
+        throw new Error('LLM_FALLBACK_CHAIN is required for the fallback provider');
+      }
+      if (chain.includes('fallback')) {
+        throw new Error('LLM_FALLBACK_CHAIN cannot contain the fallback provider');
+      }
+
+      return {
+        provider: 'fallback',
+        chain: chain.map((type) => ({ ...getConfigFromEnv(type), policy: getFallbackPolicyFromEnv(type) })),
+        policy: getFallbackPolicyFromEnv(),
+      } as FallbackConfig;
+    }
+
     default:
       throw new Error(`Unknown provider in environment: ${provider}`);
   }
 }
 
+/**
+ * Read fallback policy overrides from the environment: LLM_MAX_RETRIES etc.
+ * for the whole chain, or LLM_OLLAMA_TIMEOUT_MS style for one provider
+ */
+function getFallbackPolicyFromEnv(provider?: ProviderType): Partial<FallbackPolicy> {
+  const prefix = provider ? `LLM_${provider.toUpperCase().replace(/-/g, '_')}_` : 'LLM_';
+  const read = (name: string) => {
+    const value = process.env[`${prefix}${name}`];
+    return value ? parseInt(value) : undefined;
+  };
+
+  const policy: Partial<FallbackPolicy> = {
+    maxRetries: read('MAX_RETRIES'),
+    retryBaseDelayMs: read('RETRY_BASE_DELAY_MS'),
+    timeoutMs: read('TIMEOUT_MS'),
+    circuitBreakerThreshold: read('CIRCUIT_BREAKER_THRESHOLD'),
+    circuitBreakerCooldownMs: read('CIRCUIT_BREAKER_COOLDOWN_MS'),
+  };
+
+  // Drop unset values so they don't override the defaults
+  return Object.fromEntries(
+    Object.entries(policy).filter(([, value]) => value !== undefined)
+  ) as Partial<FallbackPolicy>;
+}
+
 /**
  * Get all registered provider names
  */
@@ -11,5 +11,10 @@
 
 export * from './types';
 export * from './factory';
+export * from './schemas';
+export * from './pricing';
 export { AnthropicProvider } from './providers/anthropic';
 export { OpenAIProvider } from './providers/openai';
+export { OllamaProvider } from './providers/ollama';
+export { MockProvider } from './providers/mock';
+export { FallbackProvider } from './providers/fallback';
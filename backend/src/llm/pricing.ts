@@ -0,0 +1,66 @@
+/**
+ * LLM Pricing
+ *
+ * Published list prices in USD per million tokens, used to estimate what each
+ * generation cost. Models are matched by the longest known prefix, so dated
+ * snapshots such as `gpt-4o-2024-08-06` pick up their family's price. Extra
+ * or corrected prices can be supplied as JSON in LLM_PRICING, e.g.
+ * `{"my-finetune": {"input": 3, "output": 12}}`.
+ */
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  ...parsePricingEnv(),
+};
+
+// Providers that run on our own hardware
+const FREE_PROVIDERS = ['ollama', 'openai-compatible', 'mock'];
+
+function parsePricingEnv(): Record<string, ModelPricing> {
+  if (!process.env.LLM_PRICING) return {};
+
+  try {
+    return JSON.parse(process.env.LLM_PRICING);
+  } catch {
+    console.warn('LLM_PRICING is not valid JSON and will be ignored');
+    return {};
+  }
+}
+
+/**
+ * Estimate the cost of a call in USD, or null if the model's price is unknown
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | null {
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+
+  const key = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+
+  const pricing = MODEL_PRICING[key];
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
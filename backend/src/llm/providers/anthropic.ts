@@ -3,15 +3,21 @@ import type {
   LLMProvider,
   LLMRequest,
   LLMResponse,
+  LLMStreamChunk,
   ContentBlock,
   AnthropicConfig,
 } from '../types';
-import type { ContentBlockParam } from '@anthropic-ai/sdk/resources/messages';
+import type {
+  ContentBlockParam,
+  Message as AnthropicMessage,
+  MessageCreateParamsNonStreaming,
+  Tool,
+} from '@anthropic-ai/sdk/resources/messages';
 
 /**
  * Anthropic Claude Provider
  *
- * Supports: text, images (JPEG, PNG, GIF, WebP), PDFs
+ * Supports: text, images (JPEG, PNG, GIF, WebP), PDFs, streaming, tool-based JSON output
  * Files are fetched from URLs and sent to the API.
  */
 export class AnthropicProvider implements LLMProvider {
@@ -20,6 +26,7 @@ export class AnthropicProvider implements LLMProvider {
   private model: string;
   private defaultMaxTokens: number;
   private defaultTemperature: number;
+  private contextWindow: number;
 
   constructor(config: AnthropicConfig = { provider: 'anthropic' }) {
     this.client = new Anthropic({
@@ -29,9 +36,59 @@ export class AnthropicProvider implements LLMProvider {
     this.model = config.model || 'claude-sonnet-4-20250514';
     this.defaultMaxTokens = config.defaultMaxTokens || 4096;
     this.defaultTemperature = config.defaultTemperature || 0;
+    this.contextWindow = config.contextWindow || 200000;
   }
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.messages.create(
+      await this.buildParams(request),
+      { signal: request.signal }
+    );
+
+    return this.toResponse(response);
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = this.client.messages.stream(
+      await this.buildParams(request),
+      { signal: request.signal }
+    );
+
+    for await (const event of stream) {
+      if (event.type !== 'content_block_delta') continue;
+
+      if (event.delta.type === 'text_delta') {
+        yield { type: 'text', text: event.delta.text };
+      } else if (event.delta.type === 'input_json_delta') {
+        // Structured output arrives as the forced tool call's input
+        yield { type: 'text', text: event.delta.partial_json };
+      }
+    }
+
+    yield { type: 'done', response: this.toResponse(await stream.finalMessage()) };
+  }
+
+  supportsContentType(type: ContentBlock['type']): boolean {
+    return ['text', 'image', 'document'].includes(type);
+  }
+
+  getSupportedImageTypes(): string[] {
+    return ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+  }
+
+  supportsPDF(): boolean {
+    return true;
+  }
+
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  private async buildParams(request: LLMRequest): Promise<MessageCreateParamsNonStreaming> {
     // Convert messages to Anthropic format (async to fetch URLs)
     const messages = await Promise.all(
       request.messages
@@ -47,17 +104,39 @@ export class AnthropicProvider implements LLMProvider {
       request.systemPrompt ||
       request.messages.find((m) => m.role === 'system')?.content;
 
-    const response = await this.client.messages.create({
+    const params: MessageCreateParamsNonStreaming = {
       model: this.model,
       max_tokens: request.maxTokens || this.defaultMaxTokens,
       temperature: request.temperature ?? this.defaultTemperature,
       system: typeof systemPrompt === 'string' ? systemPrompt : undefined,
       messages,
-    });
+    };
+
+    // Claude has no JSON-schema response format, so structured output is a
+    // forced call to a tool whose input schema is the requested schema
+    const format = request.responseFormat;
+    if (typeof format === 'object') {
+      params.tools = [
+        {
+          name: format.name,
+          description: format.description,
+          input_schema: format.schema as Tool.InputSchema,
+        },
+      ];
+      params.tool_choice = { type: 'tool', name: format.name };
+    }
+
+    return params;
+  }
 
-    // Extract text content
+  private toResponse(response: AnthropicMessage): LLMResponse {
+    // Extract text content, or the tool input when structured output was forced
+    const toolUse = response.content.find((c) => c.type === 'tool_use');
     const textContent = response.content.find((c) => c.type === 'text');
-    const content = textContent?.type === 'text' ? textContent.text : '';
+    const content =
+      toolUse?.type === 'tool_use'
+        ? JSON.stringify(toolUse.input)
+        : textContent?.type === 'text' ? textContent.text : '';
 
     return {
       content,
@@ -67,22 +146,10 @@ export class AnthropicProvider implements LLMProvider {
         totalTokens: response.usage.input_tokens + response.usage.output_tokens,
       },
       model: response.model,
-      finishReason: response.stop_reason === 'end_turn' ? 'stop' : 'length',
+      finishReason: response.stop_reason === 'max_tokens' ? 'length' : 'stop',
     };
   }
 
-  supportsContentType(type: ContentBlock['type']): boolean {
-    return ['text', 'image', 'document'].includes(type);
-  }
-
-  getSupportedImageTypes(): string[] {
-    return ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-  }
-
-  supportsPDF(): boolean {
-    return true;
-  }
-
   private async convertContent(
     content: string | ContentBlock[]
   ): Promise<string | ContentBlockParam[]> {
@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'bun:test';
+import { FallbackProvider } from './fallback';
+import { MockProvider } from './mock';
+import type { FallbackPolicy, LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
+
+const policy: FallbackPolicy = {
+  maxRetries: 1,
+  retryBaseDelayMs: 1,
+  timeoutMs: 1000,
+  circuitBreakerThreshold: 3,
+  circuitBreakerCooldownMs: 60_000,
+};
+
+const request: LLMRequest = { messages: [{ role: 'user', content: 'Checkout service' }] };
+
+const failure = (message: string, status?: number) => Object.assign(new Error(message), { status });
+
+/**
+ * A mock provider that throws the given failures, one per call, before
+ * answering normally
+ */
+class ScriptedProvider implements LLMProvider {
+  calls = 0;
+  private mock = new MockProvider();
+
+  constructor(readonly name: string, private failures: Error[] = [], private failMidStream = false) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | undefined;
+    for await (const chunk of this.stream(request)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    this.calls++;
+    const error = this.failures.shift();
+    if (error && this.failMidStream) {
+      yield { type: 'text', text: '{"threats": [' };
+    }
+    if (error) throw error;
+    yield* this.mock.stream(request);
+  }
+
+  supportsContentType(): boolean {
+    return true;
+  }
+
+  getSupportedImageTypes(): string[] {
+    return ['image/png'];
+  }
+
+  supportsPDF(): boolean {
+    return true;
+  }
+
+  supportsStructuredOutput(): boolean {
+    return false;
+  }
+
+  getContextWindow(): number {
+    return 8000;
+  }
+}
+
+describe('FallbackProvider', () => {
+  test('retries retryable errors on the same provider', async () => {
+    const primary = new ScriptedProvider('primary', [failure('Rate limited', 429)]);
+    const secondary = new ScriptedProvider('secondary');
+
+    const response = await new FallbackProvider([
+      { provider: primary, policy },
+      { provider: secondary, policy },
+    ]).complete(request);
+
+    expect(response.provider).toBe('primary');
+    expect(primary.calls).toBe(2);
+    expect(secondary.calls).toBe(0);
+  });
+
+  test('moves down the chain on errors that are not worth retrying', async () => {
+    const primary = new ScriptedProvider('primary', [failure('Invalid API key', 401)]);
+    const secondary = new ScriptedProvider('secondary');
+
+    const response = await new FallbackProvider([
+      { provider: primary, policy },
+      { provider: secondary, policy },
+    ]).complete(request);
+
+    expect(response.provider).toBe('secondary');
+    expect(primary.calls).toBe(1);
+  });
+
+  test('reports every provider when the whole chain fails', async () => {
+    const fallback = new FallbackProvider([
+      { provider: new ScriptedProvider('primary', [failure('Bad request', 400)]), policy },
+      { provider: new ScriptedProvider('secondary', [failure('Overloaded', 529), failure('Overloaded', 529)]), policy },
+    ]);
+
+    await expect(fallback.complete(request)).rejects.toThrow(
+      'All LLM providers failed (primary: Bad request; secondary: Overloaded)'
+    );
+  });
+
+  test('skips a provider while its circuit is open', async () => {
+    const failures = Array.from({ length: 3 }, () => failure('Server error', 500));
+    const primary = new ScriptedProvider('primary', failures);
+    const secondary = new ScriptedProvider('secondary');
+    const fallback = new FallbackProvider([
+      { provider: primary, policy: { ...policy, maxRetries: 0 } },
+      { provider: secondary, policy },
+    ]);
+
+    for (let i = 0; i < 3; i++) {
+      expect((await fallback.complete(request)).provider).toBe('secondary');
+    }
+    // The primary would answer now, but the breaker opened after three failures
+    expect((await fallback.complete(request)).provider).toBe('secondary');
+    expect(primary.calls).toBe(3);
+  });
+
+  test('does not fall back once a stream has produced output', async () => {
+    const primary = new ScriptedProvider('primary', [failure('Connection reset')], true);
+    const secondary = new ScriptedProvider('secondary');
+    const fallback = new FallbackProvider([
+      { provider: primary, policy },
+      { provider: secondary, policy },
+    ]);
+
+    const consume = async () => {
+      for await (const _chunk of fallback.stream(request)) {
+        // Drain the stream
+      }
+    };
+
+    await expect(consume()).rejects.toThrow('Connection reset');
+    expect(secondary.calls).toBe(0);
+  });
+
+  test('does not retry after the caller cancels', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const primary = new ScriptedProvider('primary');
+
+    const fallback = new FallbackProvider([{ provider: primary, policy }]);
+
+    await expect(fallback.complete({ ...request, signal: controller.signal })).rejects.toThrow();
+    expect(primary.calls).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  ContentBlock,
+  FallbackPolicy,
+} from '../types';
+
+/**
+ * Fallback Provider
+ *
+ * Wraps an ordered chain of providers (e.g. anthropic → openai → ollama).
+ * Each request goes to the first available provider; retryable failures
+ * (rate limits, 5xx, timeouts, connection errors) are retried with
+ * exponential backoff, and anything still failing moves on to the next
+ * provider. A provider that keeps failing trips its circuit breaker and is
+ * skipped until the cooldown passes.
+ *
+ * Streams can only fall back before the first chunk is yielded; a failure
+ * mid-stream is thrown to the caller.
+ */
+
+interface ChainEntry {
+  provider: LLMProvider;
+  policy: FallbackPolicy;
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Rate limits, server errors and network failures (no HTTP status) are worth
+ * retrying; other client errors (bad request, auth) are not
+ */
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  if (status === undefined) return true;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+export class FallbackProvider implements LLMProvider {
+  readonly name: string;
+  private chain: ChainEntry[];
+
+  constructor(chain: Array<{ provider: LLMProvider; policy: FallbackPolicy }>) {
+    if (chain.length === 0) {
+      throw new Error('Fallback provider needs at least one provider in its chain');
+    }
+
+    this.chain = chain.map((entry) => ({ ...entry, consecutiveFailures: 0, openUntil: 0 }));
+    this.name = chain.map((entry) => entry.provider.name).join(' → ');
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | undefined;
+    for await (const chunk of this.run(request, false)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    return this.run(request, true);
+  }
+
+  private async *run(request: LLMRequest, streaming: boolean): AsyncIterable<LLMStreamChunk> {
+    const errors: string[] = [];
+
+    for (const entry of this.chain) {
+      const name = entry.provider.name;
+
+      if (entry.openUntil > Date.now()) {
+        errors.push(`${name}: circuit open`);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= entry.policy.maxRetries; attempt++) {
+        if (attempt > 0) {
+          const delay = entry.policy.retryBaseDelayMs * 2 ** (attempt - 1);
+          console.warn(`LLM provider ${name} failed, retrying in ${delay}ms (retry ${attempt} of ${entry.policy.maxRetries})`);
+          await sleep(delay);
+        }
+        request.signal?.throwIfAborted();
+
+        const timeout = AbortSignal.timeout(entry.policy.timeoutMs);
+        const attemptRequest: LLMRequest = {
+          ...request,
+          signal: request.signal ? AbortSignal.any([request.signal, timeout]) : timeout,
+        };
+
+        let yielded = false;
+        try {
+          if (streaming) {
+            for await (const chunk of entry.provider.stream(attemptRequest)) {
+              yielded = true;
+              yield chunk.type === 'done'
+                ? { type: 'done', response: { ...chunk.response, provider: name } }
+                : chunk;
+            }
+          } else {
+            const response = await entry.provider.complete(attemptRequest);
+            yield { type: 'done', response: { ...response, provider: name } };
+          }
+
+          entry.consecutiveFailures = 0;
+          entry.openUntil = 0;
+          return;
+        } catch (error) {
+          // Cancellation by the caller is not a provider failure
+          if (request.signal?.aborted) throw error;
+
+          const message = timeout.aborted
+            ? `timed out after ${entry.policy.timeoutMs}ms`
+            : error instanceof Error ? error.message : 'Unknown error';
+
+          this.recordFailure(entry);
+
+          // Partial output has already reached the caller, so we can't switch providers
+          if (yielded) throw error;
+
+          if (!timeout.aborted && !isRetryable(error)) {
+            errors.push(`${name}: ${message}`);
+            break;
+          }
+          if (attempt === entry.policy.maxRetries || entry.openUntil > Date.now()) {
+            errors.push(`${name}: ${message}`);
+            break;
+          }
+        }
+      }
+
+      console.warn(`LLM provider ${name} unavailable, falling back to the next provider`);
+    }
+
+    throw new Error(`All LLM providers failed (${errors.join('; ')})`);
+  }
+
+  // Capabilities are the intersection of the chain's, so a request built for
+  // the first provider can be sent to any of them
+  supportsContentType(type: ContentBlock['type']): boolean {
+    return this.chain.every((entry) => entry.provider.supportsContentType(type));
+  }
+
+  getSupportedImageTypes(): string[] {
+    return this.chain
+      .map((entry) => entry.provider.getSupportedImageTypes())
+      .reduce((common, types) => common.filter((type) => types.includes(type)));
+  }
+
+  supportsPDF(): boolean {
+    return this.chain.every((entry) => entry.provider.supportsPDF());
+  }
+
+  supportsStructuredOutput(): boolean {
+    // Providers without JSON-schema support degrade a schema to plain JSON mode
+    return this.chain.some((entry) => entry.provider.supportsStructuredOutput());
+  }
+
+  getContextWindow(): number {
+    // A request has to fit whichever provider ends up answering it
+    return Math.min(...this.chain.map((entry) => entry.provider.getContextWindow()));
+  }
+
+  private recordFailure(entry: ChainEntry): void {
+    entry.consecutiveFailures++;
+    if (entry.consecutiveFailures >= entry.policy.circuitBreakerThreshold) {
+      entry.openUntil = Date.now() + entry.policy.circuitBreakerCooldownMs;
+      console.warn(
+        `LLM provider ${entry.provider.name} circuit opened for ${entry.policy.circuitBreakerCooldownMs}ms after ${entry.consecutiveFailures} consecutive failures`
+      );
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import { createHash } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockProvider } from './mock';
+import type { LLMRequest, Message } from '../types';
+
+const SYSTEM_PROMPT = 'You are a threat modelling assistant.';
+
+const request = (text: string, extra: Partial<LLMRequest> = {}): LLMRequest => ({
+  systemPrompt: SYSTEM_PROMPT,
+  messages: [{ role: 'user', content: text }],
+  ...extra,
+});
+
+describe('MockProvider', () => {
+  test('returns the same threats for the same input', async () => {
+    const provider = new MockProvider();
+    const prompt = '## Project: Payments API\nIdentify the 3 most critical threats.';
+
+    const first = await provider.complete(request(prompt));
+    const second = await provider.complete(request(prompt));
+
+    expect(first.content).toBe(second.content);
+    expect(first.finishReason).toBe('stop');
+    const result = JSON.parse(first.content);
+    expect(result.threats).toHaveLength(3);
+    expect(result.summary).toContain('Payments API');
+  });
+
+  test('serves the fixture named after the input hash', async () => {
+    const fixturesDir = mkdtempSync(join(tmpdir(), 'mock-fixtures-'));
+    const prompt = 'Fixture input';
+    const hash = createHash('sha256').update(`${SYSTEM_PROMPT}\n${prompt}`).digest('hex').slice(0, 16);
+    const fixture = { threats: [], summary: 'From a fixture', recommendations: [] };
+    writeFileSync(join(fixturesDir, `${hash}.json`), JSON.stringify(fixture));
+
+    const response = await new MockProvider({ provider: 'mock', fixturesDir }).complete(request(prompt));
+
+    expect(JSON.parse(response.content)).toEqual(fixture);
+  });
+
+  test('description markers only affect the first turn', async () => {
+    const provider = new MockProvider();
+    const prompt = 'Checkout service [mock:truncated]';
+
+    const first = await provider.complete(request(prompt));
+    expect(first.finishReason).toBe('length');
+    expect(() => JSON.parse(first.content)).toThrow();
+
+    const messages: Message[] = [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: first.content },
+      { role: 'user', content: 'Return the complete JSON.' },
+    ];
+    const repair = await provider.complete(request(prompt, { messages }));
+    expect(repair.finishReason).toBe('stop');
+    expect(JSON.parse(repair.content).threats.length).toBeGreaterThan(0);
+  });
+
+  test('the error scenario fails every turn', async () => {
+    const provider = new MockProvider({ provider: 'mock', scenario: 'error' });
+
+    await expect(provider.complete(request('Anything'))).rejects.toThrow('simulated failure');
+  });
+
+  test('streams in chunks and stops when aborted', async () => {
+    const provider = new MockProvider();
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const consume = async () => {
+      for await (const chunk of provider.stream(request('Streaming input', { signal: controller.signal }))) {
+        if (chunk.type === 'text') chunks.push(chunk.text);
+        if (chunks.length === 2) controller.abort();
+      }
+    };
+
+    await expect(consume()).rejects.toThrow();
+    expect(chunks).toHaveLength(2);
+  });
+
+  test('plain-text requests get a digest of their sources', async () => {
+    const response = await new MockProvider().complete(
+      request('[Digesting: architecture.pdf]\n...', { responseFormat: 'text' })
+    );
+
+    expect(response.content).toContain('Component described in architecture.pdf');
+  });
+});
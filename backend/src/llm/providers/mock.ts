@@ -0,0 +1,363 @@
+/**
+ * Mock LLM Provider
+ *
+ * Deterministic, offline stand-in for a real provider, for tests and demos.
+ * Each request is keyed on a hash of its system prompt and first message, so
+ * the same threat model input always produces the same output:
+ *
+ * - If `<fixturesDir>/<hash>.json` exists it is returned as the response.
+ * - Otherwise a STRIDE result is generated from a built-in catalogue, seeded
+ *   by the hash. The hash is logged so the output can be saved as a fixture.
+ * - Plain-text requests (context digests for large inputs) get a short
+ *   digest naming the sources they cover.
+ *
+ * Failure modes can be simulated for every request with `scenario`, or for a
+ * single threat model by putting a marker such as `[mock:truncated]` in its
+ * description. Markers only affect the first turn, so follow-up repair turns
+ * get a valid response.
+ *
+ *   truncated - output cut in half with finishReason 'length'
+ *   malformed - output that is not valid JSON
+ *   error     - the request throws, as if the provider were down
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  ContentBlock,
+  MockConfig,
+  MockScenario,
+  GeneratedThreat,
+  ThreatGenerationResult,
+  GeneratedComponentGraph,
+} from '../types';
+
+const MOCK_SCENARIOS: MockScenario[] = ['valid', 'truncated', 'malformed', 'error'];
+
+// Characters per streamed chunk
+const STREAM_CHUNK_SIZE = 40;
+
+// Most to least severe
+const SEVERITIES: GeneratedThreat['severity'][] = ['critical', 'high', 'medium', 'low', 'info'];
+
+type CatalogueThreat = Omit<GeneratedThreat, 'id' | 'riskScore' | 'mitigations'> & {
+  mitigations: Array<Omit<GeneratedThreat['mitigations'][number], 'id' | 'status'>>;
+};
+
+const THREAT_CATALOGUE: CatalogueThreat[] = [
+  {
+    title: 'Session token theft enables account takeover',
+    description: 'Long-lived session tokens stored in browser storage can be stolen through XSS or a compromised device and replayed to impersonate users.',
+    category: 'spoofing',
+    severity: 'high',
+    likelihood: 3,
+    impact: 5,
+    affectedComponents: ['Web frontend', 'Authentication service'],
+    attackVector: 'Attacker injects script via an unsanitised field and exfiltrates the session token.',
+    mitigations: [
+      { description: 'Store session tokens in HttpOnly, Secure, SameSite cookies', priority: 'immediate', effort: 'medium' },
+      { description: 'Shorten token lifetime and bind refresh tokens to the device', priority: 'short_term', effort: 'medium' },
+    ],
+  },
+  {
+    title: 'Unsigned webhook payloads can be forged',
+    description: 'Incoming webhooks are accepted without signature verification, so anyone who discovers the endpoint can submit forged events.',
+    category: 'tampering',
+    severity: 'high',
+    likelihood: 4,
+    impact: 4,
+    affectedComponents: ['Webhook endpoint', 'Event processor'],
+    attackVector: 'Attacker posts crafted events to the public webhook URL.',
+    mitigations: [
+      { description: 'Verify HMAC signatures on every webhook request', priority: 'immediate', effort: 'low' },
+      { description: 'Reject events with stale timestamps to prevent replay', priority: 'short_term', effort: 'low' },
+    ],
+  },
+  {
+    title: 'Administrative actions are not audit logged',
+    description: 'Privileged operations are not recorded with actor and timestamp, so malicious or mistaken changes cannot be attributed.',
+    category: 'repudiation',
+    severity: 'medium',
+    likelihood: 3,
+    impact: 3,
+    affectedComponents: ['Admin API', 'Database'],
+    attackVector: 'Insider changes configuration and denies responsibility.',
+    mitigations: [
+      { description: 'Write append-only audit records for all admin actions', priority: 'short_term', effort: 'medium' },
+    ],
+  },
+  {
+    title: 'Sensitive records exposed through verbose API errors',
+    description: 'Unhandled exceptions return stack traces and query fragments that reveal internal structure and occasionally record contents.',
+    category: 'information_disclosure',
+    severity: 'medium',
+    likelihood: 4,
+    impact: 3,
+    affectedComponents: ['Public API'],
+    attackVector: 'Attacker sends malformed input to trigger error responses.',
+    mitigations: [
+      { description: 'Return generic error bodies and log details server-side', priority: 'immediate', effort: 'low' },
+    ],
+  },
+  {
+    title: 'Unbounded file uploads exhaust storage and memory',
+    description: 'Upload endpoints do not enforce size or rate limits, allowing a single client to degrade the service for everyone.',
+    category: 'denial_of_service',
+    severity: 'medium',
+    likelihood: 3,
+    impact: 4,
+    affectedComponents: ['Upload service', 'Object storage'],
+    attackVector: 'Attacker scripts repeated large uploads.',
+    mitigations: [
+      { description: 'Enforce per-request size limits and per-user rate limits', priority: 'short_term', effort: 'low' },
+      { description: 'Stream uploads to storage instead of buffering in memory', priority: 'long_term', effort: 'medium' },
+    ],
+  },
+  {
+    title: 'Missing object-level authorization on resource IDs',
+    description: 'Endpoints look up resources by ID without checking the caller owns them, letting users read or modify other tenants\' data.',
+    category: 'elevation_of_privilege',
+    severity: 'critical',
+    likelihood: 4,
+    impact: 5,
+    affectedComponents: ['Public API', 'Database'],
+    attackVector: 'Authenticated attacker enumerates IDs in API requests.',
+    mitigations: [
+      { description: 'Scope every query by the authenticated user or organization', priority: 'immediate', effort: 'medium' },
+      { description: 'Add authorization tests for each resource endpoint', priority: 'short_term', effort: 'medium' },
+    ],
+  },
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private model: string;
+  private fixturesDir?: string;
+  private latencyMs: number;
+  private scenario: MockScenario;
+  private contextWindow: number;
+  constructor(config: MockConfig = { provider: 'mock' }) {
+    this.model = config.model || 'mock-threat-model';
+    this.fixturesDir = config.fixturesDir;
+    this.latencyMs = config.latencyMs || 0;
+    this.scenario = config.scenario || 'valid';
+    this.contextWindow = config.contextWindow || 128000;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | undefined;
+    for await (const chunk of this.stream(request)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const prompt = this.promptText(request);
+    const hash = createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+    const scenario = this.resolveScenario(request, prompt);
+
+    if (scenario === 'error') {
+      await sleep(this.latencyMs);
+      throw new Error(`Mock provider simulated failure (input ${hash})`);
+    }
+
+    const isDigest = request.responseFormat === 'text';
+    let content = isDigest
+      ? this.generateDigest(hash, prompt)
+      : JSON.stringify(await this.loadResult(hash, prompt), null, 2);
+    let finishReason: LLMResponse['finishReason'] = 'stop';
+
+    // Digests are plain text, so only the error scenario applies to them
+    const outputScenario = isDigest ? 'valid' : scenario;
+    if (outputScenario === 'truncated') {
+      content = content.slice(0, Math.floor(content.length / 2));
+      finishReason = 'length';
+    } else if (outputScenario === 'malformed') {
+      content = `Here is the threat model:\n${content.replace(/"(\w+)":/g, '$1:')}`;
+    }
+
+    // Spread the simulated latency across the streamed chunks
+    const chunkCount = Math.ceil(content.length / STREAM_CHUNK_SIZE);
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      request.signal?.throwIfAborted();
+      if (this.latencyMs > 0) await sleep(this.latencyMs / chunkCount);
+      yield { type: 'text', text: content.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+
+    const inputTokens = Math.ceil(prompt.length / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        model: this.model,
+        finishReason,
+      },
+    };
+  }
+
+  supportsContentType(_type: ContentBlock['type']): boolean {
+    return true;
+  }
+
+  getSupportedImageTypes(): string[] {
+    return ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+  }
+
+  supportsPDF(): boolean {
+    return true;
+  }
+
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  /**
+   * The text the response is keyed on: the system prompt and the first
+   * message (repair turns reuse the original request's key)
+   */
+  private promptText(request: LLMRequest): string {
+    const first = request.messages.find((m) => m.role !== 'system');
+    const content = first?.content ?? '';
+    const parts = typeof content === 'string'
+      ? [content]
+      : content.map((block) => {
+          if (block.type === 'text') return block.text;
+          // Key binary content on its data, not its (unstable) URL
+          return createHash('sha256').update(block.data || block.url || '').digest('hex');
+        });
+
+    return [request.systemPrompt ?? '', ...parts].join('\n');
+  }
+
+  private resolveScenario(request: LLMRequest, prompt: string): MockScenario {
+    const isFirstTurn = request.messages.filter((m) => m.role !== 'system').length === 1;
+    if (isFirstTurn) {
+      const marker = prompt.match(/\[mock:(\w+)\]/)?.[1] as MockScenario | undefined;
+      if (marker && MOCK_SCENARIOS.includes(marker)) return marker;
+      return this.scenario;
+    }
+    // Only hard failures persist past the first turn
+    return this.scenario === 'error' ? 'error' : 'valid';
+  }
+
+  private async loadResult(hash: string, prompt: string): Promise<ThreatGenerationResult> {
+    if (this.fixturesDir) {
+      try {
+        const fixture = await readFile(join(this.fixturesDir, `${hash}.json`), 'utf-8');
+        return JSON.parse(fixture);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    console.log(`Mock provider: no fixture for input ${hash}, generating a result`);
+    return this.generateResult(hash, prompt);
+  }
+
+  /**
+   * Pick catalogue threats, rotated by the input hash, honouring the threat
+   * count, minimum severity and category taxonomy the prompt asks for. The
+   * catalogue is STRIDE; other taxonomies get their categories assigned in turn.
+   */
+  private generateResult(hash: string, prompt: string): ThreatGenerationResult {
+    const project = prompt.match(/## Project: (.+)/)?.[1]?.trim() || 'the system';
+    const offset = parseInt(hash.slice(0, 8), 16) % THREAT_CATALOGUE.length;
+    const count = parseInt(prompt.match(/the (\d+) most critical/)?.[1] ?? '5');
+    const minSeverity = SEVERITIES.indexOf(
+      (prompt.match(/of (\w+) severity or above/)?.[1] ?? 'info') as GeneratedThreat['severity']
+    );
+    const categories = prompt.match(/"category": "([a-z0-9_|]+)"/)?.[1]?.split('|');
+
+    const candidates = Array.from(
+      { length: THREAT_CATALOGUE.length },
+      (_, i) => THREAT_CATALOGUE[(offset + i) % THREAT_CATALOGUE.length]
+    ).filter((entry) => SEVERITIES.indexOf(entry.severity) <= minSeverity);
+
+    const threats: GeneratedThreat[] = candidates.slice(0, count).map((entry, i) => ({
+      ...entry,
+      category: !categories || categories.includes(entry.category) ? entry.category : categories[i % categories.length],
+      id: this.deterministicId(hash, `threat-${i}`),
+      riskScore: entry.likelihood * entry.impact,
+      mitigations: entry.mitigations.map((m, j) => ({
+        ...m,
+        id: this.deterministicId(hash, `threat-${i}-mitigation-${j}`),
+        status: 'proposed' as const,
+      })),
+    })).sort((a, b) => b.riskScore - a.riskScore);
+
+    return {
+      threats,
+      summary: `Mock analysis of ${project}: ${threats.length} threats identified, led by "${threats[0].title}".`,
+      recommendations: threats.slice(0, 3).map((t) => t.mitigations[0].description),
+      componentGraph: this.generateComponentGraph(threats),
+    };
+  }
+
+  /**
+   * The components the threats affect, typed by name and chained in the
+   * order they first appear
+   */
+  private generateComponentGraph(threats: GeneratedThreat[]): GeneratedComponentGraph {
+    const names = [...new Set(threats.flatMap((t) => t.affectedComponents))];
+    const typeOf = (name: string): GeneratedComponentGraph['components'][number]['type'] => {
+      if (/database|db\b|store|storage|cache/i.test(name)) return 'data_store';
+      if (/browser|client|user|mobile/i.test(name)) return 'client';
+      if (/queue|topic|bus/i.test(name)) return 'queue';
+      return 'service';
+    };
+
+    const components = names.map((name, i) => ({
+      id: `c${i + 1}`,
+      name,
+      type: typeOf(name),
+      trustZone: typeOf(name) === 'client' ? 'Internet' : 'Internal',
+    }));
+    const flows = components.slice(1).map((component, i) => ({
+      sourceId: components[i].id,
+      targetId: component.id,
+      label: 'Requests',
+    }));
+
+    return { components, flows };
+  }
+
+  /**
+   * A context digest listing the sources named in the request, either files
+   * and tickets being digested or earlier digests being merged
+   */
+  private generateDigest(hash: string, prompt: string): string {
+    const sources = [...prompt.matchAll(/\[Digest(?:ing)?: ([^\]]+)\]/g)].map((match) => match[1]);
+
+    return `## Components
+${sources.map((source) => `- Component described in ${source}`).join('\n') || '- None identified'}
+
+## Data Flows
+- Requests between the components above
+
+## Security-Relevant Details
+- Mock digest of ${prompt.length} characters (input ${hash})`;
+  }
+
+  /**
+   * A UUID-shaped ID derived from the input hash, stable across runs
+   */
+  private deterministicId(hash: string, salt: string): string {
+    const hex = createHash('sha256').update(`${hash}:${salt}`).digest('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  }
+}
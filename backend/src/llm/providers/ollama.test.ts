@@ -0,0 +1,125 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { OllamaProvider } from './ollama';
+import type { LLMStreamChunk } from '../types';
+
+// What the fake server sends back for the next request: status and body pieces,
+// each written separately so lines arrive split across reads
+let reply: { status: number; pieces: string[] } = { status: 200, pieces: [] };
+let lastBody: unknown;
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    lastBody = await req.json();
+    const { status, pieces } = reply;
+    const stream = new ReadableStream({
+      async pull(controller) {
+        const piece = pieces.shift();
+        if (piece === undefined) return controller.close();
+        controller.enqueue(new TextEncoder().encode(piece));
+        await Bun.sleep(1);
+      },
+    });
+    return new Response(stream, { status, headers: { 'Content-Type': 'application/x-ndjson' } });
+  },
+});
+
+afterAll(() => server.stop(true));
+
+const provider = new OllamaProvider({
+  provider: 'ollama',
+  baseUrl: `http://localhost:${server.port}/`,
+  model: 'llama3.1',
+});
+
+const line = (chunk: object) => JSON.stringify(chunk) + '\n';
+
+async function collect(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('OllamaProvider', () => {
+  test('reassembles NDJSON lines split across reads', async () => {
+    const body =
+      line({ model: 'llama3.1', message: { content: '{"threats"' }, done: false }) +
+      '\n' +
+      line({ model: 'llama3.1', message: { content: ': []}' }, done: false }) +
+      line({ model: 'llama3.1', done: true, done_reason: 'length', prompt_eval_count: 120, eval_count: 30 });
+    reply = { status: 200, pieces: [body.slice(0, 25), body.slice(25, 90), body.slice(90)] };
+
+    const chunks = await collect(provider.stream({ messages: [{ role: 'user', content: 'Checkout service' }] }));
+
+    expect(chunks).toEqual([
+      { type: 'text', text: '{"threats"' },
+      { type: 'text', text: ': []}' },
+      {
+        type: 'done',
+        response: {
+          content: '{"threats": []}',
+          usage: { inputTokens: 120, outputTokens: 30, totalTokens: 150 },
+          model: 'llama3.1',
+          finishReason: 'length',
+        },
+      },
+    ]);
+  });
+
+  test('sends the system prompt, images, schema and context size', async () => {
+    reply = { status: 200, pieces: [line({ model: 'llama3.1', message: { content: '{}' }, done: true })] };
+    const schema = { type: 'object' };
+
+    await provider.complete({
+      systemPrompt: 'You are a security architect',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Review this diagram' },
+            { type: 'image', mimeType: 'image/png', data: 'aW1hZ2U=' },
+          ],
+        },
+      ],
+      responseFormat: { type: 'json_schema', name: 'threats', schema },
+      maxTokens: 1000,
+    });
+
+    expect(lastBody).toEqual({
+      model: 'llama3.1',
+      messages: [
+        { role: 'system', content: 'You are a security architect' },
+        { role: 'user', content: 'Review this diagram', images: ['aW1hZ2U='] },
+      ],
+      stream: true,
+      format: schema,
+      options: { num_predict: 1000, num_ctx: 8192, temperature: 0 },
+    });
+  });
+
+  test('throws errors reported in the stream and streams that end early', async () => {
+    const request = { messages: [{ role: 'user' as const, content: 'Checkout service' }] };
+
+    reply = {
+      status: 200,
+      pieces: [
+        line({ model: 'llama3.1', message: { content: '{' }, done: false }),
+        line({ error: 'model crashed' }),
+      ],
+    };
+    await expect(provider.complete(request)).rejects.toThrow('Ollama error: model crashed');
+
+    reply = { status: 200, pieces: [line({ model: 'llama3.1', message: { content: '{' }, done: false })] };
+    await expect(provider.complete(request)).rejects.toThrow('Ollama stream ended before the response was complete');
+  });
+
+  test('carries the HTTP status of failed requests', async () => {
+    reply = { status: 404, pieces: [JSON.stringify({ error: 'model "llama3.1" not found' })] };
+
+    const error = await provider
+      .complete({ messages: [{ role: 'user', content: 'Checkout service' }] })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ message: 'Ollama request failed (404): model "llama3.1" not found', status: 404 });
+  });
+});
@@ -0,0 +1,235 @@
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  ContentBlock,
+  OllamaConfig,
+} from '../types';
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: string[];
+}
+
+interface OllamaChatChunk {
+  model: string;
+  message?: { content: string };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Ollama Provider
+ *
+ * Talks to a local Ollama server over its native /api/chat endpoint, so
+ * confidential documents never leave the machine.
+ * Supports: text, images (vision models only, set `vision: true`), streaming,
+ * JSON-schema output (Ollama 0.5+)
+ * Images must be sent as base64 - Ollama does not fetch URLs. PDFs are not
+ * supported; generation falls back to their extracted text.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  private baseUrl: string;
+  private model: string;
+  private defaultMaxTokens: number;
+  private defaultTemperature: number;
+  private vision: boolean;
+  private structuredOutput: boolean;
+  private contextWindow: number;
+
+  constructor(config: OllamaConfig = { provider: 'ollama' }) {
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+    this.model = config.model || 'llama3.1';
+    this.defaultMaxTokens = config.defaultMaxTokens || 4096;
+    this.defaultTemperature = config.defaultTemperature || 0;
+    this.vision = config.vision ?? false;
+    this.structuredOutput = config.structuredOutput ?? true;
+    this.contextWindow = config.contextWindow || 8192;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let response: LLMResponse | undefined;
+    for await (const chunk of this.stream(request)) {
+      if (chunk.type === 'done') response = chunk.response;
+    }
+    return response!;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const res = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildBody(request)),
+      signal: request.signal,
+    });
+
+    if (!res.ok || !res.body) {
+      const error = await res.json().catch(() => ({ error: res.statusText }));
+      // Carry the status so the fallback chain can tell retryable failures apart
+      throw Object.assign(
+        new Error(`Ollama request failed (${res.status}): ${error.error || 'Unknown error'}`),
+        { status: res.status }
+      );
+    }
+
+    // The response is newline-delimited JSON, one chunk per line
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let content = '';
+    let final: OllamaChatChunk | undefined;
+
+    while (!final) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const chunk = JSON.parse(line) as OllamaChatChunk;
+        if (chunk.error) {
+          throw new Error(`Ollama error: ${chunk.error}`);
+        }
+
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          yield { type: 'text', text: delta };
+        }
+
+        if (chunk.done) {
+          final = chunk;
+          break;
+        }
+      }
+    }
+
+    if (!final) {
+      throw new Error('Ollama stream ended before the response was complete');
+    }
+
+    const inputTokens = final.prompt_eval_count ?? 0;
+    const outputTokens = final.eval_count ?? 0;
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        },
+        model: final.model,
+        finishReason: final.done_reason === 'length' ? 'length' : 'stop',
+      },
+    };
+  }
+
+  supportsContentType(type: ContentBlock['type']): boolean {
+    return type === 'text' || (type === 'image' && this.vision);
+  }
+
+  getSupportedImageTypes(): string[] {
+    return this.vision ? ['image/jpeg', 'image/png'] : [];
+  }
+
+  supportsPDF(): boolean {
+    return false;
+  }
+
+  supportsStructuredOutput(): boolean {
+    return this.structuredOutput;
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  private buildBody(request: LLMRequest) {
+    const messages: OllamaMessage[] = [];
+
+    // Add system prompt
+    const systemPrompt =
+      request.systemPrompt ||
+      request.messages.find((m) => m.role === 'system')?.content;
+
+    if (systemPrompt && typeof systemPrompt === 'string') {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+
+    // Add other messages
+    for (const msg of request.messages) {
+      if (msg.role === 'system') continue;
+      messages.push({ role: msg.role, ...this.convertContent(msg.content) });
+    }
+
+    let format: string | object | undefined;
+    if (request.responseFormat === 'json') {
+      format = 'json';
+    } else if (typeof request.responseFormat === 'object') {
+      format = this.structuredOutput ? request.responseFormat.schema : 'json';
+    }
+
+    return {
+      model: this.model,
+      messages,
+      stream: true,
+      format,
+      options: {
+        num_predict: request.maxTokens || this.defaultMaxTokens,
+        // Ollama silently truncates prompts longer than its (small) default context
+        num_ctx: this.contextWindow,
+        temperature: request.temperature ?? this.defaultTemperature,
+      },
+    };
+  }
+
+  private convertContent(
+    content: string | ContentBlock[]
+  ): Pick<OllamaMessage, 'content' | 'images'> {
+    if (typeof content === 'string') {
+      return { content };
+    }
+
+    const text: string[] = [];
+    const images: string[] = [];
+
+    for (const block of content) {
+      switch (block.type) {
+        case 'text':
+          text.push(block.text);
+          break;
+
+        case 'image':
+          if (!block.data) {
+            throw new Error('Ollama requires base64 image data');
+          }
+          images.push(block.data);
+          break;
+
+        case 'document':
+          // Ollama doesn't support PDFs - skip
+          console.warn('Ollama does not support PDF documents. PDF content will be skipped.');
+          break;
+
+        default:
+          throw new Error(`Unsupported content type: ${(block as ContentBlock).type}`);
+      }
+    }
+
+    return {
+      content: text.join('\n'),
+      images: images.length > 0 ? images : undefined,
+    };
+  }
+}
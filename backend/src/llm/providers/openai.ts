@@ -3,10 +3,12 @@ import type {
   LLMProvider,
   LLMRequest,
   LLMResponse,
+  LLMStreamChunk,
   ContentBlock,
   OpenAIConfig,
 } from '../types';
 import type {
+  ChatCompletionCreateParamsNonStreaming,
   ChatCompletionMessageParam,
   ChatCompletionContentPart,
 } from 'openai/resources/chat/completions';
@@ -14,28 +16,137 @@ import type {
 /**
  * OpenAI Provider
  *
- * Supports: text, images (JPEG, PNG, GIF, WebP)
+ * Supports: text, images (JPEG, PNG, GIF, WebP), streaming, JSON-schema output
  * Note: OpenAI doesn't support PDF natively - text must be extracted first
  * Files are provided via URL - OpenAI fetches them directly.
+ *
+ * Also used for self-hosted OpenAI-compatible servers (vLLM, LM Studio,
+ * llama.cpp) via the 'openai-compatible' provider type, where vision and
+ * JSON-schema support are opt-in.
  */
 export class OpenAIProvider implements LLMProvider {
-  readonly name = 'openai';
+  readonly name: string;
   private client: OpenAI;
   private model: string;
   private defaultMaxTokens: number;
   private defaultTemperature: number;
+  private structuredOutput: boolean;
+  private vision: boolean;
+  private contextWindow: number;
 
   constructor(config: OpenAIConfig = { provider: 'openai' }) {
+    const isCompatible = config.provider === 'openai-compatible';
+
+    this.name = config.provider;
     this.client = new OpenAI({
-      apiKey: config.apiKey, // Falls back to OPENAI_API_KEY env var
+      // Falls back to OPENAI_API_KEY env var; local servers usually need no key
+      apiKey: config.apiKey || (isCompatible ? 'not-needed' : undefined),
       baseURL: config.baseUrl,
     });
     this.model = config.model || 'gpt-4o';
     this.defaultMaxTokens = config.defaultMaxTokens || 4096;
     this.defaultTemperature = config.defaultTemperature || 0;
+    this.structuredOutput = config.structuredOutput ?? !isCompatible;
+    this.vision = config.vision ?? !isCompatible;
+    // Self-hosted servers are often started with a small context
+    this.contextWindow = config.contextWindow || (isCompatible ? 8192 : 128000);
   }
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create(
+      this.buildParams(request),
+      { signal: request.signal }
+    );
+
+    const choice = response.choices[0];
+    const content = choice?.message?.content || '';
+
+    return {
+      content,
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      model: response.model,
+      finishReason: choice?.finish_reason === 'stop' ? 'stop' : 'length',
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.buildParams(request),
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let model = this.model;
+    let finishReason: string | null = null;
+    let usage: LLMResponse['usage'];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        yield { type: 'text', text: delta };
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        usage,
+        model,
+        finishReason: finishReason === 'stop' ? 'stop' : 'length',
+      },
+    };
+  }
+
+  supportsContentType(type: ContentBlock['type']): boolean {
+    // OpenAI supports text and images, but NOT PDFs natively
+    return type === 'text' || (type === 'image' && this.vision);
+  }
+
+  getSupportedImageTypes(): string[] {
+    return this.vision ? ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] : [];
+  }
+
+  supportsPDF(): boolean {
+    // OpenAI doesn't support PDF - we need to extract text
+    return false;
+  }
+
+  supportsStructuredOutput(): boolean {
+    return this.structuredOutput;
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  private buildParams(request: LLMRequest): ChatCompletionCreateParamsNonStreaming {
     // Convert messages to OpenAI format
     const messages: ChatCompletionMessageParam[] = [];
 
@@ -58,44 +169,36 @@ export class OpenAIProvider implements LLMProvider {
       });
     }
 
-    const response = await this.client.chat.completions.create({
+    return {
       model: this.model,
       max_tokens: request.maxTokens || this.defaultMaxTokens,
       temperature: request.temperature ?? this.defaultTemperature,
       messages,
-      response_format:
-        request.responseFormat === 'json' ? { type: 'json_object' } : undefined,
-    });
-
-    const choice = response.choices[0];
-    const content = choice?.message?.content || '';
-
-    return {
-      content,
-      usage: response.usage
-        ? {
-            inputTokens: response.usage.prompt_tokens,
-            outputTokens: response.usage.completion_tokens,
-            totalTokens: response.usage.total_tokens,
-          }
-        : undefined,
-      model: response.model,
-      finishReason: choice?.finish_reason === 'stop' ? 'stop' : 'length',
+      response_format: this.convertResponseFormat(request.responseFormat),
     };
   }
 
-  supportsContentType(type: ContentBlock['type']): boolean {
-    // OpenAI supports text and images, but NOT PDFs natively
-    return ['text', 'image'].includes(type);
-  }
+  private convertResponseFormat(
+    format: LLMRequest['responseFormat']
+  ): ChatCompletionCreateParamsNonStreaming['response_format'] {
+    if (!format || format === 'text') {
+      return undefined;
+    }
 
-  getSupportedImageTypes(): string[] {
-    return ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-  }
+    // Fall back to plain JSON mode on endpoints without JSON-schema support
+    if (format === 'json' || !this.structuredOutput) {
+      return { type: 'json_object' };
+    }
 
-  supportsPDF(): boolean {
-    // OpenAI doesn't support PDF - we need to extract text
-    return false;
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name,
+        description: format.description,
+        schema: format.schema,
+        strict: true,
+      },
+    };
   }
 
   private convertContent(
@@ -0,0 +1,138 @@
+import type {
+  GeneratedComponentGraph,
+  GeneratedThreat,
+  JSONSchemaResponseFormat,
+  ThreatGenerationResult,
+} from './types';
+
+/**
+ * JSON Schemas for structured LLM output
+ *
+ * Mirrors ThreatGenerationResult for providers with a native structured
+ * output mode. The category enum is the taxonomy of the methodology in use.
+ * Property lists are typed against the interfaces so the schema can't
+ * silently drift from them. Ranges are stated in descriptions rather than as
+ * min/max keywords, which OpenAI's strict mode rejects; the result is still
+ * validated against the shared zod schema afterwards.
+ */
+
+type Mitigation = GeneratedThreat['mitigations'][number];
+type Component = GeneratedComponentGraph['components'][number];
+type Flow = GeneratedComponentGraph['flows'][number];
+
+const MITIGATION_PROPERTIES: Record<keyof Mitigation, object> = {
+  id: { type: 'string', description: 'UUID' },
+  description: { type: 'string', description: 'Specific mitigation action' },
+  priority: { type: 'string', enum: ['immediate', 'short_term', 'long_term'] },
+  effort: { type: 'string', enum: ['low', 'medium', 'high'] },
+  status: { type: 'string', enum: ['proposed'] },
+};
+
+const COMPONENT_PROPERTIES: Record<keyof Component, object> = {
+  id: { type: 'string', description: 'Short identifier, unique within the graph' },
+  name: { type: 'string', description: 'Name used for the component in affectedComponents' },
+  type: { type: 'string', enum: ['client', 'service', 'data_store', 'queue', 'external'] },
+  trustZone: {
+    type: ['string', 'null'],
+    description: 'Trust zone the component runs in, e.g. "Internet" or "Private subnet"',
+  },
+};
+
+const FLOW_PROPERTIES: Record<keyof Flow, object> = {
+  sourceId: { type: 'string', description: 'ID of the component the data flows from' },
+  targetId: { type: 'string', description: 'ID of the component the data flows to' },
+  label: { type: 'string', description: 'What data flows, and over what protocol' },
+};
+
+const COMPONENT_GRAPH_PROPERTIES: Record<keyof GeneratedComponentGraph, object> = {
+  components: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: COMPONENT_PROPERTIES,
+      required: Object.keys(COMPONENT_PROPERTIES),
+      additionalProperties: false,
+    },
+  },
+  flows: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: FLOW_PROPERTIES,
+      required: Object.keys(FLOW_PROPERTIES),
+      additionalProperties: false,
+    },
+  },
+};
+
+const threatProperties = (categories: readonly string[]): Record<keyof GeneratedThreat, object> => ({
+  id: { type: 'string', description: 'UUID' },
+  title: { type: 'string' },
+  description: { type: 'string', description: 'Detailed description of the threat' },
+  category: { type: 'string', enum: [...categories] },
+  severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low', 'info'] },
+  likelihood: { type: 'integer', enum: [1, 2, 3, 4, 5] },
+  impact: { type: 'integer', enum: [1, 2, 3, 4, 5] },
+  riskScore: { type: 'integer', description: 'likelihood × impact (1-25)' },
+  affectedComponents: { type: 'array', items: { type: 'string' } },
+  dfdElementIds: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'IDs of the affected data flow diagram elements, empty without a diagram',
+  },
+  attackVector: {
+    type: ['string', 'null'],
+    description: 'Description of how the attack is carried out',
+  },
+  mitigations: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: MITIGATION_PROPERTIES,
+      required: Object.keys(MITIGATION_PROPERTIES),
+      additionalProperties: false,
+    },
+  },
+});
+
+const resultProperties = (categories: readonly string[]): Record<keyof ThreatGenerationResult, object> => {
+  const properties = threatProperties(categories);
+  return {
+    threats: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties,
+        required: Object.keys(properties),
+        additionalProperties: false,
+      },
+    },
+    summary: { type: 'string', description: 'Executive summary of the threat landscape' },
+    recommendations: { type: 'array', items: { type: 'string' } },
+    componentGraph: {
+      type: 'object',
+      description: 'Components of the system and the data flows between them',
+      properties: COMPONENT_GRAPH_PROPERTIES,
+      required: Object.keys(COMPONENT_GRAPH_PROPERTIES),
+      additionalProperties: false,
+    },
+  };
+};
+
+/**
+ * Response format for a threat model whose threats are classified with `categories`
+ */
+export function threatGenerationResponseFormat(categories: readonly string[]): JSONSchemaResponseFormat {
+  const properties = resultProperties(categories);
+  return {
+    type: 'json_schema',
+    name: 'threat_model',
+    description: 'Record the generated threat model',
+    schema: {
+      type: 'object',
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false,
+    },
+  };
+}
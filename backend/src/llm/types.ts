@@ -48,12 +48,31 @@ export interface Message {
 // Request/Response Types
 // =============================================================================
 
+/** A JSON Schema document. Providers only accept the subset they support. */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Ask the provider to return output matching a JSON Schema, using its native
+ * structured output mode (OpenAI JSON-schema response format, Anthropic forced
+ * tool call). The schema should be written to OpenAI's strict-mode rules:
+ * every property required, optional values nullable, no additional properties.
+ */
+export interface JSONSchemaResponseFormat {
+  type: 'json_schema';
+  /** Schema name (used as the tool name for Anthropic) */
+  name: string;
+  description?: string;
+  schema: JSONSchema;
+}
+
 export interface LLMRequest {
   messages: Message[];
   systemPrompt?: string;
   maxTokens?: number;
   temperature?: number;
-  responseFormat?: 'text' | 'json';
+  responseFormat?: 'text' | 'json' | JSONSchemaResponseFormat;
+  /** Aborts the in-flight request (e.g. when a generation job is cancelled) */
+  signal?: AbortSignal;
 }
 
 export interface LLMResponse {
@@ -64,9 +83,20 @@ export interface LLMResponse {
     totalTokens: number;
   };
   model: string;
+  /** Name of the provider that produced the response (set by the fallback chain) */
+  provider?: string;
   finishReason?: 'stop' | 'length' | 'error';
 }
 
+/**
+ * A chunk of a streamed completion. Text deltas arrive as they are generated;
+ * the stream always ends with a single `done` chunk carrying the full
+ * response, including token usage.
+ */
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'done'; response: LLMResponse };
+
 // =============================================================================
 // Provider Interface
 // =============================================================================
@@ -82,6 +112,11 @@ export interface LLMProvider {
    */
   complete(request: LLMRequest): Promise<LLMResponse>;
 
+  /**
+   * Send a completion request and stream the response as it is generated
+   */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+
   /**
    * Check if the provider supports a specific content type
    */
@@ -96,13 +131,23 @@ export interface LLMProvider {
    * Check if provider supports PDF documents
    */
   supportsPDF(): boolean;
+
+  /**
+   * Check if provider can enforce a JSON Schema response format
+   */
+  supportsStructuredOutput(): boolean;
+
+  /**
+   * Tokens the model accepts per request, input and output combined
+   */
+  getContextWindow(): number;
 }
 
 // =============================================================================
 // Provider Configuration
 // =============================================================================
 
-export type ProviderType = 'openai' | 'anthropic';
+export type ProviderType = 'openai' | 'anthropic' | 'ollama' | 'openai-compatible' | 'mock' | 'fallback';
 
 export interface ProviderConfig {
   provider: ProviderType;
@@ -111,10 +156,13 @@ export interface ProviderConfig {
   baseUrl?: string; // For custom endpoints
   defaultMaxTokens?: number;
   defaultTemperature?: number;
+  structuredOutput?: boolean; // Set false for endpoints without JSON-schema support
+  vision?: boolean; // Whether the model accepts images (local models are often text-only)
+  contextWindow?: number; // Tokens per request, input and output combined
 }
 
 export interface OpenAIConfig extends ProviderConfig {
-  provider: 'openai';
+  provider: 'openai' | 'openai-compatible'; // 'openai-compatible' for vLLM, LM Studio, llama.cpp, etc.
   model?: string; // e.g., 'gpt-4o', 'gpt-4-turbo'
 }
 
@@ -123,6 +171,35 @@ export interface AnthropicConfig extends ProviderConfig {
   model?: string; // e.g., 'claude-sonnet-4-20250514'
 }
 
+export interface OllamaConfig extends ProviderConfig {
+  provider: 'ollama';
+  model?: string; // e.g., 'llama3.1', 'qwen2.5', 'llava' (vision)
+}
+
+export type MockScenario = 'valid' | 'truncated' | 'malformed' | 'error';
+
+export interface MockConfig extends ProviderConfig {
+  provider: 'mock';
+  fixturesDir?: string; // Directory of <input-hash>.json responses
+  latencyMs?: number; // Simulated time to produce a full response
+  scenario?: MockScenario; // Failure mode applied to every request
+}
+
+/** How the fallback chain treats one of its providers */
+export interface FallbackPolicy {
+  maxRetries: number; // Retries of retryable errors before moving down the chain
+  retryBaseDelayMs: number; // Doubles after each retry
+  timeoutMs: number; // Per attempt
+  circuitBreakerThreshold: number; // Consecutive failures that open the circuit
+  circuitBreakerCooldownMs: number; // How long an open circuit skips the provider
+}
+
+export interface FallbackConfig extends ProviderConfig {
+  provider: 'fallback';
+  chain: Array<ProviderConfig & { policy?: Partial<FallbackPolicy> }>; // In order of preference
+  policy?: Partial<FallbackPolicy>; // Defaults for every provider in the chain
+}
+
 // =============================================================================
 // Threat Model Generation Types
 // =============================================================================
@@ -149,12 +226,13 @@ export interface GeneratedThreat {
   id: string;
   title: string;
   description: string;
-  category: 'spoofing' | 'tampering' | 'repudiation' | 'information_disclosure' | 'denial_of_service' | 'elevation_of_privilege';
+  category: string; // One of the categories of the threat model's methodology
   severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
   likelihood: number;
   impact: number;
   riskScore: number;
   affectedComponents: string[];
+  dfdElementIds?: string[]; // IDs of the data flow diagram elements the threat affects
   attackVector?: string;
   mitigations: Array<{
     id: string;
@@ -165,8 +243,23 @@ export interface GeneratedThreat {
   }>;
 }
 
+export interface GeneratedComponentGraph {
+  components: Array<{
+    id: string;
+    name: string; // Used verbatim in the threats' affectedComponents
+    type: 'client' | 'service' | 'data_store' | 'queue' | 'external';
+    trustZone?: string;
+  }>;
+  flows: Array<{
+    sourceId: string;
+    targetId: string;
+    label: string;
+  }>;
+}
+
 export interface ThreatGenerationResult {
   threats: GeneratedThreat[];
   summary: string;
   recommendations: string[];
+  componentGraph?: GeneratedComponentGraph;
 }
@@ -37,3 +37,18 @@ export async function authMiddleware(c: Context, next: Next) {
     return c.json({ error: 'Unauthorized: Token verification failed' }, 401);
   }
 }
+
+// Clerk user IDs allowed to use the admin API, comma-separated
+const getAdminUserIds = () =>
+  (process.env.ADMIN_USER_IDS || '').split(',').map((id) => id.trim()).filter(Boolean);
+
+// Must run after authMiddleware
+export async function adminMiddleware(c: Context, next: Next) {
+  const { userId } = c.get('auth');
+
+  if (!getAdminUserIds().includes(userId)) {
+    return c.json({ error: 'Forbidden: Admin access required' }, 403);
+  }
+
+  await next();
+}
@@ -0,0 +1,40 @@
+import { Context, Next } from 'hono';
+import { eq } from 'drizzle-orm';
+import { isAtLeastRole, type OrganizationRole } from '@threat-modeling/shared';
+import { db, threatModels } from '../db';
+import { organizationService } from '../services/organization.service';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    modelRole: OrganizationRole;
+  }
+}
+
+/**
+ * Only let the request through if the user has at least `minimum` on the
+ * threat model in the `:id` param, and set their role as `modelRole`. Models
+ * they can't see at all are reported as not found. Must run after
+ * authMiddleware.
+ */
+export function requireModelRole(minimum: OrganizationRole) {
+  return async (c: Context, next: Next) => {
+    const { userId } = c.get('auth');
+
+    const [model] = await db
+      .select({ organizationId: threatModels.organizationId, userId: threatModels.userId })
+      .from(threatModels)
+      .where(eq(threatModels.id, c.req.param('id') ?? ''));
+
+    const role = model ? await organizationService.getModelRole(model, userId) : null;
+    if (!role) {
+      return c.json({ error: 'Threat model not found' }, 404);
+    }
+    if (!isAtLeastRole(role, minimum)) {
+      const required = minimum === 'owner' ? 'the owner role' : `the ${minimum} role or higher`;
+      return c.json({ error: `Forbidden: This requires ${required}` }, 403);
+    }
+
+    c.set('modelRole', role);
+    await next();
+  };
+}
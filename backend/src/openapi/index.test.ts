@@ -0,0 +1,185 @@
+import { describe, expect, test } from 'bun:test';
+import { readApiSpec } from '.';
+
+const OPENAPI_YAML = `
+openapi: 3.0.3
+info: { title: Shop, version: 1.2.0 }
+servers: [{ url: 'https://api.shop.example' }]
+security: [{ bearerAuth: [] }]
+components:
+  securitySchemes:
+    bearerAuth: { type: http, scheme: bearer, bearerFormat: JWT }
+    oauth: { type: oauth2, flows: { authorizationCode: {} } }
+  parameters:
+    OrderId: { name: id, in: path, schema: { type: string, format: uuid } }
+  schemas:
+    Customer:
+      type: object
+      properties:
+        email: { type: string, format: email }
+        orders: { type: array, items: { $ref: '#/components/schemas/Order' } }
+    Order:
+      allOf:
+        - $ref: '#/components/schemas/Base'
+        - properties:
+            customer: { $ref: '#/components/schemas/Customer' }
+            status: { type: string, enum: [new, paid] }
+    Base:
+      properties:
+        id: { type: string }
+paths:
+  /orders/{id}:
+    parameters: [{ $ref: '#/components/parameters/OrderId' }]
+    get:
+      operationId: getOrder
+      summary: Fetch an order
+      security: [{}, { oauth: ['orders:read'] }]
+      responses: { '200': {}, '404': {} }
+    put:
+      requestBody:
+        content:
+          application/json: { schema: { $ref: '#/components/schemas/Order' } }
+      responses: { '204': {} }
+  /health:
+    get:
+      security: []
+      deprecated: true
+      responses: { '200': {} }
+`;
+
+const SWAGGER_2 = {
+  swagger: '2.0',
+  info: { title: 'Legacy', version: '0.9' },
+  host: 'legacy.example',
+  basePath: '/v1',
+  schemes: ['http', 'https'],
+  consumes: ['application/xml'],
+  securityDefinitions: {
+    key: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    oauth: { type: 'oauth2', flow: 'implicit' },
+  },
+  security: [{ key: [] }],
+  definitions: {
+    User: { properties: { password: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } } },
+  },
+  paths: {
+    '/users': {
+      post: {
+        parameters: [
+          { name: 'user', in: 'body', schema: { $ref: '#/definitions/User' } },
+          { name: 'limit', in: 'query', type: 'integer', format: 'int32' },
+        ],
+        responses: { 201: {} },
+      },
+    },
+  },
+};
+
+describe('readApiSpec', () => {
+  test('reads an OpenAPI 3 document written in YAML', () => {
+    const spec = readApiSpec(Buffer.from(OPENAPI_YAML), 'application/yaml', 'shop.yaml')!;
+
+    expect(spec).toMatchObject({
+      title: 'Shop',
+      version: '1.2.0',
+      specVersion: 'OpenAPI 3.0.3',
+      servers: ['https://api.shop.example'],
+      securitySchemes: [
+        { name: 'bearerAuth', type: 'http', details: 'bearer JWT' },
+        { name: 'oauth', type: 'oauth2', details: 'authorizationCode flow' },
+      ],
+    });
+    expect(spec.operations).toEqual([
+      {
+        method: 'GET',
+        path: '/orders/{id}',
+        operationId: 'getOrder',
+        summary: 'Fetch an order',
+        security: ['anonymous', 'oauth (orders:read)'],
+        parameters: [{ name: 'id', in: 'path', required: true, type: 'string (uuid)' }],
+        responses: ['200', '404'],
+      },
+      {
+        method: 'PUT',
+        path: '/orders/{id}',
+        security: ['bearerAuth'],
+        parameters: [{ name: 'id', in: 'path', required: true, type: 'string (uuid)' }],
+        requestBody: 'application/json Order',
+        responses: ['204'],
+      },
+      { method: 'GET', path: '/health', security: [], parameters: [], responses: ['200'], deprecated: true },
+    ]);
+  });
+
+  test('reads a Swagger 2 document, with its body parameter as the request body', () => {
+    const spec = readApiSpec(Buffer.from(JSON.stringify(SWAGGER_2)), 'application/json', 'legacy.json')!;
+
+    expect(spec).toMatchObject({
+      specVersion: 'Swagger 2.0',
+      servers: ['http://legacy.example/v1', 'https://legacy.example/v1'],
+      securitySchemes: [
+        { name: 'key', type: 'apiKey', details: 'header X-API-Key' },
+        { name: 'oauth', type: 'oauth2', details: 'implicit flow' },
+      ],
+      operations: [
+        {
+          method: 'POST',
+          path: '/users',
+          security: ['key'],
+          parameters: [{ name: 'limit', in: 'query', required: false, type: 'integer (int32)' }],
+          requestBody: 'application/xml User',
+        },
+      ],
+      models: [{ name: 'User', properties: ['password: string', 'tags: string[]'], sensitiveProperties: ['password'] }],
+    });
+  });
+
+  test('names referenced schemas rather than expanding them, so cycles terminate', () => {
+    const spec = readApiSpec(Buffer.from(OPENAPI_YAML), 'application/yaml', 'shop.yaml')!;
+
+    expect(spec.models).toEqual([
+      { name: 'Customer', properties: ['email: string (email)', 'orders: Order[]'], sensitiveProperties: ['email'] },
+      { name: 'Order', properties: ['id: string', 'customer: Customer', 'status: string enum'], sensitiveProperties: [] },
+      { name: 'Base', properties: ['id: string'], sensitiveProperties: [] },
+    ]);
+  });
+
+  test('stops following references that loop back on themselves', () => {
+    const document = {
+      openapi: '3.1.0',
+      info: { title: 'Loops' },
+      paths: {
+        '/a': { $ref: '#/paths/~1b' },
+        '/b': { $ref: '#/paths/~1a' },
+      },
+      components: {
+        schemas: {
+          Self: { $ref: '#/components/schemas/Self' },
+          Left: { allOf: [{ $ref: '#/components/schemas/Right' }, { properties: { left: { type: 'string' } } }] },
+          Right: { allOf: [{ $ref: '#/components/schemas/Left' }, { properties: { right: { type: 'integer' } } }] },
+        },
+      },
+    };
+
+    const spec = readApiSpec(Buffer.from(JSON.stringify(document)), 'application/json', 'loops.json')!;
+
+    expect(spec.operations).toEqual([]);
+    expect(spec.models).toEqual([
+      { name: 'Self', properties: [], sensitiveProperties: [] },
+      { name: 'Left', properties: ['left: string', 'right: integer'], sensitiveProperties: [] },
+      { name: 'Right', properties: ['right: integer', 'left: string'], sensitiveProperties: [] },
+    ]);
+  });
+
+  test('returns null for files that are not valid specifications', () => {
+    const read = (text: string, mimeType = 'application/yaml', filename = 'spec.yaml') =>
+      readApiSpec(Buffer.from(text), mimeType, filename);
+
+    expect(read('openapi: [3')).toBeNull();
+    expect(read('{"openapi": "3.0.0",', 'application/json', 'spec.json')).toBeNull();
+    expect(read('name: my-app\nversion: 1.0.0')).toBeNull();
+    expect(read('swagger: "1.2"\npaths: {}')).toBeNull();
+    expect(read('openapi: 3.0.0\npaths: /orders')).toBeNull();
+    expect(read('openapi: 3.0.0', 'image/png', 'diagram.png')).toBeNull();
+  });
+});
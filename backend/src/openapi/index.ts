@@ -0,0 +1,92 @@
+/**
+ * API Specification Module Exports
+ *
+ * Usage:
+ *   import { readApiSpec, buildApiSpecContext } from './openapi';
+ *   const spec = readApiSpec(buffer, file.type, file.name);
+ */
+
+import { parseAllDocuments } from 'yaml';
+import type { ApiOperation, ApiSpec } from './types';
+import { isApiSpec, parseApiSpec } from './parser';
+
+// Types
+export type { ApiSpec, ApiOperation, ApiParameter, ApiSecurityScheme, ApiModel } from './types';
+
+export { isApiSpec, parseApiSpec } from './parser';
+
+const SPEC_MIME_TYPES = ['application/json', 'application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'];
+
+/**
+ * Parse an upload as an OpenAPI 3 or Swagger 2 specification. Returns null
+ * for files that aren't one, including JSON and YAML that fail to parse.
+ */
+export function readApiSpec(data: Buffer, mimeType: string, filename: string): ApiSpec | null {
+  if (!SPEC_MIME_TYPES.includes(mimeType) && !/\.(json|ya?ml)$/i.test(filename)) return null;
+
+  // JSON is valid YAML, so one reader covers both. Multi-document YAML
+  // (e.g. Kubernetes manifests) can't be a spec, so only the first is read
+  const [parsed] = parseAllDocuments(data.toString('utf-8'), { logLevel: 'error' });
+  if (!parsed || !('errors' in parsed) || parsed.errors.length > 0) return null;
+
+  try {
+    const document = parsed.toJS({ maxAliasCount: 1000 });
+    return isApiSpec(document) ? parseApiSpec(document) : null;
+  } catch (error) {
+    console.warn(`Could not read "${filename}" as an API specification:`, error);
+    return null;
+  }
+}
+
+function renderOperation(op: ApiOperation): string {
+  const name = op.operationId ? ` (${op.operationId})` : '';
+  const summary = op.summary ? ` - ${op.summary}` : '';
+  const parts = [`Auth: ${op.security.length > 0 ? op.security.join(' or ') : 'none'}`];
+
+  if (op.parameters.length > 0) {
+    const params = op.parameters.map(
+      (param) => `${param.name} (${param.in}${param.required ? ', required' : ''}, ${param.type})`
+    );
+    parts.push(`Params: ${params.join(', ')}`);
+  }
+  if (op.requestBody) parts.push(`Body: ${op.requestBody}`);
+  if (op.responses.length > 0) parts.push(`Responses: ${op.responses.join(', ')}`);
+  if (op.deprecated) parts.push('Deprecated');
+
+  return `- ${op.method} ${op.path}${name}${summary}. ${parts.join('. ')}`;
+}
+
+/**
+ * Render a specification for the analysis request
+ */
+export function buildApiSpecContext(spec: ApiSpec, filename: string): string {
+  let context = `## API Specification: ${spec.title}${spec.version ? ` ${spec.version}` : ''} (${spec.specVersion}, from ${filename})\n`;
+
+  if (spec.servers.length > 0) {
+    context += `Servers: ${spec.servers.join(', ')}\n`;
+  }
+
+  context += `\n### Authentication Schemes\n`;
+  context +=
+    spec.securitySchemes.length > 0
+      ? spec.securitySchemes
+          .map((scheme) => `- ${scheme.name}: ${scheme.type}${scheme.details ? `, ${scheme.details}` : ''}`)
+          .join('\n')
+      : '- None defined';
+
+  context += `\n\n### Operations (${spec.operations.length})\nRefer to these as \`METHOD /path\` in affectedComponents where a threat applies to a specific operation.\n`;
+  context += spec.operations.map(renderOperation).join('\n');
+
+  if (spec.models.length > 0) {
+    context += `\n\n### Data Models\n`;
+    context += spec.models
+      .map((model) => {
+        const sensitive =
+          model.sensitiveProperties.length > 0 ? `. Sensitive: ${model.sensitiveProperties.join(', ')}` : '';
+        return `- ${model.name}: ${model.properties.join(', ') || 'no properties'}${sensitive}`;
+      })
+      .join('\n');
+  }
+
+  return context;
+}
@@ -0,0 +1,307 @@
+import type { ApiModel, ApiOperation, ApiParameter, ApiSecurityScheme, ApiSpec } from './types';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+// The parts of the specification this reads, covering both versions. Uploads
+// may leave anything out, so every field is optional.
+
+interface Reference {
+  $ref?: string;
+}
+
+interface SchemaObject extends Reference {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+}
+
+/** Swagger 2 parameters carry their schema's fields themselves */
+interface ParameterObject extends SchemaObject {
+  name?: string;
+  in?: string;
+  required?: boolean;
+  schema?: SchemaObject;
+}
+
+interface RequestBodyObject extends Reference {
+  content?: Record<string, { schema?: SchemaObject } | undefined>;
+}
+
+interface SecuritySchemeObject extends Reference {
+  type?: string;
+  in?: string;
+  name?: string;
+  scheme?: string;
+  bearerFormat?: string;
+  /** OpenAPI 3 */
+  flows?: Record<string, unknown>;
+  /** Swagger 2 */
+  flow?: string;
+  openIdConnectUrl?: string;
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  consumes?: string[];
+  security?: unknown;
+  responses?: Record<string, unknown>;
+  deprecated?: boolean;
+}
+
+type PathItemObject = Reference &
+  Partial<Record<HttpMethod, OperationObject>> & {
+    parameters?: ParameterObject[];
+  };
+
+interface SpecDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string };
+  servers?: Array<{ url?: string }>;
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  security?: unknown;
+  paths?: Record<string, PathItemObject>;
+  components?: {
+    schemas?: Record<string, SchemaObject>;
+    securitySchemes?: Record<string, SecuritySchemeObject>;
+  };
+  definitions?: Record<string, SchemaObject>;
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+}
+
+// Property names that suggest credentials or personal data
+const SENSITIVE_PROPERTY =
+  /pass(word|wd)?|secret|token|api[_-]?key|ssn|social[_-]?security|card[_-]?(number|no)?$|cvv|cvc|iban|account[_-]?number|routing[_-]?number|dob|date[_-]?of[_-]?birth|birth[_-]?date|email|phone|address|salary|tax[_-]?id|passport|national[_-]?id/i;
+
+// Guards against reference cycles between schemas
+const MAX_REF_DEPTH = 8;
+
+/**
+ * Whether a parsed JSON or YAML document is an OpenAPI 3 or Swagger 2
+ * specification
+ */
+export function isApiSpec(document: unknown): document is SpecDocument {
+  if (!document || typeof document !== 'object') return false;
+  const { openapi, swagger, paths } = document as SpecDocument;
+  return (
+    ((typeof openapi === 'string' && openapi.startsWith('3')) || String(swagger) === '2.0') &&
+    (paths === undefined || typeof paths === 'object')
+  );
+}
+
+/** Follow a local `$ref` such as `#/components/schemas/User` */
+function resolve<T extends Reference>(document: SpecDocument, value: T | undefined, depth = 0): T | undefined {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string' || depth >= MAX_REF_DEPTH) {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/')) return {} as T;
+
+  const target = value.$ref
+    .slice(2)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (node, segment) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[segment] : undefined),
+      document
+    );
+
+  return resolve(document, (target ?? {}) as T, depth + 1);
+}
+
+function refName(ref: string): string {
+  return ref.split('/').pop()!;
+}
+
+/**
+ * A short description of a schema's type, e.g. `User`, `string (email)` or
+ * `Order[]`
+ */
+function schemaType(document: SpecDocument, schema: SchemaObject | undefined, depth = 0): string {
+  if (!schema || typeof schema !== 'object' || depth >= MAX_REF_DEPTH) return 'any';
+  if (typeof schema.$ref === 'string') return refName(schema.$ref);
+
+  for (const [combinator, separator] of [
+    ['allOf', ' & '],
+    ['oneOf', ' | '],
+    ['anyOf', ' | '],
+  ] as const) {
+    if (Array.isArray(schema[combinator])) {
+      return schema[combinator].map((member) => schemaType(document, member, depth + 1)).join(separator);
+    }
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.filter((t) => t !== 'null').join(' | ') : schema.type;
+  if (type === 'array') return `${schemaType(document, schema.items, depth + 1)}[]`;
+  if (Array.isArray(schema.enum)) return `${type ?? 'string'} enum`;
+  if (schema.format) return `${type ?? 'string'} (${schema.format})`;
+  return type ?? (schema.properties ? 'object' : 'any');
+}
+
+function securitySchemes(document: SpecDocument): ApiSecurityScheme[] {
+  const schemes = document.components?.securitySchemes ?? document.securityDefinitions ?? {};
+
+  return Object.entries(schemes).map(([name, value]) => {
+    const scheme = resolve(document, value) ?? {};
+    let details = '';
+
+    switch (scheme.type) {
+      case 'apiKey':
+        details = `${scheme.in} ${scheme.name}`;
+        break;
+      case 'http':
+        details = [scheme.scheme, scheme.bearerFormat].filter(Boolean).join(' ');
+        break;
+      case 'oauth2':
+        details = scheme.flows
+          ? `${Object.keys(scheme.flows).join(', ')} flow`
+          : `${scheme.flow ?? 'unknown'} flow`;
+        break;
+      case 'openIdConnect':
+        details = scheme.openIdConnectUrl ?? '';
+        break;
+    }
+
+    return { name, type: String(scheme.type ?? 'unknown'), details };
+  });
+}
+
+/** Security requirements as `name (scopes)` joined with `+` */
+function securityRequirements(requirements: unknown): string[] {
+  if (!Array.isArray(requirements)) return [];
+  return requirements.map((requirement: Record<string, string[]>) => {
+    const entries = Object.entries(requirement ?? {});
+    if (entries.length === 0) return 'anonymous';
+    return entries
+      .map(([name, scopes]) => (Array.isArray(scopes) && scopes.length > 0 ? `${name} (${scopes.join(', ')})` : name))
+      .join(' + ');
+  });
+}
+
+function servers(document: SpecDocument): string[] {
+  if (Array.isArray(document.servers)) {
+    return document.servers.map((server) => String(server.url));
+  }
+  if (document.host) {
+    const schemes = document.schemes ?? ['https'];
+    return schemes.map((scheme) => `${scheme}://${document.host}${document.basePath ?? ''}`);
+  }
+  return document.basePath ? [document.basePath] : [];
+}
+
+function parameter(document: SpecDocument, value: ParameterObject): ApiParameter {
+  const param = resolve(document, value) ?? {};
+  return {
+    name: String(param.name),
+    in: String(param.in),
+    required: param.required === true || param.in === 'path',
+    // Swagger 2 puts the type on the parameter, OpenAPI 3 in its schema
+    type: param.schema ? schemaType(document, param.schema) : schemaType(document, param),
+  };
+}
+
+function operation(
+  document: SpecDocument,
+  path: string,
+  method: HttpMethod,
+  pathItem: PathItemObject
+): ApiOperation {
+  const op = pathItem[method]!;
+
+  // Operation parameters override path-level ones with the same name and location
+  const parameters = new Map<string, ApiParameter>();
+  for (const value of [...(pathItem.parameters ?? []), ...(op.parameters ?? [])]) {
+    const param = parameter(document, value);
+    parameters.set(`${param.in}:${param.name}`, param);
+  }
+
+  let requestBody: string | undefined;
+  const body = [...parameters.values()].find((param) => param.in === 'body');
+  if (body) {
+    parameters.delete(`body:${body.name}`);
+    const consumes = op.consumes ?? document.consumes ?? ['application/json'];
+    requestBody = `${consumes.join(', ')} ${body.type}`;
+  } else if (op.requestBody) {
+    const content = resolve(document, op.requestBody)?.content ?? {};
+    requestBody = Object.entries(content)
+      .map(([mediaType, media]) => `${mediaType} ${schemaType(document, media?.schema)}`)
+      .join(', ');
+  }
+
+  return {
+    method: method.toUpperCase(),
+    path,
+    operationId: op.operationId,
+    summary: op.summary ?? op.description?.split('\n')[0],
+    security: securityRequirements(op.security ?? document.security),
+    parameters: [...parameters.values()],
+    requestBody: requestBody || undefined,
+    responses: Object.keys(op.responses ?? {}),
+    deprecated: op.deprecated === true ? true : undefined,
+  };
+}
+
+/** Properties of an object schema, including those it gets through `allOf` */
+function schemaProperties(
+  document: SpecDocument,
+  value: SchemaObject | undefined,
+  depth = 0
+): Record<string, SchemaObject> {
+  const schema = resolve(document, value) ?? {};
+  if (depth >= MAX_REF_DEPTH) return {};
+
+  const properties: Record<string, SchemaObject> = {};
+  for (const member of schema.allOf ?? []) {
+    Object.assign(properties, schemaProperties(document, member, depth + 1));
+  }
+  return Object.assign(properties, schema.properties ?? {});
+}
+
+function models(document: SpecDocument): ApiModel[] {
+  const schemas = document.components?.schemas ?? document.definitions ?? {};
+
+  return Object.entries(schemas).map(([name, schema]) => {
+    const properties = schemaProperties(document, schema);
+    return {
+      name,
+      properties: Object.entries(properties).map(([property, value]) => `${property}: ${schemaType(document, value)}`),
+      sensitiveProperties: Object.keys(properties).filter((property) => SENSITIVE_PROPERTY.test(property)),
+    };
+  });
+}
+
+/**
+ * Reduce an OpenAPI 3 or Swagger 2 document to its operations, security
+ * schemes and data models. Only local `$ref`s are followed.
+ */
+export function parseApiSpec(document: SpecDocument): ApiSpec {
+  const paths = document.paths ?? {};
+
+  return {
+    title: String(document.info?.title ?? 'Untitled API'),
+    version: String(document.info?.version ?? ''),
+    specVersion: document.openapi ? `OpenAPI ${document.openapi}` : `Swagger ${document.swagger}`,
+    servers: servers(document),
+    securitySchemes: securitySchemes(document),
+    operations: Object.entries(paths).flatMap(([path, value]) => {
+      const pathItem = resolve(document, value) ?? {};
+      return HTTP_METHODS.filter((method) => pathItem[method]).map((method) =>
+        operation(document, path, method, pathItem)
+      );
+    }),
+    models: models(document),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * API Specification Types
+ *
+ * An OpenAPI 3 or Swagger 2 document reduced to what a threat model needs:
+ * the operations, how each is authenticated, what input it takes and which
+ * data models it exposes. Stored with the uploaded file and rendered into
+ * the generation context, so threats can name specific operations.
+ */
+
+export interface ApiSecurityScheme {
+  /** Name the spec gives the scheme, e.g. `bearerAuth` */
+  name: string;
+  /** `apiKey`, `http`, `oauth2`, `openIdConnect`, `mutualTLS` or Swagger 2's `basic` */
+  type: string;
+  /** e.g. `bearer JWT`, `header X-API-Key`, `authorizationCode flow` */
+  details: string;
+}
+
+export interface ApiParameter {
+  name: string;
+  /** `path`, `query`, `header`, `cookie`, or Swagger 2's `body` and `formData` */
+  in: string;
+  required: boolean;
+  type: string;
+}
+
+export interface ApiOperation {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  /**
+   * Security requirements, any one of which grants access, e.g.
+   * `oauth2 (read:users)` or `apiKey + bearerAuth`, with `anonymous` where
+   * the spec lets callers skip authentication. Empty for operations that
+   * need no authentication.
+   */
+  security: string[];
+  parameters: ApiParameter[];
+  /** Media type and schema of the request body, e.g. `application/json User` */
+  requestBody?: string;
+  /** Response status codes */
+  responses: string[];
+  deprecated?: boolean;
+}
+
+export interface ApiModel {
+  name: string;
+  /** `name: type` for each property */
+  properties: string[];
+  /** Properties that look like credentials or personal data */
+  sensitiveProperties: string[];
+}
+
+export interface ApiSpec {
+  title: string;
+  version: string;
+  /** `OpenAPI 3.1.0` or `Swagger 2.0` */
+  specVersion: string;
+  servers: string[];
+  securitySchemes: ApiSecurityScheme[];
+  operations: ApiOperation[];
+  models: ApiModel[];
+}
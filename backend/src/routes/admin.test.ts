@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { QuotaChange } from '@threat-modeling/shared';
+import { request } from '../test/helpers';
+import { adminRoutes as app } from './admin';
+
+const newId = () => crypto.randomUUID();
+
+const adminUserIds = process.env.ADMIN_USER_IDS;
+beforeAll(() => {
+  process.env.ADMIN_USER_IDS = 'admin-1,admin-2';
+});
+afterAll(() => {
+  if (adminUserIds === undefined) delete process.env.ADMIN_USER_IDS;
+  else process.env.ADMIN_USER_IDS = adminUserIds;
+});
+
+describe('quota administration', () => {
+  test('records who changed a user quota and the values it replaced', async () => {
+    const userId = newId();
+
+    await request(app, `/quotas/users/${userId}`, { method: 'PUT', user: 'admin-1', body: { generationsLimit: 20 } });
+    await request(app, `/quotas/users/${userId}`, {
+      method: 'PUT',
+      user: 'admin-2',
+      body: { generationsLimit: null, generationsUsed: 3 },
+    });
+
+    const response = await request(app, `/quotas/users/${userId}/changes`, { user: 'admin-1' });
+    const { changes } = (await response.json()) as { changes: QuotaChange[] };
+
+    // Both land in the same second, so order by what they changed rather than when
+    expect(changes.sort((a, b) => a.newUsed - b.newUsed)).toMatchObject([
+      { subjectId: userId, changedBy: 'admin-1', previousLimit: 5, newLimit: 20, previousUsed: 0, newUsed: 0 },
+      { subjectId: userId, changedBy: 'admin-2', previousLimit: 20, newLimit: null, previousUsed: 0, newUsed: 3 },
+    ]);
+  });
+
+  test('keeps organization changes apart from user changes with the same ID', async () => {
+    const subjectId = newId();
+
+    await request(app, `/quotas/organizations/${subjectId}`, {
+      method: 'PUT',
+      user: 'admin-1',
+      body: { generationsLimit: 50 },
+    });
+
+    const organization = await request(app, `/quotas/organizations/${subjectId}/changes`, { user: 'admin-1' });
+    expect(await organization.json()).toMatchObject({
+      changes: [{ scope: 'organization', changedBy: 'admin-1', previousLimit: null, newLimit: 50 }],
+    });
+
+    const user = await request(app, `/quotas/users/${subjectId}/changes`, { user: 'admin-1' });
+    expect(await user.json()).toEqual({ changes: [] });
+  });
+
+  test('refuses changes and history to anyone else', async () => {
+    const userId = newId();
+
+    const update = await request(app, `/quotas/users/${userId}`, {
+      method: 'PUT',
+      user: 'member',
+      body: { generationsLimit: 1000 },
+    });
+    expect(update.status).toBe(403);
+
+    const history = await request(app, `/quotas/users/${userId}/changes`, { user: 'member' });
+    expect(history.status).toBe(403);
+  });
+});
@@ -0,0 +1,75 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { UpdateQuotaRequestSchema } from '@threat-modeling/shared';
+import { quotaService } from '../services/quota.service';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+
+const app = new Hono();
+
+app.use('*', authMiddleware, adminMiddleware);
+
+// =============================================================================
+// Quotas
+// =============================================================================
+
+/**
+ * GET /api/admin/quotas/users/:userId
+ * Get a user's generation quota for the current period
+ */
+app.get('/quotas/users/:userId', async (c) => {
+  return c.json(await quotaService.getUserQuota(c.req.param('userId')));
+});
+
+/**
+ * PUT /api/admin/quotas/users/:userId
+ * Change a user's limit (null for unlimited) or reset their usage
+ */
+app.put('/quotas/users/:userId', zValidator('json', UpdateQuotaRequestSchema), async (c) => {
+  const userId = c.req.param('userId');
+  const quota = await quotaService.updateUserQuota(userId, c.req.valid('json'), c.get('auth').userId);
+  return c.json(quota);
+});
+
+/**
+ * GET /api/admin/quotas/users/:userId/changes
+ * Admin changes to a user's quota, newest first
+ */
+app.get('/quotas/users/:userId/changes', async (c) => {
+  return c.json({ changes: await quotaService.listChanges('user', c.req.param('userId')) });
+});
+
+/**
+ * GET /api/admin/quotas/organizations/:organizationId
+ * Get an organization's generation quota for the current period
+ */
+app.get('/quotas/organizations/:organizationId', async (c) => {
+  return c.json(await quotaService.getOrganizationQuota(c.req.param('organizationId')));
+});
+
+/**
+ * PUT /api/admin/quotas/organizations/:organizationId
+ * Change an organization's limit (null for unlimited) or reset its usage
+ */
+app.put(
+  '/quotas/organizations/:organizationId',
+  zValidator('json', UpdateQuotaRequestSchema),
+  async (c) => {
+    const organizationId = c.req.param('organizationId');
+    const quota = await quotaService.updateOrganizationQuota(
+      organizationId,
+      c.req.valid('json'),
+      c.get('auth').userId
+    );
+    return c.json(quota);
+  }
+);
+
+/**
+ * GET /api/admin/quotas/organizations/:organizationId/changes
+ * Admin changes to an organization's quota, newest first
+ */
+app.get('/quotas/organizations/:organizationId/changes', async (c) => {
+  return c.json({ changes: await quotaService.listChanges('organization', c.req.param('organizationId')) });
+});
+
+export { app as adminRoutes };
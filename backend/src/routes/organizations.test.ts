@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import type { Organization, OrganizationMember } from '@threat-modeling/shared';
+import { request } from '../test/helpers';
+import { organizationRoutes as app } from './organizations';
+
+const newId = () => crypto.randomUUID();
+
+async function createOrganization(owner: string): Promise<Organization> {
+  const response = await request(app, '/', { method: 'POST', user: owner, body: { name: 'Payments' } });
+  expect(response.status).toBe(201);
+  return response.json() as Promise<Organization>;
+}
+
+async function addMember(
+  organizationId: string,
+  owner: string,
+  userId: string,
+  role: string
+): Promise<OrganizationMember> {
+  const response = await request(app, `/${organizationId}/members`, {
+    method: 'POST',
+    user: owner,
+    body: { userId, role },
+  });
+  expect(response.status).toBe(201);
+  return response.json() as Promise<OrganizationMember>;
+}
+
+describe('organizations', () => {
+  test("makes the creator the owner and lists organizations with each member's role", async () => {
+    const [owner, editor] = [newId(), newId()];
+    const organization = await createOrganization(owner);
+    expect(organization).toMatchObject({ name: 'Payments', role: 'owner', memberCount: 1 });
+
+    await addMember(organization.id, owner, editor, 'editor');
+
+    const response = await request(app, '/', { user: editor });
+    expect(await response.json()).toMatchObject({
+      organizations: [{ id: organization.id, role: 'editor', memberCount: 2 }],
+    });
+  });
+
+  test('only lets owners manage members, and hides the organization from outsiders', async () => {
+    const [owner, editor, outsider] = [newId(), newId(), newId()];
+    const { id } = await createOrganization(owner);
+    const member = await addMember(id, owner, editor, 'editor');
+
+    const add = await request(app, `/${id}/members`, {
+      method: 'POST',
+      user: editor,
+      body: { userId: newId(), role: 'viewer' },
+    });
+    expect(add.status).toBe(403);
+
+    const promote = await request(app, `/${id}/members/${member.id}`, {
+      method: 'PATCH',
+      user: editor,
+      body: { role: 'owner' },
+    });
+    expect(promote.status).toBe(403);
+
+    expect((await request(app, `/${id}/members`, { user: outsider })).status).toBe(404);
+    expect((await request(app, `/${id}/members`, { user: editor })).status).toBe(200);
+  });
+
+  test('refuses duplicate members and unknown emails', async () => {
+    const [owner, viewer] = [newId(), newId()];
+    const { id } = await createOrganization(owner);
+    await addMember(id, owner, viewer, 'viewer');
+
+    const duplicate = await request(app, `/${id}/members`, {
+      method: 'POST',
+      user: owner,
+      body: { userId: viewer, role: 'editor' },
+    });
+    expect(duplicate.status).toBe(409);
+
+    const unknown = await request(app, `/${id}/members`, {
+      method: 'POST',
+      user: owner,
+      body: { email: 'nobody@example.com', role: 'viewer' },
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  test('keeps at least one owner', async () => {
+    const [owner, second] = [newId(), newId()];
+    const { id } = await createOrganization(owner);
+    const members = (await (await request(app, `/${id}/members`, { user: owner })).json()) as {
+      members: OrganizationMember[];
+    };
+    const self = members.members[0];
+
+    const demote = await request(app, `/${id}/members/${self.id}`, {
+      method: 'PATCH',
+      user: owner,
+      body: { role: 'editor' },
+    });
+    expect(demote.status).toBe(400);
+    expect((await request(app, `/${id}/members/${self.id}`, { method: 'DELETE', user: owner })).status).toBe(400);
+
+    await addMember(id, owner, second, 'owner');
+    const leave = await request(app, `/${id}/members/${self.id}`, { method: 'DELETE', user: owner });
+    expect(leave.status).toBe(200);
+  });
+
+  test('lets members leave but not remove others', async () => {
+    const [owner, editor, viewer] = [newId(), newId(), newId()];
+    const { id } = await createOrganization(owner);
+    const editorMember = await addMember(id, owner, editor, 'editor');
+    const viewerMember = await addMember(id, owner, viewer, 'viewer');
+
+    const remove = await request(app, `/${id}/members/${viewerMember.id}`, { method: 'DELETE', user: editor });
+    expect(remove.status).toBe(403);
+
+    const leave = await request(app, `/${id}/members/${editorMember.id}`, { method: 'DELETE', user: editor });
+    expect(leave.status).toBe(200);
+    expect((await request(app, `/${id}/members`, { user: editor })).status).toBe(404);
+  });
+});
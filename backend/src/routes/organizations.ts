@@ -0,0 +1,158 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AddOrganizationMemberRequestSchema,
+  CreateOrganizationRequestSchema,
+  UpdateOrganizationMemberRequestSchema,
+} from '@threat-modeling/shared';
+import { organizationService } from '../services/organization.service';
+import { authMiddleware } from '../middleware/auth';
+
+const app = new Hono();
+
+app.use('*', authMiddleware);
+
+// =============================================================================
+// Organizations
+// =============================================================================
+
+/**
+ * GET /api/organizations
+ * List the organizations the user belongs to, with their role in each
+ */
+app.get('/', async (c) => {
+  const { userId } = c.get('auth');
+  return c.json({ organizations: await organizationService.listForUser(userId) });
+});
+
+/**
+ * POST /api/organizations
+ * Create an organization owned by the user
+ */
+app.post('/', zValidator('json', CreateOrganizationRequestSchema), async (c) => {
+  const { userId } = c.get('auth');
+  const organization = await organizationService.create(c.req.valid('json').name, userId);
+  return c.json(organization, 201);
+});
+
+// =============================================================================
+// Members
+// =============================================================================
+
+/**
+ * GET /api/organizations/:organizationId/members
+ * List an organization's members (any member)
+ */
+app.get('/:organizationId/members', async (c) => {
+  const { userId } = c.get('auth');
+  const organizationId = c.req.param('organizationId');
+
+  if (!(await organizationService.getRole(organizationId, userId))) {
+    return c.json({ error: 'Organization not found' }, 404);
+  }
+
+  return c.json({ members: await organizationService.listMembers(organizationId) });
+});
+
+/**
+ * POST /api/organizations/:organizationId/members
+ * Add a user by the email they signed up with, or by user ID (owners only)
+ */
+app.post('/:organizationId/members', zValidator('json', AddOrganizationMemberRequestSchema), async (c) => {
+  const { userId } = c.get('auth');
+  const organizationId = c.req.param('organizationId');
+  const { email, role } = c.req.valid('json');
+
+  const callerRole = await organizationService.getRole(organizationId, userId);
+  if (!callerRole) {
+    return c.json({ error: 'Organization not found' }, 404);
+  }
+  if (callerRole !== 'owner') {
+    return c.json({ error: 'Forbidden: Only owners can manage members' }, 403);
+  }
+
+  let memberUserId = c.req.valid('json').userId;
+  if (!memberUserId) {
+    try {
+      memberUserId = (await organizationService.findUserIdByEmail(email!)) ?? undefined;
+    } catch (error) {
+      console.error('Failed to look up user by email:', error);
+      return c.json({ error: 'Could not look up users by email' }, 502);
+    }
+    if (!memberUserId) {
+      return c.json({ error: `No user has signed up with ${email} - ask them to sign in once first` }, 404);
+    }
+  }
+
+  if (await organizationService.getRole(organizationId, memberUserId)) {
+    return c.json({ error: 'That user is already a member' }, 409);
+  }
+
+  const member = await organizationService.addMember(organizationId, { userId: memberUserId, email, role }, userId);
+  return c.json(member, 201);
+});
+
+/**
+ * PATCH /api/organizations/:organizationId/members/:memberId
+ * Change a member's role (owners only)
+ */
+app.patch(
+  '/:organizationId/members/:memberId',
+  zValidator('json', UpdateOrganizationMemberRequestSchema),
+  async (c) => {
+    const { userId } = c.get('auth');
+    const organizationId = c.req.param('organizationId');
+    const { role } = c.req.valid('json');
+
+    const callerRole = await organizationService.getRole(organizationId, userId);
+    if (!callerRole) {
+      return c.json({ error: 'Organization not found' }, 404);
+    }
+    if (callerRole !== 'owner') {
+      return c.json({ error: 'Forbidden: Only owners can manage members' }, 403);
+    }
+
+    const member = await organizationService.getMember(organizationId, c.req.param('memberId'));
+    if (!member) {
+      return c.json({ error: 'Member not found' }, 404);
+    }
+
+    if (member.role === 'owner' && role !== 'owner' && (await organizationService.countOwners(organizationId)) === 1) {
+      return c.json({ error: 'An organization needs at least one owner - make someone else an owner first' }, 400);
+    }
+
+    return c.json(await organizationService.updateMemberRole(member.id, role));
+  }
+);
+
+/**
+ * DELETE /api/organizations/:organizationId/members/:memberId
+ * Remove a member (owners only), or leave the organization
+ */
+app.delete('/:organizationId/members/:memberId', async (c) => {
+  const { userId } = c.get('auth');
+  const organizationId = c.req.param('organizationId');
+
+  const callerRole = await organizationService.getRole(organizationId, userId);
+  if (!callerRole) {
+    return c.json({ error: 'Organization not found' }, 404);
+  }
+
+  const member = await organizationService.getMember(organizationId, c.req.param('memberId'));
+  if (!member) {
+    return c.json({ error: 'Member not found' }, 404);
+  }
+
+  if (callerRole !== 'owner' && member.userId !== userId) {
+    return c.json({ error: 'Forbidden: Only owners can manage members' }, 403);
+  }
+
+  if (member.role === 'owner' && (await organizationService.countOwners(organizationId)) === 1) {
+    return c.json({ error: 'An organization needs at least one owner - make someone else an owner first' }, 400);
+  }
+
+  await organizationService.removeMember(member.id);
+  return c.json({ success: true });
+});
+
+export { app as organizationRoutes };
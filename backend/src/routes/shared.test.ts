@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import type { CreateShareLinkRequest, Threat } from '@threat-modeling/shared';
+import { db, shareLinkAccesses, shareLinks } from '../db';
+import { createModel, request } from '../test/helpers';
+import threatModelRoutes from './threat-models';
+import app from './shared';
+
+const threats: Threat[] = [
+  {
+    id: 'legacy-1',
+    title: 'Session token theft',
+    description: 'Tokens are replayed',
+    category: 'spoofing',
+    severity: 'high',
+    likelihood: 3,
+    impact: 4,
+    riskScore: 12,
+    affectedComponents: [],
+    mitigations: [{ id: 'm1', description: 'Rotate keys', priority: 'immediate', effort: 'low', status: 'proposed' }],
+  },
+];
+
+async function share(settings: Partial<CreateShareLinkRequest> = {}): Promise<string> {
+  const model = await createModel({ userId: 'owner', threats });
+  const response = await request(threatModelRoutes, `/${model.id}/share`, {
+    method: 'POST',
+    user: 'owner',
+    body: settings,
+  });
+  return (await response.json()).shareToken;
+}
+
+describe('share links', () => {
+  test('open with the right password and limit wrong guesses per IP', async () => {
+    const token = await share({ password: 'correct horse' });
+    const open = (password: string, ip: string, headers: Record<string, string> = {}) =>
+      request(app, `/${token}`, { ip, headers: { 'X-Share-Password': password, ...headers } });
+
+    expect(await (await request(app, `/${token}`)).json()).toMatchObject({ code: 'password_required' });
+    expect((await open('correct horse', '10.0.0.1')).status).toBe(200);
+    for (let i = 0; i < 5; i++) {
+      // A forwarded address the visitor sets themselves doesn't give them a fresh allowance
+      expect((await open('wrong', '10.0.0.1', { 'X-Forwarded-For': `192.0.2.${i}` })).status).toBe(401);
+    }
+
+    const throttled = await open('correct horse', '10.0.0.1');
+    expect(throttled.status).toBe(429);
+    expect(await throttled.json()).toMatchObject({ code: 'too_many_attempts' });
+    expect((await open('correct horse', '10.0.0.2')).status).toBe(200);
+  });
+
+  test('count concurrent wrong guesses before checking them', async () => {
+    const token = await share({ password: 'correct horse' });
+
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        request(app, `/${token}`, { ip: '10.0.1.1', headers: { 'X-Share-Password': 'wrong' } })
+      )
+    );
+
+    const statuses = responses.map((response) => response.status).sort();
+    expect(statuses).toEqual([...Array(5).fill(401), ...Array(5).fill(429)]);
+  });
+
+  test('slow down, rather than refuse, a link that has had many wrong guesses', async () => {
+    const token = await share({ password: 'correct horse' });
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    await db.insert(shareLinkAccesses).values(
+      Array.from({ length: 50 }, (_, i) => ({
+        shareLinkId: link.id,
+        action: 'view' as const,
+        allowed: false,
+        denialReason: 'invalid_password',
+        ipAddress: `198.51.100.${i}`,
+      }))
+    );
+
+    const started = Date.now();
+    const response = await request(app, `/${token}`, { ip: '10.0.2.1', headers: { 'X-Share-Password': 'correct horse' } });
+
+    expect(response.status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+  });
+
+  test('stop working once expired', async () => {
+    const token = await share({ expiresAt: new Date(Date.now() + 1000).toISOString() });
+    expect((await request(app, `/${token}`)).status).toBe(200);
+
+    await Bun.sleep(1100);
+    expect((await request(app, `/${token}`)).status).toBe(410);
+  });
+
+  test('ask for a sign-in with an allowed email', async () => {
+    const token = await share({ allowedEmails: ['guest@example.com'] });
+
+    expect(await (await request(app, `/${token}`)).json()).toMatchObject({ code: 'sign_in_required' });
+    expect(await (await request(app, `/${token}`, { user: 'intruder' })).json()).toMatchObject({
+      code: 'email_not_allowed',
+    });
+    expect((await request(app, `/${token}`, { user: 'guest' })).status).toBe(200);
+  });
+
+  test('only allow what their permission includes', async () => {
+    const viewOnly = await share();
+    const triage = await share({ permissions: ['edit'] });
+    const update = (token: string) =>
+      request(app, `/${token}/threats/legacy-1`, { method: 'PATCH', body: { severity: 'critical' } });
+
+    expect((await update(viewOnly)).status).toBe(403);
+    expect((await request(app, `/${viewOnly}/threats/legacy-1/comments`)).status).toBe(403);
+
+    const updated = await update(triage);
+    expect(updated.status).toBe(200);
+    expect(await updated.json()).toMatchObject({ id: 'legacy-1', severity: 'critical', editedFields: ['severity'] });
+  });
+
+  test('let visitors comment under the name they give', async () => {
+    const token = await share({ permissions: ['comment'] });
+    const comments = `/${token}/threats/legacy-1/comments`;
+
+    expect((await request(app, comments, { method: 'POST', body: { body: 'Is this still open?' } })).status).toBe(400);
+
+    const posted = await request(app, comments, {
+      method: 'POST',
+      body: { body: 'Is this still open? cc @owner@example.com', authorName: 'Guest' },
+    });
+    expect(posted.status).toBe(201);
+    const comment = await posted.json();
+    expect(comment).toMatchObject({ authorName: 'Guest', viaShareLink: true, mentions: ['owner@example.com'] });
+
+    // Anonymous visitors can't prove they wrote it, so they can't edit it
+    const edit = await request(app, `${comments}/${comment.id}`, { method: 'PATCH', body: { body: 'Changed' } });
+    expect(edit.status).toBe(403);
+  });
+});
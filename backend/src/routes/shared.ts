@@ -1,33 +1,73 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { zValidator } from '@hono/zod-validator';
 import { eq } from 'drizzle-orm';
-import { db, threatModels, contextFiles } from '../db';
+import {
+  CreateCommentRequestSchema,
+  UpdateCommentRequestSchema,
+  UpdateMitigationRequestSchema,
+  UpdateThreatRequestSchema,
+  type SharePermission,
+} from '@threat-modeling/shared';
+import { db, contextFiles, dataFlowDiagrams } from '../db';
 import { generateMarkdownReport, generateJsonExport, generatePdfReport } from '../services/pdf-export';
+import { SHARE_PASSWORD_HEADER, shareLinkService } from '../services/share-link.service';
+import { updateMitigation, updateThreat } from '../services/threat-triage';
+import { commentService, type CommentAuthor } from '../services/comment.service';
 
 const app = new Hono();
 
-// Get shared threat model by token
-app.get('/:token', async (c) => {
-  const token = c.req.param('token');
+// Reverse proxies in front of the backend, each appending to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = parseInt(process.env.TRUSTED_PROXY_HOPS || '0');
 
-  const [model] = await db
-    .select()
-    .from(threatModels)
-    .where(eq(threatModels.shareToken, token));
+// The visitor's IP: the address our own proxies saw, or the connection's peer
+// when there are none. Earlier X-Forwarded-For entries are set by the client.
+function clientIp(c: Context): string | undefined {
+  const forwarded = c.req.header('X-Forwarded-For')?.split(',').map((address) => address.trim());
+  if (TRUSTED_PROXY_HOPS > 0 && forwarded) {
+    return forwarded[Math.max(forwarded.length - TRUSTED_PROXY_HOPS, 0)];
+  }
+  return getConnInfo(c).remote.address;
+}
+
+// Check the share link in the `:token` param allows `action` for this request
+function authorizeShare(c: Context, action: SharePermission, format?: string) {
+  return shareLinkService.authorize(c.req.param('token') ?? '', action, {
+    password: c.req.header(SHARE_PASSWORD_HEADER),
+    authorization: c.req.header('Authorization'),
+    ipAddress: clientIp(c),
+    userAgent: c.req.header('User-Agent'),
+    format,
+  });
+}
 
-  if (!model || !model.isPublic) {
-    return c.json({ error: 'Threat model not found or not shared' }, 404);
+// Visitors are known by the email they signed in with when the link asked for
+// one, and otherwise by the name they give
+function shareAuthor(link: { id: string }, email: string | null, name?: string): CommentAuthor {
+  return { userId: null, name: name ?? email ?? '', email, shareLinkId: link.id };
+}
+
+// Get shared threat model by token
+app.get('/:token', async (c) => {
+  const access = await authorizeShare(c, 'view');
+  if (!access.allowed) {
+    return c.json({ error: access.error, code: access.code }, access.status);
   }
+  const { model, link } = access;
 
-  const files = await db
-    .select({
-      id: contextFiles.id,
-      filename: contextFiles.filename,
-      originalName: contextFiles.originalName,
-      fileType: contextFiles.fileType,
-      createdAt: contextFiles.createdAt,
-    })
-    .from(contextFiles)
-    .where(eq(contextFiles.threatModelId, model.id));
+  const [files, [diagram]] = await Promise.all([
+    db
+      .select({
+        id: contextFiles.id,
+        filename: contextFiles.filename,
+        originalName: contextFiles.originalName,
+        fileType: contextFiles.fileType,
+        createdAt: contextFiles.createdAt,
+      })
+      .from(contextFiles)
+      .where(eq(contextFiles.threatModelId, model.id)),
+    db.select().from(dataFlowDiagrams).where(eq(dataFlowDiagrams.threatModelId, model.id)),
+  ]);
 
   // Return limited view for shared models
   return c.json({
@@ -35,10 +75,13 @@ app.get('/:token', async (c) => {
     title: model.title,
     description: model.description,
     status: model.status,
+    methodology: model.methodology,
     systemDescription: model.systemDescription,
     threats: model.threats,
     summary: model.summary,
     recommendations: model.recommendations,
+    componentGraph: model.componentGraph,
+    sharePermissions: link.permissions,
     createdAt: model.createdAt.toISOString(),
     generationCompletedAt: model.generationCompletedAt?.toISOString(),
     contextFiles: files.map((f) => ({
@@ -46,22 +89,25 @@ app.get('/:token', async (c) => {
       originalName: f.originalName,
       fileType: f.fileType,
     })),
+    dataFlowDiagram: diagram
+      ? {
+          ...diagram,
+          createdAt: diagram.createdAt.toISOString(),
+          updatedAt: diagram.updatedAt.toISOString(),
+        }
+      : null,
   });
 });
 
 // Export shared threat model
 app.get('/:token/export', async (c) => {
-  const token = c.req.param('token');
   const format = c.req.query('format') || 'pdf';
 
-  const [model] = await db
-    .select()
-    .from(threatModels)
-    .where(eq(threatModels.shareToken, token));
-
-  if (!model || !model.isPublic) {
-    return c.json({ error: 'Threat model not found or not shared' }, 404);
+  const access = await authorizeShare(c, 'view', format);
+  if (!access.allowed) {
+    return c.json({ error: access.error, code: access.code }, access.status);
   }
+  const { model } = access;
 
   const files = await db
     .select()
@@ -94,4 +140,118 @@ app.get('/:token/export', async (c) => {
   });
 });
 
+// Update a threat through a share link with edit permission
+app.patch('/:token/threats/:threatId', zValidator('json', UpdateThreatRequestSchema), async (c) => {
+  const access = await authorizeShare(c, 'edit');
+  if (!access.allowed) {
+    return c.json({ error: access.error, code: access.code }, access.status);
+  }
+
+  const result = await updateThreat(access.model.id, c.req.param('threatId'), c.req.valid('json'));
+  if (!result.ok) {
+    return c.json({ error: result.error }, result.status);
+  }
+
+  return c.json(result.value);
+});
+
+// Update a mitigation through a share link with edit permission
+app.patch(
+  '/:token/threats/:threatId/mitigations/:mitigationId',
+  zValidator('json', UpdateMitigationRequestSchema),
+  async (c) => {
+    const access = await authorizeShare(c, 'edit');
+    if (!access.allowed) {
+      return c.json({ error: access.error, code: access.code }, access.status);
+    }
+
+    const result = await updateMitigation(
+      access.model.id,
+      c.req.param('threatId'),
+      c.req.param('mitigationId'),
+      c.req.valid('json')
+    );
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    return c.json(result.value);
+  }
+);
+
+// List the comment threads on a threat through a share link with comment permission
+app.get('/:token/threats/:threatId/comments', async (c) => {
+  const access = await authorizeShare(c, 'comment');
+  if (!access.allowed) {
+    return c.json({ error: access.error, code: access.code }, access.status);
+  }
+
+  const viewer = shareAuthor(access.link, access.email);
+  return c.json({ comments: await commentService.list(access.model.id, c.req.param('threatId'), viewer) });
+});
+
+// Comment through a share link with comment permission
+app.post('/:token/threats/:threatId/comments', zValidator('json', CreateCommentRequestSchema), async (c) => {
+  const access = await authorizeShare(c, 'comment');
+  if (!access.allowed) {
+    return c.json({ error: access.error, code: access.code }, access.status);
+  }
+
+  const request = c.req.valid('json');
+  const author = shareAuthor(access.link, access.email, request.authorName);
+  if (!author.name) {
+    return c.json({ error: 'Enter your name to comment' }, 400);
+  }
+
+  const result = await commentService.create(access.model, c.req.param('threatId'), request, author);
+  if (!result.ok) {
+    return c.json({ error: result.error }, result.status);
+  }
+
+  return c.json(result.value, 201);
+});
+
+// Edit your comment, or resolve or reopen a thread, through a share link with
+// comment permission
+app.patch(
+  '/:token/threats/:threatId/comments/:commentId',
+  zValidator('json', UpdateCommentRequestSchema),
+  async (c) => {
+    const access = await authorizeShare(c, 'comment');
+    if (!access.allowed) {
+      return c.json({ error: access.error, code: access.code }, access.status);
+    }
+
+    const changes = c.req.valid('json');
+    const author = shareAuthor(access.link, access.email, changes.authorName);
+    const result = await commentService.update(
+      access.model.id,
+      c.req.param('threatId'),
+      c.req.param('commentId'),
+      changes,
+      { ...author, name: author.name || 'Share link visitor' }
+    );
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    return c.json(result.value);
+  }
+);
+
+// Earlier versions of a comment, through a share link with comment permission
+app.get('/:token/threats/:threatId/comments/:commentId/history', async (c) => {
+  const access = await authorizeShare(c, 'comment');
+  if (!access.allowed) {
+    return c.json({ error: access.error, code: access.code }, access.status);
+  }
+
+  const result = await commentService.history(access.model.id, c.req.param('threatId'), c.req.param('commentId'));
+  if (!result.ok) {
+    return c.json({ error: result.error }, result.status);
+  }
+
+  return c.json({ edits: result.value });
+});
+
 export default app;
@@ -0,0 +1,123 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db, threatModels } from '../db';
+import { organizationService } from '../services/organization.service';
+import { quotaService } from '../services/quota.service';
+import { generationService } from '../services/generation.service';
+import { createModel, request, waitFor } from '../test/helpers';
+import app from './threat-models';
+
+const finished = (id: string) =>
+  waitFor(async () => {
+    const job = await generationService.getLatestJob(id);
+    return job && ['completed', 'failed', 'cancelled'].includes(job.status) ? job : null;
+  });
+
+describe('model roles', () => {
+  let organizationId: string;
+
+  beforeAll(async () => {
+    const organization = await organizationService.create('Acme', 'alice');
+    organizationId = organization.id;
+    await organizationService.addMember(organizationId, { userId: 'victor', role: 'viewer' }, 'alice');
+    await organizationService.addMember(organizationId, { userId: 'rita', role: 'reviewer' }, 'alice');
+    await organizationService.addMember(organizationId, { userId: 'eddie', role: 'editor' }, 'alice');
+  });
+
+  test('hides models from people outside the organization', async () => {
+    const model = await createModel({ userId: 'alice', organizationId });
+
+    expect((await request(app, `/${model.id}`, { user: 'mallory' })).status).toBe(404);
+    expect((await request(app, `/${model.id}`, { user: 'victor' })).status).toBe(200);
+  });
+
+  test('only lets each role do what it allows', async () => {
+    const model = await createModel({ userId: 'alice', organizationId });
+    const rename = (user: string) => request(app, `/${model.id}`, { method: 'PATCH', user, body: { title: user } });
+    const comment = (user: string) =>
+      request(app, `/${model.id}/threats/t1/comments`, { method: 'POST', user, body: { body: 'Looks right' } });
+
+    expect((await rename('rita')).status).toBe(403);
+    expect((await rename('eddie')).status).toBe(200);
+    expect((await comment('victor')).status).toBe(403);
+    // Reviewers may comment; the threat doesn't exist, which is checked after the role
+    expect((await comment('rita')).status).toBe(404);
+    expect((await request(app, `/${model.id}`, { method: 'DELETE', user: 'eddie' })).status).toBe(403);
+    expect((await request(app, `/${model.id}`, { method: 'DELETE', user: 'alice' })).status).toBe(200);
+  });
+
+  test('requires a sign-in', async () => {
+    expect((await request(app, '/')).status).toBe(401);
+  });
+});
+
+describe('generation quotas', () => {
+  test('counts personal generations against the user only', async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ userId });
+    await quotaService.updateUserQuota(userId, { generationsLimit: 1 }, 'admin');
+
+    expect((await request(app, `/${model.id}/generate`, { method: 'POST', user: userId })).status).toBe(200);
+    await finished(model.id);
+
+    const refused = await request(app, `/${model.id}/generate`, { method: 'POST', user: userId });
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('Retry-After')).not.toBeNull();
+    expect(await refused.json()).toMatchObject({ scope: 'user', generationsUsed: 1, generationsLimit: 1 });
+
+    const usage = await (await request(app, '/usage', { user: userId })).json();
+    expect(usage).toMatchObject({ generationsUsed: 1, organization: null });
+  });
+
+  test("refuses generation when the organization's quota is used up", async () => {
+    const organization = await organizationService.create('Tight budget', 'olga');
+    await quotaService.updateOrganizationQuota(organization.id, { generationsLimit: 0 }, 'admin');
+    const model = await createModel({ userId: 'olga', organizationId: organization.id });
+
+    const refused = await request(app, `/${model.id}/generate`, { method: 'POST', user: 'olga' });
+
+    expect(refused.status).toBe(429);
+    expect(await refused.json()).toMatchObject({ scope: 'organization' });
+    expect((await quotaService.getUserQuota('olga')).generationsUsed).toBe(0);
+  });
+
+  test("doesn't charge for a generation that is already running", async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ userId, status: 'generating' });
+
+    const response = await request(app, `/${model.id}/generate`, { method: 'POST', user: userId });
+
+    expect(response.status).toBe(400);
+    expect((await quotaService.getUserQuota(userId)).generationsUsed).toBe(0);
+  });
+});
+
+describe('generation events', () => {
+  test('ends the stream once the generation has finished', async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ userId });
+    await request(app, `/${model.id}/generate`, { method: 'POST', user: userId });
+    await finished(model.id);
+
+    const response = await request(app, `/${model.id}/generation-events`, { user: userId });
+    const events = (await response.text())
+      .split('\n')
+      .filter((line) => line.startsWith('data: '))
+      .map((line) => JSON.parse(line.slice(6)));
+
+    expect(events.map((event) => event.type)).toEqual(['completed']);
+  });
+
+  test('ends the stream when the model is stale but the job has finished', async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ userId });
+    await request(app, `/${model.id}/generate`, { method: 'POST', user: userId });
+    await finished(model.id);
+
+    // As if the job finished between reading the model and subscribing
+    await db.update(threatModels).set({ status: 'generating' }).where(eq(threatModels.id, model.id));
+
+    const response = await request(app, `/${model.id}/generation-events`, { user: userId });
+    expect(await response.text()).toContain('"type":"completed"');
+  });
+});
@@ -1,16 +1,46 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
+import { bodyLimit } from 'hono/body-limit';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
-import { nanoid } from 'nanoid';
-import { eq, desc, sql, ilike, and, or } from 'drizzle-orm';
-import { db, threatModels, contextFiles, jiraTickets, userUsage } from '../db';
-import { generateThreatModel } from '../services/threat-generation';
+import { eq, desc, sql, ilike, and, or, inArray, type SQL } from 'drizzle-orm';
+import { db, threatModels, contextFiles, jiraTickets, dataFlowDiagrams } from '../db';
+import { generationService } from '../services/generation.service';
+import { subscribeToGeneration } from '../services/generation-events';
+import { getUsageByModel } from '../services/usage.service';
+import { quotaService } from '../services/quota.service';
+import { organizationService } from '../services/organization.service';
+import { shareLinkService } from '../services/share-link.service';
+import { commentService } from '../services/comment.service';
+import { updateMitigation, updateThreat } from '../services/threat-triage';
+import { diffRevisions, revisionService } from '../services/revision.service';
 import { generateMarkdownReport, generateJsonExport, generatePdfReport } from '../services/pdf-export';
 import { getDefaultStorageProvider } from '../storage';
+import { DOCX_MIME_TYPE, XLSX_MIME_TYPE, extractText, resolveMimeType } from '../extraction';
+import { analyzeInfrastructure } from '../iac';
+import { readApiSpec } from '../openapi';
+import { DRAWIO_MIME_TYPE, MERMAID_MIME_TYPE, PLANTUML_MIME_TYPE, readDiagram, renderDiagram } from '../diagrams';
+import { pruneThreatLinks } from '../services/data-flow-diagram';
 import {
   CreateThreatModelRequestSchema,
   UpdateThreatModelRequestSchema,
+  GenerateThreatModelRequestSchema,
+  SaveDataFlowDiagramRequestSchema,
+  CreateShareLinkRequestSchema,
+  UpdateThreatRequestSchema,
+  UpdateMitigationRequestSchema,
+  CreateCommentRequestSchema,
+  UpdateCommentRequestSchema,
+  DEFAULT_GENERATION_SETTINGS,
   GUIDED_QUESTIONS,
+  METHODOLOGIES,
+  PERSONAL_ORGANIZATION_ID,
+  TERMINAL_GENERATION_EVENTS,
+  isAtLeastRole,
+  type GenerationSettings,
+  type OrganizationRole,
+  type RiskCategory,
+  type Threat,
 } from '@threat-modeling/shared';
 import {
   getJiraService,
@@ -18,56 +48,74 @@ import {
   parseJiraUrl,
 } from '../services/jira.service';
 import { authMiddleware } from '../middleware/auth';
+import { requireModelRole } from '../middleware/model-access';
 
 const app = new Hono();
 
-// Default generation limit per user
-const DEFAULT_GENERATION_LIMIT = 5;
+// SSE keep-alive interval - must stay under Bun's 10s idle connection timeout
+const SSE_HEARTBEAT_MS = 5000;
+
+// Largest context file upload accepted
+const MAX_UPLOAD_MB = parseInt(process.env.MAX_UPLOAD_MB || '25');
+const uploadLimit = bodyLimit({
+  maxSize: MAX_UPLOAD_MB * 1024 * 1024,
+  onError: (c) => c.json({ error: `File too large - uploads are limited to ${MAX_UPLOAD_MB} MB` }, 413),
+});
 
 // Apply auth middleware to all routes
 app.use('*', authMiddleware);
 
-// Helper to get or create user usage record
-async function getUserUsage(userId: string) {
-  let [usage] = await db
-    .select()
-    .from(userUsage)
-    .where(eq(userUsage.userId, userId));
-
-  if (!usage) {
-    [usage] = await db
-      .insert(userUsage)
-      .values({ userId, generationsUsed: 0, generationsLimit: DEFAULT_GENERATION_LIMIT })
-      .returning();
-  }
-
-  return usage;
-}
-
-// Get user usage stats
+// Get user usage stats for the current billing period, with token and cost totals per model
 app.get('/usage', async (c) => {
   const { userId } = c.get('auth');
-  const usage = await getUserUsage(userId);
+  const organizationId = c.req.query('organizationId') || PERSONAL_ORGANIZATION_ID;
+  if (organizationId !== PERSONAL_ORGANIZATION_ID && !(await organizationService.getRole(organizationId, userId))) {
+    return c.json({ error: 'Organization not found' }, 404);
+  }
+
+  // Personal models only count against the user
+  const [usage, organization, byModel] = await Promise.all([
+    quotaService.getUserQuota(userId),
+    organizationId === PERSONAL_ORGANIZATION_ID ? null : quotaService.getOrganizationQuota(organizationId),
+    getUsageByModel(userId),
+  ]);
 
   return c.json({
     generationsUsed: usage.generationsUsed,
     generationsLimit: usage.generationsLimit,
-    remaining: usage.generationsLimit - usage.generationsUsed,
+    remaining: usage.remaining,
+    resetsAt: usage.resetsAt,
+    organization,
+    inputTokens: byModel.reduce((sum, m) => sum + m.inputTokens, 0),
+    outputTokens: byModel.reduce((sum, m) => sum + m.outputTokens, 0),
+    estimatedCostUsd: byModel.reduce((sum, m) => sum + (m.estimatedCostUsd ?? 0), 0),
+    byModel,
   });
 });
 
-// List threat models (filtered by user)
+// List threat models (the user's personal models and those of their organizations)
 app.get('/', async (c) => {
   const { userId } = c.get('auth');
   const page = parseInt(c.req.query('page') || '1');
   const pageSize = parseInt(c.req.query('pageSize') || '20');
   const status = c.req.query('status');
   const search = c.req.query('search');
+  const organizationId = c.req.query('organizationId');
 
   const offset = (page - 1) * pageSize;
+  const roles = await organizationService.getRoles(userId);
+
+  // Always filter by membership for multi-tenancy
+  const conditions: SQL[] = [
+    or(
+      and(eq(threatModels.organizationId, PERSONAL_ORGANIZATION_ID), eq(threatModels.userId, userId)),
+      inArray(threatModels.organizationId, [...roles.keys()])
+    )!,
+  ];
 
-  // Always filter by userId for multi-tenancy
-  const conditions = [eq(threatModels.userId, userId)];
+  if (organizationId) {
+    conditions.push(eq(threatModels.organizationId, organizationId));
+  }
 
   if (status) {
     conditions.push(eq(threatModels.status, status as 'draft' | 'generating' | 'completed' | 'failed'));
@@ -94,6 +142,7 @@ app.get('/', async (c) => {
         threats: threatModels.threats,
         shareToken: threatModels.shareToken,
         isPublic: threatModels.isPublic,
+        organizationId: threatModels.organizationId,
         createdAt: threatModels.createdAt,
         updatedAt: threatModels.updatedAt,
       })
@@ -108,6 +157,9 @@ app.get('/', async (c) => {
       .where(whereClause),
   ]);
 
+  const shareUrls = await shareLinkService.getActiveShareUrls(items.map((item) => item.id));
+  const baseUrl = process.env.PUBLIC_URL || 'http://localhost:5173';
+
   const threatModelSummaries = items.map((item) => {
     const threats = (item.threats || []) as Array<{ severity: string }>;
     const severityOrder = ['critical', 'high', 'medium', 'low', 'info'];
@@ -120,7 +172,10 @@ app.get('/', async (c) => {
       }
     }
 
-    const baseUrl = process.env.PUBLIC_URL || 'http://localhost:5173';
+    // Models shared before share links existed still carry their token
+    const legacyShareUrl = item.isPublic && item.shareToken ? `${baseUrl}/shared/${item.shareToken}` : null;
+    const shareUrl = shareUrls.get(item.id) ?? legacyShareUrl;
+
     return {
       id: item.id,
       title: item.title,
@@ -128,8 +183,10 @@ app.get('/', async (c) => {
       status: item.status,
       threatCount: threats.length,
       highestSeverity,
-      isShared: item.isPublic && !!item.shareToken,
-      shareUrl: item.shareToken ? `${baseUrl}/shared/${item.shareToken}` : null,
+      isShared: !!shareUrl,
+      shareUrl,
+      organizationId: item.organizationId,
+      role: item.organizationId === PERSONAL_ORGANIZATION_ID ? 'owner' : roles.get(item.organizationId),
       createdAt: item.createdAt.toISOString(),
       updatedAt: item.updatedAt.toISOString(),
     };
@@ -143,27 +200,28 @@ app.get('/', async (c) => {
   });
 });
 
-// Get single threat model (with ownership check)
-app.get('/:id', async (c) => {
-  const { userId } = c.get('auth');
+// Get single threat model
+app.get('/:id', requireModelRole('viewer'), async (c) => {
   const id = c.req.param('id');
 
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
   }
 
-  const [files, tickets] = await Promise.all([
+  const [files, tickets, [diagram]] = await Promise.all([
     db.select().from(contextFiles).where(eq(contextFiles.threatModelId, id)),
     db.select().from(jiraTickets).where(eq(jiraTickets.threatModelId, id)),
+    db.select().from(dataFlowDiagrams).where(eq(dataFlowDiagrams.threatModelId, id)),
   ]);
 
   return c.json({
     ...model,
+    role: c.get('modelRole'),
     createdAt: model.createdAt.toISOString(),
     updatedAt: model.updatedAt.toISOString(),
     generationStartedAt: model.generationStartedAt?.toISOString(),
@@ -176,6 +234,13 @@ app.get('/:id', async (c) => {
       ...t,
       createdAt: t.createdAt.toISOString(),
     })),
+    dataFlowDiagram: diagram
+      ? {
+          ...diagram,
+          createdAt: diagram.createdAt.toISOString(),
+          updatedAt: diagram.updatedAt.toISOString(),
+        }
+      : null,
   });
 });
 
@@ -184,34 +249,50 @@ app.post('/', zValidator('json', CreateThreatModelRequestSchema), async (c) => {
   const { userId } = c.get('auth');
   const body = c.req.valid('json');
 
+  // Creating in an organization takes the editor role there
+  let role: OrganizationRole = 'owner';
+  if (body.organizationId) {
+    const membership = await organizationService.getRole(body.organizationId, userId);
+    if (!membership) {
+      return c.json({ error: 'Organization not found' }, 404);
+    }
+    if (!isAtLeastRole(membership, 'editor')) {
+      return c.json({ error: 'Forbidden: Creating threat models requires the editor role or higher' }, 403);
+    }
+    role = membership;
+  }
+
   const [model] = await db
     .insert(threatModels)
     .values({
       title: body.title,
       description: body.description,
       systemDescription: body.systemDescription,
+      methodology: body.methodology,
       status: 'draft',
+      organizationId: body.organizationId ?? PERSONAL_ORGANIZATION_ID,
+      createdBy: userId,
       userId, // Associate with current user
     })
     .returning();
 
   return c.json({
     ...model,
+    role,
     createdAt: model.createdAt.toISOString(),
     updatedAt: model.updatedAt.toISOString(),
   }, 201);
 });
 
-// Update threat model (with ownership check)
-app.patch('/:id', zValidator('json', UpdateThreatModelRequestSchema), async (c) => {
-  const { userId } = c.get('auth');
+// Update threat model
+app.patch('/:id', requireModelRole('editor'), zValidator('json', UpdateThreatModelRequestSchema), async (c) => {
   const id = c.req.param('id');
   const body = c.req.valid('json');
 
   const [existing] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!existing) {
     return c.json({ error: 'Threat model not found' }, 404);
@@ -223,7 +304,7 @@ app.patch('/:id', zValidator('json', UpdateThreatModelRequestSchema), async (c)
       ...body,
       updatedAt: new Date(),
     })
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)))
+    .where(eq(threatModels.id, id))
     .returning();
 
   return c.json({
@@ -233,79 +314,135 @@ app.patch('/:id', zValidator('json', UpdateThreatModelRequestSchema), async (c)
   });
 });
 
-// Delete threat model (with ownership check)
-app.delete('/:id', async (c) => {
-  const { userId } = c.get('auth');
+// Delete threat model
+app.delete('/:id', requireModelRole('owner'), async (c) => {
   const id = c.req.param('id');
 
   const [existing] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!existing) {
     return c.json({ error: 'Threat model not found' }, 404);
   }
 
-  await db.delete(threatModels).where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+  await db.delete(threatModels).where(eq(threatModels.id, id));
 
   return c.json({ success: true });
 });
 
 // Generate threat model (with rate limiting)
-app.post('/:id/generate', async (c) => {
+app.post('/:id/generate', requireModelRole('editor'), async (c) => {
   const { userId } = c.get('auth');
   const id = c.req.param('id');
 
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
   }
 
-  if (model.status === 'generating') {
+  // Checked before charging the quota, so a double-click doesn't count twice
+  if (model.status === 'generating' || (await generationService.getActiveJob(id))) {
     return c.json({ error: 'Generation already in progress' }, 400);
   }
 
-  // Check generation quota (only for new generations, not re-generations)
-  if (model.status !== 'completed' && model.status !== 'failed') {
-    const usage = await getUserUsage(userId);
+  // The body is optional - a bare POST runs a full generation
+  const parsed = GenerateThreatModelRequestSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid generation request', details: parsed.error.flatten() }, 400);
+  }
+  const { mode, ...requested } = parsed.data;
+  const settings: GenerationSettings = {
+    ...DEFAULT_GENERATION_SETTINGS,
+    ...model.generationSettings,
+    ...requested,
+  };
+
+  if (mode === 'refresh' && (model.threats ?? []).length === 0) {
+    return c.json({ error: 'Nothing to refresh - this model has no threats yet' }, 400);
+  }
 
-    if (usage.generationsUsed >= usage.generationsLimit) {
-      return c.json({
-        error: `Generation limit reached. You have used ${usage.generationsUsed}/${usage.generationsLimit} generations.`,
-        generationsUsed: usage.generationsUsed,
-        generationsLimit: usage.generationsLimit,
-      }, 429);
-    }
+  // A refresh builds on the existing threats, so they must use the same taxonomy
+  const { categories } = METHODOLOGIES[model.methodology];
+  if (mode === 'refresh' && (model.threats ?? []).some((t) => !categories.includes(t.category as RiskCategory))) {
+    return c.json({ error: 'The methodology has changed since the last generation - run a full generation instead' }, 400);
+  }
 
-    // Increment usage counter
-    await db
-      .update(userUsage)
-      .set({
-        generationsUsed: usage.generationsUsed + 1,
-        updatedAt: new Date(),
-      })
-      .where(eq(userUsage.userId, userId));
+  // Every generation, including regenerations, counts against the user and organization quotas
+  const charge = {
+    userId,
+    organizationId: model.organizationId === PERSONAL_ORGANIZATION_ID ? null : model.organizationId,
+  };
+  const quotaCheck = await quotaService.consumeGeneration(charge.userId, charge.organizationId);
+
+  if (!quotaCheck.allowed) {
+    const { exceeded } = quotaCheck;
+    const owner = exceeded.scope === 'user' ? 'You have' : 'Your organization has';
+    const resetsOn = new Date(exceeded.resetsAt).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+
+    c.header('Retry-After', String(Math.ceil((Date.parse(exceeded.resetsAt) - Date.now()) / 1000)));
+    return c.json({
+      error: `Generation limit reached. ${owner} used ${exceeded.generationsUsed}/${exceeded.generationsLimit} generations this month. The limit resets on ${resetsOn}.`,
+      scope: exceeded.scope,
+      generationsUsed: exceeded.generationsUsed,
+      generationsLimit: exceeded.generationsLimit,
+      resetsAt: exceeded.resetsAt,
+    }, 429);
   }
 
-  // Start generation in background
-  generateThreatModel(id).catch((err) => {
-    console.error('Generation failed:', err);
-  });
+  // Remember the settings so later runs (and refreshes) keep them
+  await db
+    .update(threatModels)
+    .set({ generationSettings: settings, updatedAt: new Date() })
+    .where(eq(threatModels.id, id));
+
+  // Queue generation - the worker picks it up and survives restarts, and hands
+  // the quota back if it fails or is cancelled
+  const job = await generationService.enqueue(id, userId, { mode, settings }, charge);
 
   return c.json({
     status: 'generating',
     message: 'Threat model generation started',
+    jobId: job.id,
   });
 });
 
-// Get generation status (with ownership check)
-app.get('/:id/generation-status', async (c) => {
-  const { userId } = c.get('auth');
+// Cancel an in-progress generation
+app.delete('/:id/generate', requireModelRole('editor'), async (c) => {
+  const id = c.req.param('id');
+
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const job = await generationService.cancel(id);
+  if (!job) {
+    return c.json({ error: 'No generation in progress' }, 400);
+  }
+
+  return c.json({
+    success: true,
+    jobId: job.id,
+    jobStatus: job.status,
+  });
+});
+
+// Get generation status
+app.get('/:id/generation-status', requireModelRole('viewer'), async (c) => {
   const id = c.req.param('id');
 
   const [model] = await db
@@ -314,82 +451,249 @@ app.get('/:id/generation-status', async (c) => {
       generationError: threatModels.generationError,
     })
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
   }
 
+  const job = await generationService.getLatestJob(id);
+
   return c.json({
     status: model.status,
-    error: model.generationError,
-    progress: model.status === 'generating' ? 50 : model.status === 'completed' ? 100 : 0,
+    error: model.generationError ?? job?.error ?? undefined,
+    progress: job?.progress ?? (model.status === 'completed' ? 100 : 0),
+    message: job?.currentStep ?? undefined,
+    jobId: job?.id,
+    jobStatus: job?.status,
+    attempts: job?.attempts,
+    maxAttempts: job?.maxAttempts,
+    nextAttemptAt: job?.status === 'queued' ? job.runAfter.toISOString() : undefined,
   });
 });
 
-// Create share link (with ownership check)
-app.post('/:id/share', async (c) => {
-  const { userId } = c.get('auth');
+// Stream generation progress as Server-Sent Events
+app.get('/:id/generation-events', requireModelRole('viewer'), async (c) => {
   const id = c.req.param('id');
 
   const [model] = await db
-    .select()
+    .select({ status: threatModels.status })
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
   }
 
-  let shareToken = model.shareToken;
-  if (!shareToken) {
-    shareToken = nanoid(21);
-    await db
-      .update(threatModels)
-      .set({ shareToken, isPublic: true })
-      .where(eq(threatModels.id, id));
-  }
+  return streamSSE(c, async (stream) => {
+    let finished = false;
+    let forwarded = false;
+    let wake = () => {};
+    const finish = () => {
+      finished = true;
+      wake();
+    };
 
-  const baseUrl = process.env.PUBLIC_URL || 'http://localhost:5173';
+    // Subscribe before reading the snapshot so no event falls in between
+    const unsubscribe = subscribeToGeneration(id, (event) => {
+      if (finished) return;
+      forwarded = true;
+      stream
+        .writeSSE({ event: 'generation', data: JSON.stringify(event) })
+        .catch(() => {})
+        .then(() => {
+          if (TERMINAL_GENERATION_EVENTS.includes(event.type)) finish();
+        });
+    });
+    stream.onAbort(() => {
+      unsubscribe();
+      finish();
+    });
 
-  return c.json({
-    shareUrl: `${baseUrl}/shared/${shareToken}`,
-    shareToken,
+    // Live events are newer than the snapshot, so it only goes out if none arrived while reading it
+    const snapshot = await generationService.getSnapshot(id);
+    if (!forwarded) {
+      if (snapshot) {
+        await stream.writeSSE({ event: 'generation', data: JSON.stringify(snapshot) });
+      }
+
+      // Nothing to follow - the client refreshes the model when the stream ends. The
+      // job may have finished since the model was read, so its own state decides.
+      if (snapshot ? TERMINAL_GENERATION_EVENTS.includes(snapshot.type) : model.status !== 'generating') {
+        finish();
+      }
+    }
+
+    while (!finished) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, SSE_HEARTBEAT_MS);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      if (!finished) await stream.write(': keep-alive\n\n');
+    }
+
+    unsubscribe();
   });
 });
 
-// Delete share link (with ownership check)
-app.delete('/:id/share', async (c) => {
-  const { userId } = c.get('auth');
+// List revisions of the generated analysis
+app.get('/:id/revisions', requireModelRole('viewer'), async (c) => {
   const id = c.req.param('id');
 
   const [model] = await db
-    .select()
+    .select({ id: threatModels.id })
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
   }
 
-  await db
-    .update(threatModels)
-    .set({ shareToken: null, isPublic: false })
+  return c.json({ revisions: await revisionService.list(id) });
+});
+
+// Compare two revisions threat by threat - defaults to the current revision
+// against the one before it
+app.get('/:id/revisions/diff', requireModelRole('viewer'), async (c) => {
+  const id = c.req.param('id');
+
+  const [model] = await db
+    .select({ id: threatModels.id })
+    .from(threatModels)
     .where(eq(threatModels.id, id));
 
-  return c.json({ success: true });
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const revisions = await revisionService.list(id);
+  const toId = c.req.query('to') ?? (revisions.find((r) => r.isCurrent) ?? revisions[0])?.id;
+  const toIndex = revisions.findIndex((r) => r.id === toId);
+  const fromId = c.req.query('from') ?? revisions[toIndex + 1]?.id;
+
+  if (!toId || !fromId) {
+    return c.json({ error: 'At least two revisions are needed to compare' }, 400);
+  }
+
+  const [from, to] = await Promise.all([
+    revisionService.get(id, fromId),
+    revisionService.get(id, toId),
+  ]);
+
+  if (!from || !to) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  return c.json(diffRevisions(from, to));
+});
+
+// Get a single revision
+app.get('/:id/revisions/:revisionId', requireModelRole('viewer'), async (c) => {
+  const id = c.req.param('id');
+
+  const [model] = await db
+    .select({ id: threatModels.id })
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const revision = await revisionService.get(id, c.req.param('revisionId'));
+  if (!revision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  return c.json(revision);
 });
 
-// Export threat model (with ownership check)
-app.get('/:id/export', async (c) => {
+// Restore an earlier revision as the current analysis
+app.post('/:id/revisions/:revisionId/restore', requireModelRole('editor'), async (c) => {
   const { userId } = c.get('auth');
   const id = c.req.param('id');
+
+  const [model] = await db
+    .select({ status: threatModels.status })
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  if (model.status === 'generating') {
+    return c.json({ error: 'Cannot restore while a generation is in progress' }, 400);
+  }
+
+  const revision = await revisionService.restore(id, c.req.param('revisionId'), userId);
+  if (!revision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  return c.json(revision);
+});
+
+// Create a share link. Without a body the link is view-only and never expires
+app.post('/:id/share', requireModelRole('editor'), async (c) => {
+  const { userId } = c.get('auth');
+  const parsed = CreateShareLinkRequestSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid share settings', details: parsed.error.flatten() }, 400);
+  }
+
+  if (parsed.data.expiresAt && new Date(parsed.data.expiresAt) <= new Date()) {
+    return c.json({ error: 'The expiry must be in the future' }, 400);
+  }
+
+  const link = await shareLinkService.create(c.req.param('id'), parsed.data, userId);
+  return c.json(link, 201);
+});
+
+// Stop sharing the model by revoking all of its links
+app.delete('/:id/share', requireModelRole('editor'), async (c) => {
+  await shareLinkService.revokeAll(c.req.param('id'));
+  return c.json({ success: true });
+});
+
+// List the model's share links, including revoked and expired ones
+app.get('/:id/share/links', requireModelRole('editor'), async (c) => {
+  return c.json({ links: await shareLinkService.list(c.req.param('id')) });
+});
+
+// Revoke one share link
+app.delete('/:id/share/links/:linkId', requireModelRole('editor'), async (c) => {
+  const link = await shareLinkService.get(c.req.param('id'), c.req.param('linkId'));
+  if (!link) {
+    return c.json({ error: 'Share link not found' }, 404);
+  }
+
+  await shareLinkService.revoke(link.id);
+  return c.json({ success: true });
+});
+
+// Recent requests made with a share link, newest first
+app.get('/:id/share/links/:linkId/accesses', requireModelRole('editor'), async (c) => {
+  const link = await shareLinkService.get(c.req.param('id'), c.req.param('linkId'));
+  if (!link) {
+    return c.json({ error: 'Share link not found' }, 404);
+  }
+
+  return c.json({ accesses: await shareLinkService.listAccesses(link.id) });
+});
+
+// Export threat model
+app.get('/:id/export', requireModelRole('viewer'), async (c) => {
+  const id = c.req.param('id');
   const format = c.req.query('format') || 'pdf';
 
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
@@ -425,16 +729,15 @@ app.get('/:id/export', async (c) => {
   });
 });
 
-// Upload context file (with ownership check)
+// Upload context file
 // Files are stored via storage provider (local/S3) and sent to LLM via URL
-app.post('/:id/files', async (c) => {
-  const { userId } = c.get('auth');
+app.post('/:id/files', requireModelRole('editor'), uploadLimit, async (c) => {
   const id = c.req.param('id');
 
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
@@ -452,41 +755,75 @@ app.post('/:id/files', async (c) => {
   const supportedMimeTypes = [
     'image/jpeg', 'image/png', 'image/gif', 'image/webp',  // Images
     'application/pdf',                                       // PDFs
-    'text/plain', 'text/markdown', 'text/html',             // Text
-    'application/json',                                      // JSON
+    DOCX_MIME_TYPE, XLSX_MIME_TYPE,                          // Word documents, spreadsheets
+    'text/plain', 'text/markdown', 'text/html', 'text/csv', // Text
+    'application/json', 'application/yaml',                  // JSON, YAML
+    'text/x-hcl',                                            // Terraform
+    'application/zip',                                       // Source archives
+    MERMAID_MIME_TYPE, PLANTUML_MIME_TYPE, DRAWIO_MIME_TYPE, // Diagram sources
   ];
 
-  const isTextFile = file.name.endsWith('.md') || file.name.endsWith('.txt');
-  if (!supportedMimeTypes.includes(file.type) && !isTextFile) {
+  const mimeType = resolveMimeType(file.type, file.name);
+  if (!supportedMimeTypes.includes(mimeType)) {
     return c.json({
-      error: `Unsupported file type: ${file.type}. Supported: images (PNG, JPG, GIF, WebP), PDFs, and text files.`
+      error: `Unsupported file type: ${file.type || file.name}. Supported: images (PNG, JPG, GIF, WebP), PDFs, Word documents, spreadsheets (XLSX, CSV), text files (TXT, MD, HTML, JSON, YAML), Terraform, Mermaid, PlantUML and draw.io diagrams and zip archives of source code.`
     }, 400);
   }
 
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  // OpenAPI / Swagger specs are recognised whichever type they were uploaded as
+  const apiSpec = readApiSpec(buffer, mimeType, file.name);
+  if (fileType === 'api_spec' && !apiSpec) {
+    return c.json({ error: `${file.name} is not an OpenAPI 3 or Swagger 2 specification` }, 400);
+  }
+
+  let diagramGraph;
+  try {
+    diagramGraph = readDiagram(buffer, mimeType, file.name);
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 400);
+  }
+
   // Upload file to storage provider (local filesystem or S3)
   const storage = getDefaultStorageProvider();
-  const buffer = Buffer.from(await file.arrayBuffer());
 
   const uploadResult = await storage.upload(buffer, file.name, {
-    contentType: file.type || (isTextFile ? 'text/plain' : 'application/octet-stream'),
+    contentType: mimeType,
     metadata: {
       threatModelId: id,
       fileType,
     },
   });
 
-  // No local text extraction - LLM will parse all file types via URL
+  // Extract text now, for providers that can't read the native format
+  const extractedText = await extractText(buffer, mimeType, file.name);
+  const iacInventory = analyzeInfrastructure(buffer, mimeType, file.name);
+
+  // Diagram sources are rendered for vision-capable providers, the view and the PDF report
+  const rendered = diagramGraph && renderDiagram(diagramGraph, file.name);
+  const renderedUpload = rendered
+    ? await storage.upload(rendered, `${file.name}.png`, {
+        contentType: 'image/png',
+        metadata: { threatModelId: id, fileType: 'diagram' },
+      })
+    : null;
+
   const [contextFile] = await db
     .insert(contextFiles)
     .values({
       threatModelId: id,
       filename: uploadResult.key,
       originalName: file.name,
-      mimeType: file.type || (isTextFile ? 'text/plain' : 'application/octet-stream'),
+      mimeType,
       size: file.size,
-      fileType: fileType as 'prd' | 'diagram' | 'screenshot' | 'other',
+      fileType: apiSpec ? 'api_spec' : diagramGraph ? 'diagram' : (fileType as 'prd' | 'diagram' | 'screenshot' | 'other'),
       storagePath: uploadResult.key, // Storage key, not filesystem path
-      extractedText: null, // LLM handles parsing
+      extractedText,
+      iacInventory,
+      apiSpec,
+      diagramGraph,
+      renderedDiagramPath: renderedUpload?.key ?? null,
     })
     .returning();
 
@@ -497,17 +834,150 @@ app.post('/:id/files', async (c) => {
   }, 201);
 });
 
-// Delete context file (with ownership check)
-app.delete('/:id/files/:fileId', async (c) => {
-  const { userId } = c.get('auth');
+// Get the text extracted from a context file
+app.get('/:id/files/:fileId/text', requireModelRole('viewer'), async (c) => {
   const id = c.req.param('id');
   const fileId = c.req.param('fileId');
 
-  // Verify ownership of the threat model
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const [file] = await db
+    .select()
+    .from(contextFiles)
+    .where(eq(contextFiles.id, fileId));
+
+  if (!file || file.threatModelId !== id) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  return c.json({
+    id: file.id,
+    originalName: file.originalName,
+    extractedText: file.extractedText,
+  });
+});
+
+// Re-run text extraction, IaC analysis, API spec and diagram parsing, e.g. for files uploaded before their format was supported
+app.post('/:id/files/:fileId/extract', requireModelRole('editor'), async (c) => {
+  const id = c.req.param('id');
+  const fileId = c.req.param('fileId');
+
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const [file] = await db
+    .select()
+    .from(contextFiles)
+    .where(eq(contextFiles.id, fileId));
+
+  if (!file || file.threatModelId !== id) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  const storage = getDefaultStorageProvider();
+  const data = await storage.get(file.storagePath);
+  const extractedText = await extractText(data, file.mimeType, file.originalName);
+  const iacInventory = analyzeInfrastructure(data, file.mimeType, file.originalName);
+  const apiSpec = readApiSpec(data, file.mimeType, file.originalName);
+
+  let diagramGraph = null;
+  try {
+    diagramGraph = readDiagram(data, file.mimeType, file.originalName);
+  } catch (error) {
+    console.warn((error as Error).message);
+  }
+
+  if (file.renderedDiagramPath) {
+    await storage.delete(file.renderedDiagramPath).catch(() => {});
+  }
+  const rendered = diagramGraph && renderDiagram(diagramGraph, file.originalName);
+  const renderedUpload = rendered
+    ? await storage.upload(rendered, `${file.originalName}.png`, {
+        contentType: 'image/png',
+        metadata: { threatModelId: id, fileType: 'diagram' },
+      })
+    : null;
+
+  const [updated] = await db
+    .update(contextFiles)
+    .set({
+      extractedText,
+      iacInventory,
+      apiSpec,
+      diagramGraph,
+      renderedDiagramPath: renderedUpload?.key ?? null,
+      ...(apiSpec && { fileType: 'api_spec' as const }),
+      ...(diagramGraph && { fileType: 'diagram' as const }),
+    })
+    .where(eq(contextFiles.id, fileId))
+    .returning();
+
+  return c.json({
+    ...updated,
+    createdAt: updated.createdAt.toISOString(),
+  });
+});
+
+// Get the PNG rendered from a diagram source
+app.get('/:id/files/:fileId/rendered', requireModelRole('viewer'), async (c) => {
+  const id = c.req.param('id');
+  const fileId = c.req.param('fileId');
+
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const [file] = await db
+    .select()
+    .from(contextFiles)
+    .where(eq(contextFiles.id, fileId));
+
+  if (!file || file.threatModelId !== id) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  if (!file.renderedDiagramPath) {
+    return c.json({ error: 'File has no rendered diagram' }, 404);
+  }
+
+  const storage = getDefaultStorageProvider();
+  const png = await storage.get(file.renderedDiagramPath);
+
+  return new Response(png as any, {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
+
+// Delete context file
+app.delete('/:id/files/:fileId', requireModelRole('editor'), async (c) => {
+  const id = c.req.param('id');
+  const fileId = c.req.param('fileId');
+
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
@@ -526,6 +996,7 @@ app.delete('/:id/files/:fileId', async (c) => {
   try {
     const storage = getDefaultStorageProvider();
     await storage.delete(file.storagePath);
+    if (file.renderedDiagramPath) await storage.delete(file.renderedDiagramPath);
   } catch {
     // File might not exist in storage
   }
@@ -535,122 +1006,220 @@ app.delete('/:id/files/:fileId', async (c) => {
   return c.json({ success: true });
 });
 
-// Update threat within a model (with ownership check)
+// Update threat within a model
 app.patch(
   '/:id/threats/:threatId',
-  zValidator(
-    'json',
-    z.object({
-      severity: z.enum(['critical', 'high', 'medium', 'low', 'info']).optional(),
-      likelihood: z.number().min(1).max(5).optional(),
-      impact: z.number().min(1).max(5).optional(),
-    })
-  ),
+  requireModelRole('reviewer'),
+  zValidator('json', UpdateThreatRequestSchema),
   async (c) => {
-    const { userId } = c.get('auth');
-    const id = c.req.param('id');
-    const threatId = c.req.param('threatId');
-    const body = c.req.valid('json');
+    const result = await updateThreat(c.req.param('id'), c.req.param('threatId'), c.req.valid('json'));
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status);
+    }
 
-    const [model] = await db
-      .select()
-      .from(threatModels)
-      .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    return c.json(result.value);
+  }
+);
+
+// Update mitigation status
+app.patch(
+  '/:id/threats/:threatId/mitigations/:mitigationId',
+  requireModelRole('reviewer'),
+  zValidator('json', UpdateMitigationRequestSchema),
+  async (c) => {
+    const result = await updateMitigation(
+      c.req.param('id'),
+      c.req.param('threatId'),
+      c.req.param('mitigationId'),
+      c.req.valid('json')
+    );
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    return c.json(result.value);
+  }
+);
+
+// =============================================================================
+// Comment Routes
+// =============================================================================
 
+// List the comment threads on a threat and its mitigations
+app.get('/:id/threats/:threatId/comments', requireModelRole('viewer'), async (c) => {
+  const { userId } = c.get('auth');
+  const viewer = { userId, name: '', email: null, shareLinkId: null };
+
+  return c.json({ comments: await commentService.list(c.req.param('id'), c.req.param('threatId'), viewer) });
+});
+
+// Start a thread on the threat or one of its mitigations, or reply to one
+app.post(
+  '/:id/threats/:threatId/comments',
+  requireModelRole('reviewer'),
+  zValidator('json', CreateCommentRequestSchema),
+  async (c) => {
+    const { userId } = c.get('auth');
+
+    const [model] = await db.select().from(threatModels).where(eq(threatModels.id, c.req.param('id')));
     if (!model) {
       return c.json({ error: 'Threat model not found' }, 404);
     }
 
-    const threats = (model.threats || []) as Array<{
-      id: string;
-      likelihood: number;
-      impact: number;
-      riskScore: number;
-      severity: string;
-      [key: string]: unknown;
-    }>;
-
-    const threatIndex = threats.findIndex((t) => t.id === threatId);
-    if (threatIndex === -1) {
-      return c.json({ error: 'Threat not found' }, 404);
+    const author = await commentService.getMemberAuthor(userId);
+    const result = await commentService.create(model, c.req.param('threatId'), c.req.valid('json'), author);
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status);
     }
 
-    const threat = threats[threatIndex];
-    if (body.likelihood !== undefined) threat.likelihood = body.likelihood;
-    if (body.impact !== undefined) threat.impact = body.impact;
-    if (body.severity !== undefined) threat.severity = body.severity;
-    threat.riskScore = threat.likelihood * threat.impact;
-
-    await db
-      .update(threatModels)
-      .set({ threats, updatedAt: new Date() })
-      .where(eq(threatModels.id, id));
-
-    return c.json(threat);
+    return c.json(result.value, 201);
   }
 );
 
-// Update mitigation status (with ownership check)
+// Edit your comment, or resolve or reopen a thread
 app.patch(
-  '/:id/threats/:threatId/mitigations/:mitigationId',
-  zValidator(
-    'json',
-    z.object({
-      status: z.enum(['proposed', 'accepted', 'implemented', 'rejected']).optional(),
-      description: z.string().optional(),
-    })
-  ),
+  '/:id/threats/:threatId/comments/:commentId',
+  requireModelRole('reviewer'),
+  zValidator('json', UpdateCommentRequestSchema),
   async (c) => {
     const { userId } = c.get('auth');
-    const id = c.req.param('id');
-    const threatId = c.req.param('threatId');
-    const mitigationId = c.req.param('mitigationId');
-    const body = c.req.valid('json');
+    const changes = c.req.valid('json');
+
+    // Only resolving records a name, so skip the lookup for plain edits
+    const author =
+      changes.resolved !== undefined
+        ? await commentService.getMemberAuthor(userId)
+        : { userId, name: '', email: null, shareLinkId: null };
+
+    const result = await commentService.update(
+      c.req.param('id'),
+      c.req.param('threatId'),
+      c.req.param('commentId'),
+      changes,
+      author
+    );
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status);
+    }
 
-    const [model] = await db
-      .select()
-      .from(threatModels)
-      .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    return c.json(result.value);
+  }
+);
 
-    if (!model) {
-      return c.json({ error: 'Threat model not found' }, 404);
-    }
+// Earlier versions of a comment
+app.get('/:id/threats/:threatId/comments/:commentId/history', requireModelRole('viewer'), async (c) => {
+  const result = await commentService.history(c.req.param('id'), c.req.param('threatId'), c.req.param('commentId'));
+  if (!result.ok) {
+    return c.json({ error: result.error }, result.status);
+  }
 
-    const threats = (model.threats || []) as Array<{
-      id: string;
-      mitigations: Array<{ id: string; status: string; description: string }>;
-      [key: string]: unknown;
-    }>;
+  return c.json({ edits: result.value });
+});
 
-    const threat = threats.find((t) => t.id === threatId);
-    if (!threat) {
-      return c.json({ error: 'Threat not found' }, 404);
-    }
+// =============================================================================
+// Data Flow Diagram Routes
+// =============================================================================
 
-    const mitigation = threat.mitigations.find((m) => m.id === mitigationId);
-    if (!mitigation) {
-      return c.json({ error: 'Mitigation not found' }, 404);
-    }
+// Get the threat model's data flow diagram
+app.get('/:id/dfd', requireModelRole('viewer'), async (c) => {
+  const id = c.req.param('id');
 
-    if (body.status !== undefined) mitigation.status = body.status;
-    if (body.description !== undefined) mitigation.description = body.description;
+  const [model] = await db
+    .select({ id: threatModels.id })
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
 
-    await db
-      .update(threatModels)
-      .set({ threats, updatedAt: new Date() })
-      .where(eq(threatModels.id, id));
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
 
-    return c.json(mitigation);
+  const [diagram] = await db.select().from(dataFlowDiagrams).where(eq(dataFlowDiagrams.threatModelId, id));
+
+  if (!diagram) {
+    return c.json({ error: 'Data flow diagram not found' }, 404);
   }
-);
+
+  return c.json({
+    ...diagram,
+    createdAt: diagram.createdAt.toISOString(),
+    updatedAt: diagram.updatedAt.toISOString(),
+  });
+});
+
+// Create or replace the data flow diagram. Threat
+// links to elements that were removed are dropped
+app.put('/:id/dfd', requireModelRole('editor'), zValidator('json', SaveDataFlowDiagramRequestSchema), async (c) => {
+  const id = c.req.param('id');
+  const body = c.req.valid('json');
+
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const [diagram] = await db
+    .insert(dataFlowDiagrams)
+    .values({ threatModelId: id, ...body })
+    .onConflictDoUpdate({
+      target: dataFlowDiagrams.threatModelId,
+      set: { ...body, updatedAt: new Date() },
+    })
+    .returning();
+
+  const threats = pruneThreatLinks((model.threats ?? []) as Threat[], diagram);
+  if (threats) {
+    await db.update(threatModels).set({ threats, updatedAt: new Date() }).where(eq(threatModels.id, id));
+  }
+
+  return c.json({
+    ...diagram,
+    createdAt: diagram.createdAt.toISOString(),
+    updatedAt: diagram.updatedAt.toISOString(),
+  });
+});
+
+// Delete the data flow diagram and every threat link to it
+app.delete('/:id/dfd', requireModelRole('editor'), async (c) => {
+  const id = c.req.param('id');
+
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, id));
+
+  if (!model) {
+    return c.json({ error: 'Threat model not found' }, 404);
+  }
+
+  const [deleted] = await db
+    .delete(dataFlowDiagrams)
+    .where(eq(dataFlowDiagrams.threatModelId, id))
+    .returning({ id: dataFlowDiagrams.id });
+
+  if (!deleted) {
+    return c.json({ error: 'Data flow diagram not found' }, 404);
+  }
+
+  const threats = pruneThreatLinks((model.threats ?? []) as Threat[], null);
+  if (threats) {
+    await db.update(threatModels).set({ threats, updatedAt: new Date() }).where(eq(threatModels.id, id));
+  }
+
+  return c.json({ success: true });
+});
 
 // =============================================================================
 // JIRA Ticket Routes
 // =============================================================================
 
-// Add JIRA ticket to threat model (with ownership check)
+// Add JIRA ticket to threat model
 app.post(
   '/:id/jira-tickets',
+  requireModelRole('editor'),
   zValidator(
     'json',
     z.object({
@@ -658,15 +1227,13 @@ app.post(
     })
   ),
   async (c) => {
-    const { userId } = c.get('auth');
     const id = c.req.param('id');
     const { issueKeyOrUrl } = c.req.valid('json');
 
-    // Check if model exists and user owns it
     const [model] = await db
       .select()
       .from(threatModels)
-      .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+      .where(eq(threatModels.id, id));
 
     if (!model) {
       return c.json({ error: 'Threat model not found' }, 404);
@@ -757,16 +1324,14 @@ app.post(
   }
 );
 
-// List JIRA tickets for a threat model (with ownership check)
-app.get('/:id/jira-tickets', async (c) => {
-  const { userId } = c.get('auth');
+// List JIRA tickets for a threat model
+app.get('/:id/jira-tickets', requireModelRole('viewer'), async (c) => {
   const id = c.req.param('id');
 
-  // Verify ownership
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
@@ -785,17 +1350,15 @@ app.get('/:id/jira-tickets', async (c) => {
   );
 });
 
-// Delete JIRA ticket from threat model (with ownership check)
-app.delete('/:id/jira-tickets/:ticketId', async (c) => {
-  const { userId } = c.get('auth');
+// Delete JIRA ticket from threat model
+app.delete('/:id/jira-tickets/:ticketId', requireModelRole('editor'), async (c) => {
   const id = c.req.param('id');
   const ticketId = c.req.param('ticketId');
 
-  // Verify ownership
   const [model] = await db
     .select()
     .from(threatModels)
-    .where(and(eq(threatModels.id, id), eq(threatModels.userId, userId)));
+    .where(eq(threatModels.id, id));
 
   if (!model) {
     return c.json({ error: 'Threat model not found' }, 404);
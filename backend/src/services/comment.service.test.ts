@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import type { Threat } from '@threat-modeling/shared';
+import { createModel } from '../test/helpers';
+import { commentService, type CommentAuthor } from './comment.service';
+
+const threats: Threat[] = [
+  {
+    id: 't1',
+    title: 'Session token theft',
+    description: 'Tokens are replayed',
+    category: 'spoofing',
+    severity: 'high',
+    likelihood: 3,
+    impact: 4,
+    riskScore: 12,
+    affectedComponents: [],
+    mitigations: [{ id: 'm1', description: 'Rotate keys', priority: 'immediate', effort: 'low', status: 'proposed' }],
+  },
+];
+
+const alice: CommentAuthor = { userId: 'alice', name: 'Alice', email: 'alice@example.com', shareLinkId: null };
+const bob: CommentAuthor = { userId: 'bob', name: 'Bob', email: 'bob@example.com', shareLinkId: null };
+
+async function startThread(body = 'Is this mitigated yet?', mitigationId?: string) {
+  const model = await createModel({ threats });
+  const result = await commentService.create(model, 't1', { body, mitigationId }, alice);
+  if (!result.ok) throw new Error(result.error);
+  return { model, thread: result.value };
+}
+
+describe('CommentService', () => {
+  test('hangs replies off the thread and keeps them on its mitigation', async () => {
+    const { model, thread } = await startThread('Rotation is manual today', 'm1');
+
+    const reply = await commentService.create(model, 't1', { body: 'Agreed', parentId: thread.id }, bob);
+    expect(reply).toMatchObject({ ok: true, value: { parentId: thread.id, mitigationId: 'm1' } });
+    if (!reply.ok) return;
+
+    const nested = await commentService.create(model, 't1', { body: 'Too deep', parentId: reply.value.id }, alice);
+    expect(nested).toMatchObject({ ok: false, status: 400 });
+
+    const comments = await commentService.list(model.id, 't1', bob);
+    expect(comments.map((c) => [c.body, c.canEdit])).toEqual([
+      ['Rotation is manual today', false],
+      ['Agreed', true],
+    ]);
+  });
+
+  test('refuses comments on threats or mitigations the model does not have', async () => {
+    const model = await createModel({ threats });
+
+    expect(await commentService.create(model, 'gone', { body: 'Hello' }, alice)).toMatchObject({ status: 404 });
+    expect(await commentService.create(model, 't1', { body: 'Hello', mitigationId: 'gone' }, alice)).toMatchObject({
+      status: 404,
+      error: 'Mitigation not found',
+    });
+  });
+
+  test('keeps earlier versions when the author edits a comment', async () => {
+    const { model, thread } = await startThread('cc @bob@example.com');
+
+    expect(await commentService.update(model.id, 't1', thread.id, { body: 'Changed' }, bob)).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+
+    const edited = await commentService.update(model.id, 't1', thread.id, { body: 'cc @carol@example.com' }, alice);
+    expect(edited).toMatchObject({ ok: true, value: { mentions: ['carol@example.com'] } });
+    if (!edited.ok) return;
+    expect(edited.value.editedAt).not.toBeNull();
+
+    const history = await commentService.history(model.id, 't1', thread.id);
+    expect(history).toMatchObject({ ok: true, value: [{ body: 'cc @bob@example.com' }] });
+  });
+
+  test('resolves and reopens whole threads', async () => {
+    const { model, thread } = await startThread();
+    const reply = await commentService.create(model, 't1', { body: 'Done', parentId: thread.id }, bob);
+    if (!reply.ok) throw new Error(reply.error);
+
+    expect(await commentService.update(model.id, 't1', reply.value.id, { resolved: true }, bob)).toMatchObject({
+      status: 400,
+    });
+
+    const resolved = await commentService.update(model.id, 't1', thread.id, { resolved: true }, bob);
+    expect(resolved).toMatchObject({ ok: true, value: { resolvedBy: 'Bob' } });
+
+    const reopened = await commentService.update(model.id, 't1', thread.id, { resolved: false }, alice);
+    expect(reopened).toMatchObject({ ok: true, value: { resolvedAt: null, resolvedBy: null } });
+  });
+
+  test('lets visitors edit only when they signed in with an email', async () => {
+    const model = await createModel({ threats });
+    const guest: CommentAuthor = { userId: null, name: 'Guest', email: null, shareLinkId: 'link-1' };
+    const signedIn: CommentAuthor = {
+      userId: null,
+      name: 'guest@example.com',
+      email: 'guest@example.com',
+      shareLinkId: 'link-1',
+    };
+
+    const anonymous = await commentService.create(model, 't1', { body: 'Anonymous' }, guest);
+    const known = await commentService.create(model, 't1', { body: 'Known' }, signedIn);
+
+    expect(anonymous).toMatchObject({ ok: true, value: { viaShareLink: true, canEdit: false } });
+    expect(known).toMatchObject({ ok: true, value: { viaShareLink: true, canEdit: true } });
+  });
+});
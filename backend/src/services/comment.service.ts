@@ -0,0 +1,214 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { createClerkClient } from '@clerk/backend';
+import { db, comments, commentEdits } from '../db';
+import type { CommentSelect, ThreatModelSelect } from '../db/schema';
+import {
+  parseMentions,
+  type Comment,
+  type CommentEdit,
+  type CreateCommentRequest,
+  type UpdateCommentRequest,
+} from '@threat-modeling/shared';
+
+/**
+ * Comments
+ *
+ * Discussion threads on a threat, or on one of its mitigations. A comment
+ * without a parent starts a thread and replies hang off it one level deep, so
+ * a thread can be resolved and reopened as a whole.
+ *
+ * Comments come from members of the model or from share link visitors with
+ * the comment permission. Members are identified by user ID; visitors by the
+ * email they signed in with when the link required one, and otherwise only by
+ * the name they gave, so their comments can't be edited afterwards.
+ *
+ * Threats live in the model's JSON, so comments refer to them by ID and are
+ * left in place if a regeneration drops the threat.
+ */
+
+export interface CommentAuthor {
+  userId: string | null;
+  name: string;
+  email: string | null;
+  shareLinkId: string | null;
+}
+
+export type CommentResult<T> = { ok: true; value: T } | { ok: false; status: 400 | 403 | 404; error: string };
+
+function isAuthor(row: CommentSelect, author: CommentAuthor): boolean {
+  if (author.userId) {
+    return row.authorId === author.userId;
+  }
+  return !!row.authorEmail && row.shareLinkId === author.shareLinkId && row.authorEmail === author.email;
+}
+
+function toComment(row: CommentSelect, viewer: CommentAuthor): Comment {
+  return {
+    id: row.id,
+    threatModelId: row.threatModelId,
+    threatId: row.threatId,
+    mitigationId: row.mitigationId,
+    parentId: row.parentId,
+    authorName: row.authorName,
+    authorEmail: row.authorEmail,
+    viaShareLink: !row.authorId,
+    body: row.body,
+    mentions: row.mentions,
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    resolvedBy: row.resolvedBy,
+    editedAt: row.editedAt?.toISOString() ?? null,
+    canEdit: isAuthor(row, viewer),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export class CommentService {
+  /**
+   * Comments on a threat and its mitigations, oldest first
+   */
+  async list(threatModelId: string, threatId: string, viewer: CommentAuthor): Promise<Comment[]> {
+    const rows = await db
+      .select()
+      .from(comments)
+      .where(and(eq(comments.threatModelId, threatModelId), eq(comments.threatId, threatId)))
+      .orderBy(asc(comments.createdAt));
+
+    return rows.map((row) => toComment(row, viewer));
+  }
+
+  async create(
+    model: ThreatModelSelect,
+    threatId: string,
+    request: CreateCommentRequest,
+    author: CommentAuthor
+  ): Promise<CommentResult<Comment>> {
+    const threat = (model.threats || []).find((t) => t.id === threatId);
+    if (!threat) {
+      return { ok: false, status: 404, error: 'Threat not found' };
+    }
+
+    let mitigationId = request.mitigationId ?? null;
+    if (request.parentId) {
+      const parent = await this.get(model.id, threatId, request.parentId);
+      if (!parent) {
+        return { ok: false, status: 404, error: 'Comment not found' };
+      }
+      if (parent.parentId) {
+        return { ok: false, status: 400, error: 'Reply to the first comment of a thread' };
+      }
+      // Replies are about whatever the thread is about
+      mitigationId = parent.mitigationId;
+    } else if (mitigationId && !threat.mitigations.some((m) => m.id === mitigationId)) {
+      return { ok: false, status: 404, error: 'Mitigation not found' };
+    }
+
+    const [row] = await db
+      .insert(comments)
+      .values({
+        threatModelId: model.id,
+        threatId,
+        mitigationId,
+        parentId: request.parentId ?? null,
+        authorId: author.userId,
+        authorName: author.name,
+        authorEmail: author.email,
+        shareLinkId: author.shareLinkId,
+        body: request.body,
+        mentions: parseMentions(request.body),
+      })
+      .returning();
+
+    return { ok: true, value: toComment(row, author) };
+  }
+
+  /**
+   * Edit a comment's body (its author only) and/or resolve or reopen its thread
+   */
+  async update(
+    threatModelId: string,
+    threatId: string,
+    commentId: string,
+    changes: UpdateCommentRequest,
+    author: CommentAuthor
+  ): Promise<CommentResult<Comment>> {
+    const row = await this.get(threatModelId, threatId, commentId);
+    if (!row) {
+      return { ok: false, status: 404, error: 'Comment not found' };
+    }
+
+    if (changes.body !== undefined && !isAuthor(row, author)) {
+      return { ok: false, status: 403, error: 'Forbidden: Only the author can edit a comment' };
+    }
+    if (changes.resolved !== undefined && row.parentId) {
+      return { ok: false, status: 400, error: 'Resolve the thread rather than a reply' };
+    }
+
+    const update: Partial<CommentSelect> = {};
+    if (changes.body !== undefined && changes.body !== row.body) {
+      await db.insert(commentEdits).values({ commentId: row.id, body: row.body });
+      update.body = changes.body;
+      update.mentions = parseMentions(changes.body);
+      update.editedAt = new Date();
+    }
+    if (changes.resolved !== undefined && changes.resolved !== !!row.resolvedAt) {
+      update.resolvedAt = changes.resolved ? new Date() : null;
+      update.resolvedBy = changes.resolved ? author.name : null;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return { ok: true, value: toComment(row, author) };
+    }
+
+    const [updated] = await db.update(comments).set(update).where(eq(comments.id, row.id)).returning();
+    return { ok: true, value: toComment(updated, author) };
+  }
+
+  /**
+   * Earlier versions of a comment's body, newest first
+   */
+  async history(threatModelId: string, threatId: string, commentId: string): Promise<CommentResult<CommentEdit[]>> {
+    const row = await this.get(threatModelId, threatId, commentId);
+    if (!row) {
+      return { ok: false, status: 404, error: 'Comment not found' };
+    }
+
+    const edits = await db
+      .select()
+      .from(commentEdits)
+      .where(eq(commentEdits.commentId, row.id))
+      .orderBy(desc(commentEdits.createdAt));
+
+    return {
+      ok: true,
+      value: edits.map((edit) => ({ id: edit.id, body: edit.body, createdAt: edit.createdAt.toISOString() })),
+    };
+  }
+
+  /**
+   * A signed-in member as a comment author, named as in Clerk
+   */
+  async getMemberAuthor(userId: string): Promise<CommentAuthor> {
+    try {
+      const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+      const user = await clerk.users.getUser(userId);
+      const email = user.primaryEmailAddress?.emailAddress ?? null;
+      return { userId, name: user.fullName || email || userId, email, shareLinkId: null };
+    } catch (error) {
+      console.error('Failed to look up comment author:', error);
+      return { userId, name: userId, email: null, shareLinkId: null };
+    }
+  }
+
+  private async get(threatModelId: string, threatId: string, commentId: string): Promise<CommentSelect | null> {
+    const [row] = await db
+      .select()
+      .from(comments)
+      .where(
+        and(eq(comments.threatModelId, threatModelId), eq(comments.threatId, threatId), eq(comments.id, commentId))
+      );
+
+    return row ?? null;
+  }
+}
+
+export const commentService = new CommentService();
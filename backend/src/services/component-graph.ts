@@ -0,0 +1,75 @@
+import {
+  RiskSeverity,
+  SEVERITY_COLORS,
+  threatsByComponent,
+  type ComponentGraph,
+  type ComponentType,
+  type Threat,
+} from '@threat-modeling/shared';
+import { renderDiagram, type DiagramGraph, type DiagramShape, type NodeBadge } from '../diagrams';
+
+/**
+ * Generated Component Graph
+ *
+ * The LLM maps the system as components and flows alongside its threats. For
+ * the PDF report the graph is drawn with each component badged with the
+ * threats affecting it, numbered as in the report and coloured by the worst.
+ */
+
+type GraphThreat = Pick<Threat, 'affectedComponents' | 'severity'>;
+
+const SHAPES: Record<ComponentType, DiagramShape> = {
+  client: 'actor',
+  service: 'rounded',
+  data_store: 'database',
+  queue: 'queue',
+  external: 'box',
+};
+
+// Threat numbers listed on a badge before the rest are counted
+const MAX_BADGE_NUMBERS = 3;
+
+function toDiagramGraph(graph: ComponentGraph): DiagramGraph {
+  const zones = [...new Set(graph.components.flatMap((component) => (component.trustZone ? [component.trustZone] : [])))];
+
+  return {
+    format: 'mermaid',
+    kind: 'flowchart',
+    direction: 'LR',
+    nodes: graph.components.map((component) => ({
+      id: component.id,
+      label: component.name,
+      shape: SHAPES[component.type],
+      ...(component.trustZone && { group: `zone:${component.trustZone}` }),
+    })),
+    edges: graph.flows.map((flow) => ({
+      source: flow.sourceId,
+      target: flow.targetId,
+      ...(flow.label && { label: flow.label }),
+    })),
+    groups: zones.map((zone) => ({ id: `zone:${zone}`, label: zone })),
+  };
+}
+
+/**
+ * Render a generated graph to PNG with its threats overlaid, or null if it
+ * can't be rendered
+ */
+export function renderComponentGraph(graph: ComponentGraph, threats: GraphThreat[]): Buffer | null {
+  const numbers = new Map(threats.map((threat, i) => [threat, i + 1]));
+  const badges = new Map<string, NodeBadge>();
+
+  for (const [componentId, affecting] of threatsByComponent(graph, threats)) {
+    if (affecting.length === 0) continue;
+
+    const listed = affecting.slice(0, MAX_BADGE_NUMBERS).map((threat) => `#${numbers.get(threat)}`);
+    const more = affecting.length - listed.length;
+    const worst = RiskSeverity.options.find((severity) => affecting.some((threat) => threat.severity === severity))!;
+    badges.set(componentId, {
+      text: `${listed.join(' ')}${more > 0 ? ` +${more}` : ''}`,
+      color: SEVERITY_COLORS[worst],
+    });
+  }
+
+  return renderDiagram(toDiagramGraph(graph), 'the generated component graph', badges);
+}
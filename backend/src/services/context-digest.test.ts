@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { MockProvider } from '../llm/providers/mock';
+import type { ContentBlock } from '../llm';
+import { digestContextSources, estimateTokens, type ContextSource, type DigestProgress } from './context-digest';
+
+// Leaves roughly 1,700 tokens (6,900 characters) per digest request
+const provider = new MockProvider({ provider: 'mock', contextWindow: 4000 });
+
+const text = (label: string, length: number): ContextSource => ({
+  label,
+  blocks: [{ type: 'text', text: `${label} `.repeat(length / (label.length + 1)) }],
+});
+
+const pdf = (pages: number): ContentBlock => ({
+  type: 'document',
+  mimeType: 'application/pdf',
+  data: Buffer.from('%PDF-1.7\n' + '<< /Type /Page >>\n'.repeat(pages) + '<< /Type /Pages >>').toString('base64'),
+});
+
+describe('estimateTokens', () => {
+  test('counts text by length, images at a flat rate and PDFs by page', () => {
+    expect(estimateTokens('a'.repeat(401))).toBe(101);
+    expect(
+      estimateTokens([
+        { type: 'text', text: 'a'.repeat(400) },
+        { type: 'image', mimeType: 'image/png', data: 'aW1hZ2U=' },
+        pdf(3),
+      ])
+    ).toBe(100 + 1600 + 3 * 2000);
+  });
+});
+
+describe('digestContextSources', () => {
+  test('digests each source once when the digests fit', async () => {
+    const progress: DigestProgress[] = [];
+
+    const result = await digestContextSources([text('prd.md', 2000), text('PAY-12', 400)], {
+      provider,
+      budget: 10_000,
+      onProgress: (update) => void progress.push(update),
+    });
+
+    expect(result).toMatchObject({ calls: 2, passes: 1 });
+    expect(result.digests.map((digest) => digest.label)).toEqual(['prd.md', 'PAY-12']);
+    expect(result.digests[0].text).toContain('- Component described in prd.md');
+    expect(progress).toEqual([
+      { pass: 1, completed: 0, total: 2, label: 'prd.md' },
+      { pass: 1, completed: 1, total: 2, label: 'PAY-12' },
+    ]);
+  });
+
+  test('splits sources too large for one request and joins their digests', async () => {
+    const result = await digestContextSources([text('design.md', 20_000)], { provider, budget: 10_000 });
+
+    expect(result.calls).toBe(3);
+    expect(result.digests).toHaveLength(1);
+    for (const part of ['part 1 of 3', 'part 2 of 3', 'part 3 of 3']) {
+      expect(result.digests[0].text).toContain(`- Component described in design.md (${part})`);
+    }
+  });
+
+  test('splits the extracted text of large PDFs and skips sources with none', async () => {
+    const result = await digestContextSources(
+      [
+        { label: 'spec.pdf', blocks: [pdf(40)], fallbackText: 'Checkout flow\n\n'.repeat(800) },
+        { label: 'scan.pdf', blocks: [pdf(40)], fallbackText: null },
+      ],
+      { provider, budget: 10_000 }
+    );
+
+    expect(result.calls).toBe(2);
+    expect(result.digests.map((digest) => digest.label)).toEqual(['spec.pdf']);
+  });
+
+  test('merges digests in further passes until they fit the budget', async () => {
+    const sources = Array.from({ length: 8 }, (_, i) => text(`ticket-${i + 1}`, 200));
+    const progress: DigestProgress[] = [];
+
+    const result = await digestContextSources(sources, {
+      provider,
+      budget: 300,
+      onProgress: (update) => void progress.push(update),
+    });
+
+    expect(result).toMatchObject({ calls: 9, passes: 2 });
+    expect(result.digests).toHaveLength(1);
+    expect(result.digests[0].label).toBe(sources.map((source) => source.label).join(', '));
+    expect(progress.at(-1)).toEqual({ pass: 2, completed: 0, total: 1, label: result.digests[0].label });
+  });
+
+  test('gives up on context that will not shrink to the budget', async () => {
+    await expect(digestContextSources([text('prd.md', 2000)], { provider, budget: 10 })).rejects.toThrow(
+      'The context is too large to analyze even after summarising it'
+    );
+  });
+
+  test('refuses providers whose context window cannot hold a digest request', async () => {
+    const small = new MockProvider({ provider: 'mock', contextWindow: 1000 });
+
+    await expect(digestContextSources([text('prd.md', 2000)], { provider: small, budget: 10_000 })).rejects.toThrow(
+      'The mock context window is too small to digest the context'
+    );
+  });
+});
@@ -0,0 +1,302 @@
+import type { ContentBlock, DocumentContent, LLMProvider, LLMResponse } from '../llm';
+
+/**
+ * Context Digests
+ *
+ * The map step for threat models whose files and JIRA tickets don't fit in a
+ * single request to the provider: each source is summarised on its own into
+ * a digest of its components, data flows and security-relevant details, and
+ * the threat analysis then runs over the digests instead of the raw content.
+ * Sources too large for one request are split into parts first, and digests
+ * that together are still too large are merged in further passes.
+ */
+
+// Rough size of a token in English text
+const CHARS_PER_TOKEN = 4;
+
+// Providers bill images and PDF pages by size rather than by text; these
+// are upper-end estimates
+const IMAGE_TOKENS = 1600;
+const PDF_PAGE_TOKENS = 2000;
+const PDF_BYTES_PER_PAGE = 100_000;
+
+// Headroom for the estimates being off
+const CONTEXT_SAFETY_MARGIN = 0.1;
+
+const DIGEST_MAX_TOKENS = 1536;
+
+// Allowance for the "[Digesting: <label>]" line at the top of each request
+const HEADER_TOKENS = 64;
+
+// Merge passes before giving up on context that won't shrink to fit
+const MAX_DIGEST_PASSES = 4;
+
+const DIGEST_SYSTEM_PROMPT = `You are a senior security architect preparing material for a threat model.
+Summarise the source you are given into a digest that a threat modeller can work from without the original.
+
+Use these Markdown headings, with short bullet points under each:
+## Components - services, clients, data stores, queues and third parties
+## Data Flows - what data moves between which components, and how
+## Trust Boundaries & Entry Points - where untrusted input enters, network and privilege boundaries
+## Sensitive Data - personal, financial or secret data and where it is stored
+## Security Controls - authentication, authorization, encryption, logging and validation already described
+## Security-Relevant Details - assumptions, risky decisions and open questions
+
+Keep component and data names exactly as the source writes them. Leave out anything that has no bearing on security, and omit headings with nothing under them.`;
+
+/** A file or JIRA ticket to include in the analysis */
+export interface ContextSource {
+  /** File name or issue key, used to label the digest */
+  label: string;
+  blocks: ContentBlock[];
+  /** Text to split and digest instead when the blocks are too large and can't be split, e.g. a long PDF */
+  fallbackText?: string | null;
+}
+
+export interface ContextDigest {
+  label: string;
+  text: string;
+}
+
+export interface DigestProgress {
+  pass: number;
+  /** LLM calls finished in this pass */
+  completed: number;
+  /** LLM calls this pass will make */
+  total: number;
+  /** What the next call digests */
+  label: string;
+}
+
+export interface DigestOptions {
+  provider: LLMProvider;
+  /** Tokens the rendered digests may take up in the analysis request */
+  budget: number;
+  signal?: AbortSignal;
+  /** Called before each LLM call */
+  onProgress?: (progress: DigestProgress) => void | Promise<void>;
+  /** Called with each LLM response, for usage reporting */
+  onResponse?: (response: LLMResponse, latencyMs: number) => void | Promise<void>;
+}
+
+export interface DigestResult {
+  digests: ContextDigest[];
+  calls: number;
+  passes: number;
+}
+
+// =============================================================================
+// Token Budgeting
+// =============================================================================
+
+function countPdfPages(block: DocumentContent): number {
+  if (!block.data) return 1;
+  const pdf = Buffer.from(block.data, 'base64');
+  // Page objects can be hidden in compressed object streams; fall back to size
+  const pages = pdf.toString('latin1').match(/\/Type\s*\/Page\b/g)?.length;
+  return pages || Math.ceil(pdf.length / PDF_BYTES_PER_PAGE);
+}
+
+/**
+ * Estimate how many input tokens content will take up
+ */
+export function estimateTokens(content: string | ContentBlock[]): number {
+  if (typeof content === 'string') {
+    return Math.ceil(content.length / CHARS_PER_TOKEN);
+  }
+
+  let tokens = 0;
+  for (const block of content) {
+    if (block.type === 'text') tokens += estimateTokens(block.text);
+    else if (block.type === 'image') tokens += IMAGE_TOKENS;
+    else tokens += countPdfPages(block) * PDF_PAGE_TOKENS;
+  }
+  return tokens;
+}
+
+/**
+ * Input tokens left for the messages of a request to the provider, once the
+ * system prompt and the output have been allowed for
+ */
+export function inputTokenBudget(provider: LLMProvider, systemPrompt: string, maxTokens: number): number {
+  return (
+    Math.floor(provider.getContextWindow() * (1 - CONTEXT_SAFETY_MARGIN)) - maxTokens - estimateTokens(systemPrompt)
+  );
+}
+
+/**
+ * Split text into parts of at most `maxTokens`, at paragraph or line breaks
+ * where possible
+ */
+function splitText(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const parts: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    let cut = rest.lastIndexOf('\n\n', maxChars);
+    if (cut < maxChars / 2) cut = rest.lastIndexOf('\n', maxChars);
+    if (cut < maxChars / 2) cut = maxChars;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * The content of a source in parts that each fit in a digest request
+ */
+function splitSource(source: ContextSource, maxTokens: number): ContentBlock[][] {
+  if (estimateTokens(source.blocks) <= maxTokens) {
+    return [source.blocks];
+  }
+
+  const text = source.blocks.every((block) => block.type === 'text')
+    ? source.blocks.map((block) => (block.type === 'text' ? block.text : '')).join('\n')
+    : source.fallbackText;
+
+  if (!text) {
+    console.warn(`"${source.label}" is too large to digest and has no text to split. It will be skipped.`);
+    return [];
+  }
+
+  return splitText(text, maxTokens).map((part) => [{ type: 'text', text: part }]);
+}
+
+// =============================================================================
+// Digesting
+// =============================================================================
+
+/**
+ * Render digests for the analysis request
+ */
+export function buildDigestContext(digests: ContextDigest[]): string {
+  return digests.map((digest) => `\n[Digest: ${digest.label}]\n${digest.text}\n`).join('');
+}
+
+async function requestDigest(content: ContentBlock[], options: DigestOptions): Promise<string> {
+  const startedAt = performance.now();
+  const response = await options.provider.complete({
+    messages: [{ role: 'user', content }],
+    systemPrompt: DIGEST_SYSTEM_PROMPT,
+    maxTokens: DIGEST_MAX_TOKENS,
+    temperature: 0,
+    responseFormat: 'text',
+    signal: options.signal,
+  });
+
+  await options.onResponse?.(response, performance.now() - startedAt);
+  return response.content.trim();
+}
+
+/**
+ * Group digests into batches that each fit in one merge request
+ */
+function batchDigests(digests: ContextDigest[], maxTokens: number): ContextDigest[][] {
+  const batches: ContextDigest[][] = [];
+  let batch: ContextDigest[] = [];
+  let batchTokens = 0;
+
+  for (const digest of digests) {
+    const tokens = estimateTokens(buildDigestContext([digest]));
+    if (batch.length > 0 && batchTokens + tokens > maxTokens) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(digest);
+    batchTokens += tokens;
+  }
+
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Summarise each source into a digest, then merge the digests until they fit
+ * in `options.budget`
+ */
+export async function digestContextSources(
+  sources: ContextSource[],
+  options: DigestOptions
+): Promise<DigestResult> {
+  const instruction = '\nWrite the digest of this source.';
+  const mergeInstruction =
+    '\nThese digests describe parts of the same system. Merge them into one digest with the same headings, combining components and data flows that appear in more than one.';
+  const requestBudget =
+    inputTokenBudget(options.provider, DIGEST_SYSTEM_PROMPT, DIGEST_MAX_TOKENS) -
+    estimateTokens(mergeInstruction) -
+    HEADER_TOKENS;
+
+  if (requestBudget <= 0) {
+    throw new Error(`The ${options.provider.name} context window is too small to digest the context`);
+  }
+
+  // Pass 1: digest every source, part by part
+  const work = sources.flatMap((source) => {
+    const parts = splitSource(source, requestBudget);
+    return parts.map((blocks, i) => ({
+      source,
+      label: parts.length > 1 ? `${source.label} (part ${i + 1} of ${parts.length})` : source.label,
+      blocks,
+    }));
+  });
+
+  const bySource = new Map<ContextSource, string[]>();
+  let calls = 0;
+  for (const [i, item] of work.entries()) {
+    await options.onProgress?.({ pass: 1, completed: i, total: work.length, label: item.label });
+
+    const text = await requestDigest(
+      [{ type: 'text', text: `[Digesting: ${item.label}]\n` }, ...item.blocks, { type: 'text', text: instruction }],
+      options
+    );
+    calls++;
+    bySource.set(item.source, [...(bySource.get(item.source) ?? []), text]);
+  }
+
+  let digests: ContextDigest[] = [...bySource.entries()].map(([source, texts]) => ({
+    label: source.label,
+    text: texts.join('\n\n'),
+  }));
+  let passes = 1;
+
+  // Further passes: merge digests until they fit alongside the rest of the analysis request
+  while (estimateTokens(buildDigestContext(digests)) > options.budget) {
+    const batches = batchDigests(digests, requestBudget);
+    if (passes >= MAX_DIGEST_PASSES || batches.length === digests.length) {
+      throw new Error(
+        'The context is too large to analyze even after summarising it - remove some files or JIRA tickets and try again'
+      );
+    }
+
+    passes++;
+    const merges = batches.filter((batch) => batch.length > 1);
+    const merged: ContextDigest[] = [];
+    let completed = 0;
+
+    for (const batch of batches) {
+      if (batch.length === 1) {
+        merged.push(batch[0]);
+        continue;
+      }
+
+      const label = batch.map((digest) => digest.label).join(', ');
+      await options.onProgress?.({ pass: passes, completed, total: merges.length, label });
+
+      const text = await requestDigest(
+        [{ type: 'text', text: buildDigestContext(batch) }, { type: 'text', text: mergeInstruction }],
+        options
+      );
+      calls++;
+      completed++;
+      merged.push({ label, text });
+    }
+
+    digests = merged;
+  }
+
+  return { digests, calls, passes };
+}
@@ -0,0 +1,119 @@
+import type { DfdElementType, Threat } from '@threat-modeling/shared';
+import type { DataFlowDiagramSelect } from '../db/schema';
+
+/**
+ * Data Flow Diagram Context and Threat Links
+ *
+ * A threat model's diagram is rendered into the generation context with the
+ * ID of every element, so the LLM can say which elements each threat affects.
+ * Those links are checked against the diagram before they are saved, and
+ * pruned again whenever the diagram changes.
+ */
+
+type DiagramContent = Pick<DataFlowDiagramSelect, 'elements' | 'flows' | 'boundaries'>;
+
+const ELEMENT_TYPE_LABELS: Record<DfdElementType, string> = {
+  process: 'Process',
+  data_store: 'Data store',
+  external_entity: 'External entity',
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Render a diagram for the analysis request
+ */
+export function buildDataFlowDiagramContext(diagram: DiagramContent): string {
+  const names = new Map(diagram.elements.map((element) => [element.id, element.name]));
+
+  let context = `## Data Flow Diagram\nRefer to elements by ID in dfdElementIds for every threat that affects them.\n`;
+
+  context += `\n### Elements\n`;
+  context += diagram.elements
+    .map((element) => {
+      const description = element.description ? ` - ${element.description}` : '';
+      return `- [${element.id}] ${ELEMENT_TYPE_LABELS[element.type]}: ${element.name}${description}`;
+    })
+    .join('\n');
+
+  if (diagram.flows.length > 0) {
+    context += `\n\n### Data Flows\n`;
+    context += diagram.flows
+      .map((flow) => {
+        const protocol = flow.protocol ? ` over ${flow.protocol}` : '';
+        const label = flow.label ? `: ${flow.label}` : '';
+        return `- ${names.get(flow.sourceId)} [${flow.sourceId}] -> ${names.get(flow.targetId)} [${flow.targetId}]${label}${protocol}`;
+      })
+      .join('\n');
+  }
+
+  if (diagram.boundaries.length > 0) {
+    context += `\n\n### Trust Boundaries\n`;
+    context += diagram.boundaries
+      .map((boundary) => {
+        const members = boundary.elementIds.map((id) => names.get(id) ?? id);
+        return `- ${boundary.name}: ${members.length > 0 ? members.join(', ') : 'no elements'}`;
+      })
+      .join('\n');
+
+    // Flows that cross a boundary are where most threats sit
+    const crossing = diagram.flows.filter((flow) =>
+      diagram.boundaries.some(
+        (boundary) => boundary.elementIds.includes(flow.sourceId) !== boundary.elementIds.includes(flow.targetId)
+      )
+    );
+    if (crossing.length > 0) {
+      context += `\nFlows crossing a trust boundary: ${crossing.map((flow) => `${names.get(flow.sourceId)} -> ${names.get(flow.targetId)}`).join(', ')}`;
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Check generated threats' element links against the diagram: unknown IDs
+ * are dropped, and threats without links are linked to the elements named in
+ * their affected components. Without a diagram all links are removed.
+ */
+export function linkThreatsToDiagram<T extends Pick<Threat, 'affectedComponents' | 'dfdElementIds'>>(
+  threats: T[],
+  diagram: DiagramContent | null
+): T[] {
+  if (!diagram) return threats.map(({ dfdElementIds: _, ...threat }) => threat as T);
+
+  const elementIds = new Set(diagram.elements.map((element) => element.id));
+  const idsByName = new Map(diagram.elements.map((element) => [normalizeName(element.name), element.id]));
+
+  return threats.map((threat) => {
+    let dfdElementIds = (threat.dfdElementIds ?? []).filter((id) => elementIds.has(id));
+    if (dfdElementIds.length === 0) {
+      dfdElementIds = threat.affectedComponents.flatMap((component) => idsByName.get(normalizeName(component)) ?? []);
+    }
+    return { ...threat, dfdElementIds: [...new Set(dfdElementIds)] };
+  });
+}
+
+/**
+ * Remove links to elements that are no longer in the diagram, or all links
+ * when it has been deleted. Returns null when no threat changed.
+ */
+export function pruneThreatLinks(threats: Threat[], diagram: DiagramContent | null): Threat[] | null {
+  const elementIds = new Set(diagram?.elements.map((element) => element.id));
+  let changed = false;
+
+  const pruned = threats.map((threat) => {
+    if (!threat.dfdElementIds) return threat;
+    if (!diagram) {
+      changed = true;
+      const { dfdElementIds: _, ...unlinked } = threat;
+      return unlinked;
+    }
+
+    const dfdElementIds = threat.dfdElementIds.filter((id) => elementIds.has(id));
+    if (dfdElementIds.length === threat.dfdElementIds.length) return threat;
+    changed = true;
+    return { ...threat, dfdElementIds };
+  });
+
+  return changed ? pruned : null;
+}
@@ -1,5 +1,5 @@
 import type { ThreatModel } from '@threat-modeling/shared';
-import { SEVERITY_COLORS, CATEGORY_LABELS } from '@threat-modeling/shared';
+import { SEVERITY_COLORS, CATEGORY_LABELS, METHODOLOGIES } from '@threat-modeling/shared';
 
 export class ExportService {
   async exportToJson(model: ThreatModel): Promise<string> {
@@ -12,6 +12,7 @@ export class ExportService {
     // Header
     lines.push(`# Threat Model: ${model.title}`);
     lines.push('');
+    lines.push(`**Methodology:** ${METHODOLOGIES[model.methodology].label}`);
     lines.push(`**Status:** ${model.status}`);
     lines.push(`**Created:** ${new Date(model.createdAt).toLocaleDateString()}`);
     lines.push(`**Last Updated:** ${new Date(model.updatedAt).toLocaleDateString()}`);
@@ -42,7 +43,7 @@ export class ExportService {
         lines.push(`### ${threat.title}`);
         lines.push('');
         lines.push(`**Severity:** ${threat.severity.toUpperCase()}`);
-        lines.push(`**Category:** ${CATEGORY_LABELS[threat.category as keyof typeof CATEGORY_LABELS] ?? threat.category}`);
+        lines.push(`**${METHODOLOGIES[model.methodology].categoryLabel}:** ${CATEGORY_LABELS[threat.category as keyof typeof CATEGORY_LABELS] ?? threat.category}`);
         lines.push(`**Risk Score:** ${threat.riskScore}/25 (Likelihood: ${threat.likelihood}, Impact: ${threat.impact})`);
         lines.push('');
         lines.push('**Description:**');
@@ -188,6 +189,7 @@ export class ExportService {
 <body>
   <h1>Threat Model: ${this.escapeHtml(model.title)}</h1>
   <div class="meta">
+    <strong>Methodology:</strong> ${METHODOLOGIES[model.methodology].label} |
     <strong>Status:</strong> ${model.status} |
     <strong>Created:</strong> ${new Date(model.createdAt).toLocaleDateString()} |
     <strong>Last Updated:</strong> ${new Date(model.updatedAt).toLocaleDateString()}
@@ -217,7 +219,7 @@ export class ExportService {
       </div>
     </div>
 
-    <p><strong>Category:</strong> ${CATEGORY_LABELS[threat.category as keyof typeof CATEGORY_LABELS] ?? threat.category}</p>
+    <p><strong>${METHODOLOGIES[model.methodology].categoryLabel}:</strong> ${CATEGORY_LABELS[threat.category as keyof typeof CATEGORY_LABELS] ?? threat.category}</p>
     <p><strong>Likelihood:</strong> ${threat.likelihood}/5 | <strong>Impact:</strong> ${threat.impact}/5</p>
 
     <p>${this.escapeHtml(threat.description)}</p>
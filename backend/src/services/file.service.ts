@@ -4,6 +4,10 @@ import { nanoid } from 'nanoid';
 import { mkdir, writeFile, unlink, readFile } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
+import { extractText, resolveMimeType } from '../extraction';
+import { analyzeInfrastructure } from '../iac';
+import { readApiSpec } from '../openapi';
+import { readDiagram, renderDiagram } from '../diagrams';
 
 const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
 
@@ -17,7 +21,7 @@ export class FileService {
   async uploadFile(
     threatModelId: string,
     file: File,
-    fileType: 'prd' | 'diagram' | 'screenshot' | 'other'
+    fileType: 'prd' | 'diagram' | 'screenshot' | 'api_spec' | 'other'
   ): Promise<{
     id: string;
     filename: string;
@@ -37,13 +41,17 @@ export class FileService {
     const buffer = await file.arrayBuffer();
     await writeFile(storagePath, Buffer.from(buffer));
 
-    // Extract text for text-based files
-    let extractedText: string | null = null;
-    if (file.type.startsWith('text/') || file.type === 'application/json') {
-      extractedText = await file.text();
-    } else if (file.type === 'application/pdf') {
-      // For PDF, we'd need a PDF parser - for now, store null
-      extractedText = null;
+    // Extract text for providers that can't read the native format
+    const extractedText = await extractText(Buffer.from(buffer), file.type, file.name);
+    const iacInventory = analyzeInfrastructure(Buffer.from(buffer), file.type, file.name);
+    const apiSpec = readApiSpec(Buffer.from(buffer), file.type, file.name);
+    const diagramGraph = readDiagram(Buffer.from(buffer), resolveMimeType(file.type, file.name), file.name);
+
+    // Render diagram sources to PNG alongside the original
+    const rendered = diagramGraph && renderDiagram(diagramGraph, file.name);
+    const renderedDiagramPath = rendered ? `${storagePath}.png` : null;
+    if (rendered && renderedDiagramPath) {
+      await writeFile(renderedDiagramPath, rendered);
     }
 
     // Save to database
@@ -55,9 +63,13 @@ export class FileService {
         originalName: file.name,
         mimeType: file.type,
         size: file.size,
-        fileType,
+        fileType: apiSpec ? 'api_spec' : diagramGraph ? 'diagram' : fileType,
         storagePath,
         extractedText,
+        iacInventory,
+        apiSpec,
+        diagramGraph,
+        renderedDiagramPath,
       })
       .returning();
 
@@ -85,6 +97,7 @@ export class FileService {
     // Delete from disk
     try {
       await unlink(file.storagePath);
+      if (file.renderedDiagramPath) await unlink(file.renderedDiagramPath);
     } catch (err) {
       console.warn('Could not delete file from disk:', err);
     }
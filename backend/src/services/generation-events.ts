@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events';
+import type { GenerationEvent } from '@threat-modeling/shared';
+
+/**
+ * Generation Event Bus
+ *
+ * In-process pub/sub for generation progress, keyed by threat model ID.
+ * The generation worker publishes step events and the SSE route relays them
+ * to connected clients. Subscribers only see events from this process, so
+ * clients of a multi-instance deployment should fall back to polling
+ * /generation-status.
+ */
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per connected client
+
+const channel = (threatModelId: string) => `generation:${threatModelId}`;
+
+/**
+ * Publish an event to everyone watching a threat model's generation
+ */
+export function publishGenerationEvent(threatModelId: string, event: GenerationEvent): void {
+  emitter.emit(channel(threatModelId), event);
+}
+
+/**
+ * Subscribe to generation events for a threat model.
+ * Returns a function that removes the listener.
+ */
+export function subscribeToGeneration(
+  threatModelId: string,
+  listener: (event: GenerationEvent) => void
+): () => void {
+  emitter.on(channel(threatModelId), listener);
+  return () => {
+    emitter.off(channel(threatModelId), listener);
+  };
+}
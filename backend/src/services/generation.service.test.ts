@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import type { GenerationEventType } from '@threat-modeling/shared';
+import { db, generationJobs, threatModels } from '../db';
+import { createModel, waitFor } from '../test/helpers';
+import { GenerationService } from './generation.service';
+import { subscribeToGeneration } from './generation-events';
+import { quotaService } from './quota.service';
+
+// The worker runs on the mock provider (see test/setup.ts); description
+// markers such as [mock:error] make it misbehave for one model
+const service = new GenerationService();
+
+const getModel = async (id: string) => (await db.select().from(threatModels).where(eq(threatModels.id, id)))[0];
+
+const finishedJob = (id: string) =>
+  waitFor(async () => {
+    const job = await service.getLatestJob(id);
+    return job && ['completed', 'failed', 'cancelled'].includes(job.status) ? job : null;
+  });
+
+// A model interrupted mid-refresh by a restart, for the worker to recover on start
+let interruptedId: string;
+
+beforeAll(async () => {
+  const model = await createModel({ status: 'generating' });
+  interruptedId = model.id;
+  await db.insert(generationJobs).values({
+    threatModelId: model.id,
+    status: 'failed',
+    createdAt: new Date(Date.now() - 60_000),
+    options: { mode: 'refresh', settings: { threatCount: 3, minSeverity: 'medium', focusAreas: ['payments'] } },
+  });
+
+  await service.start();
+});
+
+afterAll(() => service.stop());
+
+describe('GenerationService', () => {
+  test('runs a job through the pipeline and publishes its progress', async () => {
+    const model = await createModel();
+    const events: GenerationEventType[] = [];
+    const unsubscribe = subscribeToGeneration(model.id, (event) => events.push(event.type));
+
+    await service.enqueue(model.id, 'owner');
+    const job = await finishedJob(model.id);
+    unsubscribe();
+
+    expect(job).toMatchObject({ status: 'completed', progress: 100, attempts: 1 });
+    const saved = await getModel(model.id);
+    expect(saved.status).toBe('completed');
+    expect(saved.threats!.length).toBeGreaterThan(0);
+    expect(saved.currentRevisionId).not.toBeNull();
+    expect(events[0]).toBe('queued');
+    expect(events).toContain('parsed');
+    expect(events.at(-1)).toBe('completed');
+  });
+
+  test('asks the provider to repair output that fails validation', async () => {
+    const model = await createModel({ description: '[mock:malformed]' });
+
+    await service.enqueue(model.id, 'owner');
+    expect((await finishedJob(model.id)).status).toBe('completed');
+
+    expect((await getModel(model.id)).generationReport).toMatchObject({ repairAttempts: 1 });
+  });
+
+  test('retries failures, then fails the model and refunds the quota', async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ description: '[mock:error]', userId });
+    await quotaService.consumeGeneration(userId, null);
+
+    await service.enqueue(model.id, userId, { mode: 'full' }, { userId, organizationId: null });
+    const job = await finishedJob(model.id);
+
+    expect(job).toMatchObject({ status: 'failed', attempts: 2 });
+    expect((await getModel(model.id)).status).toBe('failed');
+    expect((await quotaService.getUserQuota(userId)).generationsUsed).toBe(0);
+  });
+
+  test('returns the active job instead of queueing another, handing back the new charge', async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ userId });
+    const charge = { userId, organizationId: null };
+
+    await quotaService.consumeGeneration(userId, null);
+    const first = await service.enqueue(model.id, userId, { mode: 'full' }, charge);
+    await quotaService.consumeGeneration(userId, null);
+    const second = await service.enqueue(model.id, userId, { mode: 'full' }, charge);
+
+    expect(second.id).toBe(first.id);
+    expect((await quotaService.getUserQuota(userId)).generationsUsed).toBe(1);
+    await finishedJob(model.id);
+  });
+
+  test('cancels a queued job and puts the model back as it was', async () => {
+    const userId = crypto.randomUUID();
+    const model = await createModel({ userId });
+    await quotaService.consumeGeneration(userId, null);
+
+    // Nothing is due until the delay passes, so the job stays queued
+    const [job] = await db
+      .insert(generationJobs)
+      .values({
+        threatModelId: model.id,
+        chargedUserId: userId,
+        runAfter: new Date(Date.now() + 60_000),
+      })
+      .returning();
+    await db.update(threatModels).set({ status: 'generating' }).where(eq(threatModels.id, model.id));
+
+    const cancelled = await service.cancel(model.id);
+
+    expect(cancelled).toMatchObject({ id: job.id, status: 'cancelled' });
+    expect((await getModel(model.id)).status).toBe('draft');
+    expect((await quotaService.getUserQuota(userId)).generationsUsed).toBe(0);
+  });
+
+  test('recovers a model left generating with the options of the interrupted job', async () => {
+    const job = await finishedJob(interruptedId);
+
+    expect(job.createdAt.getTime()).toBeGreaterThan(Date.now() - 60_000);
+    expect(job.options).toEqual({
+      mode: 'refresh',
+      settings: { threatCount: 3, minSeverity: 'medium', focusAreas: ['payments'] },
+    });
+    expect(job.status).toBe('completed');
+  });
+});
@@ -1,247 +1,446 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { threatModelService } from './threat-model.service';
-import { fileService } from './file.service';
-import { nanoid } from 'nanoid';
-import {
-  GUIDED_QUESTIONS,
-  calculateRiskScore,
-  getRiskSeverityFromScore,
-  type QuestionAnswer,
-} from '@threat-modeling/shared';
-
-const anthropic = new Anthropic();
-
-// In-memory job tracking (in production, use Redis or DB)
-const generationJobs = new Map<string, {
-  status: 'queued' | 'processing' | 'completed' | 'failed';
-  progress: number;
-  message?: string;
-  error?: string;
-}>();
+import { and, asc, desc, eq, inArray, lte } from 'drizzle-orm';
+import { db, generationJobs, threatModels } from '../db';
+import type { GenerationJobSelect, GenerationOptions } from '../db/schema';
+import type { GenerationEvent, GenerationEventType } from '@threat-modeling/shared';
+import { generateThreatModel } from './threat-generation';
+import { publishGenerationEvent } from './generation-events';
+import { quotaService, type QuotaCharge } from './quota.service';
+
+/**
+ * Generation Job Queue
+ *
+ * Threat model generations run as rows in the `generation_jobs` table rather
+ * than fire-and-forget promises, so a backend restart doesn't leave models
+ * stuck in `generating`. A worker loop polls for due jobs, retries failures
+ * with exponential backoff and recovers jobs orphaned by a crash on startup.
+ * Every state change is also published on the generation event bus for the
+ * SSE progress stream.
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const POLL_INTERVAL_MS = parseInt(process.env.GENERATION_POLL_INTERVAL_MS || '1000');
+const CONCURRENCY = parseInt(process.env.GENERATION_CONCURRENCY || '2');
+const MAX_ATTEMPTS = parseInt(process.env.GENERATION_MAX_ATTEMPTS || '3');
+const RETRY_BASE_DELAY_MS = parseInt(process.env.GENERATION_RETRY_BASE_DELAY_MS || '5000');
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+const ACTIVE_STATUSES: GenerationJobSelect['status'][] = ['queued', 'processing'];
+
+// =============================================================================
+// Service
+// =============================================================================
 
 export class GenerationService {
-  async startGeneration(threatModelId: string): Promise<string> {
-    const model = await threatModelService.getById(threatModelId);
-    if (!model) {
-      throw new Error('Threat model not found');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  // Jobs running in this process, keyed by job ID
+  private running = new Map<string, AbortController>();
+
+  /**
+   * Queue a generation for a threat model. Returns the existing job if one
+   * is already queued or running, handing back the quota charged for the new
+   * one.
+   */
+  async enqueue(
+    threatModelId: string,
+    userId?: string,
+    options: GenerationOptions = { mode: 'full' },
+    charge?: QuotaCharge
+  ): Promise<GenerationJobSelect> {
+    const active = await this.getActiveJob(threatModelId);
+    if (active) {
+      if (charge) await quotaService.refundGeneration(charge, new Date());
+      return active;
     }
 
-    // Update status to generating
-    await threatModelService.updateStatus(threatModelId, 'generating');
-
-    // Start async generation
-    this.runGeneration(threatModelId).catch((err) => {
-      console.error('Generation failed:', err);
-      threatModelService.updateStatus(threatModelId, 'failed', err.message);
-      generationJobs.set(threatModelId, {
-        status: 'failed',
-        progress: 0,
-        error: err.message,
-      });
-    });
-
-    generationJobs.set(threatModelId, {
-      status: 'processing',
-      progress: 10,
-      message: 'Starting threat analysis...',
-    });
-
-    return threatModelId;
+    const [job] = await db
+      .insert(generationJobs)
+      .values({
+        threatModelId,
+        userId,
+        maxAttempts: MAX_ATTEMPTS,
+        options,
+        chargedUserId: charge?.userId,
+        chargedOrganizationId: charge?.organizationId,
+        currentStep: options.mode === 'refresh' ? 'Queued for refresh...' : 'Queued for generation...',
+      })
+      .returning();
+
+    await db
+      .update(threatModels)
+      .set({
+        status: 'generating',
+        generationStartedAt: new Date(),
+        generationError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(threatModels.id, threatModelId));
+
+    this.publish(job, { type: 'queued', progress: 0, message: job.currentStep ?? 'Queued for generation...' });
+
+    // Don't wait for the next poll if a worker slot is free
+    this.tick();
+
+    return job;
   }
 
-  getJobStatus(threatModelId: string) {
-    return generationJobs.get(threatModelId) ?? {
-      status: 'queued' as const,
-      progress: 0,
-    };
+  /**
+   * Get the most recent job for a threat model
+   */
+  async getLatestJob(threatModelId: string): Promise<GenerationJobSelect | null> {
+    const [job] = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.threatModelId, threatModelId))
+      .orderBy(desc(generationJobs.createdAt))
+      .limit(1);
+
+    return job ?? null;
   }
 
-  private async runGeneration(threatModelId: string): Promise<void> {
-    const model = await threatModelService.getById(threatModelId);
-    if (!model) throw new Error('Threat model not found');
+  /**
+   * Describe the latest job's state as a generation event, so SSE clients
+   * connecting mid-generation start from the right place
+   */
+  async getSnapshot(threatModelId: string): Promise<GenerationEvent | null> {
+    const job = await this.getLatestJob(threatModelId);
+    if (!job) return null;
+
+    let type: GenerationEventType;
+    if (job.status === 'queued') {
+      type = job.attempts > 0 ? 'retrying' : 'queued';
+    } else if (job.status === 'processing') {
+      type = 'started';
+    } else {
+      type = job.status;
+    }
 
-    generationJobs.set(threatModelId, {
-      status: 'processing',
-      progress: 20,
-      message: 'Analyzing system context...',
-    });
+    return {
+      type,
+      progress: job.progress,
+      message: job.currentStep ?? '',
+      jobId: job.id,
+      error: job.error ?? undefined,
+      timestamp: job.updatedAt.toISOString(),
+    };
+  }
 
-    // Build context from all inputs
-    const context = await this.buildContext(model);
+  /**
+   * Get the queued or running job for a threat model, if any
+   */
+  async getActiveJob(threatModelId: string): Promise<GenerationJobSelect | null> {
+    const [job] = await db
+      .select()
+      .from(generationJobs)
+      .where(
+        and(
+          eq(generationJobs.threatModelId, threatModelId),
+          inArray(generationJobs.status, ACTIVE_STATUSES)
+        )
+      )
+      .limit(1);
+
+    return job ?? null;
+  }
 
-    generationJobs.set(threatModelId, {
-      status: 'processing',
-      progress: 40,
-      message: 'Generating threat analysis...',
-    });
+  /**
+   * Cancel the active generation for a threat model.
+   * Queued jobs are cancelled immediately; running jobs are aborted and
+   * finalised by the worker.
+   */
+  async cancel(threatModelId: string): Promise<GenerationJobSelect | null> {
+    const job = await this.getActiveJob(threatModelId);
+    if (!job) return null;
+
+    const controller = this.running.get(job.id);
+    if (job.status === 'processing' && controller) {
+      await this.updateJob(job.id, { cancelRequested: true });
+      controller.abort();
+      return { ...job, cancelRequested: true };
+    }
 
-    // Generate threats using Claude
-    const result = await this.generateThreatsWithAI(context);
+    return this.finishCancelled(job);
+  }
 
-    generationJobs.set(threatModelId, {
-      status: 'processing',
-      progress: 80,
-      message: 'Finalizing threat model...',
-    });
+  /**
+   * Start the worker loop, recovering any jobs orphaned by a previous process
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
 
-    // Update the threat model with results
-    await threatModelService.updateThreats(
-      threatModelId,
-      result.threats,
-      result.summary,
-      result.recommendations
-    );
-    await threatModelService.updateStatus(threatModelId, 'completed');
+    await this.recover();
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    console.log(`Generation worker started (concurrency: ${CONCURRENCY})`);
+  }
 
-    generationJobs.set(threatModelId, {
-      status: 'completed',
-      progress: 100,
-      message: 'Threat model generated successfully',
-    });
+  /**
+   * Stop polling for new jobs and abort the ones in flight
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
   }
 
-  private async buildContext(model: any): Promise<string> {
-    const parts: string[] = [];
+  /**
+   * Startup recovery. Any job still marked `processing` was owned by a
+   * process that died, so it is retried (or failed if out of attempts).
+   * Models left in `generating` without an active job get a fresh job with
+   * the options of the one that was interrupted, so a refresh stays a refresh.
+   */
+  private async recover(): Promise<void> {
+    const orphaned = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.status, 'processing'));
+
+    for (const job of orphaned) {
+      if (job.cancelRequested) {
+        await this.finishCancelled(job);
+      } else {
+        await this.handleFailure(job, 'Generation interrupted by a server restart');
+      }
+    }
 
-    // Add title and description
-    parts.push(`# ${model.title}`);
-    if (model.description) {
-      parts.push(`\n## Description\n${model.description}`);
+    const stuckModels = await db
+      .select({
+        id: threatModels.id,
+        userId: threatModels.userId,
+        generationSettings: threatModels.generationSettings,
+      })
+      .from(threatModels)
+      .where(eq(threatModels.status, 'generating'));
+
+    for (const model of stuckModels) {
+      if (!(await this.getActiveJob(model.id))) {
+        const interrupted = await this.getLatestJob(model.id);
+        const options = interrupted?.options ?? { mode: 'full', settings: model.generationSettings ?? undefined };
+        await this.enqueue(model.id, interrupted?.userId ?? model.userId ?? undefined, options);
+      }
     }
 
-    // Add system description
-    if (model.systemDescription) {
-      parts.push(`\n## System Description\n${model.systemDescription}`);
+    if (orphaned.length > 0 || stuckModels.length > 0) {
+      console.log(
+        `Generation recovery: ${orphaned.length} orphaned job(s), ${stuckModels.length} model(s) in generating state`
+      );
     }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
 
-    // Add questionnaire answers
-    if (model.questionsAnswers && model.questionsAnswers.length > 0) {
-      parts.push('\n## Security Questionnaire Responses');
-      for (const qa of model.questionsAnswers as QuestionAnswer[]) {
-        const question = GUIDED_QUESTIONS.find((q) => q.id === qa.questionId);
-        parts.push(`\n### ${question?.question ?? qa.question}`);
-        parts.push(qa.answer);
+    try {
+      while (this.running.size < CONCURRENCY) {
+        const job = await this.claimNext();
+        if (!job) break;
+
+        this.run(job).catch((err) => {
+          console.error(`Generation job ${job.id} crashed:`, err);
+        });
       }
+    } catch (err) {
+      console.error('Generation worker poll failed:', err);
+    } finally {
+      this.ticking = false;
     }
+  }
 
-    // Add extracted text from files
-    if (model.contextFiles && model.contextFiles.length > 0) {
-      parts.push('\n## Uploaded Context Files');
-      for (const file of model.contextFiles) {
-        const extractedText = await fileService.getExtractedText(file.id);
-        if (extractedText) {
-          parts.push(`\n### ${file.originalName} (${file.fileType})`);
-          parts.push(extractedText);
-        }
+  /**
+   * Claim the oldest due job. The status guard in the update makes the claim
+   * safe if another worker got to the same row first.
+   */
+  private async claimNext(): Promise<GenerationJobSelect | null> {
+    const [candidate] = await db
+      .select()
+      .from(generationJobs)
+      .where(
+        and(
+          eq(generationJobs.status, 'queued'),
+          lte(generationJobs.runAfter, new Date())
+        )
+      )
+      .orderBy(asc(generationJobs.runAfter))
+      .limit(1);
+
+    if (!candidate) return null;
+
+    const [claimed] = await db
+      .update(generationJobs)
+      .set({
+        status: 'processing',
+        attempts: candidate.attempts + 1,
+        startedAt: candidate.startedAt ?? new Date(),
+        error: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(generationJobs.id, candidate.id), eq(generationJobs.status, 'queued')))
+      .returning();
+
+    return claimed ?? null;
+  }
+
+  private async run(job: GenerationJobSelect): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    try {
+      await this.reportStep(job, {
+        type: 'started',
+        progress: 5,
+        message: `Starting threat analysis (attempt ${job.attempts} of ${job.maxAttempts})...`,
+      });
+
+      await generateThreatModel(job.threatModelId, {
+        ...job.options,
+        jobId: job.id,
+        signal: controller.signal,
+        onEvent: (event) => this.reportStep(job, event),
+      });
+
+      await this.updateJob(job.id, {
+        status: 'completed',
+        progress: 100,
+        currentStep: 'Threat model generated successfully',
+        completedAt: new Date(),
+      });
+      this.publish(job, { type: 'completed', progress: 100, message: 'Threat model generated successfully' });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.finishCancelled(job);
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Generation job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+        await this.handleFailure(job, message);
       }
+    } finally {
+      this.running.delete(job.id);
     }
 
-    return parts.join('\n');
-  }
-
-  private async generateThreatsWithAI(context: string): Promise<{
-    threats: any[];
-    summary: string;
-    recommendations: string[];
-  }> {
-    const systemPrompt = `You are a senior security architect performing threat modeling using the STRIDE methodology.
-Your task is to analyze the provided system context and identify the TOP 5 most critical security threats.
-
-For each threat, provide:
-1. A clear, concise title
-2. Detailed description of the threat
-3. STRIDE category (Spoofing, Tampering, Repudiation, Information Disclosure, Denial of Service, Elevation of Privilege)
-4. Likelihood (1-5 scale)
-5. Impact (1-5 scale)
-6. Affected components
-7. Attack vector description
-8. 2-3 specific, actionable mitigations
-
-Focus on the most impactful and realistic threats based on the system description.
-
-Respond in JSON format with the following structure:
-{
-  "summary": "Executive summary of the threat landscape",
-  "threats": [
-    {
-      "title": "Threat title",
-      "description": "Detailed description",
-      "category": "spoofing|tampering|repudiation|information_disclosure|denial_of_service|elevation_of_privilege",
-      "likelihood": 1-5,
-      "impact": 1-5,
-      "affectedComponents": ["component1", "component2"],
-      "attackVector": "Description of how the attack would be carried out",
-      "mitigations": [
-        {
-          "description": "Specific mitigation action",
-          "priority": "immediate|short_term|long_term",
-          "effort": "low|medium|high"
-        }
-      ]
+    // A slot just freed up
+    this.tick();
+  }
+
+  /**
+   * Re-queue a failed job with exponential backoff, or mark it (and its
+   * threat model) as failed once attempts are exhausted
+   */
+  private async handleFailure(job: GenerationJobSelect, message: string): Promise<void> {
+    if (job.attempts < job.maxAttempts) {
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0), RETRY_MAX_DELAY_MS);
+      const currentStep = `Attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s...`;
+      await this.updateJob(job.id, {
+        status: 'queued',
+        error: message,
+        currentStep,
+        runAfter: new Date(Date.now() + delay),
+      });
+      this.publish(job, { type: 'retrying', progress: 0, message: currentStep, error: message });
+      return;
     }
-  ],
-  "recommendations": ["General security recommendation 1", "General security recommendation 2"]
-}`;
-
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: `Please analyze the following system and generate a threat model:\n\n${context}`,
-        },
-      ],
-      system: systemPrompt,
+
+    await this.updateJob(job.id, {
+      status: 'failed',
+      error: message,
+      currentStep: null,
+      completedAt: new Date(),
     });
 
-    // Extract text content
-    const textContent = response.content.find((c) => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text response from AI');
-    }
+    await db
+      .update(threatModels)
+      .set({
+        status: 'failed',
+        generationError: message,
+        updatedAt: new Date(),
+      })
+      .where(eq(threatModels.id, job.threatModelId));
 
-    // Parse JSON response
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Could not parse AI response as JSON');
-    }
+    await this.refund(job);
+    this.publish(job, { type: 'failed', progress: 0, message: 'Generation failed', error: message });
+  }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    // Transform and enrich threats
-    const threats = parsed.threats.map((t: any, index: number) => {
-      const riskScore = calculateRiskScore(t.likelihood, t.impact);
-      return {
-        id: nanoid(),
-        title: t.title,
-        description: t.description,
-        category: t.category,
-        severity: getRiskSeverityFromScore(riskScore),
-        likelihood: t.likelihood,
-        impact: t.impact,
-        riskScore,
-        affectedComponents: t.affectedComponents ?? [],
-        attackVector: t.attackVector,
-        mitigations: (t.mitigations ?? []).map((m: any) => ({
-          id: nanoid(),
-          description: m.description,
-          priority: m.priority ?? 'short_term',
-          effort: m.effort ?? 'medium',
-          status: 'proposed',
-        })),
-      };
+  /**
+   * Mark a job cancelled and return its threat model to the state it was in
+   * before generation started
+   */
+  private async finishCancelled(job: GenerationJobSelect): Promise<GenerationJobSelect> {
+    const updated = await this.updateJob(job.id, {
+      status: 'cancelled',
+      currentStep: 'Generation cancelled',
+      completedAt: new Date(),
     });
 
-    // Sort by risk score descending and take top 5
-    threats.sort((a: any, b: any) => b.riskScore - a.riskScore);
-    const top5 = threats.slice(0, 5);
+    const [model] = await db
+      .select({ threats: threatModels.threats })
+      .from(threatModels)
+      .where(eq(threatModels.id, job.threatModelId));
+
+    if (model) {
+      await db
+        .update(threatModels)
+        .set({
+          status: model.threats && model.threats.length > 0 ? 'completed' : 'draft',
+          generationError: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(threatModels.id, job.threatModelId));
+    }
 
-    return {
-      threats: top5,
-      summary: parsed.summary ?? '',
-      recommendations: parsed.recommendations ?? [],
-    };
+    await this.refund(job);
+    this.publish(job, { type: 'cancelled', progress: 0, message: 'Generation cancelled' });
+
+    return updated ?? job;
+  }
+
+  /**
+   * Hand back the quota of a generation that produced nothing
+   */
+  private async refund(job: GenerationJobSelect): Promise<void> {
+    if (!job.chargedUserId) return;
+
+    await quotaService.refundGeneration(
+      { userId: job.chargedUserId, organizationId: job.chargedOrganizationId },
+      job.createdAt
+    );
+  }
+
+  /**
+   * Record a pipeline step on the job row and broadcast it
+   */
+  private async reportStep(
+    job: GenerationJobSelect,
+    event: Omit<GenerationEvent, 'jobId' | 'timestamp'>
+  ): Promise<void> {
+    await this.updateJob(job.id, { progress: event.progress, currentStep: event.message });
+    this.publish(job, event);
+  }
+
+  private publish(job: GenerationJobSelect, event: Omit<GenerationEvent, 'jobId' | 'timestamp'>): void {
+    publishGenerationEvent(job.threatModelId, {
+      ...event,
+      jobId: job.id,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private async updateJob(
+    jobId: string,
+    values: Partial<Omit<GenerationJobSelect, 'id' | 'threatModelId' | 'createdAt'>>
+  ): Promise<GenerationJobSelect | undefined> {
+    const [job] = await db
+      .update(generationJobs)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(generationJobs.id, jobId))
+      .returning();
+
+    return job;
   }
 }
 
@@ -0,0 +1,62 @@
+import { CATEGORY_LABELS, METHODOLOGIES, type Methodology } from '@threat-modeling/shared';
+
+/**
+ * Methodology Prompt Templates
+ *
+ * The parts of the generation prompt that depend on the threat model's
+ * methodology. Taxonomies and labels live in the shared package so the UI and
+ * exports use the same ones; adding a methodology means adding it there and a
+ * template here.
+ */
+
+export interface MethodologyPrompt {
+  /** Who the LLM is and which methodology it applies */
+  role: string;
+  /** How each threat is classified; the category labels are appended */
+  classification: string;
+  /** Methodology-specific direction for the analysis */
+  guidance?: string;
+}
+
+const METHODOLOGY_PROMPTS: Record<Methodology, MethodologyPrompt> = {
+  stride: {
+    role: 'You are a senior security architect performing threat modeling using the STRIDE methodology.',
+    classification: 'Classify using STRIDE categories',
+  },
+  linddun: {
+    role: 'You are a senior privacy engineer performing privacy threat modeling using the LINDDUN methodology.',
+    classification: 'Classify using LINDDUN privacy threat categories',
+    guidance:
+      'Follow the personal data through the system: what is collected and from whom, where it is stored, who it is shared with, and how it could be linked to or reveal an individual. Treat "attack vector" as the way the privacy harm occurs, and prefer privacy-enhancing mitigations such as data minimisation, pseudonymisation, consent and transparency.',
+  },
+  pasta: {
+    role: 'You are a senior security architect performing risk-centric threat modeling using PASTA (Process for Attack Simulation and Threat Analysis).',
+    classification: 'Classify by the PASTA stage that surfaces the threat',
+    guidance:
+      'Work through the seven stages: define the business objectives and technical scope, decompose the application, then analyze threats and vulnerabilities and model how a realistic attacker would chain them. Write each attack vector as an attack scenario and weigh impact in business terms.',
+  },
+  owasp_top10: {
+    role: 'You are a senior application security engineer assessing a web application against the OWASP Top 10 (2021).',
+    classification: 'Classify by the OWASP Top 10 risk the threat falls under',
+    guidance:
+      'Map each threat to the single most specific OWASP Top 10 risk and point to the concrete weakness (the endpoint, query, dependency or configuration) rather than restating the category.',
+  },
+  owasp_api_top10: {
+    role: 'You are a senior API security engineer assessing an API against the OWASP API Security Top 10 (2023).',
+    classification: 'Classify by the OWASP API Security Top 10 risk the threat falls under',
+    guidance:
+      'Concentrate on the API surface: endpoints and object identifiers, authorization at the object, property and function level, authentication flows, rate and resource limits, and the third-party APIs the system consumes.',
+  },
+};
+
+export function getMethodologyPrompt(methodology: Methodology): MethodologyPrompt {
+  return METHODOLOGY_PROMPTS[methodology];
+}
+
+/**
+ * The classification step for the prompt, listing the methodology's category labels
+ */
+export function buildClassificationStep(methodology: Methodology): string {
+  const labels = METHODOLOGIES[methodology].categories.map((category) => CATEGORY_LABELS[category]);
+  return `${METHODOLOGY_PROMPTS[methodology].classification} (${labels.join(', ')})`;
+}
@@ -0,0 +1,190 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { createClerkClient } from '@clerk/backend';
+import { db, organizations, organizationMembers } from '../db';
+import type { OrganizationMemberSelect, ThreatModelSelect } from '../db/schema';
+import {
+  PERSONAL_ORGANIZATION_ID,
+  type Organization,
+  type OrganizationMember,
+  type OrganizationRole,
+} from '@threat-modeling/shared';
+
+/**
+ * Organizations
+ *
+ * Threat models either belong to their creator alone (organization
+ * `PERSONAL_ORGANIZATION_ID`) or to an organization, where every member can
+ * reach them with the access of their role:
+ *
+ * - viewer: read models, exports and revisions
+ * - reviewer: also triage and comment on threats and mitigations
+ * - editor: also create, edit, generate and share models
+ * - owner: also delete models and manage members
+ *
+ * Access to an organization's models comes from membership alone, so removing
+ * someone also removes their access to the models they created there.
+ */
+
+function toMember(row: OrganizationMemberSelect): OrganizationMember {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    userId: row.userId,
+    email: row.email,
+    role: row.role,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export class OrganizationService {
+  /**
+   * Organizations the user is a member of, with their role in each
+   */
+  async listForUser(userId: string): Promise<Organization[]> {
+    const rows = await db
+      .select({
+        id: organizations.id,
+        name: organizations.name,
+        role: organizationMembers.role,
+        createdAt: organizations.createdAt,
+        memberCount: sql<number>`(select count(*) from organization_members m where m.organization_id = ${organizations.id})`,
+      })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(organizations.name);
+
+    return rows.map((row) => ({
+      ...row,
+      memberCount: Number(row.memberCount),
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Create an organization with its creator as the first owner
+   */
+  async create(name: string, userId: string): Promise<Organization> {
+    const [organization] = await db.insert(organizations).values({ name, createdBy: userId }).returning();
+    await db.insert(organizationMembers).values({
+      organizationId: organization.id,
+      userId,
+      role: 'owner',
+      addedBy: userId,
+    });
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      role: 'owner',
+      memberCount: 1,
+      createdAt: organization.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * The user's role in an organization, or null if they aren't a member
+   */
+  async getRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const [member] = await db
+      .select({ role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+
+    return member?.role ?? null;
+  }
+
+  /**
+   * Roles the user holds, keyed by organization ID
+   */
+  async getRoles(userId: string): Promise<Map<string, OrganizationRole>> {
+    const rows = await db
+      .select({ organizationId: organizationMembers.organizationId, role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId));
+
+    return new Map(rows.map((row) => [row.organizationId, row.role]));
+  }
+
+  /**
+   * The user's role on a threat model, or null if they can't see it
+   */
+  async getModelRole(
+    model: Pick<ThreatModelSelect, 'organizationId' | 'userId'>,
+    userId: string
+  ): Promise<OrganizationRole | null> {
+    if (model.organizationId === PERSONAL_ORGANIZATION_ID) {
+      return model.userId === userId ? 'owner' : null;
+    }
+    return this.getRole(model.organizationId, userId);
+  }
+
+  async listMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const rows = await db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+
+    return rows.map(toMember);
+  }
+
+  async getMember(organizationId: string, memberId: string): Promise<OrganizationMember | null> {
+    const [row] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.id, memberId)));
+
+    return row ? toMember(row) : null;
+  }
+
+  /**
+   * Clerk user ID of whoever signed up with the email, if anyone did
+   */
+  async findUserIdByEmail(email: string): Promise<string | null> {
+    const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+    const { data } = await clerk.users.getUserList({ emailAddress: [email], limit: 1 });
+    return data[0]?.id ?? null;
+  }
+
+  async addMember(
+    organizationId: string,
+    member: { userId: string; email?: string; role: OrganizationRole },
+    addedBy: string
+  ): Promise<OrganizationMember> {
+    const [row] = await db
+      .insert(organizationMembers)
+      .values({ organizationId, ...member, email: member.email ?? null, addedBy })
+      .returning();
+
+    return toMember(row);
+  }
+
+  async updateMemberRole(memberId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const [row] = await db
+      .update(organizationMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(organizationMembers.id, memberId))
+      .returning();
+
+    return toMember(row);
+  }
+
+  async removeMember(memberId: string): Promise<void> {
+    await db.delete(organizationMembers).where(eq(organizationMembers.id, memberId));
+  }
+
+  /**
+   * Number of owners - an organization must always keep at least one
+   */
+  async countOwners(organizationId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.role, 'owner')));
+
+    return Number(result?.count ?? 0);
+  }
+}
+
+export const organizationService = new OrganizationService();
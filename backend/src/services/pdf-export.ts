@@ -1,8 +1,12 @@
 import PDFDocument from 'pdfkit';
 import type { ThreatModelSelect, ContextFileSelect } from '../db/schema';
+import { getDefaultStorageProvider } from '../storage';
+import { renderComponentGraph } from './component-graph';
 import {
   SEVERITY_COLORS,
   CATEGORY_LABELS,
+  METHODOLOGIES,
+  buildComponentGraphMermaid,
   type RiskSeverity,
   type RiskCategory,
 } from '@threat-modeling/shared';
@@ -27,6 +31,17 @@ interface Threat {
   }[];
 }
 
+/**
+ * Threat counts for every category in the model's methodology, including
+ * categories no threat fell into
+ */
+function categoryCoverage(model: ThreatModelSelect, threats: Threat[]): Array<{ label: string; count: number }> {
+  return METHODOLOGIES[model.methodology].categories.map((category) => ({
+    label: CATEGORY_LABELS[category],
+    count: threats.filter((t) => t.category === category).length,
+  }));
+}
+
 export function generateMarkdownReport(
   model: ThreatModelSelect,
   files: ContextFileSelect[]
@@ -39,8 +54,11 @@ export function generateMarkdownReport(
     category?: string;
   }>;
 
+  const methodology = METHODOLOGIES[model.methodology];
+
   let md = `# Threat Model Report: ${model.title}\n\n`;
   md += `**Generated:** ${new Date().toISOString()}\n`;
+  md += `**Methodology:** ${methodology.label}\n`;
   md += `**Status:** ${model.status}\n\n`;
 
   if (model.description) {
@@ -53,18 +71,33 @@ export function generateMarkdownReport(
 
   // Threat Summary Table
   md += `## Threat Summary\n\n`;
-  md += `| # | Threat | Category | Severity | Risk Score |\n`;
+  md += `| # | Threat | ${methodology.categoryLabel} | Severity | Risk Score |\n`;
   md += `|---|--------|----------|----------|------------|\n`;
   threats.forEach((threat, i) => {
     md += `| ${i + 1} | ${threat.title} | ${CATEGORY_LABELS[threat.category] || threat.category} | ${threat.severity.toUpperCase()} | ${threat.riskScore}/25 |\n`;
   });
   md += '\n';
 
+  // Coverage across the methodology's taxonomy
+  md += `## ${methodology.label} Coverage\n\n`;
+  md += `| ${methodology.categoryLabel} | Threats |\n`;
+  md += `|----------|---------|\n`;
+  categoryCoverage(model, threats).forEach(({ label, count }) => {
+    md += `| ${label} | ${count} |\n`;
+  });
+  md += '\n';
+
+  // System diagram generated with the threats, as Mermaid
+  if (model.componentGraph) {
+    md += `## System Diagram\n\n`;
+    md += '```mermaid\n' + buildComponentGraphMermaid(model.componentGraph, threats) + '\n```\n\n';
+  }
+
   // Detailed Threats
   md += `## Detailed Threat Analysis\n\n`;
   threats.forEach((threat, i) => {
     md += `### ${i + 1}. ${threat.title}\n\n`;
-    md += `**Category:** ${CATEGORY_LABELS[threat.category] || threat.category}\n`;
+    md += `**${methodology.categoryLabel}:** ${CATEGORY_LABELS[threat.category] || threat.category}\n`;
     md += `**Severity:** ${threat.severity.toUpperCase()}\n`;
     md += `**Likelihood:** ${threat.likelihood}/5 | **Impact:** ${threat.impact}/5 | **Risk Score:** ${threat.riskScore}/25\n\n`;
     md += `**Description:**\n${threat.description}\n\n`;
@@ -133,11 +166,13 @@ export function generateJsonExport(
     title: model.title,
     description: model.description,
     status: model.status,
+    methodology: model.methodology,
     systemDescription: model.systemDescription,
     questionsAnswers: model.questionsAnswers,
     threats: model.threats,
     summary: model.summary,
     recommendations: model.recommendations,
+    componentGraph: model.componentGraph,
     contextFiles: files.map((f) => ({
       id: f.id,
       filename: f.originalName,
@@ -159,6 +194,21 @@ export async function generatePdfReport(
     answer: string;
     category?: string;
   }>;
+  const methodology = METHODOLOGIES[model.methodology];
+
+  // PNGs rendered from uploaded Mermaid, PlantUML and draw.io sources
+  const storage = getDefaultStorageProvider();
+  const diagrams: Array<{ name: string; image: Buffer }> = [];
+  for (const file of files) {
+    if (!file.renderedDiagramPath) continue;
+    try {
+      diagrams.push({ name: file.originalName, image: await storage.get(file.renderedDiagramPath) });
+    } catch (error) {
+      console.warn(`Could not load the rendered diagram for "${file.originalName}":`, error);
+    }
+  }
+
+  const componentGraph = model.componentGraph ? renderComponentGraph(model.componentGraph, threats) : null;
 
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
@@ -176,6 +226,7 @@ export async function generatePdfReport(
     // Metadata
     doc.fontSize(10).fillColor('#666')
       .text(`Generated: ${new Date().toLocaleDateString()}`)
+      .text(`Methodology: ${methodology.label}`)
       .text(`Status: ${model.status}`)
       .fillColor('#000');
     doc.moveDown();
@@ -213,10 +264,32 @@ export async function generatePdfReport(
         .font('Helvetica').fillColor(color)
         .text(` [${threat.severity.toUpperCase()}]`, { continued: false })
         .fillColor('#000');
-      doc.fontSize(10).text(`   Risk Score: ${threat.riskScore}/25 | Category: ${CATEGORY_LABELS[threat.category] || threat.category}`);
+      doc.fontSize(10).text(`   Risk Score: ${threat.riskScore}/25 | ${methodology.categoryLabel}: ${CATEGORY_LABELS[threat.category] || threat.category}`);
+    });
+    doc.moveDown();
+
+    // Coverage across the methodology's taxonomy
+    if (doc.y > 550) doc.addPage();
+    doc.fontSize(14).font('Helvetica-Bold').text(`${methodology.label} Coverage`);
+    doc.moveDown(0.5);
+    categoryCoverage(model, threats).forEach(({ label, count }) => {
+      doc.fontSize(10).font('Helvetica').fillColor(count > 0 ? '#000' : '#999')
+        .text(`${label}: ${count} ${count === 1 ? 'threat' : 'threats'}`);
     });
+    doc.fillColor('#000');
     doc.moveDown();
 
+    // System Diagram, generated with the threats
+    if (componentGraph) {
+      doc.addPage();
+      doc.fontSize(14).font('Helvetica-Bold').text('System Diagram');
+      doc.fontSize(9).font('Helvetica').fillColor('#666')
+        .text('Components and data flows identified in the analysis. Badges number the threats affecting each component, as listed in the Threat Summary.')
+        .fillColor('#000');
+      doc.moveDown(0.5);
+      doc.image(componentGraph, { fit: [500, 620 - doc.y], align: 'center' });
+    }
+
     // Detailed Threats
     doc.addPage();
     doc.fontSize(18).font('Helvetica-Bold').text('Detailed Threat Analysis');
@@ -235,6 +308,9 @@ export async function generatePdfReport(
         .text(`Severity: ${threat.severity.toUpperCase()}`, { continued: true })
         .fillColor('#000').font('Helvetica')
         .text(` | Likelihood: ${threat.likelihood}/5 | Impact: ${threat.impact}/5 | Risk: ${threat.riskScore}/25`);
+      doc.fontSize(10).fillColor('#666')
+        .text(`${methodology.categoryLabel}: ${CATEGORY_LABELS[threat.category] || threat.category}`)
+        .fillColor('#000');
 
       doc.moveDown(0.3);
       doc.fontSize(10).text(threat.description);
@@ -288,6 +364,18 @@ export async function generatePdfReport(
       }
     }
 
+    // Architecture Diagrams, one per page
+    diagrams.forEach(({ name, image }, i) => {
+      doc.addPage();
+      if (i === 0) {
+        doc.fontSize(14).font('Helvetica-Bold').text('Architecture Diagrams');
+        doc.moveDown(0.5);
+      }
+      doc.fontSize(11).font('Helvetica-Bold').text(name);
+      doc.moveDown(0.5);
+      doc.image(image, { fit: [500, 620 - doc.y], align: 'center' });
+    });
+
     // Footer
     doc.fontSize(8).fillColor('#999')
       .text('Generated by Threat Modeling Dashboard', 50, 750, { align: 'center' });
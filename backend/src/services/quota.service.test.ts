@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db, userUsage } from '../db';
+import { getBillingPeriod, quotaService } from './quota.service';
+
+const newId = () => crypto.randomUUID();
+
+describe('QuotaService', () => {
+  test('counts generations until the user limit is reached', async () => {
+    const userId = newId();
+    await quotaService.updateUserQuota(userId, { generationsLimit: 2 }, 'admin');
+
+    expect((await quotaService.consumeGeneration(userId, null)).allowed).toBe(true);
+    expect((await quotaService.consumeGeneration(userId, null)).allowed).toBe(true);
+
+    const check = await quotaService.consumeGeneration(userId, null);
+    expect(check).toMatchObject({ allowed: false, exceeded: { scope: 'user', generationsUsed: 2, remaining: 0 } });
+  });
+
+  test('only counts personal generations against the user', async () => {
+    const [first, second] = [newId(), newId()];
+
+    const check = await quotaService.consumeGeneration(first, null);
+    await quotaService.consumeGeneration(second, null);
+
+    expect(check).toMatchObject({ allowed: true, organization: null });
+    expect((await quotaService.getUserQuota(first)).generationsUsed).toBe(1);
+    expect((await quotaService.getUserQuota(second)).generationsUsed).toBe(1);
+  });
+
+  test("gives the user's generation back when the organization is out", async () => {
+    const [userId, organizationId] = [newId(), newId()];
+    await quotaService.updateOrganizationQuota(organizationId, { generationsLimit: 1, generationsUsed: 1 }, 'admin');
+
+    const check = await quotaService.consumeGeneration(userId, organizationId);
+
+    expect(check).toMatchObject({ allowed: false, exceeded: { scope: 'organization', subjectId: organizationId } });
+    expect((await quotaService.getUserQuota(userId)).generationsUsed).toBe(0);
+  });
+
+  test('refunds a generation from the current period only', async () => {
+    const [userId, organizationId] = [newId(), newId()];
+    await quotaService.consumeGeneration(userId, organizationId);
+    await quotaService.consumeGeneration(userId, organizationId);
+
+    await quotaService.refundGeneration({ userId, organizationId }, new Date());
+    const lastMonth = new Date(getBillingPeriod().start.getTime() - 1);
+    await quotaService.refundGeneration({ userId, organizationId }, lastMonth);
+
+    expect((await quotaService.getUserQuota(userId)).generationsUsed).toBe(1);
+    expect((await quotaService.getOrganizationQuota(organizationId)).generationsUsed).toBe(1);
+  });
+
+  test('resets the count when a new month starts', async () => {
+    const userId = newId();
+    await quotaService.consumeGeneration(userId, null);
+    await db
+      .update(userUsage)
+      .set({ periodStart: new Date(Date.UTC(2020, 0, 1)) })
+      .where(eq(userUsage.userId, userId));
+
+    expect(await quotaService.getUserQuota(userId)).toMatchObject({ generationsUsed: 0 });
+  });
+});
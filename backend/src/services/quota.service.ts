@@ -0,0 +1,329 @@
+import { and, desc, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import { db, userUsage, organizationUsage, quotaChanges } from '../db';
+import type { OrganizationUsageSelect, QuotaChangeInsert, UserUsageSelect } from '../db/schema';
+import type { Quota, QuotaChange, QuotaScope, UpdateQuotaRequest } from '@threat-modeling/shared';
+
+/**
+ * Generation Quotas
+ *
+ * Every generation request - including regenerations - counts against the
+ * requesting user's quota and, for models that belong to an organization, the
+ * organization's quota. Personal models only count against the user. A
+ * generation that fails or is cancelled is handed back. Counts reset at the
+ * start of each calendar month (UTC). Limits come from the environment
+ * defaults when a quota is first seen and can be changed per user or
+ * organization through the admin API, which records who changed what.
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// A limit of 0 blocks generation entirely; leave the org limit unset for no cap
+const DEFAULT_USER_LIMIT = parseLimit(process.env.GENERATION_LIMIT_PER_USER, 5);
+const DEFAULT_ORGANIZATION_LIMIT = parseLimit(process.env.GENERATION_LIMIT_PER_ORGANIZATION, null);
+
+function parseLimit(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value === '') return fallback;
+  if (value === 'unlimited') return null;
+  return parseInt(value);
+}
+
+// Older changes are still stored, just not returned
+const CHANGE_LOG_LIMIT = 200;
+
+type UsageRow = UserUsageSelect | OrganizationUsageSelect;
+
+// Who a generation was counted against
+export interface QuotaCharge {
+  userId: string;
+  organizationId: string | null;
+}
+
+export type QuotaCheck =
+  | { allowed: true; user: Quota; organization: Quota | null }
+  | { allowed: false; exceeded: Quota };
+
+/**
+ * Billing period containing `now`: the current calendar month in UTC
+ */
+export function getBillingPeriod(now = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+function toQuota(scope: QuotaScope, subjectId: string, row: UsageRow): Quota {
+  const period = getBillingPeriod(row.periodStart ?? undefined);
+  return {
+    scope,
+    subjectId,
+    generationsUsed: row.generationsUsed,
+    generationsLimit: row.generationsLimit,
+    remaining:
+      row.generationsLimit === null ? null : Math.max(0, row.generationsLimit - row.generationsUsed),
+    periodStart: period.start.toISOString(),
+    resetsAt: period.end.toISOString(),
+  };
+}
+
+function quotaChange(
+  scope: QuotaScope,
+  subjectId: string,
+  changedBy: string,
+  previous: UsageRow,
+  updated: UsageRow
+): QuotaChangeInsert {
+  return {
+    scope,
+    subjectId,
+    changedBy,
+    previousLimit: previous.generationsLimit,
+    newLimit: updated.generationsLimit,
+    previousUsed: previous.generationsUsed,
+    newUsed: updated.generationsUsed,
+  };
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+export class QuotaService {
+  /**
+   * Get a user's quota for the current period, creating it on first use
+   */
+  async getUserQuota(userId: string): Promise<Quota> {
+    return toQuota('user', userId, await this.getUserRow(userId));
+  }
+
+  /**
+   * Get an organization's quota for the current period, creating it on first use
+   */
+  async getOrganizationQuota(organizationId: string): Promise<Quota> {
+    return toQuota('organization', organizationId, await this.getOrganizationRow(organizationId));
+  }
+
+  /**
+   * Count one generation against the user and organization quotas. Nothing is
+   * counted unless both have room. Pass no organization for personal models.
+   */
+  async consumeGeneration(userId: string, organizationId: string | null): Promise<QuotaCheck> {
+    await this.getUserRow(userId);
+
+    // Conditional increments so concurrent requests can't overshoot a limit
+    const [user] = await db
+      .update(userUsage)
+      .set({ generationsUsed: sql`${userUsage.generationsUsed} + 1`, updatedAt: new Date() })
+      .where(
+        and(
+          eq(userUsage.userId, userId),
+          or(isNull(userUsage.generationsLimit), lt(userUsage.generationsUsed, userUsage.generationsLimit))
+        )
+      )
+      .returning();
+
+    if (!user) {
+      return { allowed: false, exceeded: await this.getUserQuota(userId) };
+    }
+
+    if (!organizationId) {
+      return { allowed: true, user: toQuota('user', userId, user), organization: null };
+    }
+
+    await this.getOrganizationRow(organizationId);
+    const [organization] = await db
+      .update(organizationUsage)
+      .set({ generationsUsed: sql`${organizationUsage.generationsUsed} + 1`, updatedAt: new Date() })
+      .where(
+        and(
+          eq(organizationUsage.organizationId, organizationId),
+          or(
+            isNull(organizationUsage.generationsLimit),
+            lt(organizationUsage.generationsUsed, organizationUsage.generationsLimit)
+          )
+        )
+      )
+      .returning();
+
+    if (!organization) {
+      // Give the user's generation back
+      await db
+        .update(userUsage)
+        .set({ generationsUsed: sql`${userUsage.generationsUsed} - 1`, updatedAt: new Date() })
+        .where(eq(userUsage.userId, userId));
+
+      return { allowed: false, exceeded: await this.getOrganizationQuota(organizationId) };
+    }
+
+    return {
+      allowed: true,
+      user: toQuota('user', userId, user),
+      organization: toQuota('organization', organizationId, organization),
+    };
+  }
+
+  /**
+   * Hand back a generation counted at `chargedAt`. A count from an earlier
+   * period has already been reset, so there is nothing to give back.
+   */
+  async refundGeneration({ userId, organizationId }: QuotaCharge, chargedAt: Date): Promise<void> {
+    const { start } = getBillingPeriod(chargedAt);
+
+    await db
+      .update(userUsage)
+      .set({ generationsUsed: sql`${userUsage.generationsUsed} - 1`, updatedAt: new Date() })
+      .where(and(eq(userUsage.userId, userId), eq(userUsage.periodStart, start), gt(userUsage.generationsUsed, 0)));
+
+    if (organizationId) {
+      await db
+        .update(organizationUsage)
+        .set({ generationsUsed: sql`${organizationUsage.generationsUsed} - 1`, updatedAt: new Date() })
+        .where(
+          and(
+            eq(organizationUsage.organizationId, organizationId),
+            eq(organizationUsage.periodStart, start),
+            gt(organizationUsage.generationsUsed, 0)
+          )
+        );
+    }
+  }
+
+  /**
+   * Admin override of a user's limit or usage for the current period. The
+   * change is recorded in the same transaction, with the values it replaced.
+   */
+  async updateUserQuota(userId: string, update: UpdateQuotaRequest, changedBy: string): Promise<Quota> {
+    await this.getUserRow(userId);
+
+    const row = db.transaction((tx) => {
+      const previous = tx.select().from(userUsage).where(eq(userUsage.userId, userId)).get()!;
+      const updated = tx
+        .update(userUsage)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(userUsage.userId, userId))
+        .returning()
+        .get()!;
+
+      tx.insert(quotaChanges).values(quotaChange('user', userId, changedBy, previous, updated)).run();
+      return updated;
+    });
+
+    return toQuota('user', userId, row);
+  }
+
+  /**
+   * Admin override of an organization's limit or usage for the current
+   * period, recorded like user changes
+   */
+  async updateOrganizationQuota(
+    organizationId: string,
+    update: UpdateQuotaRequest,
+    changedBy: string
+  ): Promise<Quota> {
+    await this.getOrganizationRow(organizationId);
+
+    const row = db.transaction((tx) => {
+      const previous = tx
+        .select()
+        .from(organizationUsage)
+        .where(eq(organizationUsage.organizationId, organizationId))
+        .get()!;
+      const updated = tx
+        .update(organizationUsage)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(organizationUsage.organizationId, organizationId))
+        .returning()
+        .get()!;
+
+      tx.insert(quotaChanges)
+        .values(quotaChange('organization', organizationId, changedBy, previous, updated))
+        .run();
+      return updated;
+    });
+
+    return toQuota('organization', organizationId, row);
+  }
+
+  /**
+   * Admin changes to a user's or organization's quota, newest first
+   */
+  async listChanges(scope: QuotaScope, subjectId: string): Promise<QuotaChange[]> {
+    const rows = await db
+      .select()
+      .from(quotaChanges)
+      .where(and(eq(quotaChanges.scope, scope), eq(quotaChanges.subjectId, subjectId)))
+      .orderBy(desc(quotaChanges.createdAt))
+      .limit(CHANGE_LOG_LIMIT);
+
+    return rows.map((row) => ({
+      id: row.id,
+      scope: row.scope,
+      subjectId: row.subjectId,
+      changedBy: row.changedBy,
+      previousLimit: row.previousLimit,
+      newLimit: row.newLimit,
+      previousUsed: row.previousUsed,
+      newUsed: row.newUsed,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  private async getUserRow(userId: string): Promise<UserUsageSelect> {
+    const { start } = getBillingPeriod();
+
+    let [row] = await db.select().from(userUsage).where(eq(userUsage.userId, userId));
+
+    if (!row) {
+      [row] = await db
+        .insert(userUsage)
+        .values({ userId, generationsUsed: 0, generationsLimit: DEFAULT_USER_LIMIT, periodStart: start })
+        .onConflictDoNothing()
+        .returning();
+      if (!row) return this.getUserRow(userId);
+    } else if (!row.periodStart || row.periodStart < start) {
+      // A new month has started - reset the count, keep the limit
+      [row] = await db
+        .update(userUsage)
+        .set({ generationsUsed: 0, periodStart: start, updatedAt: new Date() })
+        .where(eq(userUsage.userId, userId))
+        .returning();
+    }
+
+    return row;
+  }
+
+  private async getOrganizationRow(organizationId: string): Promise<OrganizationUsageSelect> {
+    const { start } = getBillingPeriod();
+
+    let [row] = await db
+      .select()
+      .from(organizationUsage)
+      .where(eq(organizationUsage.organizationId, organizationId));
+
+    if (!row) {
+      [row] = await db
+        .insert(organizationUsage)
+        .values({
+          organizationId,
+          generationsUsed: 0,
+          generationsLimit: DEFAULT_ORGANIZATION_LIMIT,
+          periodStart: start,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!row) return this.getOrganizationRow(organizationId);
+    } else if (!row.periodStart || row.periodStart < start) {
+      [row] = await db
+        .update(organizationUsage)
+        .set({ generationsUsed: 0, periodStart: start, updatedAt: new Date() })
+        .where(eq(organizationUsage.organizationId, organizationId))
+        .returning();
+    }
+
+    return row;
+  }
+}
+
+export const quotaService = new QuotaService();
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import type { Threat } from '@threat-modeling/shared';
+import { db, threatModels } from '../db';
+import { createModel } from '../test/helpers';
+import { diffRevisions, revisionService } from './revision.service';
+
+const threat = (id: string, overrides: Partial<Threat> = {}): Threat => ({
+  id,
+  title: `Threat ${id}`,
+  description: 'An attacker forges session tokens',
+  category: 'spoofing',
+  severity: 'high',
+  likelihood: 3,
+  impact: 4,
+  riskScore: 12,
+  affectedComponents: ['API'],
+  mitigations: [{ id: `${id}-m1`, description: 'Rotate keys', priority: 'immediate', effort: 'low', status: 'proposed' }],
+  ...overrides,
+});
+
+const generated = (threats: Threat[]) => ({
+  source: 'generation' as const,
+  provider: 'mock',
+  model: 'mock-threat-model',
+  threats,
+  summary: 'Summary',
+  recommendations: ['Rotate keys'],
+});
+
+describe('RevisionService', () => {
+  test('numbers concurrent revisions without gaps or repeats', async () => {
+    const model = await createModel();
+
+    await Promise.all(Array.from({ length: 5 }, () => revisionService.create(model.id, generated([]))));
+
+    const numbers = (await revisionService.list(model.id)).map((r) => r.revisionNumber);
+    expect(numbers).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  test('diffs revisions threat by threat', async () => {
+    const model = await createModel();
+    const first = await revisionService.create(model.id, generated([threat('a'), threat('b')]));
+    const second = await revisionService.create(model.id, {
+      ...generated([threat('a', { severity: 'critical' }), threat('c', { title: 'Webhook forgery' })]),
+      recommendations: ['Verify signatures'],
+    });
+
+    const diff = diffRevisions(
+      (await revisionService.get(model.id, first.id))!,
+      (await revisionService.get(model.id, second.id))!
+    );
+
+    expect(diff.threats.map((t) => [t.title, t.status])).toEqual([
+      ['Threat a', 'changed'],
+      ['Threat b', 'removed'],
+      ['Webhook forgery', 'added'],
+    ]);
+    expect(diff.threats[0].changes).toEqual([{ field: 'severity', before: 'high', after: 'critical' }]);
+    expect(diff.recommendationsAdded).toEqual(['Verify signatures']);
+    expect(diff.recommendationsRemoved).toEqual(['Rotate keys']);
+    expect(diff.summaryChanged).toBe(false);
+  });
+
+  test('keeps unsaved edits when restoring an earlier revision', async () => {
+    const model = await createModel();
+    const original = await revisionService.create(model.id, generated([threat('a')]));
+    const latest = await revisionService.create(model.id, generated([threat('b')]));
+    await db
+      .update(threatModels)
+      .set({ threats: [threat('b', { title: 'Edited by hand' })], summary: 'Summary', currentRevisionId: latest.id })
+      .where(eq(threatModels.id, model.id));
+
+    const restored = await revisionService.restore(model.id, original.id, 'reviewer');
+
+    expect(restored).toMatchObject({ revisionNumber: 4, source: 'restore', restoredFromId: original.id, isCurrent: true });
+    const history = await revisionService.list(model.id);
+    expect(history.map((r) => r.source)).toEqual(['restore', 'manual', 'generation', 'generation']);
+    const edits = await revisionService.get(model.id, history[1].id);
+    expect(edits!.threats[0].title).toBe('Edited by hand');
+
+    const [current] = await db.select().from(threatModels).where(eq(threatModels.id, model.id));
+    expect(current.threats!.map((t) => t.id)).toEqual(['a']);
+    expect(current.currentRevisionId).toBe(restored!.id);
+  });
+
+  test("doesn't capture a working copy that matches its revision", async () => {
+    const model = await createModel();
+    const revision = await revisionService.create(model.id, generated([threat('a')]));
+    await db
+      .update(threatModels)
+      .set({
+        threats: revision.threats,
+        summary: revision.summary,
+        recommendations: revision.recommendations,
+        currentRevisionId: revision.id,
+      })
+      .where(eq(threatModels.id, model.id));
+
+    expect(await revisionService.captureEdits(model.id)).toBeNull();
+  });
+
+  test("won't restore another model's revision", async () => {
+    const model = await createModel();
+    const other = await createModel();
+    const revision = await revisionService.create(other.id, generated([threat('a')]));
+
+    expect(await revisionService.restore(model.id, revision.id, 'reviewer')).toBeNull();
+  });
+});
@@ -0,0 +1,350 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db, threatModels, threatModelRevisions, contextFiles, jiraTickets } from '../db';
+import type {
+  ContextFileSelect,
+  JiraTicketSelect,
+  ThreatModelRevisionInsert,
+  ThreatModelRevisionSelect,
+  ThreatModelSelect,
+} from '../db/schema';
+import type {
+  RevisionDiff,
+  RevisionInputs,
+  Threat,
+  ThreatDiff,
+  ThreatFieldChange,
+  ThreatModelRevision,
+  ThreatModelRevisionSummary,
+} from '@threat-modeling/shared';
+import { matchThreats } from './threat-merge';
+
+/**
+ * Threat Model Revisions
+ *
+ * Each generation is stored as an immutable revision alongside the inputs it
+ * was based on. The threat model row holds a working copy of the current
+ * revision that reviewers can edit; before that copy is replaced by a new
+ * generation or a restore, any edits are captured as a `manual` revision so
+ * nothing is lost. Restoring appends a copy of the old revision rather than
+ * rewinding history.
+ */
+
+type RevisionOutput = Pick<
+  ThreatModelRevisionInsert,
+  'threats' | 'summary' | 'recommendations' | 'componentGraph' | 'generationReport' | 'provider' | 'model'
+>;
+
+interface CreateRevisionInput extends RevisionOutput {
+  source: ThreatModelRevisionSelect['source'];
+  inputs?: RevisionInputs;
+  jobId?: string;
+  createdBy?: string | null;
+  restoredFromId?: string;
+}
+
+// Scalar threat fields compared when diffing
+const DIFFED_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'severity',
+  'likelihood',
+  'impact',
+  'riskScore',
+  'attackVector',
+] as const;
+
+/**
+ * Snapshot of the context a generation is based on
+ */
+export function buildRevisionInputs(
+  model: ThreatModelSelect,
+  files: ContextFileSelect[],
+  tickets: JiraTicketSelect[]
+): RevisionInputs {
+  return {
+    title: model.title,
+    description: model.description,
+    systemDescription: model.systemDescription,
+    questionsAnswers: model.questionsAnswers ?? [],
+    files: files.map((f) => ({ id: f.id, originalName: f.originalName, fileType: f.fileType, size: f.size })),
+    jiraTickets: tickets.map((t) => ({ issueKey: t.issueKey, title: t.title })),
+    methodology: model.methodology,
+    ...(model.generationSettings && { settings: model.generationSettings }),
+  };
+}
+
+function toSummary(
+  revision: ThreatModelRevisionSelect,
+  currentRevisionId: string | null
+): ThreatModelRevisionSummary {
+  return {
+    id: revision.id,
+    threatModelId: revision.threatModelId,
+    revisionNumber: revision.revisionNumber,
+    source: revision.source,
+    restoredFromId: revision.restoredFromId,
+    provider: revision.provider,
+    model: revision.model,
+    threatCount: revision.threats.length,
+    createdBy: revision.createdBy,
+    createdAt: revision.createdAt.toISOString(),
+    isCurrent: revision.id === currentRevisionId,
+  };
+}
+
+function toRevision(
+  revision: ThreatModelRevisionSelect,
+  currentRevisionId: string | null
+): ThreatModelRevision {
+  return {
+    ...toSummary(revision, currentRevisionId),
+    inputs: revision.inputs,
+    threats: revision.threats as Threat[],
+    summary: revision.summary,
+    recommendations: revision.recommendations ?? [],
+    componentGraph: revision.componentGraph ?? null,
+    generationReport: revision.generationReport ?? null,
+  };
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+function diffThreat(before: Threat, after: Threat): ThreatFieldChange[] {
+  const changes: ThreatFieldChange[] = [];
+
+  for (const field of DIFFED_FIELDS) {
+    if ((before[field] ?? null) !== (after[field] ?? null)) {
+      changes.push({ field, before: before[field] ?? null, after: after[field] ?? null });
+    }
+  }
+
+  const components = (t: Threat) => [...t.affectedComponents].sort();
+  if (JSON.stringify(components(before)) !== JSON.stringify(components(after))) {
+    changes.push({ field: 'affectedComponents', before: before.affectedComponents, after: after.affectedComponents });
+  }
+
+  const mitigations = (t: Threat) => t.mitigations.map((m) => `${m.description} [${m.status}]`).sort();
+  if (JSON.stringify(mitigations(before)) !== JSON.stringify(mitigations(after))) {
+    changes.push({ field: 'mitigations', before: mitigations(before), after: mitigations(after) });
+  }
+
+  return changes;
+}
+
+function withoutContent(revision: ThreatModelRevision): ThreatModelRevisionSummary {
+  const { inputs, threats, summary, recommendations, componentGraph, generationReport, ...rest } = revision;
+  return rest;
+}
+
+/**
+ * Compare two revisions threat by threat
+ */
+export function diffRevisions(from: ThreatModelRevision, to: ThreatModelRevision): RevisionDiff {
+  const threats: ThreatDiff[] = matchThreats(from.threats, to.threats).map(([before, after]) => {
+    if (!before) return { status: 'added', title: after!.title, after, changes: [] };
+    if (!after) return { status: 'removed', title: before.title, before, changes: [] };
+
+    const changes = diffThreat(before, after);
+    return {
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      title: after.title,
+      before,
+      after,
+      changes,
+    };
+  });
+
+  const inputsChanged = (Object.keys(to.inputs) as Array<keyof RevisionInputs>).filter(
+    (key) => JSON.stringify(from.inputs[key]) !== JSON.stringify(to.inputs[key])
+  );
+
+  return {
+    from: withoutContent(from),
+    to: withoutContent(to),
+    threats,
+    summaryChanged: (from.summary ?? '') !== (to.summary ?? ''),
+    recommendationsAdded: to.recommendations.filter((r) => !from.recommendations.includes(r)),
+    recommendationsRemoved: from.recommendations.filter((r) => !to.recommendations.includes(r)),
+    inputsChanged,
+  };
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+export class RevisionService {
+  /**
+   * Store a new revision and make it the model's current analysis. The number
+   * is read and used in one transaction so concurrent saves can't share it.
+   */
+  async create(threatModelId: string, input: CreateRevisionInput): Promise<ThreatModelRevisionSelect> {
+    const inputs = input.inputs ?? (await this.loadInputs(threatModelId));
+
+    return db.transaction((tx) => {
+      const { latest } = tx
+        .select({ latest: sql<number | null>`max(${threatModelRevisions.revisionNumber})` })
+        .from(threatModelRevisions)
+        .where(eq(threatModelRevisions.threatModelId, threatModelId))
+        .get()!;
+
+      return tx
+        .insert(threatModelRevisions)
+        .values({
+          threatModelId,
+          revisionNumber: (latest ?? 0) + 1,
+          source: input.source,
+          restoredFromId: input.restoredFromId,
+          jobId: input.jobId,
+          createdBy: input.createdBy,
+          inputs,
+          provider: input.provider,
+          model: input.model,
+          threats: input.threats,
+          summary: input.summary,
+          recommendations: input.recommendations,
+          componentGraph: input.componentGraph,
+          generationReport: input.generationReport,
+        })
+        .returning()
+        .get();
+    });
+  }
+
+  /**
+   * Store the model's working copy as a `manual` revision if it holds edits
+   * (or output from before revisions existed) that no revision has captured
+   */
+  async captureEdits(threatModelId: string, createdBy?: string | null): Promise<ThreatModelRevisionSelect | null> {
+    const [model] = await db.select().from(threatModels).where(eq(threatModels.id, threatModelId));
+    if (!model || !model.threats || model.threats.length === 0) return null;
+
+    if (model.currentRevisionId) {
+      const [current] = await db
+        .select()
+        .from(threatModelRevisions)
+        .where(eq(threatModelRevisions.id, model.currentRevisionId));
+
+      const unchanged =
+        current &&
+        JSON.stringify(current.threats) === JSON.stringify(model.threats) &&
+        (current.summary ?? null) === (model.summary ?? null) &&
+        JSON.stringify(current.recommendations ?? []) === JSON.stringify(model.recommendations ?? []);
+      if (unchanged) return null;
+    }
+
+    return this.create(threatModelId, {
+      source: 'manual',
+      createdBy,
+      provider: model.generationProvider,
+      model: model.generationModel,
+      threats: model.threats,
+      summary: model.summary,
+      recommendations: model.recommendations,
+      componentGraph: model.componentGraph,
+      generationReport: model.generationReport,
+    });
+  }
+
+  /**
+   * List a model's revisions, newest first
+   */
+  async list(threatModelId: string): Promise<ThreatModelRevisionSummary[]> {
+    const [model] = await db
+      .select({ currentRevisionId: threatModels.currentRevisionId })
+      .from(threatModels)
+      .where(eq(threatModels.id, threatModelId));
+
+    const revisions = await db
+      .select()
+      .from(threatModelRevisions)
+      .where(eq(threatModelRevisions.threatModelId, threatModelId))
+      .orderBy(desc(threatModelRevisions.revisionNumber));
+
+    return revisions.map((r) => toSummary(r, model?.currentRevisionId ?? null));
+  }
+
+  /**
+   * Get one revision of a model
+   */
+  async get(threatModelId: string, revisionId: string): Promise<ThreatModelRevision | null> {
+    const [model] = await db
+      .select({ currentRevisionId: threatModels.currentRevisionId })
+      .from(threatModels)
+      .where(eq(threatModels.id, threatModelId));
+
+    const [revision] = await db
+      .select()
+      .from(threatModelRevisions)
+      .where(and(eq(threatModelRevisions.id, revisionId), eq(threatModelRevisions.threatModelId, threatModelId)));
+
+    return revision ? toRevision(revision, model?.currentRevisionId ?? null) : null;
+  }
+
+  /**
+   * Make an earlier revision's output current again. Unsaved edits are
+   * captured first and the restore is recorded as a new revision.
+   */
+  async restore(
+    threatModelId: string,
+    revisionId: string,
+    userId: string
+  ): Promise<ThreatModelRevision | null> {
+    const [target] = await db
+      .select()
+      .from(threatModelRevisions)
+      .where(and(eq(threatModelRevisions.id, revisionId), eq(threatModelRevisions.threatModelId, threatModelId)));
+
+    if (!target) return null;
+
+    await this.captureEdits(threatModelId, userId);
+
+    const revision = await this.create(threatModelId, {
+      source: 'restore',
+      restoredFromId: target.id,
+      createdBy: userId,
+      inputs: target.inputs,
+      provider: target.provider,
+      model: target.model,
+      threats: target.threats,
+      summary: target.summary,
+      recommendations: target.recommendations,
+      componentGraph: target.componentGraph,
+      generationReport: target.generationReport,
+    });
+
+    await db
+      .update(threatModels)
+      .set({
+        status: 'completed',
+        generationError: null,
+        threats: revision.threats,
+        summary: revision.summary,
+        recommendations: revision.recommendations,
+        componentGraph: revision.componentGraph,
+        generationReport: revision.generationReport,
+        generationProvider: revision.provider,
+        generationModel: revision.model,
+        currentRevisionId: revision.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(threatModels.id, threatModelId));
+
+    return toRevision(revision, revision.id);
+  }
+
+  private async loadInputs(threatModelId: string): Promise<RevisionInputs> {
+    const [[model], files, tickets] = await Promise.all([
+      db.select().from(threatModels).where(eq(threatModels.id, threatModelId)),
+      db.select().from(contextFiles).where(eq(contextFiles.threatModelId, threatModelId)),
+      db.select().from(jiraTickets).where(eq(jiraTickets.threatModelId, threatModelId)),
+    ]);
+
+    return buildRevisionInputs(model, files, tickets);
+  }
+}
+
+export const revisionService = new RevisionService();
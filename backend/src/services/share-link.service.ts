@@ -0,0 +1,434 @@
+import { and, desc, eq, gt, inArray, isNull, or, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { createClerkClient, verifyToken } from '@clerk/backend';
+import { db, shareLinks, shareLinkAccesses, threatModels } from '../db';
+import type { ShareLinkAccessInsert, ShareLinkSelect, ThreatModelSelect } from '../db/schema';
+import {
+  expandSharePermissions,
+  type CreateShareLinkRequest,
+  type ShareLink,
+  type ShareLinkAccess,
+  type SharePermission,
+} from '@threat-modeling/shared';
+
+/**
+ * Share Links
+ *
+ * A threat model can have any number of share links, each with its own token,
+ * permissions and restrictions:
+ *
+ * - permissions: view, comment or edit, each including the ones before it
+ * - expiresAt: the link stops working after this time
+ * - allowedEmails: the visitor must be signed in with one of these emails
+ * - password: sent by the visitor in the X-Share-Password header; wrong
+ *   guesses are limited per visitor IP and slowed down per link
+ *
+ * Every request made with a link is logged, including refused ones, so the
+ * model's editors can see who has been using it. Revoked links are kept for
+ * their access log.
+ *
+ * Models shared before links existed kept a single token on the model itself;
+ * that token becomes a view-only link the first time it's needed.
+ */
+
+export const SHARE_PASSWORD_HEADER = 'X-Share-Password';
+
+// Older entries are still stored, just not returned
+const ACCESS_LOG_LIMIT = 200;
+
+// Wrong passwords allowed from one IP within the window before further guesses
+// are refused. Past the per-link count every guess is delayed instead, which
+// slows visitors rotating IPs without locking out those who know the password.
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const PASSWORD_ATTEMPTS_PER_IP = 5;
+const PASSWORD_ATTEMPTS_PER_LINK = 50;
+const PASSWORD_SLOWDOWN_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface ShareRequest {
+  password?: string;
+  authorization?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  format?: string;
+}
+
+// `code` tells the shared page what to ask the visitor for
+export type ShareAccessCode =
+  | 'password_required'
+  | 'invalid_password'
+  | 'too_many_attempts'
+  | 'sign_in_required'
+  | 'email_not_allowed';
+
+export type ShareAccess =
+  // `email` is the signed-in visitor's, known for links limited to emails
+  | { allowed: true; link: ShareLinkSelect; model: ThreatModelSelect; email: string | null }
+  | { allowed: false; status: 401 | 403 | 404 | 410 | 429; error: string; code?: ShareAccessCode };
+
+type ShareLinkRow = ShareLinkSelect & { accessCount: number; lastAccessedAt: Date | null };
+
+export function getShareUrl(token: string): string {
+  const baseUrl = process.env.PUBLIC_URL || 'http://localhost:5173';
+  return `${baseUrl}/shared/${token}`;
+}
+
+function isActive(link: Pick<ShareLinkSelect, 'revokedAt' | 'expiresAt'>, now = new Date()): boolean {
+  return !link.revokedAt && (!link.expiresAt || link.expiresAt > now);
+}
+
+function toShareLink(row: ShareLinkRow): ShareLink {
+  return {
+    id: row.id,
+    threatModelId: row.threatModelId,
+    shareUrl: getShareUrl(row.token),
+    shareToken: row.token,
+    label: row.label,
+    permissions: row.permissions,
+    allowedEmails: row.allowedEmails,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    hasPassword: !!row.passwordHash,
+    isActive: isActive(row),
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    lastAccessedAt: row.lastAccessedAt?.toISOString() ?? null,
+    accessCount: row.accessCount,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export class ShareLinkService {
+  async create(threatModelId: string, settings: CreateShareLinkRequest, userId: string): Promise<ShareLink> {
+    const [row] = await db
+      .insert(shareLinks)
+      .values({
+        threatModelId,
+        token: nanoid(21),
+        label: settings.label || null,
+        permissions: expandSharePermissions(settings.permissions),
+        allowedEmails: [...new Set(settings.allowedEmails)],
+        passwordHash: settings.password ? await Bun.password.hash(settings.password) : null,
+        expiresAt: settings.expiresAt ? new Date(settings.expiresAt) : null,
+        createdBy: userId,
+      })
+      .returning();
+
+    return toShareLink({ ...row, accessCount: 0, lastAccessedAt: null });
+  }
+
+  /**
+   * All of a model's links, newest first, including revoked and expired ones
+   */
+  async list(threatModelId: string): Promise<ShareLink[]> {
+    const [model] = await db.select().from(threatModels).where(eq(threatModels.id, threatModelId));
+    if (model) {
+      await this.migrateLegacyLink(model);
+    }
+
+    const rows = await db
+      .select({
+        link: shareLinks,
+        accessCount: sql<number>`(select count(*) from share_link_accesses a where a.share_link_id = share_links.id)`,
+        lastAccessedAt: sql<number | null>`(select max(a.created_at) from share_link_accesses a where a.share_link_id = share_links.id and a.allowed = 1)`,
+      })
+      .from(shareLinks)
+      .where(eq(shareLinks.threatModelId, threatModelId))
+      .orderBy(desc(shareLinks.createdAt));
+
+    return rows.map((row) =>
+      toShareLink({
+        ...row.link,
+        accessCount: Number(row.accessCount),
+        lastAccessedAt: row.lastAccessedAt ? new Date(Number(row.lastAccessedAt) * 1000) : null,
+      })
+    );
+  }
+
+  /**
+   * URL of the newest working link of each model, for models that have one
+   */
+  async getActiveShareUrls(threatModelIds: string[]): Promise<Map<string, string>> {
+    if (threatModelIds.length === 0) return new Map();
+
+    const rows = await db
+      .select({ threatModelId: shareLinks.threatModelId, token: shareLinks.token })
+      .from(shareLinks)
+      .where(
+        and(
+          inArray(shareLinks.threatModelId, threatModelIds),
+          isNull(shareLinks.revokedAt),
+          or(isNull(shareLinks.expiresAt), gt(shareLinks.expiresAt, new Date()))
+        )
+      )
+      .orderBy(shareLinks.createdAt);
+
+    // Later rows are newer and win
+    return new Map(rows.map((row) => [row.threatModelId, getShareUrl(row.token)]));
+  }
+
+  async get(threatModelId: string, linkId: string): Promise<ShareLinkSelect | null> {
+    const [row] = await db
+      .select()
+      .from(shareLinks)
+      .where(and(eq(shareLinks.threatModelId, threatModelId), eq(shareLinks.id, linkId)));
+
+    return row ?? null;
+  }
+
+  async revoke(linkId: string): Promise<void> {
+    await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, linkId), isNull(shareLinks.revokedAt)));
+  }
+
+  /**
+   * Stop sharing a model: revoke all of its links, including a legacy token
+   */
+  async revokeAll(threatModelId: string): Promise<void> {
+    await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.threatModelId, threatModelId), isNull(shareLinks.revokedAt)));
+
+    await db
+      .update(threatModels)
+      .set({ shareToken: null, isPublic: false })
+      .where(eq(threatModels.id, threatModelId));
+  }
+
+  async listAccesses(linkId: string): Promise<ShareLinkAccess[]> {
+    const rows = await db
+      .select()
+      .from(shareLinkAccesses)
+      .where(eq(shareLinkAccesses.shareLinkId, linkId))
+      .orderBy(desc(shareLinkAccesses.createdAt))
+      .limit(ACCESS_LOG_LIMIT);
+
+    return rows.map((row) => ({
+      id: row.id,
+      action: row.action,
+      format: row.format,
+      allowed: row.allowed,
+      denialReason: row.denialReason,
+      email: row.email,
+      ipAddress: row.ipAddress,
+      userAgent: row.userAgent,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Check that the link with `token` may be used for `action` by this request,
+   * and log the attempt
+   */
+  async authorize(token: string, action: SharePermission, request: ShareRequest): Promise<ShareAccess> {
+    const link = await this.findByToken(token);
+    if (!link || link.revokedAt) {
+      return { allowed: false, status: 404, error: 'Threat model not found or not shared' };
+    }
+
+    let email: string | null = null;
+    const deny = async (access: Extract<ShareAccess, { allowed: false }>) => {
+      await this.logAccess(link.id, action, request, email, access.code ?? access.error);
+      return access;
+    };
+
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      return deny({ allowed: false, status: 410, error: 'This share link has expired' });
+    }
+
+    if (link.passwordHash) {
+      if (!request.password) {
+        return deny({
+          allowed: false,
+          status: 401,
+          error: 'This share link is protected by a password',
+          code: 'password_required',
+        });
+      }
+      const attempt = this.reservePasswordAttempt(link.id, action, request);
+      if (!attempt) {
+        return deny({
+          allowed: false,
+          status: 429,
+          error: 'Too many incorrect passwords. Try again in a few minutes.',
+          code: 'too_many_attempts',
+        });
+      }
+      if (attempt.slowDown) await sleep(PASSWORD_SLOWDOWN_MS);
+      if (!(await Bun.password.verify(request.password, link.passwordHash))) {
+        // Already logged by the reservation
+        return { allowed: false, status: 401, error: 'Incorrect password', code: 'invalid_password' };
+      }
+      await db.delete(shareLinkAccesses).where(eq(shareLinkAccesses.id, attempt.id));
+    }
+
+    if (link.allowedEmails.length > 0) {
+      const emails = await this.getVisitorEmails(request.authorization);
+      if (!emails) {
+        return deny({
+          allowed: false,
+          status: 401,
+          error: 'Sign in to open this share link',
+          code: 'sign_in_required',
+        });
+      }
+      email = emails.find((address) => link.allowedEmails.includes(address)) ?? null;
+      if (!email) {
+        email = emails[0] ?? null;
+        return deny({
+          allowed: false,
+          status: 403,
+          error: 'Forbidden: This share link was not shared with your email address',
+          code: 'email_not_allowed',
+        });
+      }
+    }
+
+    if (!link.permissions.includes(action)) {
+      return deny({ allowed: false, status: 403, error: `Forbidden: This share link does not allow ${action} access` });
+    }
+
+    const [model] = await db.select().from(threatModels).where(eq(threatModels.id, link.threatModelId));
+    if (!model) {
+      return { allowed: false, status: 404, error: 'Threat model not found or not shared' };
+    }
+
+    await this.logAccess(link.id, action, request, email, null);
+    return { allowed: true, link, model, email };
+  }
+
+  private async findByToken(token: string): Promise<ShareLinkSelect | null> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    if (link) return link;
+
+    const [model] = await db
+      .select()
+      .from(threatModels)
+      .where(and(eq(threatModels.shareToken, token), eq(threatModels.isPublic, true)));
+
+    return model ? this.migrateLegacyLink(model) : null;
+  }
+
+  /**
+   * Turn the token stored on a model shared before links existed into a
+   * view-only link, so existing URLs keep working
+   */
+  private async migrateLegacyLink(model: ThreatModelSelect): Promise<ShareLinkSelect | null> {
+    if (!model.shareToken || !model.isPublic) return null;
+
+    const [link] = await db
+      .insert(shareLinks)
+      .values({
+        threatModelId: model.id,
+        token: model.shareToken,
+        permissions: ['view'],
+        createdBy: model.userId,
+        createdAt: model.updatedAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    await db
+      .update(threatModels)
+      .set({ shareToken: null, isPublic: false })
+      .where(eq(threatModels.id, model.id));
+
+    return link ?? null;
+  }
+
+  /**
+   * Log a password attempt as a wrong guess before checking it, unless this
+   * IP has used up its allowance. Counting and logging happen in one
+   * transaction so concurrent guesses can't all pass the count; the caller
+   * deletes the entry if the password turns out to be right.
+   */
+  private reservePasswordAttempt(
+    shareLinkId: string,
+    action: SharePermission,
+    request: ShareRequest
+  ): { id: string; slowDown: boolean } | null {
+    return db.transaction(
+      (tx) => {
+        const failures = tx
+          .select({ ipAddress: shareLinkAccesses.ipAddress })
+          .from(shareLinkAccesses)
+          .where(
+            and(
+              eq(shareLinkAccesses.shareLinkId, shareLinkId),
+              eq(shareLinkAccesses.denialReason, 'invalid_password'),
+              gt(shareLinkAccesses.createdAt, new Date(Date.now() - PASSWORD_ATTEMPT_WINDOW_MS))
+            )
+          )
+          .all();
+
+        const fromIp = failures.filter((failure) => failure.ipAddress === (request.ipAddress ?? null)).length;
+        if (fromIp >= PASSWORD_ATTEMPTS_PER_IP) return null;
+
+        const { id } = tx
+          .insert(shareLinkAccesses)
+          .values(this.accessEntry(shareLinkId, action, request, null, 'invalid_password'))
+          .returning({ id: shareLinkAccesses.id })
+          .get();
+
+        return { id, slowDown: failures.length >= PASSWORD_ATTEMPTS_PER_LINK };
+      },
+      { behavior: 'immediate' }
+    );
+  }
+
+  /**
+   * Verified emails of the signed-in visitor, or null if they aren't signed in
+   */
+  private async getVisitorEmails(authorization?: string): Promise<string[] | null> {
+    if (!authorization?.startsWith('Bearer ')) return null;
+
+    try {
+      const payload = await verifyToken(authorization.substring(7), {
+        secretKey: process.env.CLERK_SECRET_KEY,
+      });
+      if (!payload.sub) return null;
+
+      const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+      const user = await clerk.users.getUser(payload.sub);
+      return user.emailAddresses
+        .filter((address) => address.verification?.status === 'verified')
+        .map((address) => address.emailAddress.toLowerCase());
+    } catch (error) {
+      console.error('Share link sign-in check failed:', error);
+      return null;
+    }
+  }
+
+  private async logAccess(
+    shareLinkId: string,
+    action: SharePermission,
+    request: ShareRequest,
+    email: string | null,
+    denialReason: string | null
+  ): Promise<void> {
+    await db.insert(shareLinkAccesses).values(this.accessEntry(shareLinkId, action, request, email, denialReason));
+  }
+
+  private accessEntry(
+    shareLinkId: string,
+    action: SharePermission,
+    request: ShareRequest,
+    email: string | null,
+    denialReason: string | null
+  ): ShareLinkAccessInsert {
+    return {
+      shareLinkId,
+      action,
+      format: request.format ?? null,
+      allowed: denialReason === null,
+      denialReason,
+      email,
+      ipAddress: request.ipAddress ?? null,
+      userAgent: request.userAgent ?? null,
+    };
+  }
+}
+
+export const shareLinkService = new ShareLinkService();
@@ -0,0 +1,44 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db, threatModels } from '../db';
+import { createModel } from '../test/helpers';
+import { revisionService } from './revision.service';
+import { generateThreatModel, type GenerationStepEvent } from './threat-generation';
+
+const abortOn = (type: GenerationStepEvent['type']) => {
+  const controller = new AbortController();
+  const onEvent = (event: GenerationStepEvent) => {
+    if (event.type === type) controller.abort();
+  };
+  return { signal: controller.signal, onEvent };
+};
+
+describe('generateThreatModel', () => {
+  test('saves nothing when cancelled before saving', async () => {
+    const model = await createModel();
+
+    await expect(generateThreatModel(model.id, abortOn('parsed'))).rejects.toThrow();
+
+    expect(await revisionService.list(model.id)).toHaveLength(0);
+  });
+
+  test('completes when cancelled while saving', async () => {
+    const model = await createModel();
+    const controller = new AbortController();
+    const create = revisionService.create.bind(revisionService);
+    const spy = spyOn(revisionService, 'create').mockImplementation((...args) => {
+      controller.abort();
+      return create(...args);
+    });
+
+    try {
+      await generateThreatModel(model.id, { signal: controller.signal });
+    } finally {
+      spy.mockRestore();
+    }
+
+    const [saved] = await db.select().from(threatModels).where(eq(threatModels.id, model.id));
+    expect(saved.status).toBe('completed');
+    expect(await revisionService.list(model.id)).toHaveLength(1);
+  });
+});
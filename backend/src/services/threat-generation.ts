@@ -1,32 +1,71 @@
-import { db, threatModels, contextFiles, jiraTickets } from '../db';
+import { db, threatModels, contextFiles, jiraTickets, dataFlowDiagrams } from '../db';
 import { eq } from 'drizzle-orm';
-import type { ThreatModelSelect, ContextFileSelect, JiraTicketSelect } from '../db/schema';
+import type {
+  ThreatModelSelect,
+  ContextFileSelect,
+  JiraTicketSelect,
+  DataFlowDiagramSelect,
+  GenerationOptions,
+  GenerationSettings,
+} from '../db/schema';
 import { buildJiraContext } from './jira.service';
 import {
   getDefaultProvider,
+  threatGenerationResponseFormat,
   type LLMProvider,
+  type LLMResponse,
+  type Message,
   type ContentBlock,
-  type ThreatGenerationResult,
 } from '../llm';
 import { getDefaultStorageProvider } from '../storage';
+import { extractText, getExtractor } from '../extraction';
+import { buildInventoryContext, mergeInventories } from '../iac';
+import { buildApiSpecContext } from '../openapi';
+import { buildDiagramContext } from '../diagrams';
+import { buildRepairPrompt, validateGenerationResponse } from './threat-validation';
+import { recordLlmUsage } from './usage.service';
+import { buildRevisionInputs, revisionService } from './revision.service';
+import { mergeRefreshedThreats } from './threat-merge';
+import { buildDataFlowDiagramContext, linkThreatsToDiagram } from './data-flow-diagram';
+import { buildClassificationStep, getMethodologyPrompt } from './methodologies';
+import {
+  buildDigestContext,
+  digestContextSources,
+  estimateTokens,
+  inputTokenBudget,
+  type ContextSource,
+  type DigestResult,
+} from './context-digest';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  METHODOLOGIES,
+  type GenerationEvent,
+  type Methodology,
+  type Threat,
+} from '@threat-modeling/shared';
 
 // =============================================================================
 // System Prompt
 // =============================================================================
 
-const SYSTEM_PROMPT = `You are a senior security architect performing threat modeling using the STRIDE methodology.
+function buildSystemPrompt(settings: GenerationSettings, methodology: Methodology): string {
+  const { role, guidance } = getMethodologyPrompt(methodology);
+
+  return `${role}
 Analyze the provided system information and generate a comprehensive threat model.
 
 For each threat identified:
-1. Classify using STRIDE categories (Spoofing, Tampering, Repudiation, Information Disclosure, Denial of Service, Elevation of Privilege)
+1. ${buildClassificationStep(methodology)}
 2. Assess severity (critical, high, medium, low, info)
 3. Rate likelihood (1-5) and impact (1-5)
 4. Calculate risk score (likelihood × impact)
-5. Identify affected components
+5. Identify affected components, and the data flow diagram elements they correspond to when a diagram is provided
 6. Describe attack vectors
 7. Propose concrete mitigations with priority and effort estimates
 
-Focus on the TOP 5 most critical threats. Be specific and actionable.
+Also map the system as a component graph: each component with a short ID, its type and the trust zone it runs in, and the data flows between them. Use the graph's component names, exactly as written, in affectedComponents.
+${guidance ? `\n${guidance}\n` : ''}
+Focus on the ${settings.threatCount} most critical threats${settings.minSeverity === 'info' ? '' : ` of ${settings.minSeverity} severity or above`}. Be specific and actionable.
 
 Respond with valid JSON only, no markdown code blocks, matching this structure:
 {
@@ -35,12 +74,13 @@ Respond with valid JSON only, no markdown code blocks, matching this structure:
       "id": "threat-uuid",
       "title": "Threat Title",
       "description": "Detailed description of the threat",
-      "category": "spoofing|tampering|repudiation|information_disclosure|denial_of_service|elevation_of_privilege",
+      "category": "${METHODOLOGIES[methodology].categories.join('|')}",
       "severity": "critical|high|medium|low|info",
       "likelihood": 1-5,
       "impact": 1-5,
       "riskScore": 1-25,
       "affectedComponents": ["component1", "component2"],
+      "dfdElementIds": ["diagram-element-id"],
       "attackVector": "Description of how attack is carried out",
       "mitigations": [
         {
@@ -54,17 +94,44 @@ Respond with valid JSON only, no markdown code blocks, matching this structure:
     }
   ],
   "summary": "Executive summary of the threat landscape",
-  "recommendations": ["Top recommendation 1", "Top recommendation 2"]
+  "recommendations": ["Top recommendation 1", "Top recommendation 2"],
+  "componentGraph": {
+    "components": [
+      { "id": "web", "name": "component1", "type": "client|service|data_store|queue|external", "trustZone": "Internet" }
+    ],
+    "flows": [
+      { "sourceId": "web", "targetId": "api", "label": "What data flows, over what protocol" }
+    ]
+  }
 }`;
+}
+
+// Output budget: enough for the default five threats, growing with the
+// requested count up to what the provider will accept
+const MIN_OUTPUT_TOKENS = 4096;
+const OUTPUT_TOKENS_PER_THREAT = 600;
+const MAX_OUTPUT_TOKENS = parseInt(process.env.LLM_MAX_OUTPUT_TOKENS || '16384');
+
+// Minimum gap between progress events while the LLM response streams in
+const TOKEN_EVENT_INTERVAL_MS = 750;
+
+// Follow-up turns asking the provider to fix output that fails validation
+const MAX_REPAIR_ATTEMPTS = parseInt(process.env.LLM_REPAIR_ATTEMPTS || '2');
 
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
 /**
- * Build text context from threat model metadata
+ * Build text context from threat model metadata, its data flow diagram, the
+ * infrastructure inventory of its IaC files, the summaries of its API
+ * specifications and the structure of its architecture diagrams
  */
-function buildTextContext(threatModel: ThreatModelSelect): string {
+function buildTextContext(
+  threatModel: ThreatModelSelect,
+  files: ContextFileSelect[],
+  diagram: DataFlowDiagramSelect | null
+): string {
   const questionsAnswers = threatModel.questionsAnswers as Array<{
     questionId: string;
     question: string;
@@ -93,9 +160,49 @@ function buildTextContext(threatModel: ThreatModelSelect): string {
     }
   }
 
+  if (diagram && diagram.elements.length > 0) {
+    context += `${buildDataFlowDiagramContext(diagram)}\n\n`;
+  }
+
+  const inventories = files.flatMap((file) => (file.iacInventory ? [file.iacInventory] : []));
+  if (inventories.length > 0) {
+    context += `${buildInventoryContext(mergeInventories(inventories))}\n\n`;
+  }
+
+  for (const file of files) {
+    if (file.apiSpec) {
+      context += `${buildApiSpecContext(file.apiSpec, file.originalName)}\n\n`;
+    }
+    if (file.diagramGraph) {
+      context += `${buildDiagramContext(file.diagramGraph, file.originalName)}\n\n`;
+    }
+  }
+
   return context;
 }
 
+/**
+ * Send a file as the text extracted from it at upload time, for formats the
+ * provider can't take natively
+ */
+function extractedTextBlock(
+  file: ContextFileSelect,
+  provider: LLMProvider,
+  kind: string
+): ContentBlock | null {
+  if (file.extractedText) {
+    return {
+      type: 'text',
+      text: `\n--- File: ${file.originalName} (${file.fileType}, extracted text) ---\n${file.extractedText}\n--- End of ${file.originalName} ---\n`,
+    };
+  }
+
+  console.warn(
+    `Provider ${provider.name} does not support ${kind} and no text was extracted. File "${file.originalName}" will be skipped.`
+  );
+  return null;
+}
+
 /**
  * Convert file to provider-agnostic content block using base64 data
  * Files are read directly from storage and encoded as base64 to avoid
@@ -109,6 +216,20 @@ async function fileToContentBlock(
     const storage = getDefaultStorageProvider();
     const mimeType = file.mimeType;
 
+    // Handle diagram sources - their structure is already in the text
+    // context, so only the rendered PNG is sent, to providers that take it
+    if (file.diagramGraph) {
+      if (file.renderedDiagramPath && provider.getSupportedImageTypes().includes('image/png')) {
+        const fileData = await storage.get(file.renderedDiagramPath);
+        return {
+          type: 'image',
+          data: fileData.toString('base64'),
+          mimeType: 'image/png',
+        };
+      }
+      return null;
+    }
+
     // Handle images - read and encode as base64
     if (mimeType.startsWith('image/')) {
       const validImageTypes = provider.getSupportedImageTypes();
@@ -121,6 +242,7 @@ async function fileToContentBlock(
           mimeType: mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
         };
       }
+      return extractedTextBlock(file, provider, `${mimeType} images`);
     }
 
     // Handle PDFs - read and encode as base64
@@ -135,27 +257,23 @@ async function fileToContentBlock(
           filename: file.originalName,
         };
       } else {
-        // Provider doesn't support PDF - warn and skip
-        console.warn(
-          `Provider ${provider.name} does not support PDFs. File "${file.originalName}" will be skipped.`
-        );
-        return null;
+        // Provider doesn't support PDF - fall back to extracted text
+        return extractedTextBlock(file, provider, 'PDFs');
       }
     }
 
-    // Handle text files - read content and include as text
-    if (
-      mimeType.startsWith('text/') ||
-      mimeType === 'application/json' ||
-      file.originalName.endsWith('.md') ||
-      file.originalName.endsWith('.txt')
-    ) {
+    // Handle other documents (HTML, Office documents, spreadsheets, source
+    // archives, text) - send the text extracted at upload, or extract it now
+    // for files uploaded before their format had an extractor
+    if (file.extractedText) {
+      return extractedTextBlock(file, provider, mimeType);
+    }
+    if (getExtractor(mimeType, file.originalName)) {
       const fileData = await storage.get(file.storagePath);
-      const textContent = fileData.toString('utf-8');
-      return {
-        type: 'text',
-        text: `\n--- File: ${file.originalName} (${file.fileType}) ---\n${textContent}\n--- End of ${file.originalName} ---\n`,
-      };
+      const extractedText = await extractText(fileData, mimeType, file.originalName);
+      if (extractedText) {
+        return extractedTextBlock({ ...file, extractedText }, provider, mimeType);
+      }
     }
 
     // Skip unsupported file types
@@ -241,29 +359,155 @@ function buildJiraContextFromTicket(ticket: JiraTicketSelect): string {
 }
 
 /**
- * Parse the LLM response into structured result
+ * JIRA tickets and files laid out for analysis in a single request
  */
-function parseResponse(responseText: string): ThreatGenerationResult {
-  try {
-    return JSON.parse(responseText);
-  } catch {
-    // Try to extract JSON from response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
+function buildSourceBlocks(
+  ticketSources: ContextSource[],
+  fileSources: ContextSource[],
+  files: ContextFileSelect[]
+): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+
+  if (ticketSources.length > 0) {
+    blocks.push({
+      type: 'text',
+      text: `\n## JIRA Tickets (${ticketSources.length} tickets)\nThe following JIRA tickets provide context for this threat model:\n`,
+    });
+    for (const source of ticketSources) {
+      blocks.push(...source.blocks);
+    }
+  }
+
+  // Add file context description
+  if (files.length > 0) {
+    blocks.push({
+      type: 'text',
+      text: `\n## Uploaded Context Files (${files.length} files)\nThe following files have been uploaded for analysis:\n${files.map((f) => `- ${f.originalName} (${f.fileType})`).join('\n')}\n\nPlease analyze these files to understand the system architecture, data flows, and potential security concerns:\n`,
+    });
+  }
+
+  for (const source of fileSources) {
+    // Add a label before each file
+    blocks.push({ type: 'text', text: `\n[Analyzing: ${source.label}]\n` }, ...source.blocks);
+  }
+
+  return blocks;
+}
+
+/**
+ * Prior threats sent with a refresh, trimmed to what the LLM needs to
+ * recognise them and reuse their IDs
+ */
+function buildRefreshContext(threats: Threat[]): string {
+  const existing = threats.map((t) => ({
+    id: t.id,
+    title: t.title,
+    category: t.category,
+    description: t.description,
+    severity: t.severity,
+    likelihood: t.likelihood,
+    impact: t.impact,
+    affectedComponents: t.affectedComponents,
+    mitigations: t.mitigations.map((m) => ({ id: m.id, description: m.description, status: m.status })),
+  }));
+
+  return `\n## Existing Threats (refresh)
+This threat model has been analyzed before and reviewed. Re-assess the system using the current context above:
+- When a threat you identify is the same risk as an existing one, reuse its "id", and reuse the "id" of any mitigation that is the same action.
+- Leave out existing threats that no longer apply, and add new threats the current context reveals.
+- Mitigations in the output should still have status "proposed"; reviewer decisions are kept automatically.
+
+\`\`\`json
+${JSON.stringify(existing, null, 2)}
+\`\`\`
+`;
+}
+
+/**
+ * Closing instruction asking for the configured number, severity and focus
+ * of threats
+ */
+function buildAnalysisInstruction(settings: GenerationSettings): string {
+  let instruction = `\n\nBased on all the information provided above (system description, JIRA tickets, questionnaire responses, and uploaded documents/diagrams), please analyze this system and generate a threat model with the ${settings.threatCount} most critical security threats.`;
+
+  if (settings.minSeverity !== 'info') {
+    instruction += ` Only include threats of ${settings.minSeverity} severity or above; return fewer threats rather than padding the list with less severe ones.`;
+  }
+
+  if (settings.focusAreas.length > 0) {
+    instruction += `\n\nPay particular attention to these focus areas:\n${settings.focusAreas.map((area) => `- ${area}`).join('\n')}`;
+  }
+
+  return instruction;
+}
+
+/**
+ * Output tokens to allow for the requested number of threats, leaving at
+ * least half of the provider's context window for the input
+ */
+function outputTokenBudget(threatCount: number, provider: LLMProvider): number {
+  return Math.min(
+    Math.max(MIN_OUTPUT_TOKENS, threatCount * OUTPUT_TOKENS_PER_THREAT + 1024),
+    MAX_OUTPUT_TOKENS,
+    Math.floor(provider.getContextWindow() / 2)
+  );
+}
+
+/**
+ * Pull the titles of the threats written so far out of a partial JSON
+ * response. Only threats have a "title" field in the response structure.
+ */
+function extractDraftThreatTitles(partialResponse: string): string[] {
+  const titles: string[] = [];
+  for (const match of partialResponse.matchAll(/"title"\s*:\s*"((?:[^"\\]|\\.)*)"/g)) {
+    try {
+      titles.push(JSON.parse(`"${match[1]}"`));
+    } catch {
+      titles.push(match[1]);
     }
-    throw new Error('Failed to parse AI response as JSON');
   }
+  return titles;
 }
 
 // =============================================================================
 // Main Generation Function
 // =============================================================================
 
+/** A pipeline step, before the job queue stamps it with a job ID and timestamp */
+export type GenerationStepEvent = Pick<
+  GenerationEvent,
+  'type' | 'progress' | 'message' | 'outputTokens' | 'draftThreats'
+>;
+
+export interface GenerateThreatModelOptions {
+  /** Called as the generation moves through its steps */
+  onEvent?: (event: GenerationStepEvent) => void | Promise<void>;
+  /** Aborts the generation between steps and cancels the in-flight LLM call, until saving starts */
+  signal?: AbortSignal;
+  /** Queue job this generation runs under, recorded against its LLM usage */
+  jobId?: string;
+  /** `refresh` builds on the existing threats and keeps reviewers' edits */
+  mode?: GenerationOptions['mode'];
+  /** Threat count, minimum severity and focus areas for this run */
+  settings?: GenerationSettings;
+}
+
 /**
  * Generate threat model using the configured LLM provider
+ *
+ * Failure handling (retries, marking the model as failed) is left to the
+ * caller - see GenerationService, which runs this inside a queued job.
  */
-export async function generateThreatModel(threatModelId: string): Promise<void> {
+export async function generateThreatModel(
+  threatModelId: string,
+  options: GenerateThreatModelOptions = {}
+): Promise<void> {
+  const { onEvent, signal, jobId, mode = 'full', settings = DEFAULT_GENERATION_SETTINGS } = options;
+  const emit = async (event: GenerationStepEvent) => {
+    signal?.throwIfAborted();
+    await onEvent?.(event);
+  };
+
   // Mark as generating
   await db
     .update(threatModels)
@@ -274,127 +518,311 @@ export async function generateThreatModel(threatModelId: string): Promise<void>
     })
     .where(eq(threatModels.id, threatModelId));
 
-  try {
-    // Fetch threat model and files
-    const [model] = await db
-      .select()
-      .from(threatModels)
-      .where(eq(threatModels.id, threatModelId));
+  // Fetch threat model and files
+  const [model] = await db
+    .select()
+    .from(threatModels)
+    .where(eq(threatModels.id, threatModelId));
 
-    if (!model) {
-      throw new Error('Threat model not found');
+  if (!model) {
+    throw new Error('Threat model not found');
+  }
+
+  const [files, tickets, [diagram = null]] = await Promise.all([
+    db.select().from(contextFiles).where(eq(contextFiles.threatModelId, threatModelId)),
+    db.select().from(jiraTickets).where(eq(jiraTickets.threatModelId, threatModelId)),
+    db.select().from(dataFlowDiagrams).where(eq(dataFlowDiagrams.threatModelId, threatModelId)),
+  ]);
+
+  // Get the LLM provider
+  const provider = getDefaultProvider();
+  console.log(`Using LLM provider: ${provider.name}`);
+
+  const textContext = buildTextContext(model, files, diagram);
+  const ticketSources: ContextSource[] = tickets.map((ticket) => ({
+    label: ticket.issueKey,
+    blocks: [{ type: 'text', text: buildJiraContextFromTicket(ticket) }],
+  }));
+
+  await emit({
+    type: 'context_built',
+    progress: 15,
+    message: `Built system context (${tickets.length} JIRA tickets, ${files.length} files)`,
+  });
+
+  // Convert each file to a content block
+  const fileSources: ContextSource[] = [];
+  for (const file of files) {
+    const contentBlock = await fileToContentBlock(file, provider);
+    if (contentBlock) {
+      fileSources.push({ label: file.originalName, blocks: [contentBlock], fallbackText: file.extractedText });
     }
+  }
 
-    const [files, tickets] = await Promise.all([
-      db.select().from(contextFiles).where(eq(contextFiles.threatModelId, threatModelId)),
-      db.select().from(jiraTickets).where(eq(jiraTickets.threatModelId, threatModelId)),
-    ]);
+  // The prior threats for a refresh, then the analysis request
+  const closingBlocks: ContentBlock[] = [];
+  const isRefresh = mode === 'refresh' && (model.threats ?? []).length > 0;
+  if (isRefresh) {
+    closingBlocks.push({ type: 'text', text: buildRefreshContext(model.threats as Threat[]) });
+  }
+  closingBlocks.push({ type: 'text', text: buildAnalysisInstruction(settings) });
+
+  await emit({
+    type: 'files_encoded',
+    progress: 30,
+    message: `Encoded ${fileSources.length} of ${files.length} context files`,
+  });
+
+  // Have the provider enforce the result structure where it can
+  const { categories } = METHODOLOGIES[model.methodology];
+  const responseFormat = provider.supportsStructuredOutput() ? threatGenerationResponseFormat(categories) : 'json';
+  const systemPrompt = buildSystemPrompt(settings, model.methodology);
+  const maxTokens = outputTokenBudget(settings.threatCount, provider);
+  const constraints = { ...settings, methodology: model.methodology };
+  const usageContext = { userId: model.userId, threatModelId, jobId, provider: provider.name };
+
+  // Send everything in one request when it fits the provider's context window
+  let contentBlocks: ContentBlock[] = [
+    { type: 'text', text: textContext },
+    ...buildSourceBlocks(ticketSources, fileSources, files),
+    ...closingBlocks,
+  ];
+
+  // Otherwise digest each ticket and file on its own and analyze the digests
+  const inputBudget = inputTokenBudget(provider, systemPrompt, maxTokens);
+  const sources = [...ticketSources, ...fileSources];
+  let digest: DigestResult | undefined;
+
+  if (estimateTokens(contentBlocks) > inputBudget && sources.length > 0) {
+    console.log(
+      `Threat model ${threatModelId} context exceeds the ${provider.getContextWindow()} token window of ${provider.name}, digesting ${sources.length} sources`
+    );
+
+    const digestHeader = `\n## Context Digests (${sources.length} sources)\nThe JIRA tickets and uploaded files were too large to analyze together, so each has been summarised into a digest of its components, data flows and security-relevant details:\n`;
+    digest = await digestContextSources(sources, {
+      provider,
+      budget: inputBudget - estimateTokens(textContext + digestHeader) - estimateTokens(closingBlocks),
+      signal,
+      onProgress: ({ pass, completed, total, label }) =>
+        emit({
+          type: 'digesting',
+          progress: pass === 1 ? 30 + Math.round((8 * completed) / total) : 39,
+          message: pass === 1
+            ? `Summarising ${label} (${completed + 1} of ${total})...`
+            : `Merging summaries, pass ${pass} (${completed + 1} of ${total})...`,
+        }),
+      onResponse: (response, latencyMs) =>
+        recordLlmUsage({ ...usageContext, purpose: 'digest', response, latencyMs }),
+    });
 
-    // Get the LLM provider
-    const provider = getDefaultProvider();
-    console.log(`Using LLM provider: ${provider.name}`);
+    contentBlocks = [
+      { type: 'text', text: textContext },
+      { type: 'text', text: digestHeader + buildDigestContext(digest.digests) },
+      ...closingBlocks,
+    ];
+  }
 
-    // Build multimodal content array
-    const contentBlocks: ContentBlock[] = [];
+  await emit({
+    type: 'llm_started',
+    progress: 40,
+    message: `Generating threat analysis with ${provider.name}...`,
+  });
+
+  const analysisRequest: Message = {
+    role: 'user',
+    content: contentBlocks,
+  };
+
+  // Stream the completion, reporting threats as the model writes them
+  let response: LLMResponse | undefined;
+  let streamedText = '';
+  let lastTokenEventAt = Date.now();
+  const llmStartedAt = performance.now();
+
+  for await (const chunk of provider.stream({
+    messages: [analysisRequest],
+    systemPrompt,
+    maxTokens,
+    temperature: 0,
+    responseFormat,
+    signal,
+  })) {
+    if (chunk.type === 'done') {
+      response = chunk.response;
+      continue;
+    }
 
-    // Add text context first
-    const textContext = buildTextContext(model);
-    contentBlocks.push({
-      type: 'text',
-      text: textContext,
+    streamedText += chunk.text;
+    if (Date.now() - lastTokenEventAt < TOKEN_EVENT_INTERVAL_MS) continue;
+    lastTokenEventAt = Date.now();
+
+    // Rough estimate (~4 characters per token) until the provider reports usage
+    const estimatedTokens = Math.ceil(streamedText.length / 4);
+    const draftThreats = extractDraftThreatTitles(streamedText);
+    await emit({
+      type: 'tokens',
+      progress: 40 + Math.round(40 * Math.min(estimatedTokens / maxTokens, 1)),
+      message: `Writing threat analysis (~${estimatedTokens} tokens, ${draftThreats.length} threats drafted)...`,
+      outputTokens: estimatedTokens,
+      draftThreats,
     });
+  }
 
-    // Add JIRA ticket context
-    if (tickets.length > 0) {
-      contentBlocks.push({
-        type: 'text',
-        text: `\n## JIRA Tickets (${tickets.length} tickets)\nThe following JIRA tickets provide context for this threat model:\n`,
-      });
-
-      for (const ticket of tickets) {
-        // Build context from the stored JIRA data
-        const jiraContext = buildJiraContextFromTicket(ticket);
-        contentBlocks.push({
-          type: 'text',
-          text: jiraContext,
-        });
-      }
-    }
-
-    // Add file context description
-    if (files.length > 0) {
-      contentBlocks.push({
-        type: 'text',
-        text: `\n## Uploaded Context Files (${files.length} files)\nThe following files have been uploaded for analysis:\n${files.map((f) => `- ${f.originalName} (${f.fileType})`).join('\n')}\n\nPlease analyze these files to understand the system architecture, data flows, and potential security concerns:\n`,
-      });
-    }
+  if (!response) {
+    throw new Error(`${provider.name} stream ended without a response`);
+  }
 
-    // Convert and add each file as content block
-    for (const file of files) {
-      const contentBlock = await fileToContentBlock(file, provider);
-      if (contentBlock) {
-        // Add a label before each file
-        contentBlocks.push({
-          type: 'text',
-          text: `\n[Analyzing: ${file.originalName}]\n`,
-        });
-        contentBlocks.push(contentBlock);
-      }
-    }
+  if (response.finishReason === 'length') {
+    console.warn(`Threat model ${threatModelId} output was truncated at ${maxTokens} tokens`);
+  }
 
-    // Add the analysis request
-    contentBlocks.push({
-      type: 'text',
-      text: '\n\nBased on all the information provided above (system description, JIRA tickets, questionnaire responses, and uploaded documents/diagrams), please analyze this system and generate a threat model with the top 5 most critical security threats.',
+  // Record tokens, latency and estimated cost for usage reporting
+  await recordLlmUsage({
+    ...usageContext,
+    purpose: 'generation',
+    response,
+    latencyMs: performance.now() - llmStartedAt,
+  });
+
+  await emit({
+    type: 'tokens',
+    progress: 80,
+    message: `Received ${response.usage?.outputTokens ?? 'all'} output tokens`,
+    outputTokens: response.usage?.outputTokens,
+    draftThreats: extractDraftThreatTitles(response.content),
+  });
+
+  // Validate against the threat schema, asking the provider to repair its
+  // output a bounded number of times before falling back to dropping the
+  // invalid parts
+  let producedBy = response;
+  let responseText = response.content;
+  let validation = validateGenerationResponse(responseText, constraints);
+  let repairAttempts = 0;
+
+  while (!validation.result && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+    repairAttempts++;
+    console.warn(
+      `Threat model ${threatModelId} output failed validation (${validation.issues.length} issues), repair attempt ${repairAttempts}`
+    );
+
+    await emit({
+      type: 'repairing',
+      progress: 80 + repairAttempts,
+      message: `Output failed validation (${validation.issues.length} issues), requesting repair ${repairAttempts} of ${MAX_REPAIR_ATTEMPTS}...`,
     });
 
-    // Call LLM provider
-    const response = await provider.complete({
+    const repairStartedAt = performance.now();
+    const repair = await provider.complete({
       messages: [
-        {
-          role: 'user',
-          content: contentBlocks,
-        },
+        analysisRequest,
+        { role: 'assistant', content: responseText || '(empty response)' },
+        { role: 'user', content: buildRepairPrompt(validation.issues) },
       ],
-      systemPrompt: SYSTEM_PROMPT,
-      maxTokens: 4096,
+      systemPrompt,
+      maxTokens,
       temperature: 0,
+      responseFormat,
+      signal,
     });
 
-    // Parse response
-    const result = parseResponse(response.content);
+    await recordLlmUsage({
+      ...usageContext,
+      purpose: 'repair',
+      response: repair,
+      latencyMs: performance.now() - repairStartedAt,
+    });
 
-    // Log usage if available
-    if (response.usage) {
-      console.log(
-        `LLM usage - Input: ${response.usage.inputTokens}, Output: ${response.usage.outputTokens}, Total: ${response.usage.totalTokens}`
-      );
-    }
+    producedBy = repair;
+    responseText = repair.content;
+    validation = validateGenerationResponse(responseText, constraints);
+  }
 
-    // Update threat model with results
-    await db
-      .update(threatModels)
-      .set({
-        status: 'completed',
-        threats: result.threats,
-        summary: result.summary,
-        recommendations: result.recommendations,
-        generationCompletedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(threatModels.id, threatModelId));
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-    await db
-      .update(threatModels)
-      .set({
-        status: 'failed',
-        generationError: errorMessage,
-        updatedAt: new Date(),
-      })
+  const result = validation.result ?? validation.salvaged;
+  if (!result) {
+    throw new Error(
+      `AI response failed validation after ${repairAttempts} repair attempts: ${validation.issues.slice(0, 3).join('; ')}`
+    );
+  }
+
+  const generationReport: NonNullable<ThreatModelSelect['generationReport']> = {
+    repairAttempts,
+    coercedFields: validation.coercedFields,
+    droppedFields: validation.droppedFields,
+  };
+  if (digest) {
+    generationReport.digest = { sources: sources.length, calls: digest.calls, passes: digest.passes };
+  }
+
+  await emit({
+    type: 'parsed',
+    progress: 85,
+    message: generationReport.droppedFields.length > 0
+      ? `Parsed ${result.threats.length} threats (dropped ${generationReport.droppedFields.length} entries)`
+      : `Parsed ${result.threats.length} threats`,
+  });
+
+  // Line the refresh up with the current threats, re-read in case a reviewer
+  // edited them while the LLM was running
+  let threats: Threat[] = linkThreatsToDiagram(result.threats, diagram);
+  if (isRefresh) {
+    const [current] = await db
+      .select({ threats: threatModels.threats })
+      .from(threatModels)
       .where(eq(threatModels.id, threatModelId));
 
-    throw error;
+    const merged = mergeRefreshedThreats((current?.threats ?? []) as Threat[], threats);
+    threats = merged.threats;
+    generationReport.refresh = merged.report;
+
+    await emit({
+      type: 'parsed',
+      progress: 88,
+      message: `Matched ${merged.report.matched} existing threats, ${merged.report.added} new, ${merged.report.disappeared} no longer identified`,
+    });
   }
+
+  // Last point a cancel takes effect; once saving starts the run completes
+  signal?.throwIfAborted();
+
+  // Keep the previous analysis (and any edits to it) as revisions before replacing it
+  await revisionService.captureEdits(threatModelId, model.userId);
+  const revision = await revisionService.create(threatModelId, {
+    source: 'generation',
+    inputs: buildRevisionInputs(model, files, tickets),
+    jobId,
+    createdBy: model.userId,
+    // With a fallback chain, record which provider actually answered
+    provider: producedBy.provider ?? provider.name,
+    model: producedBy.model,
+    threats,
+    summary: result.summary,
+    recommendations: result.recommendations,
+    componentGraph: result.componentGraph ?? null,
+    generationReport,
+  });
+
+  // Update threat model with results
+  await db
+    .update(threatModels)
+    .set({
+      status: 'completed',
+      threats,
+      summary: result.summary,
+      recommendations: result.recommendations,
+      componentGraph: revision.componentGraph,
+      generationReport,
+      generationProvider: revision.provider,
+      generationModel: revision.model,
+      currentRevisionId: revision.id,
+      generationCompletedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(threatModels.id, threatModelId));
+
+  await onEvent?.({
+    type: 'saved',
+    progress: 95,
+    message: 'Saved threat model',
+  });
 }
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import type { Mitigation, Threat } from '@threat-modeling/shared';
+import { matchThreats, mergeRefreshedThreats, textSimilarity } from './threat-merge';
+
+const mitigation = (id: string, description: string, overrides: Partial<Mitigation> = {}): Mitigation => ({
+  id,
+  description,
+  priority: 'immediate',
+  effort: 'low',
+  status: 'proposed',
+  ...overrides,
+});
+
+const threat = (id: string, title: string, overrides: Partial<Threat> = {}): Threat => ({
+  id,
+  title,
+  description: 'Details',
+  category: 'spoofing',
+  severity: 'medium',
+  likelihood: 3,
+  impact: 3,
+  riskScore: 9,
+  affectedComponents: [],
+  mitigations: [],
+  ...overrides,
+});
+
+describe('textSimilarity', () => {
+  test('compares the words two texts share', () => {
+    expect(textSimilarity('Session token theft', 'session TOKEN theft')).toBe(1);
+    expect(textSimilarity('Session token theft', 'SQL injection in search')).toBe(0);
+  });
+});
+
+describe('matchThreats', () => {
+  test('pairs by ID, then exact title, then similar title in the same category', () => {
+    const before = [
+      threat('legacy-1', 'Session token theft'),
+      threat('a', 'SQL injection in search'),
+      threat('b', 'Weak password reset flow allows takeover'),
+      threat('c', 'Unencrypted backups', { category: 'information_disclosure' }),
+    ];
+    const after = [
+      threat('legacy-1', 'Stolen session tokens are replayed'),
+      threat('x', 'sql injection in search'),
+      threat('y', 'Weak password reset flow enables takeover'),
+      threat('z', 'Unencrypted backups', { category: 'tampering' }),
+    ];
+
+    const pairs = matchThreats(before, after).map(([b, a]) => [b?.id, a?.id]);
+    expect(pairs).toEqual([
+      ['legacy-1', 'legacy-1'],
+      ['a', 'x'],
+      // An exact title match doesn't need the same category
+      ['c', 'z'],
+      // Similar titles are only tried once ID and exact matches are taken
+      ['b', 'y'],
+    ]);
+  });
+
+  test('leaves unmatched threats without a partner', () => {
+    const pairs = matchThreats([threat('a', 'Clickjacking')], [threat('b', 'Replay attack')]);
+    expect(pairs.map(([b, a]) => [b?.id, a?.id])).toEqual([
+      ['a', undefined],
+      [undefined, 'b'],
+    ]);
+  });
+});
+
+describe('mergeRefreshedThreats', () => {
+  test("keeps reviewers' edits and mitigation decisions on matched threats", () => {
+    const existing = [
+      threat('legacy-1', 'Session token theft', {
+        severity: 'critical',
+        likelihood: 5,
+        editedFields: ['severity', 'likelihood'],
+        mitigations: [
+          mitigation('m1', 'Rotate signing keys', { status: 'accepted' }),
+          mitigation('m2', 'Pin sessions to devices', { description: 'Bind sessions to devices', editedFields: ['description'] }),
+          mitigation('m3', 'Log every login', { status: 'rejected' }),
+          mitigation('m4', 'Add a WAF'),
+        ],
+      }),
+    ];
+    const generated = [
+      threat('legacy-1', 'Session token theft', {
+        severity: 'low',
+        likelihood: 2,
+        impact: 4,
+        mitigations: [
+          mitigation('n1', 'Rotate signing keys'),
+          mitigation('n2', 'Pin sessions to devices'),
+          mitigation('n3', 'Use short-lived tokens'),
+        ],
+      }),
+    ];
+
+    const { threats, report } = mergeRefreshedThreats(existing, generated);
+    const [merged] = threats;
+
+    expect(merged).toMatchObject({ id: 'legacy-1', severity: 'critical', likelihood: 5, impact: 4, riskScore: 20 });
+    expect(merged.mitigations.map((m) => [m.id, m.status, m.description])).toEqual([
+      ['m1', 'accepted', 'Rotate signing keys'],
+      ['m2', 'proposed', 'Bind sessions to devices'],
+      // Rejected but no longer suggested - kept so the decision isn't lost
+      ['m3', 'rejected', 'Log every login'],
+      ['n3', 'proposed', 'Use short-lived tokens'],
+    ]);
+    expect(report).toEqual({ matched: 1, added: 0, disappeared: 0, preservedEdits: 5 });
+  });
+
+  test('flags new threats and keeps the ones that disappeared', () => {
+    const { threats, report } = mergeRefreshedThreats(
+      [threat('a', 'Clickjacking')],
+      [threat('b', 'Replay attack')]
+    );
+
+    expect(threats.map((t) => [t.id, t.refreshStatus])).toEqual([
+      ['a', 'disappeared'],
+      ['b', 'new'],
+    ]);
+    expect(report).toMatchObject({ matched: 0, added: 1, disappeared: 1 });
+  });
+});
@@ -0,0 +1,173 @@
+import type { GenerationReport, Mitigation, Threat } from '@threat-modeling/shared';
+
+/**
+ * Threat Matching and Refresh Merging
+ *
+ * Each LLM run assigns fresh IDs and rewords titles, so threats from two runs
+ * are paired up heuristically: by ID, then by exact title, then by similar
+ * title within the same category. Used to diff revisions and to carry
+ * reviewers' work across a refresh.
+ */
+
+// Texts sharing at least this fraction of words are treated as the same item
+const SIMILARITY_THRESHOLD = 0.5;
+
+export type RefreshReport = NonNullable<GenerationReport['refresh']>;
+
+export interface RefreshMerge {
+  threats: Threat[];
+  report: RefreshReport;
+}
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 2));
+
+/**
+ * Jaccard similarity of the words in two texts, from 0 to 1
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Pair up items from two runs. Items matched by neither key nor similarity
+ * are returned with an undefined partner.
+ */
+function matchItems<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  sameItem: (a: T, b: T) => boolean,
+  similarity: (a: T, b: T) => number
+): Array<[T | undefined, T | undefined]> {
+  const pairs: Array<[T | undefined, T | undefined]> = [];
+  const unmatched = new Set(after);
+
+  const take = (predicate: (candidate: T) => boolean) => {
+    const match = [...unmatched].find(predicate);
+    if (match) unmatched.delete(match);
+    return match;
+  };
+
+  const remaining: T[] = [];
+  for (const item of before) {
+    const match = take((candidate) => candidate.id === item.id) ?? take((candidate) => sameItem(item, candidate));
+    if (match) pairs.push([item, match]);
+    else remaining.push(item);
+  }
+
+  for (const item of remaining) {
+    const best = [...unmatched]
+      .map((candidate) => ({ candidate, score: similarity(item, candidate) }))
+      .sort((a, b) => b.score - a.score)[0];
+
+    if (best && best.score >= SIMILARITY_THRESHOLD) {
+      unmatched.delete(best.candidate);
+      pairs.push([item, best.candidate]);
+    } else {
+      pairs.push([item, undefined]);
+    }
+  }
+
+  for (const item of unmatched) {
+    pairs.push([undefined, item]);
+  }
+
+  return pairs;
+}
+
+/**
+ * Pair up threats from two runs
+ */
+export function matchThreats(before: Threat[], after: Threat[]): Array<[Threat | undefined, Threat | undefined]> {
+  return matchItems(
+    before,
+    after,
+    (a, b) => a.title.trim().toLowerCase() === b.title.trim().toLowerCase(),
+    (a, b) => (a.category === b.category ? textSimilarity(a.title, b.title) : 0)
+  );
+}
+
+function matchMitigations(
+  before: Mitigation[],
+  after: Mitigation[]
+): Array<[Mitigation | undefined, Mitigation | undefined]> {
+  return matchItems(
+    before,
+    after,
+    (a, b) => a.description.trim().toLowerCase() === b.description.trim().toLowerCase(),
+    (a, b) => textSimilarity(a.description, b.description)
+  );
+}
+
+// A reviewer has acted on the mitigation, so it shouldn't be dropped silently
+const isReviewed = (mitigation: Mitigation) =>
+  mitigation.status !== 'proposed' || (mitigation.editedFields?.length ?? 0) > 0;
+
+function mergeThreat(before: Threat, after: Threat): { threat: Threat; preservedEdits: number } {
+  let preservedEdits = 0;
+  const edited = new Set(before.editedFields ?? []);
+
+  const threat: Threat = { ...after, id: before.id };
+  if (edited.size > 0) threat.editedFields = before.editedFields;
+
+  if (edited.has('severity')) threat.severity = before.severity;
+  if (edited.has('likelihood')) threat.likelihood = before.likelihood;
+  if (edited.has('impact')) threat.impact = before.impact;
+  if (edited.has('dfdElementIds')) threat.dfdElementIds = before.dfdElementIds;
+  preservedEdits += ['severity', 'likelihood', 'impact', 'dfdElementIds'].filter((f) => edited.has(f)).length;
+  threat.riskScore = threat.likelihood * threat.impact;
+
+  threat.mitigations = [];
+  for (const [oldMitigation, newMitigation] of matchMitigations(before.mitigations, after.mitigations)) {
+    if (oldMitigation && newMitigation) {
+      const keepDescription = oldMitigation.editedFields?.includes('description') ?? false;
+      threat.mitigations.push({
+        ...newMitigation,
+        id: oldMitigation.id,
+        status: oldMitigation.status,
+        description: keepDescription ? oldMitigation.description : newMitigation.description,
+        ...(oldMitigation.editedFields && { editedFields: oldMitigation.editedFields }),
+      });
+      if (isReviewed(oldMitigation)) preservedEdits++;
+    } else if (newMitigation) {
+      threat.mitigations.push(newMitigation);
+    } else if (oldMitigation && isReviewed(oldMitigation)) {
+      threat.mitigations.push(oldMitigation);
+      preservedEdits++;
+    }
+  }
+
+  return { threat, preservedEdits };
+}
+
+/**
+ * Merge a refresh run into the existing threats. Matched threats keep their
+ * ID, the fields reviewers set and their mitigations' statuses; new threats
+ * are flagged `new`, and existing threats the LLM no longer reports are kept
+ * but flagged `disappeared` so a reviewer can decide what to do with them.
+ */
+export function mergeRefreshedThreats(existing: Threat[], generated: Threat[]): RefreshMerge {
+  const threats: Threat[] = [];
+  const report: RefreshReport = { matched: 0, added: 0, disappeared: 0, preservedEdits: 0 };
+
+  for (const [before, after] of matchThreats(existing, generated)) {
+    if (before && after) {
+      const merged = mergeThreat(before, after);
+      threats.push(merged.threat);
+      report.matched++;
+      report.preservedEdits += merged.preservedEdits;
+    } else if (after) {
+      threats.push({ ...after, refreshStatus: 'new' });
+      report.added++;
+    } else if (before) {
+      threats.push({ ...before, refreshStatus: 'disappeared' });
+      report.disappeared++;
+    }
+  }
+
+  return { threats, report };
+}
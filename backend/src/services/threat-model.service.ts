@@ -46,6 +46,7 @@ export class ThreatModelService {
       status: item.status as any,
       threatCount: (item.threats as any[])?.length ?? 0,
       highestSeverity: this.getHighestSeverity(item.threats as any[]),
+      organizationId: item.organizationId,
       createdAt: item.createdAt.toISOString(),
       updatedAt: item.updatedAt.toISOString(),
     }));
@@ -102,6 +103,8 @@ export class ThreatModelService {
         title: data.title,
         description: data.description,
         systemDescription: data.systemDescription,
+        methodology: data.methodology,
+        organizationId: data.organizationId,
         status: 'draft',
       })
       .returning();
@@ -118,7 +121,7 @@ export class ThreatModelService {
     if (data.description !== undefined) updateData.description = data.description;
     if (data.systemDescription !== undefined) updateData.systemDescription = data.systemDescription;
     if (data.questionsAnswers !== undefined) updateData.questionsAnswers = data.questionsAnswers;
-    if (data.isPublic !== undefined) updateData.isPublic = data.isPublic;
+    if (data.methodology !== undefined) updateData.methodology = data.methodology;
 
     const [model] = await db
       .update(threatModels)
@@ -265,6 +268,7 @@ export class ThreatModelService {
       createdBy: model.createdBy,
       createdAt: model.createdAt.toISOString(),
       updatedAt: model.updatedAt.toISOString(),
+      methodology: model.methodology,
       systemDescription: model.systemDescription,
       questionsAnswers: model.questionsAnswers ?? [],
       contextFiles: files.map((f) => ({
@@ -281,6 +285,7 @@ export class ThreatModelService {
       threats: model.threats ?? [],
       summary: model.summary,
       recommendations: model.recommendations ?? [],
+      componentGraph: model.componentGraph,
       shareToken: model.shareToken,
       isPublic: model.isPublic,
       generationStartedAt: model.generationStartedAt?.toISOString(),
@@ -0,0 +1,96 @@
+import { eq } from 'drizzle-orm';
+import { db, threatModels, dataFlowDiagrams } from '../db';
+import type { ThreatModelSelect } from '../db/schema';
+import type { UpdateMitigationRequest, UpdateThreatRequest } from '@threat-modeling/shared';
+
+/**
+ * Threat Triage
+ *
+ * Reviewers adjust the rating, diagram links and mitigations of generated
+ * threats, both in the app and through share links with edit permission.
+ * Every field they set is recorded in `editedFields` so a refresh keeps it.
+ */
+
+type StoredThreat = NonNullable<ThreatModelSelect['threats']>[number];
+type StoredMitigation = StoredThreat['mitigations'][number];
+
+export type TriageResult<T> = { ok: true; value: T } | { ok: false; status: 400 | 404; error: string };
+
+export async function updateThreat(
+  threatModelId: string,
+  threatId: string,
+  changes: UpdateThreatRequest
+): Promise<TriageResult<StoredThreat>> {
+  const [model] = await db.select().from(threatModels).where(eq(threatModels.id, threatModelId));
+  if (!model) {
+    return { ok: false, status: 404, error: 'Threat model not found' };
+  }
+
+  const threats = model.threats || [];
+  const threat = threats.find((t) => t.id === threatId);
+  if (!threat) {
+    return { ok: false, status: 404, error: 'Threat not found' };
+  }
+
+  if (changes.dfdElementIds !== undefined) {
+    const [diagram] = await db
+      .select({ elements: dataFlowDiagrams.elements })
+      .from(dataFlowDiagrams)
+      .where(eq(dataFlowDiagrams.threatModelId, threatModelId));
+
+    const elementIds = new Set(diagram?.elements.map((element) => element.id));
+    const unknown = changes.dfdElementIds.filter((elementId) => !elementIds.has(elementId));
+    if (unknown.length > 0) {
+      return { ok: false, status: 400, error: `Unknown data flow diagram elements: ${unknown.join(', ')}` };
+    }
+  }
+
+  if (changes.likelihood !== undefined) threat.likelihood = changes.likelihood;
+  if (changes.impact !== undefined) threat.impact = changes.impact;
+  if (changes.severity !== undefined) threat.severity = changes.severity;
+  if (changes.dfdElementIds !== undefined) threat.dfdElementIds = [...new Set(changes.dfdElementIds)];
+  threat.riskScore = threat.likelihood * threat.impact;
+  // Remember what the reviewer set so a refresh doesn't overwrite it
+  threat.editedFields = [...new Set([...(threat.editedFields ?? []), ...Object.keys(changes)])];
+
+  await db
+    .update(threatModels)
+    .set({ threats, updatedAt: new Date() })
+    .where(eq(threatModels.id, threatModelId));
+
+  return { ok: true, value: threat };
+}
+
+export async function updateMitigation(
+  threatModelId: string,
+  threatId: string,
+  mitigationId: string,
+  changes: UpdateMitigationRequest
+): Promise<TriageResult<StoredMitigation>> {
+  const [model] = await db.select().from(threatModels).where(eq(threatModels.id, threatModelId));
+  if (!model) {
+    return { ok: false, status: 404, error: 'Threat model not found' };
+  }
+
+  const threats = model.threats || [];
+  const threat = threats.find((t) => t.id === threatId);
+  if (!threat) {
+    return { ok: false, status: 404, error: 'Threat not found' };
+  }
+
+  const mitigation = threat.mitigations.find((m) => m.id === mitigationId);
+  if (!mitigation) {
+    return { ok: false, status: 404, error: 'Mitigation not found' };
+  }
+
+  if (changes.status !== undefined) mitigation.status = changes.status;
+  if (changes.description !== undefined) mitigation.description = changes.description;
+  mitigation.editedFields = [...new Set([...(mitigation.editedFields ?? []), ...Object.keys(changes)])];
+
+  await db
+    .update(threatModels)
+    .set({ threats, updatedAt: new Date() })
+    .where(eq(threatModels.id, threatModelId));
+
+  return { ok: true, value: mitigation };
+}
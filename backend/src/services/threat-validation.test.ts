@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import { buildRepairPrompt, validateGenerationResponse } from './threat-validation';
+
+const mitigation = (id: string, description = 'Rotate the signing keys') => ({
+  id,
+  description,
+  priority: 'immediate',
+  effort: 'low',
+  status: 'proposed',
+});
+
+const threat = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: `Threat ${id}`,
+  description: 'An attacker forges session tokens',
+  category: 'spoofing',
+  severity: 'high',
+  likelihood: 3,
+  impact: 4,
+  riskScore: 12,
+  affectedComponents: ['API'],
+  mitigations: [mitigation('m1')],
+  ...overrides,
+});
+
+const respond = (threats: unknown[]) => JSON.stringify({ threats, summary: 'Summary', recommendations: ['Patch'] });
+
+const constraints = { threatCount: 10, minSeverity: 'info' as const };
+
+describe('validateGenerationResponse', () => {
+  test('coerces common slips and records them', () => {
+    const validation = validateGenerationResponse(
+      respond([threat('t1', { severity: 'High', likelihood: '4', impact: 5, riskScore: 1, affectedComponents: 'API' })])
+    );
+
+    expect(validation.issues).toEqual([]);
+    expect(validation.result!.threats[0]).toMatchObject({
+      severity: 'high',
+      likelihood: 4,
+      riskScore: 20,
+      affectedComponents: ['API'],
+    });
+    expect(validation.coercedFields).toEqual(
+      expect.arrayContaining(['threats[0].severity', 'threats[0].likelihood', 'threats[0].riskScore'])
+    );
+  });
+
+  test('keeps existing IDs and only replaces missing or duplicate ones', () => {
+    const validation = validateGenerationResponse(
+      respond([
+        threat('legacy-1', { mitigations: [mitigation('m1'), mitigation('m1', 'Shorten token lifetime')] }),
+        threat('legacy-1'),
+        threat(''),
+      ])
+    );
+
+    const [first, second, third] = validation.result!.threats;
+    expect(first.id).toBe('legacy-1');
+    expect(first.mitigations.map((m) => m.id)[0]).toBe('m1');
+    expect(first.mitigations[1].id).not.toBe('m1');
+    // Mitigation IDs only need to be unique within their threat
+    expect(second.mitigations[0].id).toBe('m1');
+    expect(second.id).not.toBe('legacy-1');
+    expect(third.id).not.toBe('');
+  });
+
+  test('trims threats over the requested count without asking for a repair', () => {
+    const validation = validateGenerationResponse(
+      respond([
+        threat('low', { likelihood: 1, impact: 1, riskScore: 1 }),
+        threat('high', { likelihood: 5, impact: 5, riskScore: 25 }),
+        threat('mid', { likelihood: 2, impact: 3, riskScore: 6 }),
+      ]),
+      { ...constraints, threatCount: 2 }
+    );
+
+    expect(validation.issues).toEqual([]);
+    expect(validation.result!.threats.map((t) => t.id)).toEqual(['high', 'mid']);
+    expect(validation.droppedFields).toEqual(['threats[0]']);
+  });
+
+  test('reports threats outside the constraints as issues', () => {
+    const validation = validateGenerationResponse(
+      respond([threat('t1', { severity: 'low' }), threat('t2', { category: 'linking' })]),
+      { ...constraints, minSeverity: 'medium', methodology: 'stride' }
+    );
+
+    expect(validation.result).toBeNull();
+    expect(validation.issues).toHaveLength(2);
+    expect(validation.issues[0]).toStartWith('threats[0].severity');
+    expect(validation.issues[1]).toStartWith('threats[1].category');
+    expect(validation.salvaged).toBeNull();
+    expect(validation.droppedFields).toEqual(['threats[0]', 'threats[1]']);
+  });
+
+  test('salvages valid threats when others are broken', () => {
+    const validation = validateGenerationResponse(
+      respond([threat('t1'), threat('t2', { title: 42 }), threat('t3', { mitigations: [{ id: 'm1' }] })])
+    );
+
+    expect(validation.result).toBeNull();
+    expect(validation.issues.length).toBeGreaterThan(0);
+    expect(validation.salvaged!.threats.map((t) => t.id)).toEqual(['t1', 't3']);
+    expect(validation.droppedFields).toEqual(['threats[1]', 'threats[2].mitigations[0]']);
+  });
+
+  test('extracts JSON wrapped in prose and reports unparseable output', () => {
+    expect(validateGenerationResponse(`Here you go:\n\`\`\`json\n${respond([threat('t1')])}\n\`\`\``).result).not.toBeNull();
+
+    const validation = validateGenerationResponse('I cannot help with that');
+    expect(validation.result).toBeNull();
+    expect(validation.issues[0]).toStartWith('The response is not valid JSON');
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  test('lists the issues, capped at twenty', () => {
+    const issues = Array.from({ length: 25 }, (_, i) => `threats[${i}].title: Required`);
+    const prompt = buildRepairPrompt(issues);
+
+    expect(prompt).toContain('- threats[19].title: Required');
+    expect(prompt).not.toContain('threats[20]');
+    expect(prompt).toContain('...and 5 more');
+  });
+});
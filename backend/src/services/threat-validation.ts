@@ -0,0 +1,491 @@
+import { z } from 'zod';
+import {
+  CATEGORY_LABELS,
+  ComponentGraphSchema,
+  ComponentType,
+  METHODOLOGIES,
+  MitigationSchema,
+  RiskCategory,
+  ThreatSchema,
+  isAtLeastSeverity,
+  type GenerationSettings,
+  type Methodology,
+} from '@threat-modeling/shared';
+
+/**
+ * Threat Generation Output Validation
+ *
+ * Checks LLM output against the shared ThreatSchema before it is saved.
+ * Common slips (missing or duplicate IDs, "High" instead of "high", numbers as
+ * strings, a risk score that isn't likelihood × impact) are coerced and
+ * recorded; anything else is reported as issues that can be sent back to the
+ * provider in a repair turn. If repairs run out, invalid threats and fields
+ * can be dropped instead of failing the whole generation.
+ *
+ * Output is also held to the model's methodology and the requested threat
+ * count and minimum severity. Threats over the count are trimmed here, lowest
+ * risk first, without a repair turn; when salvaging, threats from another
+ * taxonomy and too-minor threats are dropped as well.
+ */
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+// Freshly generated mitigations are always proposals
+const GeneratedMitigationSchema = MitigationSchema.omit({ editedFields: true }).extend({
+  status: z.literal('proposed'),
+});
+
+// Review metadata (edits, refresh flags) is set by us, never by the LLM
+const GeneratedThreatSchema = ThreatSchema.omit({ editedFields: true, refreshStatus: true }).extend({
+  mitigations: z.array(GeneratedMitigationSchema),
+});
+
+export const ThreatGenerationResultSchema = z.object({
+  threats: z.array(GeneratedThreatSchema).min(1),
+  summary: z.string(),
+  recommendations: z.array(z.string()),
+  componentGraph: ComponentGraphSchema.optional(),
+});
+
+export type ValidatedGenerationResult = z.infer<typeof ThreatGenerationResultSchema>;
+
+// Maximum number of issues listed in a repair prompt
+const MAX_REPORTED_ISSUES = 20;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GenerationValidation {
+  /** The coerced result, if it passed validation */
+  result: ValidatedGenerationResult | null;
+  /** Best-effort result with invalid threats/fields dropped, if anything survived */
+  salvaged: ValidatedGenerationResult | null;
+  /** Validation errors, formatted for a repair prompt */
+  issues: string[];
+  /** Paths of fields that were coerced into shape */
+  coercedFields: string[];
+  /** Paths of threats over the requested count, or of fields or threats removed to build `salvaged` */
+  droppedFields: string[];
+}
+
+/** Limits from the generation settings that the output must respect */
+export type GenerationConstraints = Pick<GenerationSettings, 'threatCount' | 'minSeverity'> & {
+  methodology?: Methodology;
+};
+
+type JsonObject = Record<string, unknown>;
+
+// A threat that passed validation, with its path in the raw output
+interface ThreatEntry {
+  threat: ValidatedGenerationResult['threats'][number];
+  path: string;
+}
+
+// =============================================================================
+// Coercion
+// =============================================================================
+
+// Category keys by lower-cased label
+const CATEGORIES_BY_LABEL = new Map(
+  Object.entries(CATEGORY_LABELS).map(([category, label]) => [label.toLowerCase(), category])
+);
+
+const field = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Format a zod path the way it would be written in JS, e.g. threats[0].category
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+    ''
+  );
+}
+
+class Coercer {
+  readonly coerced: string[] = [];
+
+  set(target: JsonObject, key: string, value: unknown, path: string): void {
+    target[key] = value;
+    this.coerced.push(path);
+  }
+
+  /**
+   * Any ID is kept as long as it is unique among its siblings - a refresh
+   * matches threats to the previous run by ID, and older models have non-UUID
+   * IDs
+   */
+  id(target: JsonObject, path: string, taken: Set<string>): void {
+    if (typeof target.id !== 'string' || target.id.trim() === '' || taken.has(target.id)) {
+      this.set(target, 'id', crypto.randomUUID(), `${path}.id`);
+    }
+    taken.add(target.id as string);
+  }
+
+  /** Normalise "Information Disclosure" / "short-term" style values to enum form */
+  enumValue(target: JsonObject, key: string, options: readonly string[], path: string): void {
+    const value = target[key];
+    if (typeof value !== 'string' || options.includes(value)) return;
+
+    const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    if (options.includes(normalized)) {
+      this.set(target, key, normalized, field(path, key));
+    }
+  }
+
+  /** Parse numeric strings and clamp into range */
+  number(target: JsonObject, key: string, min: number, max: number, path: string): void {
+    const value = target[key];
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (typeof parsed !== 'number' || Number.isNaN(parsed)) return;
+
+    const clamped = Math.min(Math.max(Math.round(parsed), min), max);
+    if (clamped !== value) {
+      this.set(target, key, clamped, field(path, key));
+    }
+  }
+
+  /** Map a category written as its label, e.g. "A01: Broken Access Control", to its key */
+  categoryLabel(threat: JsonObject, path: string): void {
+    const value = threat.category;
+    if (typeof value !== 'string' || RiskCategory.safeParse(value).success) return;
+
+    const category = CATEGORIES_BY_LABEL.get(value.trim().toLowerCase());
+    if (category) {
+      this.set(threat, 'category', category, `${path}.category`);
+    }
+  }
+
+  stringArray(target: JsonObject, key: string, path: string): void {
+    const value = target[key];
+    if (typeof value === 'string') {
+      this.set(target, key, [value], field(path, key));
+    } else if (value === undefined || value === null) {
+      this.set(target, key, [], field(path, key));
+    }
+  }
+
+  mitigation(mitigation: JsonObject, path: string, taken: Set<string>): void {
+    this.id(mitigation, path, taken);
+    this.enumValue(mitigation, 'priority', MitigationSchema.shape.priority.options, path);
+    this.enumValue(mitigation, 'effort', MitigationSchema.shape.effort.options, path);
+    if (mitigation.status !== 'proposed') {
+      this.set(mitigation, 'status', 'proposed', `${path}.status`);
+    }
+  }
+
+  threat(threat: JsonObject, path: string, taken: Set<string>): void {
+    this.id(threat, path, taken);
+    this.enumValue(threat, 'category', ThreatSchema.shape.category.options, path);
+    this.categoryLabel(threat, path);
+    this.enumValue(threat, 'severity', ThreatSchema.shape.severity.options, path);
+    this.number(threat, 'likelihood', 1, 5, path);
+    this.number(threat, 'impact', 1, 5, path);
+
+    if (typeof threat.likelihood === 'number' && typeof threat.impact === 'number') {
+      const riskScore = threat.likelihood * threat.impact;
+      if (threat.riskScore !== riskScore) {
+        this.set(threat, 'riskScore', riskScore, `${path}.riskScore`);
+      }
+    }
+
+    this.stringArray(threat, 'affectedComponents', path);
+    if (threat.dfdElementIds === null) {
+      delete threat.dfdElementIds;
+    } else if (threat.dfdElementIds !== undefined) {
+      this.stringArray(threat, 'dfdElementIds', path);
+    }
+    if (threat.attackVector === null) {
+      delete threat.attackVector;
+    }
+
+    if (threat.mitigations === undefined || threat.mitigations === null) {
+      this.set(threat, 'mitigations', [], `${path}.mitigations`);
+    } else if (Array.isArray(threat.mitigations)) {
+      const mitigationIds = new Set<string>();
+      threat.mitigations.forEach((mitigation, j) => {
+        if (isObject(mitigation)) this.mitigation(mitigation, `${path}.mitigations[${j}]`, mitigationIds);
+      });
+    }
+  }
+
+  componentGraph(graph: JsonObject): void {
+    const components = Array.isArray(graph.components) ? graph.components.filter(isObject) : [];
+    components.forEach((component, i) => {
+      this.enumValue(component, 'type', ComponentType.options, `componentGraph.components[${i}]`);
+      if (component.trustZone === null || component.trustZone === '') {
+        delete component.trustZone;
+      }
+    });
+
+    // Flows between components that aren't in the graph can't be drawn
+    const ids = new Set(components.map((component) => component.id));
+    if (Array.isArray(graph.flows)) {
+      const flows = graph.flows.filter((flow) => isObject(flow) && ids.has(flow.sourceId) && ids.has(flow.targetId));
+      if (flows.length !== graph.flows.length) {
+        this.set(graph, 'flows', flows, 'componentGraph.flows');
+      }
+    }
+  }
+
+  result(result: JsonObject): void {
+    if (Array.isArray(result.threats)) {
+      const threatIds = new Set<string>();
+      result.threats.forEach((threat, i) => {
+        if (isObject(threat)) this.threat(threat, `threats[${i}]`, threatIds);
+      });
+    }
+    this.stringArray(result, 'recommendations', '');
+    if (result.componentGraph === null) {
+      delete result.componentGraph;
+    } else if (isObject(result.componentGraph)) {
+      this.componentGraph(result.componentGraph);
+    }
+  }
+}
+
+// =============================================================================
+// Salvage
+// =============================================================================
+
+/**
+ * Drop whatever still fails validation: invalid mitigations, then an invalid
+ * attack vector, then the whole threat, and an invalid component graph.
+ * Returns null if no threat survives.
+ */
+function salvage(
+  result: JsonObject,
+  dropped: string[],
+  constraints?: GenerationConstraints
+): ValidatedGenerationResult | null {
+  let threats: ThreatEntry[] = [];
+  const rawThreats = Array.isArray(result.threats) ? result.threats : [];
+
+  rawThreats.forEach((rawThreat, i) => {
+    const path = `threats[${i}]`;
+    if (!isObject(rawThreat)) {
+      dropped.push(path);
+      return;
+    }
+
+    const threat = { ...rawThreat };
+    if (Array.isArray(threat.mitigations)) {
+      threat.mitigations = threat.mitigations.filter((mitigation, j) => {
+        const valid = GeneratedMitigationSchema.safeParse(mitigation).success;
+        if (!valid) dropped.push(`${path}.mitigations[${j}]`);
+        return valid;
+      });
+    }
+
+    let parsed = GeneratedThreatSchema.safeParse(threat);
+    if (!parsed.success && parsed.error.issues.every((issue) => issue.path[0] === 'attackVector')) {
+      delete threat.attackVector;
+      dropped.push(`${path}.attackVector`);
+      parsed = GeneratedThreatSchema.safeParse(threat);
+    }
+
+    if (parsed.success) {
+      threats.push({ threat: parsed.data, path });
+    } else {
+      dropped.push(path);
+    }
+  });
+
+  if (constraints) {
+    threats = applyConstraints(threats, constraints, dropped);
+  }
+  if (threats.length === 0) return null;
+
+  let summary = '';
+  if (typeof result.summary === 'string') {
+    summary = result.summary;
+  } else {
+    dropped.push('summary');
+  }
+
+  const rawRecommendations = Array.isArray(result.recommendations) ? result.recommendations : [];
+  const recommendations = rawRecommendations.filter((recommendation, i) => {
+    const valid = typeof recommendation === 'string';
+    if (!valid) dropped.push(`recommendations[${i}]`);
+    return valid;
+  });
+
+  // The graph only illustrates the threats, so it is left out rather than losing them
+  const componentGraph = ComponentGraphSchema.safeParse(result.componentGraph);
+  if (result.componentGraph !== undefined && !componentGraph.success) {
+    dropped.push('componentGraph');
+  }
+
+  return {
+    threats: threats.map(({ threat }) => threat),
+    summary,
+    recommendations,
+    ...(componentGraph.success && { componentGraph: componentGraph.data }),
+  };
+}
+
+// =============================================================================
+// Constraints
+// =============================================================================
+
+const inMethodology = (threat: ThreatEntry['threat'], methodology: Methodology) =>
+  METHODOLOGIES[methodology].categories.includes(threat.category);
+
+function constraintIssues(threats: ThreatEntry[], constraints: GenerationConstraints): string[] {
+  const issues: string[] = [];
+
+  threats.forEach(({ threat, path }) => {
+    if (constraints.methodology && !inMethodology(threat, constraints.methodology)) {
+      const { label, categories } = METHODOLOGIES[constraints.methodology];
+      issues.push(`${path}.category: "${threat.category}" is not in the ${label} taxonomy; use one of ${categories.join(', ')}`);
+    }
+    if (!isAtLeastSeverity(threat.severity, constraints.minSeverity)) {
+      issues.push(
+        `${path}.severity: "${threat.severity}" is below the minimum severity "${constraints.minSeverity}"; remove this threat`
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Keep the highest-risk threats up to the requested count. Extra threats are
+ * cheap to drop, so they never cost a repair turn.
+ */
+function trimToCount(threats: ThreatEntry[], threatCount: number, dropped: string[]): ThreatEntry[] {
+  const kept = [...threats].sort((a, b) => b.threat.riskScore - a.threat.riskScore);
+  for (const { path } of kept.splice(threatCount)) {
+    dropped.push(path);
+  }
+  return kept;
+}
+
+/**
+ * Drop threats from another methodology's taxonomy or below the minimum
+ * severity, then the lowest-risk threats over the requested count
+ */
+function applyConstraints(
+  threats: ThreatEntry[],
+  constraints: GenerationConstraints,
+  dropped: string[]
+): ThreatEntry[] {
+  const allowed = threats.filter(({ threat, path }) => {
+    const allowed =
+      isAtLeastSeverity(threat.severity, constraints.minSeverity) &&
+      (!constraints.methodology || inMethodology(threat, constraints.methodology));
+    if (!allowed) dropped.push(path);
+    return allowed;
+  });
+
+  return trimToCount(allowed, constraints.threatCount, dropped);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Extract the JSON object from an LLM response, tolerating surrounding prose
+ * or markdown code fences
+ */
+export function parseJsonResponse(responseText: string): unknown {
+  try {
+    return JSON.parse(responseText);
+  } catch {
+    // Try to extract JSON from response
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]);
+    }
+    throw new Error('Failed to parse AI response as JSON');
+  }
+}
+
+/**
+ * Validate raw LLM output against the threat generation schema and, if given,
+ * the requested threat count and minimum severity
+ */
+export function validateGenerationResponse(
+  responseText: string,
+  constraints?: GenerationConstraints
+): GenerationValidation {
+  let raw: unknown;
+  try {
+    raw = parseJsonResponse(responseText);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      result: null,
+      salvaged: null,
+      issues: [`The response is not valid JSON (${message})`],
+      coercedFields: [],
+      droppedFields: [],
+    };
+  }
+
+  if (!isObject(raw)) {
+    return {
+      result: null,
+      salvaged: null,
+      issues: ['The response must be a JSON object with "threats", "summary" and "recommendations"'],
+      coercedFields: [],
+      droppedFields: [],
+    };
+  }
+
+  const coercer = new Coercer();
+  coercer.result(raw);
+
+  const trimmedFields: string[] = [];
+  const parsed = ThreatGenerationResultSchema.safeParse(raw);
+  let issues: string[] = [];
+  if (!parsed.success) {
+    issues = parsed.error.issues.map((issue) => `${formatPath(issue.path) || '(root)'}: ${issue.message}`);
+  } else if (constraints) {
+    const entries = parsed.data.threats.map((threat, i) => ({ threat, path: `threats[${i}]` }));
+    const kept = trimToCount(entries, constraints.threatCount, trimmedFields);
+    parsed.data.threats = kept.map(({ threat }) => threat);
+    issues = constraintIssues(kept, constraints);
+  }
+
+  if (parsed.success && issues.length === 0) {
+    return {
+      result: parsed.data,
+      salvaged: null,
+      issues,
+      coercedFields: coercer.coerced,
+      droppedFields: trimmedFields,
+    };
+  }
+
+  const droppedFields: string[] = [];
+  return {
+    result: null,
+    salvaged: salvage(raw, droppedFields, constraints),
+    issues,
+    coercedFields: coercer.coerced,
+    droppedFields,
+  };
+}
+
+/**
+ * Build the follow-up message asking the provider to fix its previous output
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  const listed = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue}`);
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    listed.push(`- ...and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+
+  return `Your previous response did not meet the requirements:
+${listed.join('\n')}
+
+Respond again with the complete, corrected JSON object only. Keep all valid content unchanged and do not wrap it in markdown code blocks.`;
+}
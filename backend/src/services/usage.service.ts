@@ -0,0 +1,69 @@
+import { eq, sql } from 'drizzle-orm';
+import { db, llmUsage } from '../db';
+import type { LlmUsageSelect } from '../db/schema';
+import { estimateCost, type LLMResponse } from '../llm';
+import type { ModelUsage } from '@threat-modeling/shared';
+
+/**
+ * LLM Usage Accounting
+ *
+ * Records tokens, latency and estimated cost for every LLM call made while
+ * generating a threat model, and aggregates them per model for budgeting.
+ */
+
+export interface RecordUsageInput {
+  userId: string | null;
+  threatModelId: string;
+  jobId?: string;
+  purpose: LlmUsageSelect['purpose'];
+  /** Provider the request was sent to; the response's own provider wins for fallback chains */
+  provider: string;
+  response: LLMResponse;
+  latencyMs: number;
+}
+
+/**
+ * Persist usage for one LLM call
+ */
+export async function recordLlmUsage(input: RecordUsageInput): Promise<void> {
+  const provider = input.response.provider ?? input.provider;
+  const inputTokens = input.response.usage?.inputTokens ?? 0;
+  const outputTokens = input.response.usage?.outputTokens ?? 0;
+
+  await db.insert(llmUsage).values({
+    userId: input.userId,
+    threatModelId: input.threatModelId,
+    jobId: input.jobId,
+    purpose: input.purpose,
+    provider,
+    model: input.response.model,
+    inputTokens,
+    outputTokens,
+    latencyMs: Math.round(input.latencyMs),
+    estimatedCostUsd: estimateCost(provider, input.response.model, inputTokens, outputTokens),
+  });
+}
+
+/**
+ * Per-model usage totals for a user, most expensive first
+ */
+export async function getUsageByModel(userId: string): Promise<ModelUsage[]> {
+  const rows = await db
+    .select({
+      provider: llmUsage.provider,
+      model: llmUsage.model,
+      calls: sql<number>`count(*)`,
+      inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)`,
+      outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)`,
+      avgLatencyMs: sql<number>`coalesce(avg(${llmUsage.latencyMs}), 0)`,
+      // sum() skips nulls, so only report a cost when every call was priced
+      estimatedCostUsd: sql<number | null>`case when count(${llmUsage.estimatedCostUsd}) = count(*) then sum(${llmUsage.estimatedCostUsd}) end`,
+    })
+    .from(llmUsage)
+    .where(eq(llmUsage.userId, userId))
+    .groupBy(llmUsage.provider, llmUsage.model);
+
+  return rows
+    .map((row) => ({ ...row, avgLatencyMs: Math.round(row.avgLatencyMs) }))
+    .sort((a, b) => (b.estimatedCostUsd ?? 0) - (a.estimatedCostUsd ?? 0));
+}
@@ -0,0 +1,57 @@
+import type { Hono } from 'hono';
+import { db, threatModels } from '../db';
+import type { ThreatModelInsert } from '../db/schema';
+
+/**
+ * Poll until `check` returns something truthy, for work that finishes in the
+ * background (the generation worker, event listeners)
+ */
+export async function waitFor<T>(check: () => Promise<T> | T, timeoutMs = 5000): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value) return value as NonNullable<T>;
+    await Bun.sleep(20);
+  }
+  throw new Error(`Timed out after ${timeoutMs}ms`);
+}
+
+export async function createModel(values: Partial<ThreatModelInsert> = {}) {
+  const [model] = await db
+    .insert(threatModels)
+    .values({
+      title: 'Payments API',
+      systemDescription: 'A REST API that takes card payments and stores orders in Postgres.',
+      userId: 'owner',
+      ...values,
+    })
+    .returning();
+
+  return model;
+}
+
+/**
+ * Call a route as `user`, whose ID doubles as their bearer token in tests,
+ * from `ip` as the connection's address
+ */
+export function request(
+  app: Hono,
+  path: string,
+  {
+    method = 'GET',
+    user,
+    body,
+    headers: extraHeaders,
+    ip = '127.0.0.1',
+  }: { method?: string; user?: string; body?: unknown; headers?: Record<string, string>; ip?: string } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...extraHeaders };
+  if (user) headers.Authorization = `Bearer ${user}`;
+
+  // Stands in for the Bun server that routes reading the client IP expect
+  const env = { requestIP: () => ({ address: ip, family: 'IPv4', port: 50000 }) };
+
+  return Promise.resolve(
+    app.request(path, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) }, env)
+  );
+}
@@ -0,0 +1,54 @@
+import { mock } from 'bun:test';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Test Setup
+ *
+ * Preloaded by `bun test` (see bunfig.toml). Every test file shares one
+ * in-memory database with the current schema, the deterministic mock LLM
+ * provider and a fast generation queue. Clerk is replaced so a bearer token is
+ * taken as the user ID it stands for.
+ */
+
+process.env.DATABASE_URL = ':memory:';
+process.env.LLM_PROVIDER = 'mock';
+process.env.STORAGE_PROVIDER = 'local';
+process.env.UPLOAD_DIR = mkdtempSync(join(tmpdir(), 'threat-modeling-test-'));
+process.env.GENERATION_POLL_INTERVAL_MS = '20';
+process.env.GENERATION_RETRY_BASE_DELAY_MS = '10';
+process.env.GENERATION_MAX_ATTEMPTS = '2';
+
+mock.module('@clerk/backend', () => ({
+  verifyToken: async (token: string) => ({ sub: token, sid: '' }),
+  createClerkClient: () => ({
+    users: {
+      getUser: async (userId: string) => ({
+        id: userId,
+        fullName: null,
+        primaryEmailAddress: { emailAddress: `${userId}@example.com` },
+        emailAddresses: [{ emailAddress: `${userId}@example.com`, verification: { status: 'verified' } }],
+      }),
+      getUserList: async () => ({ data: [] }),
+    },
+  }),
+}));
+
+// Imported after the environment is set, since both read it on load
+const { sql } = await import('drizzle-orm');
+const { generateSQLiteDrizzleJson, generateSQLiteMigration } = await import('drizzle-kit/api');
+const schema = await import('../db/schema');
+const { db } = await import('../db');
+
+const statements = await generateSQLiteMigration(
+  await generateSQLiteDrizzleJson({}),
+  await generateSQLiteDrizzleJson(schema)
+);
+for (const statement of statements) {
+  db.run(sql.raw(statement));
+}
+
+// drizzle-kit adds an enumerable Array.prototype.random on import, which
+// PDF.js refuses to run alongside
+delete (Array.prototype as { random?: unknown }).random;
@@ -6,6 +6,7 @@ import { ThreatModelList } from './pages/ThreatModelList';
 import { CreateThreatModel } from './pages/CreateThreatModel';
 import { ThreatModelView } from './pages/ThreatModelView';
 import { SharedThreatModel } from './pages/SharedThreatModel';
+import { Organizations } from './pages/Organizations';
 
 export default function App() {
   return (
@@ -23,6 +24,7 @@ export default function App() {
         <Route index element={<ThreatModelList />} />
         <Route path="new" element={<CreateThreatModel />} />
         <Route path="threat-models/:id" element={<ThreatModelView />} />
+        <Route path="organizations" element={<Organizations />} />
       </Route>
       {/* Shared links remain public */}
       <Route path="/shared/:token" element={<SharedThreatModel />} />
@@ -0,0 +1,70 @@
+import { Lock, LockOpen } from 'lucide-react';
+import type { ContextFile } from '@threat-modeling/shared';
+import { cn } from '@/lib/utils';
+
+interface ApiSpecSummaryProps {
+  files: ContextFile[];
+}
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: 'bg-blue-100 text-blue-800',
+  POST: 'bg-green-100 text-green-800',
+  PUT: 'bg-yellow-100 text-yellow-800',
+  PATCH: 'bg-yellow-100 text-yellow-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+/**
+ * The operations, auth schemes and data models parsed from uploaded OpenAPI
+ * and Swagger specifications - the summary the threat analysis is given
+ */
+export function ApiSpecSummary({ files }: ApiSpecSummaryProps) {
+  const specs = files.flatMap((file) => (file.apiSpec ? [{ file, spec: file.apiSpec }] : []));
+  if (specs.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      {specs.map(({ file, spec }) => {
+        const unauthenticated = spec.operations.filter((op) => op.security.length === 0).length;
+        return (
+          <div key={file.id}>
+            <h4 className="text-sm font-medium">
+              {spec.title} {spec.version}
+            </h4>
+            <p className="text-xs text-muted-foreground mb-2">
+              {spec.specVersion} · {file.originalName} · {spec.operations.length} operations
+              {unauthenticated > 0 && `, ${unauthenticated} without authentication`} · {spec.models.length} models
+              {spec.securitySchemes.length > 0 &&
+                ` · auth: ${spec.securitySchemes.map((scheme) => scheme.name).join(', ')}`}
+            </p>
+            <ul className="max-h-64 overflow-auto space-y-1 text-sm">
+              {spec.operations.map((op) => (
+                <li key={`${op.method} ${op.path}`} className="flex items-center gap-2">
+                  <span
+                    className={cn(
+                      'w-14 shrink-0 text-center px-1 rounded text-xs font-medium',
+                      METHOD_COLORS[op.method] ?? 'bg-muted text-muted-foreground'
+                    )}
+                  >
+                    {op.method}
+                  </span>
+                  <span className={cn('font-mono text-xs', op.deprecated && 'line-through')}>{op.path}</span>
+                  {op.security.length > 0 ? (
+                    <span title={op.security.join(' or ')}>
+                      <Lock className="h-3 w-3 text-muted-foreground" />
+                    </span>
+                  ) : (
+                    <span title="No authentication">
+                      <LockOpen className="h-3 w-3 text-orange-500" />
+                    </span>
+                  )}
+                  {op.summary && <span className="text-xs text-muted-foreground truncate">{op.summary}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
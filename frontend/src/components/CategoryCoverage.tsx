@@ -0,0 +1,38 @@
+import { CATEGORY_LABELS, METHODOLOGIES, type Methodology, type Threat } from '@threat-modeling/shared';
+import { cn } from '@/lib/utils';
+
+interface CategoryCoverageProps {
+  methodology: Methodology;
+  threats: Threat[];
+}
+
+/**
+ * Threat counts across every category of the model's methodology, so gaps
+ * in the analysis are visible too
+ */
+export function CategoryCoverage({ methodology, threats }: CategoryCoverageProps) {
+  const { label, categories } = METHODOLOGIES[methodology];
+
+  return (
+    <div className="mb-4">
+      <p className="text-sm text-muted-foreground mb-2">{label} coverage</p>
+      <div className="flex flex-wrap gap-2">
+        {categories.map((category) => {
+          const count = threats.filter((t) => t.category === category).length;
+          return (
+            <span
+              key={category}
+              className={cn(
+                'inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium',
+                count > 0 ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {CATEGORY_LABELS[category]}
+              <span className="font-bold">{count}</span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
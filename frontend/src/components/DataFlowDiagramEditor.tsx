@@ -0,0 +1,510 @@
+import { useEffect, useRef, useState } from 'react';
+import { Circle, Database, Square, SquareDashed, ArrowRight, Trash2, Save, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useThreatModelStore } from '@/store/threat-model-store';
+import { cn } from '@/lib/utils';
+import type {
+  DataFlowDiagram,
+  DfdElement,
+  DfdElementType,
+  DfdFlow,
+  DfdTrustBoundary,
+  Threat,
+} from '@threat-modeling/shared';
+
+interface DataFlowDiagramEditorProps {
+  threatModelId: string;
+  diagram?: DataFlowDiagram | null;
+  threats: Threat[];
+  readOnly?: boolean;
+}
+
+type Selection = { kind: 'element' | 'flow' | 'boundary'; id: string } | null;
+
+type Drag =
+  | { kind: 'element' | 'boundary'; id: string; offsetX: number; offsetY: number }
+  | { kind: 'resize'; id: string };
+
+const CANVAS_WIDTH = 960;
+const CANVAS_HEIGHT = 540;
+
+// Half the size of each shape, used for hit boxes and to stop arrows at the edge
+const ELEMENT_RADIUS = 40;
+const BOX_HALF_WIDTH = 60;
+const BOX_HALF_HEIGHT = 25;
+
+const MIN_BOUNDARY_SIZE = 80;
+
+const ELEMENT_TYPES: Array<{ type: DfdElementType; label: string; prefix: string; icon: typeof Circle }> = [
+  { type: 'process', label: 'Process', prefix: 'p', icon: Circle },
+  { type: 'data_store', label: 'Data Store', prefix: 'ds', icon: Database },
+  { type: 'external_entity', label: 'External Entity', prefix: 'e', icon: Square },
+];
+
+// Short sequential IDs, since the LLM refers to elements by ID
+function nextId(prefix: string, ids: string[]): string {
+  let n = 1;
+  while (ids.includes(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+const contains = (boundary: DfdTrustBoundary, element: DfdElement) =>
+  element.x >= boundary.x &&
+  element.x <= boundary.x + boundary.width &&
+  element.y >= boundary.y &&
+  element.y <= boundary.y + boundary.height;
+
+/**
+ * Point where a flow from `from` to `to` leaves the shape around `from`
+ */
+function edgePoint(from: DfdElement, to: DfdElement): { x: number; y: number } {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  if (from.type === 'process') {
+    return { x: from.x + (dx / length) * ELEMENT_RADIUS, y: from.y + (dy / length) * ELEMENT_RADIUS };
+  }
+  const scale = Math.min(BOX_HALF_WIDTH / Math.abs(dx || 1), BOX_HALF_HEIGHT / Math.abs(dy || 1));
+  return { x: from.x + dx * scale, y: from.y + dy * scale };
+}
+
+/**
+ * Canvas editor for a threat model's data flow diagram: processes, data
+ * stores and external entities joined by data flows, grouped by trust
+ * boundaries. Elements show how many threats are linked to them.
+ */
+export function DataFlowDiagramEditor({
+  threatModelId,
+  diagram,
+  threats,
+  readOnly = false,
+}: DataFlowDiagramEditorProps) {
+  const { saveDataFlowDiagram, deleteDataFlowDiagram } = useThreatModelStore();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [elements, setElements] = useState<DfdElement[]>([]);
+  const [flows, setFlows] = useState<DfdFlow[]>([]);
+  const [boundaries, setBoundaries] = useState<DfdTrustBoundary[]>([]);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start over from the saved diagram whenever it changes on the server
+  useEffect(() => {
+    setElements(diagram?.elements ?? []);
+    setFlows(diagram?.flows ?? []);
+    setBoundaries(diagram?.boundaries ?? []);
+    setSelection(null);
+    setIsDirty(false);
+  }, [diagram?.id, diagram?.updatedAt]);
+
+  const linkedThreats = new Map<string, number>();
+  for (const threat of threats) {
+    for (const id of threat.dfdElementIds ?? []) {
+      linkedThreats.set(id, (linkedThreats.get(id) ?? 0) + 1);
+    }
+  }
+
+  const allIds = [...elements, ...flows, ...boundaries].map((item) => item.id);
+  const elementById = new Map(elements.map((element) => [element.id, element]));
+
+  const change = () => setIsDirty(true);
+
+  const toCanvas = (event: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM()?.inverse();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix);
+    return {
+      x: Math.round(Math.min(Math.max(point.x, 0), CANVAS_WIDTH)),
+      y: Math.round(Math.min(Math.max(point.y, 0), CANVAS_HEIGHT)),
+    };
+  };
+
+  const addElement = (type: DfdElementType, prefix: string, label: string) => {
+    const id = nextId(prefix, allIds);
+    const offset = (elements.length % 8) * 20;
+    setElements([...elements, { id, type, name: `${label} ${id}`, x: 120 + offset, y: 100 + offset }]);
+    setSelection({ kind: 'element', id });
+    change();
+  };
+
+  const addBoundary = () => {
+    const id = nextId('tb', allIds);
+    setBoundaries([...boundaries, { id, name: 'Trust boundary', elementIds: [], x: 40, y: 40, width: 320, height: 220 }]);
+    setSelection({ kind: 'boundary', id });
+    change();
+  };
+
+  const handleElementPointerDown = (event: React.PointerEvent, element: DfdElement) => {
+    if (readOnly) return;
+    event.stopPropagation();
+
+    if (isConnecting) {
+      if (!connectFrom) {
+        setConnectFrom(element.id);
+      } else if (connectFrom !== element.id) {
+        const id = nextId('f', allIds);
+        setFlows([...flows, { id, sourceId: connectFrom, targetId: element.id, label: '' }]);
+        setSelection({ kind: 'flow', id });
+        setConnectFrom(null);
+        change();
+      }
+      return;
+    }
+
+    const point = toCanvas(event);
+    setSelection({ kind: 'element', id: element.id });
+    setDrag({ kind: 'element', id: element.id, offsetX: point.x - element.x, offsetY: point.y - element.y });
+  };
+
+  const handleBoundaryPointerDown = (event: React.PointerEvent, boundary: DfdTrustBoundary) => {
+    if (readOnly || isConnecting) return;
+    event.stopPropagation();
+    const point = toCanvas(event);
+    setSelection({ kind: 'boundary', id: boundary.id });
+    setDrag({ kind: 'boundary', id: boundary.id, offsetX: point.x - boundary.x, offsetY: point.y - boundary.y });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toCanvas(event);
+
+    if (drag.kind === 'element') {
+      setElements(elements.map((e) =>
+        e.id === drag.id ? { ...e, x: point.x - drag.offsetX, y: point.y - drag.offsetY } : e
+      ));
+    } else if (drag.kind === 'boundary') {
+      setBoundaries(boundaries.map((b) =>
+        b.id === drag.id ? { ...b, x: point.x - drag.offsetX, y: point.y - drag.offsetY } : b
+      ));
+    } else {
+      setBoundaries(boundaries.map((b) =>
+        b.id === drag.id
+          ? {
+              ...b,
+              width: Math.max(point.x - b.x, MIN_BOUNDARY_SIZE),
+              height: Math.max(point.y - b.y, MIN_BOUNDARY_SIZE),
+            }
+          : b
+      ));
+    }
+    change();
+  };
+
+  const deleteSelection = () => {
+    if (!selection) return;
+    if (selection.kind === 'element') {
+      setElements(elements.filter((e) => e.id !== selection.id));
+      setFlows(flows.filter((f) => f.sourceId !== selection.id && f.targetId !== selection.id));
+    } else if (selection.kind === 'flow') {
+      setFlows(flows.filter((f) => f.id !== selection.id));
+    } else {
+      setBoundaries(boundaries.filter((b) => b.id !== selection.id));
+    }
+    setSelection(null);
+    change();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Boundaries hold the elements whose centre lies inside them
+      await saveDataFlowDiagram(threatModelId, {
+        elements,
+        flows,
+        boundaries: boundaries.map((b) => ({
+          ...b,
+          elementIds: elements.filter((e) => contains(b, e)).map((e) => e.id),
+        })),
+      });
+      toast.success('Data flow diagram saved');
+    } catch (err) {
+      console.error('Failed to save data flow diagram:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save data flow diagram');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete the data flow diagram? Threats will be unlinked from its elements.')) return;
+    try {
+      await deleteDataFlowDiagram(threatModelId);
+      toast.success('Data flow diagram deleted');
+    } catch (err) {
+      console.error('Failed to delete data flow diagram:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to delete data flow diagram');
+    }
+  };
+
+  const selectedElement = selection?.kind === 'element' ? elementById.get(selection.id) : undefined;
+  const selectedFlow = selection?.kind === 'flow' ? flows.find((f) => f.id === selection.id) : undefined;
+  const selectedBoundary = selection?.kind === 'boundary' ? boundaries.find((b) => b.id === selection.id) : undefined;
+
+  const updateElement = (changes: Partial<DfdElement>) => {
+    setElements(elements.map((e) => (e.id === selectedElement?.id ? { ...e, ...changes } : e)));
+    change();
+  };
+  const updateFlow = (changes: Partial<DfdFlow>) => {
+    setFlows(flows.map((f) => (f.id === selectedFlow?.id ? { ...f, ...changes } : f)));
+    change();
+  };
+  const updateBoundary = (changes: Partial<DfdTrustBoundary>) => {
+    setBoundaries(boundaries.map((b) => (b.id === selectedBoundary?.id ? { ...b, ...changes } : b)));
+    change();
+  };
+
+  if (readOnly && elements.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          {ELEMENT_TYPES.map(({ type, label, prefix, icon: Icon }) => (
+            <Button key={type} variant="outline" size="sm" onClick={() => addElement(type, prefix, label)}>
+              <Icon className="h-4 w-4 mr-1" />
+              {label}
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" onClick={addBoundary}>
+            <SquareDashed className="h-4 w-4 mr-1" />
+            Trust Boundary
+          </Button>
+          <Button
+            variant={isConnecting ? 'default' : 'outline'}
+            size="sm"
+            disabled={elements.length < 2}
+            onClick={() => {
+              setIsConnecting(!isConnecting);
+              setConnectFrom(null);
+            }}
+            title="Click the source element, then the target"
+          >
+            <ArrowRight className="h-4 w-4 mr-1" />
+            Data Flow
+          </Button>
+          <Button variant="outline" size="sm" disabled={!selection} onClick={deleteSelection}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Remove
+          </Button>
+          <div className="flex-1" />
+          {diagram && (
+            <Button variant="ghost" size="sm" onClick={handleDelete}>
+              Delete Diagram
+            </Button>
+          )}
+          <Button size="sm" disabled={!isDirty || isSaving || elements.length === 0} onClick={handleSave}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save
+          </Button>
+        </div>
+      )}
+
+      {isConnecting && (
+        <p className="text-xs text-muted-foreground">
+          {connectFrom
+            ? `Click the element ${elementById.get(connectFrom)?.name} sends data to`
+            : 'Click the element the data flows from'}
+        </p>
+      )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+        className="w-full border rounded-lg bg-background select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDrag(null)}
+        onPointerLeave={() => setDrag(null)}
+        onPointerDown={() => setSelection(null)}
+      >
+        <defs>
+          <marker id="dfd-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+          </marker>
+        </defs>
+
+        {boundaries.map((boundary) => (
+          <g key={boundary.id} onPointerDown={(event) => handleBoundaryPointerDown(event, boundary)}>
+            <rect
+              x={boundary.x}
+              y={boundary.y}
+              width={boundary.width}
+              height={boundary.height}
+              rx={8}
+              className={cn(
+                'fill-transparent stroke-red-500',
+                selection?.id === boundary.id ? 'stroke-2' : 'stroke-1',
+                !readOnly && 'cursor-move'
+              )}
+              strokeDasharray="8 6"
+            />
+            <text x={boundary.x + 8} y={boundary.y + 16} className="fill-red-600 text-xs">
+              {boundary.name}
+            </text>
+            {!readOnly && selection?.id === boundary.id && (
+              <rect
+                x={boundary.x + boundary.width - 6}
+                y={boundary.y + boundary.height - 6}
+                width={12}
+                height={12}
+                className="fill-red-500 cursor-nwse-resize"
+                onPointerDown={(event) => {
+                  event.stopPropagation();
+                  setDrag({ kind: 'resize', id: boundary.id });
+                }}
+              />
+            )}
+          </g>
+        ))}
+
+        {flows.map((flow) => {
+          const source = elementById.get(flow.sourceId);
+          const target = elementById.get(flow.targetId);
+          if (!source || !target) return null;
+          const start = edgePoint(source, target);
+          const end = edgePoint(target, source);
+          return (
+            <g
+              key={flow.id}
+              className={cn('text-muted-foreground', selection?.id === flow.id && 'text-primary')}
+              onPointerDown={(event) => {
+                if (readOnly) return;
+                event.stopPropagation();
+                setSelection({ kind: 'flow', id: flow.id });
+              }}
+            >
+              {/* Wide transparent line so the flow is easy to click */}
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="transparent" strokeWidth={12} />
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke="currentColor"
+                strokeWidth={selection?.id === flow.id ? 2 : 1.5}
+                markerEnd="url(#dfd-arrow)"
+              />
+              {(flow.label || flow.protocol) && (
+                <text
+                  x={(start.x + end.x) / 2}
+                  y={(start.y + end.y) / 2 - 6}
+                  textAnchor="middle"
+                  className="fill-current text-xs"
+                >
+                  {[flow.label, flow.protocol && `(${flow.protocol})`].filter(Boolean).join(' ')}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {elements.map((element) => {
+          const selected = selection?.id === element.id || connectFrom === element.id;
+          const shapeClass = cn('fill-card', selected ? 'stroke-primary stroke-2' : 'stroke-foreground');
+          const count = linkedThreats.get(element.id) ?? 0;
+          return (
+            <g
+              key={element.id}
+              className={cn(!readOnly && (isConnecting ? 'cursor-crosshair' : 'cursor-move'))}
+              onPointerDown={(event) => handleElementPointerDown(event, element)}
+            >
+              {element.type === 'process' && (
+                <circle cx={element.x} cy={element.y} r={ELEMENT_RADIUS} className={shapeClass} />
+              )}
+              {element.type === 'external_entity' && (
+                <rect
+                  x={element.x - BOX_HALF_WIDTH}
+                  y={element.y - BOX_HALF_HEIGHT}
+                  width={BOX_HALF_WIDTH * 2}
+                  height={BOX_HALF_HEIGHT * 2}
+                  className={shapeClass}
+                />
+              )}
+              {element.type === 'data_store' && (
+                <>
+                  <rect
+                    x={element.x - BOX_HALF_WIDTH}
+                    y={element.y - BOX_HALF_HEIGHT}
+                    width={BOX_HALF_WIDTH * 2}
+                    height={BOX_HALF_HEIGHT * 2}
+                    className="fill-card"
+                  />
+                  {[-BOX_HALF_HEIGHT, BOX_HALF_HEIGHT].map((dy) => (
+                    <line
+                      key={dy}
+                      x1={element.x - BOX_HALF_WIDTH}
+                      x2={element.x + BOX_HALF_WIDTH}
+                      y1={element.y + dy}
+                      y2={element.y + dy}
+                      className={shapeClass}
+                    />
+                  ))}
+                </>
+              )}
+              <text x={element.x} y={element.y + 4} textAnchor="middle" className="fill-foreground text-xs">
+                {element.name.length > 18 ? `${element.name.slice(0, 17)}…` : element.name}
+              </text>
+              {count > 0 && (
+                <g>
+                  <title>{count === 1 ? '1 linked threat' : `${count} linked threats`}</title>
+                  <circle cx={element.x + 40} cy={element.y - 28} r={10} className="fill-severity-high" />
+                  <text x={element.x + 40} y={element.y - 24} textAnchor="middle" className="fill-white text-xs">
+                    {count}
+                  </text>
+                </g>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Properties of the selected item */}
+      {!readOnly && selectedElement && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={selectedElement.name}
+            onChange={(event) => updateElement({ name: event.target.value })}
+            placeholder="Name"
+          />
+          <Input
+            value={selectedElement.description ?? ''}
+            onChange={(event) => updateElement({ description: event.target.value || undefined })}
+            placeholder="Description, e.g. technology or data held"
+          />
+        </div>
+      )}
+      {!readOnly && selectedFlow && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={selectedFlow.label}
+            onChange={(event) => updateFlow({ label: event.target.value })}
+            placeholder="Data carried, e.g. login credentials"
+          />
+          <Input
+            value={selectedFlow.protocol ?? ''}
+            onChange={(event) => updateFlow({ protocol: event.target.value || undefined })}
+            placeholder="Protocol, e.g. HTTPS"
+          />
+        </div>
+      )}
+      {!readOnly && selectedBoundary && (
+        <Input
+          value={selectedBoundary.name}
+          onChange={(event) => updateBoundary({ name: event.target.value })}
+          placeholder="Boundary name"
+        />
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {elements.length} elements · {flows.length} data flows · {boundaries.length} trust boundaries
+        {!readOnly && ' · The diagram is sent with the next generation, and threats are linked to its elements'}
+        {isDirty && ' · Unsaved changes'}
+      </p>
+    </div>
+  );
+}
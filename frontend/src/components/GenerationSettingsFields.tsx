@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  MAX_THREAT_COUNT,
+  RiskSeverity,
+  type GenerationSettings,
+} from '@threat-modeling/shared';
+
+interface GenerationSettingsFieldsProps {
+  value: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+const parseFocusAreas = (text: string) =>
+  text
+    .split(',')
+    .map((area) => area.trim())
+    .filter(Boolean)
+    .slice(0, 10);
+
+export function GenerationSettingsFields({ value, onChange, disabled }: GenerationSettingsFieldsProps) {
+  // Keep the raw text so commas and spaces can be typed freely
+  const [focusText, setFocusText] = useState(value.focusAreas.join(', '));
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-[8rem_10rem_1fr]">
+      <div>
+        <label htmlFor="threat-count" className="block text-sm font-medium mb-1">
+          Threats
+        </label>
+        <Input
+          id="threat-count"
+          type="number"
+          min={1}
+          max={MAX_THREAT_COUNT}
+          value={value.threatCount}
+          disabled={disabled}
+          onChange={(e) => {
+            const count = parseInt(e.target.value);
+            if (!Number.isNaN(count)) {
+              onChange({ ...value, threatCount: Math.min(Math.max(count, 1), MAX_THREAT_COUNT) });
+            }
+          }}
+        />
+      </div>
+      <div>
+        <label htmlFor="min-severity" className="block text-sm font-medium mb-1">
+          Minimum severity
+        </label>
+        <select
+          id="min-severity"
+          value={value.minSeverity}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, minSeverity: e.target.value as RiskSeverity })}
+          className="w-full h-10 px-3 border rounded-md bg-background text-sm capitalize"
+        >
+          {RiskSeverity.options.map((severity) => (
+            <option key={severity} value={severity}>
+              {severity}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="focus-areas" className="block text-sm font-medium mb-1">
+          Focus areas
+        </label>
+        <Input
+          id="focus-areas"
+          placeholder="e.g. authentication, payment flow, admin API"
+          value={focusText}
+          disabled={disabled}
+          onChange={(e) => {
+            setFocusText(e.target.value);
+            onChange({ ...value, focusAreas: parseFocusAreas(e.target.value) });
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import type { ContextFile, IacInventory } from '@threat-modeling/shared';
+
+interface InfrastructureInventoryProps {
+  files: ContextFile[];
+}
+
+const SECTIONS: Array<[keyof IacInventory, string]> = [
+  ['services', 'Services'],
+  ['exposures', 'Network Exposure'],
+  ['secrets', 'Secrets'],
+  ['dataStores', 'Data Stores'],
+];
+
+/**
+ * What the IaC analyser found in the uploaded Terraform, CloudFormation,
+ * Kubernetes and docker-compose files - the inventory the threat analysis
+ * is given
+ */
+export function InfrastructureInventory({ files }: InfrastructureInventoryProps) {
+  const inventories = files.flatMap((file) => (file.iacInventory ? [file.iacInventory] : []));
+  if (inventories.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium mb-2">Infrastructure Inventory</h4>
+      <div className="grid gap-4 md:grid-cols-2">
+        {SECTIONS.map(([key, title]) => {
+          const entries = inventories.flatMap((inventory) => inventory[key]);
+          if (entries.length === 0) return null;
+          return (
+            <div key={key}>
+              <p className="text-xs text-muted-foreground mb-1">
+                {title} ({entries.length})
+              </p>
+              <ul className="space-y-1 text-sm">
+                {entries.map((entry, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{entry.name}</span>{' '}
+                    <span className="text-xs text-muted-foreground">
+                      {entry.kind} · {entry.source}
+                    </span>
+                    {entry.details.length > 0 && (
+                      <p className="text-xs text-muted-foreground">{entry.details.join('; ')}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
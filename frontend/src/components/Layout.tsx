@@ -1,5 +1,5 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
-import { Shield, Plus, List } from 'lucide-react';
+import { Shield, Plus, List, Users } from 'lucide-react';
 import {
   SignedIn,
   SignedOut,
@@ -45,6 +45,18 @@ export function Layout() {
               <Plus className="h-4 w-4" />
               New Model
             </Link>
+            <Link
+              to="/organizations"
+              className={cn(
+                'flex items-center gap-2 px-3 py-2 rounded-md text-sm transition-colors',
+                location.pathname === '/organizations'
+                  ? 'bg-primary text-primary-foreground'
+                  : 'hover:bg-accent'
+              )}
+            >
+              <Users className="h-4 w-4" />
+              Teams
+            </Link>
             <div className="flex items-center gap-2 ml-4 pl-4 border-l">
               <SignedOut>
                 <SignInButton mode="modal">
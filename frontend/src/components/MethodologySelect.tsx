@@ -0,0 +1,31 @@
+import { METHODOLOGIES, Methodology } from '@threat-modeling/shared';
+
+interface MethodologySelectProps {
+  value: Methodology;
+  onChange: (methodology: Methodology) => void;
+  disabled?: boolean;
+}
+
+export function MethodologySelect({ value, onChange, disabled }: MethodologySelectProps) {
+  return (
+    <div>
+      <label htmlFor="methodology" className="block text-sm font-medium mb-1">
+        Methodology
+      </label>
+      <select
+        id="methodology"
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value as Methodology)}
+        className="w-full h-10 px-3 border rounded-md bg-background text-sm"
+      >
+        {Methodology.options.map((methodology) => (
+          <option key={methodology} value={methodology}>
+            {METHODOLOGIES[methodology].label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-muted-foreground mt-1">{METHODOLOGIES[value].description}</p>
+    </div>
+  );
+}
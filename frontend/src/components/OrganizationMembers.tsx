@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  API_ROUTES,
+  OrganizationRole,
+  type Organization,
+  type OrganizationMember,
+} from '@threat-modeling/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiFetch } from '@/lib/utils';
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Manages members and can delete threat models',
+  editor: 'Creates, edits, generates and shares threat models',
+  reviewer: 'Triages and discusses threats and mitigations',
+  viewer: 'Reads threat models and exports',
+};
+
+interface OrganizationMembersProps {
+  organization: Organization;
+  // Called after the user leaves the organization
+  onLeft: () => void;
+}
+
+/**
+ * Members of an organization and their roles. Owners can add, re-role and
+ * remove members; everyone else can see the list and leave.
+ */
+export function OrganizationMembers({ organization, onLeft }: OrganizationMembersProps) {
+  const { userId } = useAuth();
+  const [members, setMembers] = useState<OrganizationMember[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('viewer');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const isOwner = organization.role === 'owner';
+
+  useEffect(() => {
+    setMembers(null);
+    apiFetch<{ members: OrganizationMember[] }>(API_ROUTES.organizations.members(organization.id))
+      .then(({ members }) => setMembers(members))
+      .catch((err) => toast.error(err.message));
+  }, [organization.id]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusyId('new');
+    try {
+      const member = await apiFetch<OrganizationMember>(API_ROUTES.organizations.members(organization.id), {
+        method: 'POST',
+        body: JSON.stringify({ email: email.trim(), role }),
+      });
+      setMembers((current) => [...(current ?? []), member]);
+      setEmail('');
+      toast.success(`Added ${member.email ?? member.userId} as ${member.role}`);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, newRole: OrganizationRole) => {
+    setBusyId(member.id);
+    try {
+      const updated = await apiFetch<OrganizationMember>(
+        API_ROUTES.organizations.member(organization.id, member.id),
+        { method: 'PATCH', body: JSON.stringify({ role: newRole }) }
+      );
+      setMembers((current) => current?.map((m) => (m.id === updated.id ? updated : m)) ?? null);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    const leaving = member.userId === userId;
+    const prompt = leaving
+      ? `Leave ${organization.name}? You will lose access to its threat models.`
+      : `Remove ${member.email ?? member.userId} from ${organization.name}?`;
+    if (!confirm(prompt)) return;
+
+    setBusyId(member.id);
+    try {
+      await apiFetch(API_ROUTES.organizations.member(organization.id, member.id), { method: 'DELETE' });
+      if (leaving) {
+        onLeft();
+        return;
+      }
+      setMembers((current) => current?.filter((m) => m.id !== member.id) ?? null);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!members) {
+    return (
+      <div className="h-24 flex items-center justify-center text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y border rounded-md">
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between gap-4 p-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {member.email ?? member.userId}
+                {member.userId === userId && <span className="text-muted-foreground font-normal"> (you)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[member.role]}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                  disabled={busyId === member.id}
+                  className="px-2 py-1 border rounded-md bg-background text-sm capitalize"
+                >
+                  {OrganizationRole.options.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-sm capitalize text-muted-foreground">{member.role}</span>
+              )}
+              {(isOwner || member.userId === userId) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(member)}
+                  disabled={busyId === member.id}
+                  className="text-muted-foreground hover:text-destructive"
+                  title={member.userId === userId ? 'Leave organization' : 'Remove member'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="Email the person signs in with"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="flex-1"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as OrganizationRole)}
+            className="px-3 py-2 border rounded-md bg-background text-sm capitalize"
+          >
+            {OrganizationRole.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" disabled={busyId === 'new' || !email.trim()}>
+            {busyId === 'new' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <UserPlus className="h-4 w-4 mr-2" />
+            )}
+            Add Member
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
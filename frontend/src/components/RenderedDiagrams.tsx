@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { API_ROUTES, type ContextFile } from '@threat-modeling/shared';
+import { getAuthToken } from '@/lib/auth';
+
+interface RenderedDiagramsProps {
+  threatModelId: string;
+  files: ContextFile[];
+}
+
+/**
+ * The PNGs rendered from uploaded Mermaid, PlantUML and draw.io sources -
+ * the images vision-capable providers are given
+ */
+export function RenderedDiagrams({ threatModelId, files }: RenderedDiagramsProps) {
+  const diagrams = files.filter((file) => file.diagramGraph && file.renderedDiagramPath);
+  const [images, setImages] = useState<Record<string, string>>({});
+  const key = diagrams.map((file) => `${file.id}:${file.renderedDiagramPath}`).join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    const urls: string[] = [];
+
+    // The image route needs the auth header, so it can't be an <img> src
+    (async () => {
+      const token = await getAuthToken();
+      const loaded: Record<string, string> = {};
+      for (const file of diagrams) {
+        try {
+          const res = await fetch(API_ROUTES.files.rendered(threatModelId, file.id), {
+            headers: token ? { Authorization: `Bearer ${token}` } : {},
+          });
+          if (!res.ok) continue;
+          const url = URL.createObjectURL(await res.blob());
+          urls.push(url);
+          loaded[file.id] = url;
+        } catch (err) {
+          console.error(`Failed to load the rendered diagram for ${file.originalName}:`, err);
+        }
+      }
+      if (!cancelled) setImages(loaded);
+    })();
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [threatModelId, key]);
+
+  if (diagrams.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      {diagrams.map((file) => {
+        const graph = file.diagramGraph!;
+        return (
+          <div key={file.id}>
+            <h4 className="text-sm font-medium">{file.originalName}</h4>
+            <p className="text-xs text-muted-foreground mb-2">
+              {graph.kind} · {graph.nodes.length} components · {graph.edges.length} connections
+              {graph.groups.length > 0 && ` · ${graph.groups.length} groups`}
+            </p>
+            {images[file.id] ? (
+              <img
+                src={images[file.id]}
+                alt={`Diagram rendered from ${file.originalName}`}
+                className="max-h-[32rem] max-w-full border rounded bg-white"
+              />
+            ) : (
+              <div className="h-24 flex items-center justify-center bg-muted rounded text-xs text-muted-foreground">
+                Loading diagram...
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  API_ROUTES,
+  type RevisionDiff,
+  type ThreatDiff,
+  type ThreatModelRevisionSummary,
+} from '@threat-modeling/shared';
+import { Button } from '@/components/ui/button';
+import { apiFetch, cn } from '@/lib/utils';
+
+interface RevisionHistoryProps {
+  threatModelId: string;
+  currentRevisionId?: string | null;
+  onRestored: () => void;
+  // Hides restoring, for users who can only view the model
+  readOnly?: boolean;
+}
+
+const sourceLabels: Record<ThreatModelRevisionSummary['source'], string> = {
+  generation: 'Generated',
+  manual: 'Edited',
+  restore: 'Restored',
+};
+
+const statusStyles: Record<ThreatDiff['status'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+};
+
+const formatValue = (value: unknown) =>
+  Array.isArray(value) ? value.join('; ') || '—' : value === null || value === '' ? '—' : String(value);
+
+const revisionLabel = (revision: ThreatModelRevisionSummary) =>
+  `#${revision.revisionNumber} ${sourceLabels[revision.source]} ${new Date(revision.createdAt).toLocaleString()}`;
+
+export function RevisionHistory({
+  threatModelId,
+  currentRevisionId,
+  onRestored,
+  readOnly = false,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ThreatModelRevisionSummary[]>([]);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ revisions: ThreatModelRevisionSummary[] }>(API_ROUTES.revisions.list(threatModelId))
+      .then(({ revisions }) => {
+        setRevisions(revisions);
+        // Default to the current revision against the one before it
+        const toIndex = Math.max(0, revisions.findIndex((r) => r.isCurrent));
+        setToId(revisions[toIndex]?.id ?? '');
+        setFromId(revisions[toIndex + 1]?.id ?? '');
+      })
+      .catch(console.error);
+  }, [threatModelId, currentRevisionId]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ from: fromId, to: toId });
+    apiFetch<RevisionDiff>(`${API_ROUTES.revisions.diff(threatModelId)}?${params}`)
+      .then(setDiff)
+      .catch(console.error);
+  }, [threatModelId, fromId, toId]);
+
+  const handleRestore = async (revision: ThreatModelRevisionSummary) => {
+    setRestoringId(revision.id);
+    try {
+      await apiFetch(API_ROUTES.revisions.restore(threatModelId, revision.id), { method: 'POST' });
+      toast.success(`Restored revision #${revision.revisionNumber}`);
+      onRestored();
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  const changedThreats = diff?.threats.filter((t) => showUnchanged || t.status !== 'unchanged') ?? [];
+
+  return (
+    <div className="p-6 bg-card border rounded-lg space-y-4">
+      <h2 className="font-semibold flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Revision History
+      </h2>
+
+      <ul className="space-y-2 text-sm">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="flex items-center justify-between gap-3">
+            <div>
+              <span className="font-medium">{revisionLabel(revision)}</span>
+              <span className="text-muted-foreground">
+                {' '}
+                · {revision.threatCount} threats
+                {revision.model && ` · ${revision.model}`}
+              </span>
+              {revision.isCurrent && (
+                <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                  Current
+                </span>
+              )}
+            </div>
+            {!revision.isCurrent && !readOnly && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRestore(revision)}
+                disabled={restoringId !== null}
+              >
+                {restoringId === revision.id ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Restore
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {revisions.length > 1 && (
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Compare</span>
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="px-2 py-1 border rounded-md bg-background"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  {revisionLabel(revision)}
+                </option>
+              ))}
+            </select>
+            <span className="text-muted-foreground">with</span>
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="px-2 py-1 border rounded-md bg-background"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                  {revisionLabel(revision)}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 ml-auto text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+              />
+              Show unchanged
+            </label>
+          </div>
+
+          {diff && (
+            <div className="space-y-3 text-sm">
+              {diff.inputsChanged.length > 0 && (
+                <p className="text-muted-foreground">
+                  Inputs changed between these runs: {diff.inputsChanged.join(', ')}
+                </p>
+              )}
+              {diff.summaryChanged && (
+                <p className="text-muted-foreground">The executive summary was rewritten.</p>
+              )}
+
+              {changedThreats.length === 0 ? (
+                <p className="text-muted-foreground">No threat changes between these revisions.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {changedThreats.map((threat, index) => (
+                    <li key={index} className="p-3 border rounded-md">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={cn(
+                            'inline-flex items-center px-2 py-0.5 rounded text-xs font-medium capitalize',
+                            statusStyles[threat.status]
+                          )}
+                        >
+                          {threat.status}
+                        </span>
+                        <span className="font-medium">{threat.title}</span>
+                      </div>
+                      {threat.changes.length > 0 && (
+                        <dl className="mt-2 space-y-1">
+                          {threat.changes.map((change) => (
+                            <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+                              <dt className="text-muted-foreground">{change.field}</dt>
+                              <dd>
+                                <span className="line-through text-red-700">{formatValue(change.before)}</span>
+                                {' → '}
+                                <span className="text-green-700">{formatValue(change.after)}</span>
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {(diff.recommendationsAdded.length > 0 || diff.recommendationsRemoved.length > 0) && (
+                <div>
+                  <p className="font-medium mb-1">Recommendations</p>
+                  <ul className="space-y-1">
+                    {diff.recommendationsAdded.map((rec) => (
+                      <li key={`+${rec}`} className="text-green-700">+ {rec}</li>
+                    ))}
+                    {diff.recommendationsRemoved.map((rec) => (
+                      <li key={`-${rec}`} className="text-red-700">− {rec}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Copy, KeyRound, Link2, Loader2, Mail, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  API_ROUTES,
+  SharePermission,
+  type ShareLink,
+  type ShareLinkAccess,
+} from '@threat-modeling/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useThreatModelStore } from '@/store/threat-model-store';
+import { apiFetch, cn } from '@/lib/utils';
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can triage threats',
+};
+
+// Shown in the access log instead of the API's codes
+const DENIAL_LABELS: Record<string, string> = {
+  password_required: 'No password',
+  invalid_password: 'Wrong password',
+  too_many_attempts: 'Too many wrong passwords',
+  sign_in_required: 'Not signed in',
+  email_not_allowed: 'Email not allowed',
+};
+
+const highestPermission = (link: ShareLink) => link.permissions[link.permissions.length - 1];
+
+interface ShareLinksProps {
+  threatModelId: string;
+}
+
+/**
+ * Share links of a threat model: create links with their own permission,
+ * expiry, email allow-list and password, copy or revoke them, and see who
+ * has used each one.
+ */
+export function ShareLinks({ threatModelId }: ShareLinksProps) {
+  const { createShareLink } = useThreatModelStore();
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [label, setLabel] = useState('');
+  const [permission, setPermission] = useState<SharePermission>('view');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [emails, setEmails] = useState('');
+  const [password, setPassword] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [logLinkId, setLogLinkId] = useState<string | null>(null);
+  const [accesses, setAccesses] = useState<ShareLinkAccess[] | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ links: ShareLink[] }>(API_ROUTES.threatModels.shareLinks(threatModelId))
+      .then(({ links }) => setLinks(links))
+      .catch((err) => toast.error(err.message));
+  }, [threatModelId]);
+
+  useEffect(() => {
+    setAccesses(null);
+    if (!logLinkId) return;
+    apiFetch<{ accesses: ShareLinkAccess[] }>(API_ROUTES.threatModels.shareLinkAccesses(threatModelId, logLinkId))
+      .then(({ accesses }) => setAccesses(accesses))
+      .catch((err) => toast.error(err.message));
+  }, [threatModelId, logLinkId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(threatModelId, {
+        label: label.trim() || undefined,
+        permissions: [permission],
+        // The link works until the end of the chosen day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        allowedEmails: emails
+          .split(/[\s,;]+/)
+          .map((email) => email.trim())
+          .filter(Boolean),
+        password: password || undefined,
+      });
+      setLinks((current) => [link, ...(current ?? [])]);
+      setLabel('');
+      setExpiresOn('');
+      setEmails('');
+      setPassword('');
+      await navigator.clipboard.writeText(link.shareUrl);
+      toast.success('Share link created and copied to clipboard');
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(link.shareUrl);
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) return;
+    try {
+      await apiFetch(API_ROUTES.threatModels.shareLink(threatModelId, link.id), { method: 'DELETE' });
+      const revokedAt = new Date().toISOString();
+      setLinks((current) =>
+        current?.map((l) => (l.id === link.id ? { ...l, isActive: false, revokedAt } : l)) ?? null
+      );
+      toast.success('Share link revoked');
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <Input
+            placeholder="Label (e.g. Security review)"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={100}
+          />
+          <select
+            value={permission}
+            onChange={(e) => setPermission(e.target.value as SharePermission)}
+            className="px-3 py-2 border rounded-md bg-background text-sm"
+          >
+            {SharePermission.options.map((option) => (
+              <option key={option} value={option}>
+                {PERMISSION_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <Input
+            type="date"
+            min={today}
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            title="Expires after this day (leave empty to never expire)"
+          />
+        </div>
+        <div className="grid gap-3 sm:grid-cols-[1fr_12rem_auto]">
+          <Input
+            placeholder="Only these emails (optional, comma-separated)"
+            value={emails}
+            onChange={(e) => setEmails(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Password (optional)"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+          />
+          <Button type="submit" disabled={isCreating}>
+            {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+            Create Link
+          </Button>
+        </div>
+      </form>
+
+      {!links ? (
+        <div className="h-16 flex items-center justify-center text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This threat model hasn't been shared yet.</p>
+      ) : (
+        <div className="divide-y border rounded-md bg-background">
+          {links.map((link) => (
+            <div key={link.id} className={cn('p-3 space-y-2', !link.isActive && 'opacity-60')}>
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {link.label || 'Untitled link'}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      {PERMISSION_LABELS[highestPermission(link)]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-x-3">
+                    <span>
+                      {link.revokedAt
+                        ? `Revoked ${new Date(link.revokedAt).toLocaleDateString()}`
+                        : link.expiresAt
+                          ? `${link.isActive ? 'Expires' : 'Expired'} ${new Date(link.expiresAt).toLocaleDateString()}`
+                          : 'Never expires'}
+                    </span>
+                    {link.hasPassword && (
+                      <span className="flex items-center gap-1">
+                        <KeyRound className="h-3 w-3" />
+                        Password
+                      </span>
+                    )}
+                    {link.allowedEmails.length > 0 && (
+                      <span className="flex items-center gap-1" title={link.allowedEmails.join(', ')}>
+                        <Mail className="h-3 w-3" />
+                        {link.allowedEmails.length} {link.allowedEmails.length === 1 ? 'email' : 'emails'}
+                      </span>
+                    )}
+                    <span>
+                      {link.lastAccessedAt
+                        ? `Last opened ${new Date(link.lastAccessedAt).toLocaleString()}`
+                        : 'Never opened'}
+                    </span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLogLinkId(logLinkId === link.id ? null : link.id)}
+                    title="Access log"
+                  >
+                    {link.accessCount} {link.accessCount === 1 ? 'visit' : 'visits'}
+                    {logLinkId === link.id ? (
+                      <ChevronUp className="h-4 w-4 ml-1" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4 ml-1" />
+                    )}
+                  </Button>
+                  {link.isActive && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => handleCopy(link)} title="Copy link">
+                        {copiedId === link.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRevoke(link)}
+                        className="text-muted-foreground hover:text-destructive"
+                        title="Revoke link"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {logLinkId === link.id && (
+                <div className="text-xs border rounded-md max-h-56 overflow-auto">
+                  {!accesses ? (
+                    <div className="p-3 text-muted-foreground">Loading...</div>
+                  ) : accesses.length === 0 ? (
+                    <div className="p-3 text-muted-foreground">Nobody has used this link yet.</div>
+                  ) : (
+                    <table className="w-full">
+                      <tbody className="divide-y">
+                        {accesses.map((access) => (
+                          <tr key={access.id}>
+                            <td className="p-2 whitespace-nowrap">{new Date(access.createdAt).toLocaleString()}</td>
+                            <td className="p-2 capitalize">
+                              {access.format ? `export (${access.format})` : access.action}
+                            </td>
+                            <td className="p-2">{access.email ?? access.ipAddress ?? 'Anonymous'}</td>
+                            <td className={cn('p-2', access.allowed ? 'text-green-700' : 'text-destructive')}>
+                              {access.allowed
+                                ? 'Allowed'
+                                : DENIAL_LABELS[access.denialReason ?? ''] ?? access.denialReason}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
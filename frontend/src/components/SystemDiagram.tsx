@@ -0,0 +1,82 @@
+import { useEffect, useId, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  RiskSeverity,
+  SEVERITY_COLORS,
+  buildComponentGraphMermaid,
+  type ComponentGraph,
+  type Threat,
+} from '@threat-modeling/shared';
+
+interface SystemDiagramProps {
+  graph: ComponentGraph;
+  threats: Threat[];
+}
+
+/**
+ * The components and flows the analysis identified, drawn with Mermaid. Each
+ * component shows how many threats affect it and is outlined in the colour of
+ * the worst of them.
+ */
+export function SystemDiagram({ graph, threats }: SystemDiagramProps) {
+  const renderId = `system-diagram-${useId().replace(/:/g, '')}`;
+  const source = buildComponentGraphMermaid(graph, threats);
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Mermaid is large, so it is only loaded for models that have a diagram
+    (async () => {
+      try {
+        const { default: mermaid } = await import('mermaid');
+        mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' });
+        const result = await mermaid.render(renderId, source);
+        if (!cancelled) {
+          setSvg(result.svg);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to render system diagram:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to render diagram');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [renderId, source]);
+
+  if (error) {
+    return (
+      <div>
+        <p className="text-sm text-destructive mb-2">Could not draw the diagram: {error}</p>
+        <pre className="max-h-64 overflow-auto p-3 bg-muted rounded text-xs">{source}</pre>
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return (
+      <div className="h-32 flex items-center justify-center text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="overflow-auto [&_svg]:mx-auto [&_svg]:max-w-full" dangerouslySetInnerHTML={{ __html: svg }} />
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span>Outline shows the most severe threat affecting a component:</span>
+        {RiskSeverity.options.map((severity) => (
+          <span key={severity} className="flex items-center gap-1 capitalize">
+            <span className="h-3 w-3 rounded-sm border-2" style={{ borderColor: SEVERITY_COLORS[severity] }} />
+            {severity}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
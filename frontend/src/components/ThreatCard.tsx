@@ -1,17 +1,38 @@
-import { useState } from 'react';
-import { ChevronDown, ChevronUp, Shield, Target, CheckCircle2, Circle, Clock } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Shield, Target, CheckCircle2, Circle, Clock, Workflow, Pencil } from 'lucide-react';
 import { SeverityBadge } from '@/components/SeverityBadge';
+import { ThreatComments, memberCommentSource, type CommentSource } from '@/components/ThreatComments';
 import { useThreatModelStore } from '@/store/threat-model-store';
 import { cn } from '@/lib/utils';
-import { CATEGORY_LABELS } from '@threat-modeling/shared';
+import {
+  CATEGORY_LABELS,
+  type DataFlowDiagram,
+  type UpdateMitigationRequest,
+  type UpdateThreatRequest,
+} from '@threat-modeling/shared';
 
 interface ThreatCardProps {
   threat: any;
   rank: number;
   threatModelId: string;
   readOnly?: boolean;
+  diagram?: DataFlowDiagram | null;
+  // Save edits somewhere other than the signed-in API, e.g. through a share link
+  onUpdateThreat?: ThreatUpdateHandler;
+  onUpdateMitigation?: MitigationUpdateHandler;
+  // Defaults to the signed-in API; null hides the discussion
+  commentSource?: CommentSource | null;
+  // Lets the user read the discussion but not take part
+  commentsReadOnly?: boolean;
 }
 
+export type ThreatUpdateHandler = (threatId: string, data: UpdateThreatRequest) => Promise<void>;
+export type MitigationUpdateHandler = (
+  threatId: string,
+  mitigationId: string,
+  data: UpdateMitigationRequest
+) => Promise<void>;
+
 const mitigationStatusIcons: Record<string, React.ReactNode> = {
   proposed: <Circle className="h-4 w-4 text-gray-400" />,
   accepted: <Clock className="h-4 w-4 text-blue-500" />,
@@ -19,13 +40,42 @@ const mitigationStatusIcons: Record<string, React.ReactNode> = {
   rejected: <Circle className="h-4 w-4 text-red-400 line-through" />,
 };
 
-export function ThreatCard({ threat, rank, threatModelId, readOnly = false }: ThreatCardProps) {
+export function ThreatCard({
+  threat,
+  rank,
+  threatModelId,
+  readOnly = false,
+  diagram,
+  onUpdateThreat,
+  onUpdateMitigation,
+  commentSource,
+  commentsReadOnly = readOnly,
+}: ThreatCardProps) {
   const [isExpanded, setIsExpanded] = useState(rank <= 2); // Expand top 2 by default
-  const { updateMitigation } = useThreatModelStore();
+  const [isEditingLinks, setIsEditingLinks] = useState(false);
+  const store = useThreatModelStore();
+  const updateThreat: ThreatUpdateHandler =
+    onUpdateThreat ?? ((threatId, data) => store.updateThreat(threatModelId, threatId, data));
+  const updateMitigation: MitigationUpdateHandler =
+    onUpdateMitigation ??
+    ((threatId, mitigationId, data) => store.updateMitigation(threatModelId, threatId, mitigationId, data));
+  const memberComments = useMemo(() => memberCommentSource(threatModelId), [threatModelId]);
+  const comments = commentSource === undefined ? memberComments : commentSource;
+
+  const linkedElementIds: string[] = threat.dfdElementIds ?? [];
+  const linkedElements = diagram?.elements.filter((element) => linkedElementIds.includes(element.id)) ?? [];
+
+  const handleToggleElement = async (elementId: string) => {
+    if (readOnly) return;
+    const dfdElementIds = linkedElementIds.includes(elementId)
+      ? linkedElementIds.filter((id) => id !== elementId)
+      : [...linkedElementIds, elementId];
+    await updateThreat(threat.id, { dfdElementIds });
+  };
 
-  const handleMitigationStatusChange = async (mitigationId: string, status: string) => {
+  const handleMitigationStatusChange = async (mitigationId: string, status: UpdateMitigationRequest['status']) => {
     if (readOnly) return;
-    await updateMitigation(threatModelId, threat.id, mitigationId, { status });
+    await updateMitigation(threat.id, mitigationId, { status });
   };
 
   return (
@@ -53,6 +103,19 @@ export function ThreatCard({ threat, rank, threatModelId, readOnly = false }: Th
           <div className="flex items-center gap-2 flex-wrap">
             <h3 className="font-medium">{threat.title}</h3>
             <SeverityBadge severity={threat.severity} size="sm" />
+            {threat.refreshStatus === 'new' && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                New
+              </span>
+            )}
+            {threat.refreshStatus === 'disappeared' && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700"
+                title="The latest refresh no longer identified this threat"
+              >
+                No longer identified
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
             <span>
@@ -149,6 +212,49 @@ export function ThreatCard({ threat, rank, threatModelId, readOnly = false }: Th
             )}
           </div>
 
+          {diagram && diagram.elements.length > 0 && (linkedElements.length > 0 || !readOnly) && (
+            <div>
+              <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+                <Workflow className="h-4 w-4" />
+                Diagram Elements
+                {!readOnly && (
+                  <button
+                    onClick={() => setIsEditingLinks(!isEditingLinks)}
+                    className="text-muted-foreground hover:text-foreground"
+                    title={isEditingLinks ? 'Done' : 'Edit linked elements'}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                )}
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {isEditingLinks
+                  ? diagram.elements.map((element) => (
+                      <button
+                        key={element.id}
+                        onClick={() => handleToggleElement(element.id)}
+                        className={cn(
+                          'px-2 py-0.5 rounded text-xs border',
+                          linkedElementIds.includes(element.id)
+                            ? 'bg-primary text-primary-foreground border-primary'
+                            : 'bg-background hover:bg-muted'
+                        )}
+                      >
+                        {element.name}
+                      </button>
+                    ))
+                  : linkedElements.map((element) => (
+                      <span key={element.id} className="px-2 py-0.5 bg-primary/10 text-primary rounded text-xs">
+                        {element.name}
+                      </span>
+                    ))}
+                {!isEditingLinks && linkedElements.length === 0 && (
+                  <span className="text-xs text-muted-foreground">Not linked to any element</span>
+                )}
+              </div>
+            </div>
+          )}
+
           {threat.attackVector && (
             <div>
               <h4 className="text-sm font-medium mb-2">Attack Vector</h4>
@@ -170,7 +276,7 @@ export function ThreatCard({ threat, rank, threatModelId, readOnly = false }: Th
                       onClick={(e) => {
                         e.stopPropagation();
                         if (readOnly) return;
-                        const statusMap: Record<string, string> = {
+                        const statusMap: Record<string, UpdateMitigationRequest['status']> = {
                           proposed: 'accepted',
                           accepted: 'implemented',
                           implemented: 'proposed',
@@ -211,6 +317,9 @@ export function ThreatCard({ threat, rank, threatModelId, readOnly = false }: Th
               </div>
             </div>
           )}
+
+          {/* Discussion */}
+          {comments && <ThreatComments threat={threat} source={comments} readOnly={commentsReadOnly} />}
         </div>
       )}
     </div>
@@ -0,0 +1,421 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, History, Loader2, MessageSquare, Pencil, Reply, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  API_ROUTES,
+  type Comment,
+  type CommentEdit,
+  type CreateCommentRequest,
+  type UpdateCommentRequest,
+} from '@threat-modeling/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { apiFetch, cn } from '@/lib/utils';
+
+// Where a threat's comments are read and written: the signed-in API, or a share link
+export interface CommentSource {
+  list: (threatId: string) => Promise<Comment[]>;
+  create: (threatId: string, data: CreateCommentRequest) => Promise<Comment>;
+  update: (threatId: string, commentId: string, data: UpdateCommentRequest) => Promise<Comment>;
+  history: (threatId: string, commentId: string) => Promise<CommentEdit[]>;
+  // Share link visitors who aren't signed in say who they are
+  asksForName?: boolean;
+}
+
+export function memberCommentSource(threatModelId: string): CommentSource {
+  return {
+    list: async (threatId) =>
+      (await apiFetch<{ comments: Comment[] }>(API_ROUTES.comments.list(threatModelId, threatId))).comments,
+    create: (threatId, data) =>
+      apiFetch<Comment>(API_ROUTES.comments.create(threatModelId, threatId), {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    update: (threatId, commentId, data) =>
+      apiFetch<Comment>(API_ROUTES.comments.update(threatModelId, threatId, commentId), {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }),
+    history: async (threatId, commentId) =>
+      (await apiFetch<{ edits: CommentEdit[] }>(API_ROUTES.comments.history(threatModelId, threatId, commentId)))
+        .edits,
+  };
+}
+
+// Remembered across threats and visits so visitors only type it once
+const AUTHOR_NAME_KEY = 'comment-author-name';
+
+const MENTION_SPLIT = /(@[\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {body.split(MENTION_SPLIT).map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="text-primary font-medium">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+interface CommentItemProps {
+  comment: Comment;
+  threatId: string;
+  source: CommentSource;
+  readOnly: boolean;
+  onUpdated: (comment: Comment) => void;
+}
+
+function CommentItem({ comment, threatId, source, readOnly, onUpdated }: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+  const [edits, setEdits] = useState<CommentEdit[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      onUpdated(await source.update(threatId, comment.id, { body: draft.trim() }));
+      setIsEditing(false);
+      setEdits(null);
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
+
+  const handleToggleHistory = async () => {
+    setShowHistory(!showHistory);
+    if (!edits) {
+      try {
+        setEdits(await source.history(threatId, comment.id));
+      } catch (err: any) {
+        toast.error(err.message);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.authorName}</span>
+        {comment.viaShareLink && <span>(via share link)</span>}
+        <span>{new Date(comment.createdAt).toLocaleString()}</span>
+        {comment.editedAt && (
+          <button type="button" onClick={handleToggleHistory} className="flex items-center gap-1 hover:underline">
+            <History className="h-3 w-3" />
+            edited
+          </button>
+        )}
+        {comment.canEdit && !readOnly && !isEditing && (
+          <button
+            type="button"
+            onClick={() => setIsEditing(true)}
+            className="flex items-center gap-1 hover:underline"
+            title="Edit comment"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} className="min-h-[60px]" />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+              Save
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setDraft(comment.body);
+                setIsEditing(false);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <CommentBody body={comment.body} />
+      )}
+
+      {showHistory && (
+        <div className="ml-3 pl-3 border-l space-y-2">
+          {!edits ? (
+            <p className="text-xs text-muted-foreground">Loading...</p>
+          ) : (
+            edits.map((edit) => (
+              <div key={edit.id} className="text-muted-foreground">
+                <p className="text-xs">Before {new Date(edit.createdAt).toLocaleString()}</p>
+                <p className="text-sm whitespace-pre-wrap break-words line-through decoration-muted-foreground/40">
+                  {edit.body}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ThreatCommentsProps {
+  threat: { id: string; mitigations?: Array<{ id: string; description: string }> };
+  source: CommentSource;
+  // Lets the user read the discussion but not take part
+  readOnly?: boolean;
+}
+
+/**
+ * Discussion threads on a threat and its mitigations. Threads can be replied
+ * to, resolved and reopened; mention people as @name@example.com.
+ */
+export function ThreatComments({ threat, source, readOnly = false }: ThreatCommentsProps) {
+  const [comments, setComments] = useState<Comment[] | null>(null);
+  const [body, setBody] = useState('');
+  const [anchor, setAnchor] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [authorName, setAuthorName] = useState(() => localStorage.getItem(AUTHOR_NAME_KEY) ?? '');
+  const [showResolved, setShowResolved] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+    source
+      .list(threat.id)
+      .then(setComments)
+      .catch((err) => toast.error(err.message));
+  }, [threat.id, source]);
+
+  const mitigations = threat.mitigations ?? [];
+  const threads = (comments ?? []).filter((comment) => !comment.parentId);
+  const resolvedCount = threads.filter((thread) => thread.resolvedAt).length;
+  const visibleThreads = showResolved ? threads : threads.filter((thread) => !thread.resolvedAt);
+  const nameField = source.asksForName && authorName.trim() ? { authorName: authorName.trim() } : {};
+
+  const replace = (updated: Comment) =>
+    setComments((current) => current?.map((c) => (c.id === updated.id ? updated : c)) ?? null);
+
+  const post = async (data: CreateCommentRequest) => {
+    setIsPosting(true);
+    try {
+      const comment = await source.create(threat.id, { ...data, ...nameField });
+      setComments((current) => [...(current ?? []), comment]);
+      if (nameField.authorName) {
+        localStorage.setItem(AUTHOR_NAME_KEY, nameField.authorName);
+      }
+      return true;
+    } catch (err: any) {
+      toast.error(err.message);
+      return false;
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleStartThread = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await post({ body: body.trim(), mitigationId: anchor || undefined })) {
+      setBody('');
+    }
+  };
+
+  const handleReply = async (threadId: string) => {
+    if (await post({ body: replyBody.trim(), parentId: threadId })) {
+      setReplyBody('');
+      setReplyTo(null);
+    }
+  };
+
+  const handleResolve = async (thread: Comment, resolved: boolean) => {
+    try {
+      replace(await source.update(threat.id, thread.id, { resolved, ...nameField }));
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Discussion
+        </h4>
+        {resolvedCount > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-xs text-muted-foreground hover:underline"
+          >
+            {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+          </button>
+        )}
+      </div>
+
+      {!comments ? (
+        <div className="h-12 flex items-center justify-center text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleThreads.map((thread) => {
+            const mitigation = mitigations.find((m) => m.id === thread.mitigationId);
+            const replies = comments.filter((comment) => comment.parentId === thread.id);
+
+            return (
+              <div
+                key={thread.id}
+                className={cn('p-3 bg-background border rounded-md space-y-3', thread.resolvedAt && 'opacity-70')}
+              >
+                {thread.mitigationId && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    On mitigation: {mitigation?.description ?? 'a mitigation that no longer exists'}
+                  </p>
+                )}
+                <CommentItem
+                  comment={thread}
+                  threatId={threat.id}
+                  source={source}
+                  readOnly={readOnly}
+                  onUpdated={replace}
+                />
+                {replies.length > 0 && (
+                  <div className="ml-3 pl-3 border-l space-y-3">
+                    {replies.map((reply) => (
+                      <CommentItem
+                        key={reply.id}
+                        comment={reply}
+                        threatId={threat.id}
+                        source={source}
+                        readOnly={readOnly}
+                        onUpdated={replace}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {replyTo === thread.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={replyBody}
+                      onChange={(e) => setReplyBody(e.target.value)}
+                      placeholder="Reply..."
+                      className="min-h-[60px]"
+                      autoFocus
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleReply(thread.id)}
+                        disabled={isPosting || !replyBody.trim()}
+                      >
+                        Reply
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setReplyTo(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    {thread.resolvedAt && (
+                      <span className="flex items-center gap-1 text-green-700">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Resolved by {thread.resolvedBy}
+                      </span>
+                    )}
+                    {!readOnly && (
+                      <>
+                        {!thread.resolvedAt && (
+                          <button
+                            type="button"
+                            onClick={() => setReplyTo(thread.id)}
+                            className="flex items-center gap-1 hover:underline"
+                          >
+                            <Reply className="h-3 w-3" />
+                            Reply
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(thread, !thread.resolvedAt)}
+                          className="flex items-center gap-1 hover:underline"
+                        >
+                          {thread.resolvedAt ? (
+                            <>
+                              <RotateCcw className="h-3 w-3" />
+                              Reopen
+                            </>
+                          ) : (
+                            <>
+                              <CheckCircle2 className="h-3 w-3" />
+                              Resolve
+                            </>
+                          )}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {visibleThreads.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {threads.length > 0 ? 'All threads are resolved.' : 'No comments yet.'}
+            </p>
+          )}
+
+          {!readOnly && (
+            <form onSubmit={handleStartThread} className="space-y-2">
+              <Textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="Start a discussion. Mention people with @name@example.com"
+                className="min-h-[60px]"
+              />
+              <div className="flex flex-wrap gap-2">
+                {source.asksForName && (
+                  <Input
+                    value={authorName}
+                    onChange={(e) => setAuthorName(e.target.value)}
+                    placeholder="Your name"
+                    maxLength={100}
+                    className="w-40"
+                  />
+                )}
+                {mitigations.length > 0 && (
+                  <select
+                    value={anchor}
+                    onChange={(e) => setAnchor(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border rounded-md bg-background text-sm"
+                  >
+                    <option value="">About this threat</option>
+                    {mitigations.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        About mitigation: {m.description}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <Button type="submit" disabled={isPosting || !body.trim()}>
+                  {isPosting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Comment
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import type { UsageResponse } from '@threat-modeling/shared';
+
+interface UsageBreakdownProps {
+  usage: UsageResponse;
+}
+
+const formatCost = (cost: number | null) =>
+  cost === null ? 'Unknown' : `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+export function UsageBreakdown({ usage }: UsageBreakdownProps) {
+  return (
+    <div className="p-4 bg-card border rounded-lg space-y-3">
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div>
+          <p className="text-muted-foreground">Estimated cost</p>
+          <p className="text-lg font-semibold">{formatCost(usage.estimatedCostUsd)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Input tokens</p>
+          <p className="text-lg font-semibold">{formatTokens(usage.inputTokens)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Output tokens</p>
+          <p className="text-lg font-semibold">{formatTokens(usage.outputTokens)}</p>
+        </div>
+        {usage.organization && (
+          <div>
+            <p className="text-muted-foreground">Organization generations</p>
+            <p className="text-lg font-semibold">
+              {usage.organization.generationsUsed}
+              {usage.organization.generationsLimit !== null && `/${usage.organization.generationsLimit}`}
+            </p>
+          </div>
+        )}
+        <div>
+          <p className="text-muted-foreground">Limits reset</p>
+          <p className="text-lg font-semibold">{new Date(usage.resetsAt).toLocaleDateString()}</p>
+        </div>
+      </div>
+
+      {usage.byModel.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No LLM usage recorded yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="py-2 font-medium">Model</th>
+              <th className="py-2 font-medium text-right">Calls</th>
+              <th className="py-2 font-medium text-right">Input</th>
+              <th className="py-2 font-medium text-right">Output</th>
+              <th className="py-2 font-medium text-right">Avg latency</th>
+              <th className="py-2 font-medium text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.byModel.map((row) => (
+              <tr key={`${row.provider}-${row.model}`} className="border-b last:border-0">
+                <td className="py-2">
+                  {row.model}
+                  <span className="ml-2 text-xs text-muted-foreground">{row.provider}</span>
+                </td>
+                <td className="py-2 text-right">{row.calls}</td>
+                <td className="py-2 text-right">{formatTokens(row.inputTokens)}</td>
+                <td className="py-2 text-right">{formatTokens(row.outputTokens)}</td>
+                <td className="py-2 text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                <td className="py-2 text-right">{formatCost(row.estimatedCostUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
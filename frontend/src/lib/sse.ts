@@ -0,0 +1,50 @@
+import { getAuthToken } from './auth';
+
+// EventSource can't send an Authorization header, so SSE endpoints are read
+// with fetch and parsed here instead.
+export async function streamEvents<T>(
+  path: string,
+  onEvent: (event: string, data: T) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const token = await getAuthToken();
+
+  const headers: HeadersInit = { Accept: 'text/event-stream' };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const res = await fetch(path, { headers, signal });
+
+  if (!res.ok || !res.body) {
+    const error = await res.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || error.message || 'Failed to open event stream');
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() ?? '';
+
+    for (const message of messages) {
+      let event = 'message';
+      const dataLines: string[] = [];
+
+      for (const line of message.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        // Lines starting with ':' are keep-alive comments
+      }
+
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join('\n')) as T);
+      }
+    }
+  }
+}
@@ -11,6 +11,7 @@ import {
   File,
   Loader2,
   Sparkles,
+  Braces,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -19,6 +20,15 @@ import { useThreatModelStore } from '@/store/threat-model-store';
 import { cn } from '@/lib/utils';
 import { JiraInput, type JiraTicket } from '@/components/JiraInput';
 import { JiraPreview } from '@/components/JiraPreview';
+import { GenerationSettingsFields } from '@/components/GenerationSettingsFields';
+import { MethodologySelect } from '@/components/MethodologySelect';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  METHODOLOGIES,
+  isAtLeastRole,
+  type GenerationSettings,
+  type Methodology,
+} from '@threat-modeling/shared';
 
 type WizardStep = 'basics' | 'context' | 'review';
 
@@ -34,10 +44,12 @@ export function CreateThreatModel() {
     createThreatModel,
     uploadFile,
     generateThreatModel,
-    pollGenerationStatus,
+    subscribeToGeneration,
     generationStatus,
     isGenerating,
     error,
+    organizations,
+    fetchOrganizations,
     clearError,
   } = useThreatModelStore();
 
@@ -48,27 +60,33 @@ export function CreateThreatModel() {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [systemDescription, setSystemDescription] = useState('');
+  const [methodology, setMethodology] = useState<Methodology>('stride');
+  const [organizationId, setOrganizationId] = useState('');
   const [files, setFiles] = useState<Array<{ file: File; type: string }>>([]);
   const [jiraTickets, setJiraTickets] = useState<JiraTicket[]>([]);
   const [modelId, setModelId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
 
   useEffect(() => {
     clearError(); // Clear any previous errors
-  }, [clearError]);
+    fetchOrganizations();
+  }, [clearError, fetchOrganizations]);
+
+  // Creating in an organization needs the editor role there
+  const workspaces = organizations.filter((org) => isAtLeastRole(org.role, 'editor'));
+  const workspace = workspaces.find((org) => org.id === organizationId);
 
-  // Poll generation status
+  // Stream generation progress
   useEffect(() => {
     if (!modelId || !isGenerating) return;
+    return subscribeToGeneration(modelId);
+  }, [modelId, isGenerating, subscribeToGeneration]);
 
-    const interval = setInterval(async () => {
-      const status = await pollGenerationStatus(modelId);
-      if (status.status === 'completed') {
-        navigate(`/threat-models/${modelId}`);
-      }
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [modelId, isGenerating, pollGenerationStatus, navigate]);
+  useEffect(() => {
+    if (modelId && generationStatus?.status === 'completed') {
+      navigate(`/threat-models/${modelId}`);
+    }
+  }, [modelId, generationStatus, navigate]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const newFiles = acceptedFiles.map((file) => ({
@@ -81,8 +99,16 @@ export function CreateThreatModel() {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'text/*': ['.txt', '.md'],
+      'text/*': ['.txt', '.md', '.html', '.htm', '.csv'],
       'application/pdf': ['.pdf'],
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/yaml': ['.yaml', '.yml'],
+      'text/x-hcl': ['.tf', '.tfvars', '.hcl'],
+      'text/vnd.mermaid': ['.mmd', '.mermaid'],
+      'text/x-plantuml': ['.puml', '.plantuml', '.pu', '.iuml'],
+      'application/vnd.jgraph.mxfile': ['.drawio'],
+      'application/zip': ['.zip'],
       'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
       'application/json': ['.json'],
     },
@@ -140,6 +166,8 @@ export function CreateThreatModel() {
         title,
         description,
         systemDescription,
+        methodology,
+        organizationId: organizationId || undefined,
       });
 
       setModelId(model.id);
@@ -159,11 +187,11 @@ export function CreateThreatModel() {
       }
 
       // Start generation
-      await generateThreatModel(model.id);
+      await generateThreatModel(model.id, 'full', settings);
       toast.success('Threat model created successfully');
     } catch (err) {
       console.error('Failed to create threat model:', err);
-      toast.error('Failed to create threat model');
+      toast.error(err instanceof Error ? err.message : 'Failed to create threat model');
     } finally {
       setIsSubmitting(false);
     }
@@ -251,6 +279,24 @@ export function CreateThreatModel() {
                 Include details about architecture, technologies, data handling, etc.
               </p>
             </div>
+            <MethodologySelect value={methodology} onChange={setMethodology} />
+            {workspaces.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Workspace</label>
+                <select
+                  value={organizationId}
+                  onChange={(e) => setOrganizationId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+                >
+                  <option value="">Personal - only you can see it</option>
+                  {workspaces.map((org) => (
+                    <option key={org.id} value={org.id}>
+                      {org.name} - shared with {org.memberCount} {org.memberCount === 1 ? 'member' : 'members'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
         )}
 
@@ -303,7 +349,7 @@ export function CreateThreatModel() {
                   {isDragActive ? 'Drop files here' : 'Drag & drop files here'}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  PDFs, images (PNG, JPG, GIF, WebP), and text files (TXT, MD, JSON)
+                  PDFs, Word documents, spreadsheets (XLSX, CSV), images (PNG, JPG, GIF, WebP), text files (TXT, MD, HTML, JSON, YAML), Terraform, Mermaid, PlantUML and draw.io diagrams and zips of source code
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
                   Files are sent directly to the AI for analysis
@@ -337,6 +383,7 @@ export function CreateThreatModel() {
                         <option value="prd">PRD</option>
                         <option value="diagram">Diagram</option>
                         <option value="screenshot">Screenshot</option>
+                        <option value="api_spec">API Spec</option>
                         <option value="other">Other</option>
                       </select>
                       <Button
@@ -377,6 +424,12 @@ export function CreateThreatModel() {
                   <h4 className="text-sm font-medium text-muted-foreground mb-2">Project</h4>
                   <p className="font-medium">{title}</p>
                   {description && <p className="text-sm text-muted-foreground mt-1">{description}</p>}
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Methodology: {METHODOLOGIES[methodology].label}
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Workspace: {workspace?.name ?? 'Personal'}
+                  </p>
                 </div>
 
                 {systemDescription && (
@@ -432,6 +485,11 @@ export function CreateThreatModel() {
                   </div>
                 )}
 
+                <div>
+                  <h4 className="text-sm font-medium text-muted-foreground mb-2">Analysis Settings</h4>
+                  <GenerationSettingsFields value={settings} onChange={setSettings} />
+                </div>
+
                 {error && (
                   <div className="p-4 bg-destructive/10 text-destructive rounded-md">
                     {error}
@@ -484,8 +542,10 @@ export function CreateThreatModel() {
 
 function getFileType(file: File): string {
   if (file.type.startsWith('image/')) return 'screenshot';
-  if (file.name.endsWith('.pdf')) return 'prd';
+  if (file.name.endsWith('.pdf') || file.name.endsWith('.docx')) return 'prd';
   if (file.name.endsWith('.md') || file.name.endsWith('.txt')) return 'prd';
+  if (/(openapi|swagger).*\.(json|ya?ml)$/i.test(file.name)) return 'api_spec';
+  if (/\.(mmd|mermaid|puml|plantuml|pu|iuml|drawio)$/i.test(file.name)) return 'diagram';
   return 'other';
 }
 
@@ -496,6 +556,8 @@ function getFileIcon(type: string) {
     case 'screenshot':
     case 'diagram':
       return <Image className="h-4 w-4 text-green-500" />;
+    case 'api_spec':
+      return <Braces className="h-4 w-4 text-purple-500" />;
     default:
       return <File className="h-4 w-4 text-gray-500" />;
   }
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Building2, Loader2, Plus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { OrganizationMembers } from '@/components/OrganizationMembers';
+import { useThreatModelStore } from '@/store/threat-model-store';
+import { cn } from '@/lib/utils';
+
+export function Organizations() {
+  const { organizations, fetchOrganizations, createOrganization } = useThreatModelStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  const selected = organizations.find((org) => org.id === selectedId) ?? organizations[0];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const organization = await createOrganization(name.trim());
+      setSelectedId(organization.id);
+      setName('');
+      toast.success(`Created ${organization.name}`);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleLeft = async () => {
+    toast.success(`You left ${selected?.name}`);
+    setSelectedId(null);
+    await fetchOrganizations();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Teams</h1>
+        <p className="text-muted-foreground">
+          Threat models in an organization are shared with all of its members, with access set by their role
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[18rem_1fr]">
+        <div className="space-y-4">
+          <div className="space-y-1">
+            {organizations.map((org) => (
+              <button
+                key={org.id}
+                type="button"
+                onClick={() => setSelectedId(org.id)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-2 px-3 py-2 rounded-md text-sm text-left transition-colors',
+                  selected?.id === org.id ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'
+                )}
+              >
+                <span className="flex items-center gap-2 truncate">
+                  <Building2 className="h-4 w-4 shrink-0" />
+                  {org.name}
+                </span>
+                <span className="text-xs opacity-75 capitalize">{org.role}</span>
+              </button>
+            ))}
+            {organizations.length === 0 && (
+              <p className="text-sm text-muted-foreground px-3 py-2">You aren't in any organizations yet.</p>
+            )}
+          </div>
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              placeholder="New organization name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+            <Button type="submit" size="icon" disabled={isCreating || !name.trim()} title="Create organization">
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </form>
+        </div>
+
+        {selected ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                {selected.name}
+              </CardTitle>
+              <CardDescription>
+                {selected.memberCount} {selected.memberCount === 1 ? 'member' : 'members'} · you are{' '}
+                {/^[aeiou]/.test(selected.role) ? 'an' : 'a'} {selected.role}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrganizationMembers key={selected.id} organization={selected} onLeft={handleLeft} />
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="text-center py-12 border-2 border-dashed rounded-lg text-muted-foreground">
+            Create an organization to share threat models with your team
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,44 +1,179 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
+import { SignInButton, useAuth } from '@clerk/clerk-react';
 import {
   Shield,
   Loader2,
   Download,
   FileText,
   Lock,
+  Workflow,
+  Network,
+  KeyRound,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { SeverityBadge } from '@/components/SeverityBadge';
-import { ThreatCard } from '@/components/ThreatCard';
-import { apiFetch } from '@/lib/utils';
-import { API_ROUTES } from '@threat-modeling/shared';
-import type { ThreatModel } from '@threat-modeling/shared';
+import { ThreatList } from '@/components/ThreatList';
+import type { CommentSource } from '@/components/ThreatComments';
+import { CategoryCoverage } from '@/components/CategoryCoverage';
+import { DataFlowDiagramEditor } from '@/components/DataFlowDiagramEditor';
+import { SystemDiagram } from '@/components/SystemDiagram';
+import { API_ROUTES, METHODOLOGIES } from '@threat-modeling/shared';
+import type {
+  Comment,
+  CommentEdit,
+  ThreatModel,
+  UpdateMitigationRequest,
+  UpdateThreatRequest,
+} from '@threat-modeling/shared';
+
+// A request the share link refused; `code` says what the visitor still needs
+class ShareAccessError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string
+  ) {
+    super(message);
+  }
+}
 
 export function SharedThreatModel() {
   const { token } = useParams<{ token: string }>();
+  const { isLoaded, isSignedIn, getToken } = useAuth();
   const [model, setModel] = useState<ThreatModel | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<string | undefined>();
+  const [password, setPassword] = useState('');
+  const [passwordInput, setPasswordInput] = useState('');
 
-  useEffect(() => {
-    async function fetchSharedModel() {
-      if (!token) return;
-      try {
-        const data = await apiFetch<ThreatModel>(API_ROUTES.shared.get(token));
-        setModel(data);
-      } catch (err: any) {
-        setError(err.message || 'Failed to load threat model');
-      } finally {
-        setIsLoading(false);
+  // Sends the link's password and, for links limited to emails, the visitor's session
+  const sharedFetch = useCallback(
+    async (path: string, options?: RequestInit) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (password) {
+        headers['X-Share-Password'] = password;
+      }
+      const authToken = isSignedIn ? await getToken() : null;
+      if (authToken) {
+        headers['Authorization'] = `Bearer ${authToken}`;
+      }
+
+      const res = await fetch(path, { ...options, headers });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: 'Unknown error' }));
+        throw new ShareAccessError(error.error || 'Request failed', error.code);
       }
+      return res;
+    },
+    [password, isSignedIn, getToken]
+  );
+
+  const sharedJson = useCallback(
+    async <T,>(path: string, options?: RequestInit): Promise<T> => (await sharedFetch(path, options)).json(),
+    [sharedFetch]
+  );
+
+  const commentSource = useMemo<CommentSource | null>(() => {
+    if (!token) return null;
+    return {
+      list: async (threatId) =>
+        (await sharedJson<{ comments: Comment[] }>(API_ROUTES.shared.comments(token, threatId))).comments,
+      create: (threatId, data) =>
+        sharedJson<Comment>(API_ROUTES.shared.comments(token, threatId), {
+          method: 'POST',
+          body: JSON.stringify(data),
+        }),
+      update: (threatId, commentId, data) =>
+        sharedJson<Comment>(API_ROUTES.shared.comment(token, threatId, commentId), {
+          method: 'PATCH',
+          body: JSON.stringify(data),
+        }),
+      history: async (threatId, commentId) =>
+        (await sharedJson<{ edits: CommentEdit[] }>(API_ROUTES.shared.commentHistory(token, threatId, commentId)))
+          .edits,
+      asksForName: true,
+    };
+  }, [token, sharedJson]);
+
+  const fetchSharedModel = useCallback(async () => {
+    if (!token) return;
+    try {
+      const res = await sharedFetch(API_ROUTES.shared.get(token));
+      setModel(await res.json());
+      setError(null);
+      setErrorCode(undefined);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load threat model');
+      setErrorCode(err.code);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, sharedFetch]);
+
+  useEffect(() => {
+    // Wait for Clerk so a signed-in visitor's session is sent
+    if (isLoaded) {
+      fetchSharedModel();
     }
+  }, [isLoaded, fetchSharedModel]);
 
-    fetchSharedModel();
-  }, [token]);
+  const handleExport = async (format: 'pdf' | 'markdown' | 'json') => {
+    if (!token) return;
+    try {
+      const res = await sharedFetch(`${API_ROUTES.shared.export(token)}?format=${format}`);
+      const blob = await res.blob();
+      const extension = format === 'markdown' ? 'md' : format;
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${(model?.title ?? 'threat_model').replace(/[^a-z0-9]/gi, '_')}_threat_model.${extension}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err: any) {
+      toast.error(err.message || 'Export failed');
+    }
+  };
+
+  const handleUpdateThreat = async (threatId: string, data: UpdateThreatRequest) => {
+    if (!token) return;
+    try {
+      await sharedFetch(API_ROUTES.shared.updateThreat(token, threatId), {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      });
+      await fetchSharedModel();
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
 
-  const handleExport = (format: 'pdf' | 'markdown' | 'json') => {
+  const handleUpdateMitigation = async (threatId: string, mitigationId: string, data: UpdateMitigationRequest) => {
     if (!token) return;
-    window.open(`/api/shared/${token}/export?format=${format}`, '_blank');
+    try {
+      await sharedFetch(API_ROUTES.shared.updateMitigation(token, threatId, mitigationId), {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      });
+      await fetchSharedModel();
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    if (passwordInput === password) {
+      // Retrying the same password doesn't change sharedFetch, so fetch directly
+      fetchSharedModel();
+    } else {
+      setPassword(passwordInput);
+    }
   };
 
   if (isLoading) {
@@ -49,6 +184,51 @@ export function SharedThreatModel() {
     );
   }
 
+  if (errorCode === 'password_required' || errorCode === 'invalid_password' || errorCode === 'too_many_attempts') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <form onSubmit={handlePasswordSubmit} className="w-full max-w-sm space-y-4 text-center">
+          <KeyRound className="h-16 w-16 mx-auto text-muted-foreground" />
+          <h1 className="text-2xl font-bold">Password Required</h1>
+          <p className="text-muted-foreground">
+            {errorCode === 'invalid_password'
+              ? 'That password is incorrect.'
+              : errorCode === 'too_many_attempts'
+                ? 'Too many incorrect passwords. Try again in a few minutes.'
+                : 'Enter the password for this link.'}
+          </p>
+          <Input
+            type="password"
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            autoFocus
+            required
+          />
+          <Button type="submit" className="w-full">
+            Open
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (errorCode === 'sign_in_required') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <Lock className="h-16 w-16 mx-auto text-muted-foreground" />
+          <h1 className="text-2xl font-bold">Sign In Required</h1>
+          <p className="text-muted-foreground">
+            This threat model was shared with specific people. Sign in to check it was shared with you.
+          </p>
+          <SignInButton mode="modal">
+            <Button>Sign In</Button>
+          </SignInButton>
+        </div>
+      </div>
+    );
+  }
+
   if (error || !model) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -64,6 +244,8 @@ export function SharedThreatModel() {
   }
 
   const threats = model.threats || [];
+  const canEdit = model.sharePermissions?.includes('edit') ?? false;
+  const canComment = model.sharePermissions?.includes('comment') ?? false;
 
   return (
     <div className="min-h-screen bg-background">
@@ -96,6 +278,7 @@ export function SharedThreatModel() {
                   ? new Date(model.generationCompletedAt).toLocaleDateString()
                   : 'N/A'}
               </span>
+              <span>{METHODOLOGIES[model.methodology].label}</span>
               <span>{threats.length} threats identified</span>
             </div>
           </div>
@@ -129,23 +312,48 @@ export function SharedThreatModel() {
             </div>
           )}
 
+          {/* System Diagram */}
+          {model.componentGraph && (
+            <div className="p-6 bg-card border rounded-lg">
+              <h2 className="font-semibold mb-3 flex items-center gap-2">
+                <Network className="h-5 w-5" />
+                System Diagram
+              </h2>
+              <SystemDiagram graph={model.componentGraph} threats={threats} />
+            </div>
+          )}
+
+          {/* Data Flow Diagram */}
+          {model.dataFlowDiagram && model.dataFlowDiagram.elements.length > 0 && (
+            <div className="p-6 bg-card border rounded-lg">
+              <h2 className="font-semibold mb-3 flex items-center gap-2">
+                <Workflow className="h-5 w-5" />
+                Data Flow Diagram
+              </h2>
+              <DataFlowDiagramEditor
+                threatModelId={model.id}
+                diagram={model.dataFlowDiagram}
+                threats={threats}
+                readOnly
+              />
+            </div>
+          )}
+
           {/* Threats */}
           {threats.length > 0 && (
             <div>
               <h2 className="text-xl font-semibold mb-4">Identified Threats</h2>
-              <div className="space-y-4">
-                {threats
-                  .sort((a, b) => b.riskScore - a.riskScore)
-                  .map((threat, index) => (
-                    <ThreatCard
-                      key={threat.id}
-                      threat={threat}
-                      rank={index + 1}
-                      threatModelId={model.id}
-                      readOnly
-                    />
-                  ))}
-              </div>
+              <CategoryCoverage methodology={model.methodology} threats={threats} />
+              <ThreatList
+                threats={threats}
+                threatModelId={model.id}
+                diagram={model.dataFlowDiagram}
+                readOnly={!canEdit}
+                onUpdateThreat={handleUpdateThreat}
+                onUpdateMitigation={handleUpdateMitigation}
+                commentSource={canComment ? commentSource : null}
+                commentsReadOnly={!canComment}
+              />
             </div>
           )}
 
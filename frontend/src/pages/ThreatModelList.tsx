@@ -1,13 +1,15 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, Search, Trash2, ExternalLink, Clock, AlertTriangle, Share2, Copy, Check, Link2Off } from 'lucide-react';
+import { Plus, Search, Trash2, ExternalLink, Clock, AlertTriangle, Share2, Copy, Check, Link2Off, Building2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useThreatModelStore } from '@/store/threat-model-store';
 import { SeverityBadge } from '@/components/SeverityBadge';
 import { StatusBadge } from '@/components/StatusBadge';
+import { UsageBreakdown } from '@/components/UsageBreakdown';
 import { apiFetch } from '@/lib/utils';
+import { API_ROUTES, PERSONAL_ORGANIZATION_ID, isAtLeastRole, type UsageResponse } from '@threat-modeling/shared';
 
 export function ThreatModelList() {
   const {
@@ -20,28 +22,33 @@ export function ThreatModelList() {
     deleteThreatModel,
     createShareLink,
     deleteShareLink,
+    organizations,
+    fetchOrganizations,
     clearError,
   } = useThreatModelStore();
 
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('');
-  const [usage, setUsage] = useState<{ generationsUsed: number; generationsLimit: number } | null>(null);
+  const [organizationFilter, setOrganizationFilter] = useState<string>('');
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [sharingId, setSharingId] = useState<string | null>(null);
 
   useEffect(() => {
     clearError(); // Clear any stale errors on mount
-    fetchThreatModels(1, search || undefined, statusFilter || undefined);
+    fetchThreatModels(1, search || undefined, statusFilter || undefined, organizationFilter || undefined);
+    fetchOrganizations();
 
     // Fetch usage stats
-    apiFetch<{ generationsUsed: number; generationsLimit: number }>('/api/threat-models/usage')
+    apiFetch<UsageResponse>(API_ROUTES.threatModels.usage)
       .then(setUsage)
       .catch(console.error);
-  }, [fetchThreatModels, statusFilter, clearError]);
+  }, [fetchThreatModels, fetchOrganizations, statusFilter, organizationFilter, clearError]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchThreatModels(1, search || undefined, statusFilter || undefined);
+    fetchThreatModels(1, search || undefined, statusFilter || undefined, organizationFilter || undefined);
   };
 
   const handleDelete = async (id: string, e: React.MouseEvent) => {
@@ -59,7 +66,7 @@ export function ThreatModelList() {
     try {
       const response = await createShareLink(id);
       // Refresh the list to get the updated share status
-      await fetchThreatModels(page, search || undefined, statusFilter || undefined);
+      await fetchThreatModels(page, search || undefined, statusFilter || undefined, organizationFilter || undefined);
       // Copy to clipboard
       await navigator.clipboard.writeText(response.shareUrl);
       setCopiedId(id);
@@ -76,13 +83,13 @@ export function ThreatModelList() {
   const handleStopSharing = async (id: string, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    if (confirm('Are you sure you want to stop sharing this threat model?')) {
+    if (confirm('Are you sure you want to stop sharing this threat model? All of its share links will be revoked.')) {
       setSharingId(id);
       try {
         await deleteShareLink(id);
         // Refresh the list to get the updated share status
-        await fetchThreatModels(page, search || undefined, statusFilter || undefined);
-        toast.success('Share link removed');
+        await fetchThreatModels(page, search || undefined, statusFilter || undefined, organizationFilter || undefined);
+        toast.success('Share links revoked');
       } catch (err) {
         console.error('Failed to delete share link:', err);
         toast.error('Failed to remove share link');
@@ -117,9 +124,16 @@ export function ThreatModelList() {
         </div>
         <div className="flex items-center gap-3">
           {usage && (
-            <div className="text-sm text-muted-foreground px-3 py-1 bg-muted rounded-full">
-              {usage.generationsUsed}/{usage.generationsLimit} generations used
-            </div>
+            <button
+              type="button"
+              onClick={() => setShowUsage(!showUsage)}
+              className="text-sm text-muted-foreground px-3 py-1 bg-muted rounded-full hover:text-foreground"
+              title={`Resets ${new Date(usage.resetsAt).toLocaleDateString()} - show token usage and cost`}
+            >
+              {usage.generationsLimit === null
+                ? `${usage.generationsUsed} generations this month`
+                : `${usage.generationsUsed}/${usage.generationsLimit} generations used`}
+            </button>
           )}
           <Link to="/new">
             <Button>
@@ -130,6 +144,8 @@ export function ThreatModelList() {
         </div>
       </div>
 
+      {usage && showUsage && <UsageBreakdown usage={usage} />}
+
       {/* Filters */}
       <div className="flex gap-4">
         <form onSubmit={handleSearch} className="flex-1 flex gap-2">
@@ -157,6 +173,21 @@ export function ThreatModelList() {
           <option value="completed">Completed</option>
           <option value="failed">Failed</option>
         </select>
+        {organizations.length > 0 && (
+          <select
+            value={organizationFilter}
+            onChange={(e) => setOrganizationFilter(e.target.value)}
+            className="px-3 py-2 border rounded-md bg-background text-sm"
+          >
+            <option value="">All Workspaces</option>
+            <option value={PERSONAL_ORGANIZATION_ID}>Personal</option>
+            {organizations.map((org) => (
+              <option key={org.id} value={org.id}>
+                {org.name}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {error && (
@@ -215,17 +246,24 @@ export function ThreatModelList() {
                     {model.highestSeverity && (
                       <SeverityBadge severity={model.highestSeverity} size="sm" />
                     )}
+                    {model.organizationId !== PERSONAL_ORGANIZATION_ID && (
+                      <span className="flex items-center gap-1">
+                        <Building2 className="h-3 w-3" />
+                        {organizations.find((org) => org.id === model.organizationId)?.name ?? 'Organization'}
+                        {model.role && <span className="capitalize">· {model.role}</span>}
+                      </span>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-1">
-                  {model.isShared ? (
+                  {model.role && !isAtLeastRole(model.role, 'editor') ? null : model.isShared ? (
                     <>
                       <Button
                         variant="ghost"
                         size="icon"
                         onClick={(e) => handleCopyLink(model.shareUrl!, model.id, e)}
                         className="text-muted-foreground hover:text-primary"
-                        title="Copy share link"
+                        title="Copy newest share link"
                       >
                         {copiedId === model.id ? (
                           <Check className="h-4 w-4 text-green-500" />
@@ -251,20 +289,22 @@ export function ThreatModelList() {
                       onClick={(e) => handleShare(model.id, e)}
                       className="text-muted-foreground hover:text-primary"
                       disabled={sharingId === model.id}
-                      title="Share"
+                      title="Share (view-only link)"
                     >
                       <Share2 className="h-4 w-4" />
                     </Button>
                   )}
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={(e) => handleDelete(model.id, e)}
-                    className="text-muted-foreground hover:text-destructive"
-                    title="Delete"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {(!model.role || model.role === 'owner') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => handleDelete(model.id, e)}
+                      className="text-muted-foreground hover:text-destructive"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                   <ExternalLink className="h-4 w-4 text-muted-foreground" />
                 </div>
               </div>
@@ -279,7 +319,7 @@ export function ThreatModelList() {
           <Button
             variant="outline"
             disabled={page <= 1}
-            onClick={() => fetchThreatModels(page - 1, search, statusFilter)}
+            onClick={() => fetchThreatModels(page - 1, search, statusFilter, organizationFilter || undefined)}
           >
             Previous
           </Button>
@@ -289,7 +329,7 @@ export function ThreatModelList() {
           <Button
             variant="outline"
             disabled={page * 20 >= total}
-            onClick={() => fetchThreatModels(page + 1, search, statusFilter)}
+            onClick={() => fetchThreatModels(page + 1, search, statusFilter, organizationFilter || undefined)}
           >
             Next
           </Button>
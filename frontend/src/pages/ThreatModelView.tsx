@@ -8,19 +8,41 @@ import {
   AlertTriangle,
   Shield,
   FileText,
-  Copy,
-  Check,
-  ExternalLink,
   ChevronDown,
   ChevronUp,
-  Trash2,
+  XCircle,
+  RefreshCw,
+  SlidersHorizontal,
+  Layers,
+  Workflow,
+  Network,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { useThreatModelStore } from '@/store/threat-model-store';
 import { StatusBadge } from '@/components/StatusBadge';
-import { ThreatCard } from '@/components/ThreatCard';
+import { ThreatList } from '@/components/ThreatList';
+import { RevisionHistory } from '@/components/RevisionHistory';
+import { ShareLinks } from '@/components/ShareLinks';
+import { GenerationSettingsFields } from '@/components/GenerationSettingsFields';
+import { MethodologySelect } from '@/components/MethodologySelect';
+import { CategoryCoverage } from '@/components/CategoryCoverage';
+import { InfrastructureInventory } from '@/components/InfrastructureInventory';
+import { ApiSpecSummary } from '@/components/ApiSpecSummary';
+import { RenderedDiagrams } from '@/components/RenderedDiagrams';
+import { DataFlowDiagramEditor } from '@/components/DataFlowDiagramEditor';
+import { SystemDiagram } from '@/components/SystemDiagram';
 import { getAuthToken } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  METHODOLOGIES,
+  PERSONAL_ORGANIZATION_ID,
+  isAtLeastRole,
+  type GenerationMode,
+  type GenerationSettings,
+  type Methodology,
+} from '@threat-modeling/shared';
 
 export function ThreatModelView() {
   const { id } = useParams<{ id: string }>();
@@ -29,17 +51,22 @@ export function ThreatModelView() {
     isLoadingModel,
     error,
     fetchThreatModel,
-    createShareLink,
-    deleteShareLink,
+    updateThreatModel,
     generateThreatModel,
-    pollGenerationStatus,
+    subscribeToGeneration,
+    cancelGeneration,
     generationStatus,
+    generationEvents,
     isGenerating,
+    clearError,
   } = useThreatModelStore();
 
-  const [shareUrl, setShareUrl] = useState<string | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [showSharing, setShowSharing] = useState(false);
   const [showContext, setShowContext] = useState(false);
+  const [showDiagram, setShowDiagram] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
 
   useEffect(() => {
     if (id) {
@@ -47,49 +74,21 @@ export function ThreatModelView() {
     }
   }, [id, fetchThreatModel]);
 
-  // Poll generation status
-  useEffect(() => {
-    if (!id || !isGenerating) return;
-
-    const interval = setInterval(() => {
-      pollGenerationStatus(id);
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [id, isGenerating, pollGenerationStatus]);
-
-  const handleShare = async () => {
-    if (!id) return;
-    try {
-      const result = await createShareLink(id);
-      setShareUrl(result.shareUrl);
-      toast.success('Share link generated');
-    } catch (err) {
-      console.error('Failed to create share link:', err);
-      toast.error('Failed to generate share link');
-    }
-  };
+  const isModelGenerating = currentModel?.id === id && currentModel?.status === 'generating';
+  const shouldFollowGeneration = isGenerating || isModelGenerating;
 
-  const handleCopyLink = () => {
-    if (shareUrl) {
-      navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-      toast.success('Link copied to clipboard');
-    }
-  };
+  // Stream generation progress (also picks up generations queued before a page reload)
+  useEffect(() => {
+    if (!id || !shouldFollowGeneration) return;
+    return subscribeToGeneration(id);
+  }, [id, shouldFollowGeneration, subscribeToGeneration]);
 
-  const handleDeleteShare = async () => {
-    if (!id) return;
-    try {
-      await deleteShareLink(id);
-      setShareUrl(null);
-      toast.success('Share link deleted');
-    } catch (err) {
-      console.error('Failed to delete share link:', err);
-      toast.error('Failed to delete share link');
+  // Start from the settings the model was last generated with
+  useEffect(() => {
+    if (currentModel && currentModel.id === id) {
+      setSettings(currentModel.generationSettings ?? DEFAULT_GENERATION_SETTINGS);
     }
-  };
+  }, [id, currentModel?.id, currentModel?.generationSettings]);
 
   const handleExport = async () => {
     if (!id) return;
@@ -124,9 +123,39 @@ export function ThreatModelView() {
     }
   };
 
-  const handleRegenerate = async () => {
+  const handleRegenerate = async (mode: GenerationMode = 'full') => {
     if (!id) return;
-    await generateThreatModel(id);
+    try {
+      await generateThreatModel(id, mode, settings);
+      setShowSettings(false);
+    } catch (err) {
+      // Keep the model on screen - a refused regeneration (e.g. quota reached) isn't a page error
+      clearError();
+      toast.error(err instanceof Error ? err.message : 'Failed to start generation');
+    }
+  };
+
+  const handleMethodologyChange = async (methodology: Methodology) => {
+    if (!id) return;
+    try {
+      await updateThreatModel(id, { methodology });
+      toast.success(`Methodology set to ${METHODOLOGIES[methodology].label}`);
+    } catch (err) {
+      console.error('Failed to update methodology:', err);
+      clearError();
+      toast.error('Failed to update methodology');
+    }
+  };
+
+  const handleCancelGeneration = async () => {
+    if (!id) return;
+    try {
+      await cancelGeneration(id);
+      toast.success('Generation cancelled');
+    } catch (err) {
+      console.error('Failed to cancel generation:', err);
+      toast.error('Failed to cancel generation');
+    }
   };
 
   if (isLoadingModel) {
@@ -155,6 +184,15 @@ export function ThreatModelView() {
 
   const threats = currentModel.threats || [];
   const isProcessing = currentModel.status === 'generating' || isGenerating;
+  const draftThreats = [...generationEvents].reverse().find((e) => e.draftThreats)?.draftThreats ?? [];
+  // Threats from another methodology can't be refreshed, only regenerated
+  const methodologyChanged = threats.some(
+    (t) => !METHODOLOGIES[currentModel.methodology].categories.includes(t.category)
+  );
+  const previewFile = currentModel.contextFiles?.find((f) => f.id === previewFileId);
+  const role = currentModel.role ?? 'owner';
+  const canEdit = isAtLeastRole(role, 'editor');
+  const canReview = isAtLeastRole(role, 'reviewer');
 
   return (
     <div className="space-y-6">
@@ -171,28 +209,68 @@ export function ThreatModelView() {
           <div className="flex items-center gap-3">
             <h1 className="text-2xl font-bold">{currentModel.title}</h1>
             <StatusBadge status={currentModel.status} />
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-muted">
+              {METHODOLOGIES[currentModel.methodology].label}
+            </span>
+            {currentModel.organizationId !== PERSONAL_ORGANIZATION_ID && (
+              <span
+                className="px-2 py-0.5 rounded text-xs font-medium bg-muted capitalize"
+                title="Your role on this model"
+              >
+                {role}
+              </span>
+            )}
           </div>
           {currentModel.description && (
             <p className="text-muted-foreground mt-1">{currentModel.description}</p>
           )}
+          {currentModel.generationProvider && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Generated by {currentModel.generationProvider}
+              {currentModel.generationModel && ` (${currentModel.generationModel})`}
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          {!isProcessing && canEdit && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowSettings(!showSettings)}
+              title="Analysis settings"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+            </Button>
+          )}
           {currentModel.status === 'completed' && (
             <>
-              <Button variant="outline" onClick={handleShare}>
-                <Share2 className="h-4 w-4 mr-2" />
-                Share
-              </Button>
+              {canEdit && (
+                <Button variant="outline" onClick={() => setShowSharing(!showSharing)}>
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              )}
               <div className="relative">
                 <Button variant="outline" onClick={handleExport}>
                   <Download className="h-4 w-4 mr-2" />
                   Export
                 </Button>
               </div>
+              {!methodologyChanged && canEdit && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleRegenerate('refresh')}
+                  disabled={isProcessing}
+                  title="Re-run the analysis against the current context, keeping reviewer edits and mitigation statuses"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Refresh
+                </Button>
+              )}
             </>
           )}
-          {(currentModel.status === 'draft' || currentModel.status === 'failed') && (
-            <Button onClick={handleRegenerate} disabled={isProcessing}>
+          {(currentModel.status === 'draft' || currentModel.status === 'failed' || methodologyChanged) && canEdit && (
+            <Button onClick={() => handleRegenerate()} disabled={isProcessing}>
               {isProcessing ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -209,17 +287,27 @@ export function ThreatModelView() {
         </div>
       </div>
 
-      {/* Share URL */}
-      {shareUrl && (
-        <div className="p-4 bg-muted rounded-lg flex items-center gap-3">
-          <ExternalLink className="h-4 w-4 text-muted-foreground" />
-          <code className="flex-1 text-sm truncate">{shareUrl}</code>
-          <Button size="sm" variant="outline" onClick={handleCopyLink}>
-            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-          </Button>
-          <Button size="sm" variant="destructive" onClick={handleDeleteShare}>
-            <Trash2 className="h-4 w-4" />
-          </Button>
+      {/* Analysis Settings */}
+      {showSettings && !isProcessing && (
+        <div className="p-4 bg-card border rounded-lg space-y-4">
+          <div className="max-w-xs">
+            <MethodologySelect value={currentModel.methodology} onChange={handleMethodologyChange} />
+          </div>
+          <GenerationSettingsFields key={currentModel.id} value={settings} onChange={setSettings} />
+          <p className="text-xs text-muted-foreground">
+            Applied to the next generation or refresh and remembered for this threat model.
+          </p>
+        </div>
+      )}
+
+      {/* Share Links */}
+      {showSharing && canEdit && (
+        <div className="p-4 bg-card border rounded-lg space-y-3">
+          <h3 className="font-medium flex items-center gap-2">
+            <Share2 className="h-4 w-4" />
+            Share Links
+          </h3>
+          <ShareLinks threatModelId={currentModel.id} />
         </div>
       )}
 
@@ -237,6 +325,34 @@ export function ThreatModelView() {
               style={{ width: `${generationStatus?.progress || 0}%` }}
             />
           </div>
+          {generationEvents.length > 0 && (
+            <ul className="mt-4 space-y-1 text-xs text-muted-foreground">
+              {generationEvents.slice(-5).map((event, index) => (
+                <li key={`${event.timestamp}-${index}`}>
+                  <span className="font-mono mr-2">
+                    {new Date(event.timestamp).toLocaleTimeString()}
+                  </span>
+                  {event.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {draftThreats.length > 0 && (
+            <div className="mt-4 max-w-md mx-auto text-left">
+              <p className="text-xs font-medium mb-1">Threats drafted so far</p>
+              <ol className="list-decimal list-inside space-y-1 text-xs text-muted-foreground">
+                {draftThreats.map((title, index) => (
+                  <li key={index}>{title}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+          {canEdit && (
+            <Button variant="outline" size="sm" className="mt-4" onClick={handleCancelGeneration}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
         </div>
       )}
 
@@ -251,6 +367,53 @@ export function ThreatModelView() {
         </div>
       )}
 
+      {/* Refresh Report */}
+      {currentModel.generationReport?.refresh && (
+        <div className="p-4 bg-muted rounded-lg text-sm text-muted-foreground flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Last refresh matched {currentModel.generationReport.refresh.matched} existing threats,
+          found {currentModel.generationReport.refresh.added} new and{' '}
+          {currentModel.generationReport.refresh.disappeared} no longer identified, keeping{' '}
+          {currentModel.generationReport.refresh.preservedEdits} reviewer edits.
+        </div>
+      )}
+
+      {/* Digest Report */}
+      {currentModel.generationReport?.digest && (
+        <div className="p-4 bg-muted rounded-lg text-sm text-muted-foreground flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          The context was too large to analyze in one request, so its{' '}
+          {currentModel.generationReport.digest.sources} files and JIRA tickets were summarised first (
+          {currentModel.generationReport.digest.calls} LLM calls over {currentModel.generationReport.digest.passes}{' '}
+          pass{currentModel.generationReport.digest.passes > 1 ? 'es' : ''}).
+        </div>
+      )}
+
+      {/* Output Validation Report */}
+      {currentModel.generationReport &&
+        (currentModel.generationReport.repairAttempts > 0 ||
+          currentModel.generationReport.droppedFields.length > 0) && (
+          <details className="p-4 bg-muted rounded-lg text-sm">
+            <summary className="cursor-pointer text-muted-foreground">
+              The generated output needed fixing
+              {currentModel.generationReport.repairAttempts > 0 &&
+                ` (${currentModel.generationReport.repairAttempts} repair turn${currentModel.generationReport.repairAttempts > 1 ? 's' : ''})`}
+            </summary>
+            {currentModel.generationReport.droppedFields.length > 0 && (
+              <p className="mt-2">
+                <span className="font-medium">Dropped:</span>{' '}
+                <code className="text-xs">{currentModel.generationReport.droppedFields.join(', ')}</code>
+              </p>
+            )}
+            {currentModel.generationReport.coercedFields.length > 0 && (
+              <p className="mt-2">
+                <span className="font-medium">Corrected:</span>{' '}
+                <code className="text-xs">{currentModel.generationReport.coercedFields.join(', ')}</code>
+              </p>
+            )}
+          </details>
+        )}
+
       {/* Summary */}
       {currentModel.summary && (
         <div className="p-6 bg-card border rounded-lg">
@@ -262,11 +425,24 @@ export function ThreatModelView() {
         </div>
       )}
 
+      {/* System Diagram generated with the threats */}
+      {currentModel.componentGraph && (
+        <div className="p-6 bg-card border rounded-lg">
+          <h2 className="font-semibold mb-3 flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            System Diagram
+          </h2>
+          <SystemDiagram graph={currentModel.componentGraph} threats={threats} />
+        </div>
+      )}
+
       {/* Threats Overview */}
       {threats.length > 0 && (
         <div>
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold">Top {threats.length} Threats</h2>
+            <h2 className="text-lg font-semibold">
+              {threats.length === 1 ? '1 Threat' : `${threats.length} Threats`}
+            </h2>
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
               <span>
                 Critical:{' '}
@@ -289,18 +465,13 @@ export function ThreatModelView() {
             </div>
           </div>
 
-          <div className="space-y-4">
-            {threats
-              .sort((a, b) => b.riskScore - a.riskScore)
-              .map((threat, index) => (
-                <ThreatCard
-                  key={threat.id}
-                  threat={threat}
-                  rank={index + 1}
-                  threatModelId={currentModel.id}
-                />
-              ))}
-          </div>
+          <CategoryCoverage methodology={currentModel.methodology} threats={threats} />
+          <ThreatList
+            threats={threats}
+            threatModelId={currentModel.id}
+            diagram={currentModel.dataFlowDiagram}
+            readOnly={!canReview}
+          />
         </div>
       )}
 
@@ -319,6 +490,45 @@ export function ThreatModelView() {
         </div>
       )}
 
+      {/* Revision History */}
+      {!isProcessing && (
+        <RevisionHistory
+          threatModelId={currentModel.id}
+          currentRevisionId={currentModel.currentRevisionId}
+          onRestored={() => fetchThreatModel(currentModel.id)}
+          readOnly={!canEdit}
+        />
+      )}
+
+      {/* Data Flow Diagram */}
+      <div className="border rounded-lg">
+        <button
+          onClick={() => setShowDiagram(!showDiagram)}
+          className="w-full p-4 flex items-center justify-between hover:bg-muted/50 transition-colors"
+        >
+          <span className="font-medium flex items-center gap-2">
+            <Workflow className="h-4 w-4" />
+            Data Flow Diagram
+            {currentModel.dataFlowDiagram && (
+              <span className="text-sm font-normal text-muted-foreground">
+                ({currentModel.dataFlowDiagram.elements.length} elements)
+              </span>
+            )}
+          </span>
+          {showDiagram ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+        {showDiagram && (
+          <div className="p-4 pt-0">
+            <DataFlowDiagramEditor
+              threatModelId={currentModel.id}
+              diagram={currentModel.dataFlowDiagram}
+              threats={threats}
+              readOnly={!canEdit}
+            />
+          </div>
+        )}
+      </div>
+
       {/* Context Section */}
       <div className="border rounded-lg">
         <button
@@ -363,16 +573,46 @@ export function ThreatModelView() {
                   Uploaded Files ({currentModel.contextFiles.length})
                 </h4>
                 <div className="flex flex-wrap gap-2">
-                  {currentModel.contextFiles.map((file: any) => (
-                    <span
-                      key={file.id}
-                      className="inline-flex items-center gap-1 px-2 py-1 bg-muted rounded text-sm"
-                    >
-                      <FileText className="h-3 w-3" />
-                      {file.originalName}
-                    </span>
-                  ))}
+                  {currentModel.contextFiles.map((file) =>
+                    file.extractedText ? (
+                      <button
+                        key={file.id}
+                        type="button"
+                        onClick={() => setPreviewFileId(previewFileId === file.id ? null : file.id)}
+                        title="Show extracted text"
+                        className={cn(
+                          'inline-flex items-center gap-1 px-2 py-1 rounded text-sm',
+                          previewFileId === file.id ? 'bg-primary/10 text-primary' : 'bg-muted hover:bg-muted/80'
+                        )}
+                      >
+                        <FileText className="h-3 w-3" />
+                        {file.originalName}
+                      </button>
+                    ) : (
+                      <span
+                        key={file.id}
+                        className="inline-flex items-center gap-1 px-2 py-1 bg-muted rounded text-sm"
+                      >
+                        <FileText className="h-3 w-3" />
+                        {file.originalName}
+                      </span>
+                    )
+                  )}
                 </div>
+                {previewFile?.extractedText && (
+                  <div className="mt-3">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      Text extracted from {previewFile.originalName} ({previewFile.extractedText.length.toLocaleString()}{' '}
+                      characters), sent to providers that can't read the original format
+                    </p>
+                    <pre className="max-h-64 overflow-auto p-3 bg-muted rounded text-xs whitespace-pre-wrap">
+                      {previewFile.extractedText}
+                    </pre>
+                  </div>
+                )}
+                <InfrastructureInventory files={currentModel.contextFiles} />
+                <ApiSpecSummary files={currentModel.contextFiles} />
+                <RenderedDiagrams threatModelId={currentModel.id} files={currentModel.contextFiles} />
               </div>
             )}
           </div>
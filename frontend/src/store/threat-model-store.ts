@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { apiFetch } from '@/lib/utils';
 import { getAuthToken } from '@/lib/auth';
+import { streamEvents } from '@/lib/sse';
 import { API_ROUTES } from '@threat-modeling/shared';
 import type {
   ThreatModel,
@@ -10,7 +11,13 @@ import type {
   UpdateThreatModelRequest,
   GuidedQuestion,
   GenerationStatusResponse,
-  ShareLinkResponse,
+  GenerationEvent,
+  GenerationMode,
+  GenerationSettings,
+  ShareLink,
+  CreateShareLinkRequest,
+  SaveDataFlowDiagramRequest,
+  Organization,
 } from '@threat-modeling/shared';
 
 interface ThreatModelState {
@@ -28,26 +35,35 @@ interface ThreatModelState {
 
   // Generation state
   generationStatus: GenerationStatusResponse | null;
+  generationEvents: GenerationEvent[];
   isGenerating: boolean;
 
   // Guided questions
   guidedQuestions: GuidedQuestion[];
 
+  // Organizations the user belongs to
+  organizations: Organization[];
+
   // Actions
-  fetchThreatModels: (page?: number, search?: string, status?: string) => Promise<void>;
+  fetchThreatModels: (page?: number, search?: string, status?: string, organizationId?: string) => Promise<void>;
   fetchThreatModel: (id: string) => Promise<ThreatModel | null>;
   createThreatModel: (data: CreateThreatModelRequest) => Promise<ThreatModel>;
   updateThreatModel: (id: string, data: UpdateThreatModelRequest) => Promise<ThreatModel>;
   deleteThreatModel: (id: string) => Promise<void>;
-  generateThreatModel: (id: string) => Promise<void>;
-  pollGenerationStatus: (id: string) => Promise<GenerationStatusResponse>;
+  generateThreatModel: (id: string, mode?: GenerationMode, settings?: GenerationSettings) => Promise<void>;
+  subscribeToGeneration: (id: string) => () => void;
+  cancelGeneration: (id: string) => Promise<void>;
   fetchGuidedQuestions: () => Promise<void>;
-  createShareLink: (id: string) => Promise<ShareLinkResponse>;
+  createShareLink: (id: string, settings?: Partial<CreateShareLinkRequest>) => Promise<ShareLink>;
   deleteShareLink: (id: string) => Promise<void>;
   uploadFile: (threatModelId: string, file: File, fileType: string) => Promise<void>;
   deleteFile: (threatModelId: string, fileId: string) => Promise<void>;
   updateThreat: (threatModelId: string, threatId: string, data: any) => Promise<void>;
   updateMitigation: (threatModelId: string, threatId: string, mitigationId: string, data: any) => Promise<void>;
+  saveDataFlowDiagram: (threatModelId: string, diagram: SaveDataFlowDiagramRequest) => Promise<void>;
+  deleteDataFlowDiagram: (threatModelId: string) => Promise<void>;
+  fetchOrganizations: () => Promise<void>;
+  createOrganization: (name: string) => Promise<Organization>;
   clearError: () => void;
   setCurrentModel: (model: ThreatModel | null) => void;
 }
@@ -62,15 +78,18 @@ export const useThreatModelStore = create<ThreatModelState>((set, get) => ({
   currentModel: null,
   isLoadingModel: false,
   generationStatus: null,
+  generationEvents: [],
   isGenerating: false,
   guidedQuestions: [],
+  organizations: [],
 
-  fetchThreatModels: async (page = 1, search?: string, status?: string) => {
+  fetchThreatModels: async (page = 1, search?: string, status?: string, organizationId?: string) => {
     set({ isLoading: true, error: null });
     try {
       const params = new URLSearchParams({ page: String(page), pageSize: String(get().pageSize) });
       if (search) params.set('search', search);
       if (status) params.set('status', status);
+      if (organizationId) params.set('organizationId', organizationId);
 
       const data = await apiFetch<ThreatModelListResponse>(
         `${API_ROUTES.threatModels.list}?${params}`
@@ -142,34 +161,70 @@ export const useThreatModelStore = create<ThreatModelState>((set, get) => ({
     }
   },
 
-  generateThreatModel: async (id: string) => {
-    set({ isGenerating: true, error: null, generationStatus: { status: 'generating', progress: 0 } });
+  generateThreatModel: async (id: string, mode: GenerationMode = 'full', settings?: GenerationSettings) => {
+    set({
+      isGenerating: true,
+      error: null,
+      generationStatus: { status: 'generating', progress: 0 },
+      generationEvents: [],
+    });
     try {
-      await apiFetch(API_ROUTES.threatModels.generate(id), { method: 'POST' });
+      await apiFetch(API_ROUTES.threatModels.generate(id), {
+        method: 'POST',
+        body: JSON.stringify({ mode, ...settings }),
+      });
     } catch (err: any) {
       set({ error: err.message, isGenerating: false });
       throw err;
     }
   },
 
-  pollGenerationStatus: async (id: string) => {
-    try {
-      const status = await apiFetch<GenerationStatusResponse>(
-        API_ROUTES.threatModels.generationStatus(id)
-      );
-      set({ generationStatus: status });
+  subscribeToGeneration: (id: string) => {
+    const controller = new AbortController();
 
-      if (status.status === 'completed' || status.status === 'failed') {
+    streamEvents<GenerationEvent>(
+      API_ROUTES.threatModels.generationEvents(id),
+      (_event, data) => {
+        set((state) => ({
+          // Streaming token updates replace each other rather than filling the log
+          generationEvents:
+            data.type === 'tokens' && state.generationEvents.at(-1)?.type === 'tokens'
+              ? [...state.generationEvents.slice(0, -1), data]
+              : [...state.generationEvents, data],
+          generationStatus: {
+            status:
+              data.type === 'completed' ? 'completed' : data.type === 'failed' ? 'failed' : 'generating',
+            progress: data.progress,
+            message: data.message,
+            error: data.error,
+            jobId: data.jobId,
+          },
+        }));
+      },
+      controller.signal
+    )
+      .then(async () => {
+        if (controller.signal.aborted) return;
+        // The server closes the stream once generation finishes
         set({ isGenerating: false });
-        if (status.status === 'completed') {
-          // Refresh the model
-          await get().fetchThreatModel(id);
-        }
-      }
+        // Refresh the model (completed, failed, or restored after cancellation)
+        await get().fetchThreatModel(id);
+      })
+      .catch((err: any) => {
+        if (controller.signal.aborted) return;
+        set({ error: err.message, isGenerating: false });
+      });
+
+    return () => controller.abort();
+  },
 
-      return status;
+  cancelGeneration: async (id: string) => {
+    try {
+      await apiFetch(API_ROUTES.threatModels.generate(id), { method: 'DELETE' });
+      set({ isGenerating: false, generationStatus: null });
+      await get().fetchThreatModel(id);
     } catch (err: any) {
-      set({ error: err.message, isGenerating: false });
+      set({ error: err.message });
       throw err;
     }
   },
@@ -183,11 +238,11 @@ export const useThreatModelStore = create<ThreatModelState>((set, get) => ({
     }
   },
 
-  createShareLink: async (id: string) => {
+  createShareLink: async (id: string, settings?: Partial<CreateShareLinkRequest>) => {
     try {
-      const response = await apiFetch<ShareLinkResponse>(
+      const response = await apiFetch<ShareLink>(
         API_ROUTES.threatModels.share(id),
-        { method: 'POST' }
+        { method: 'POST', body: settings && JSON.stringify(settings) }
       );
       return response;
     } catch (err: any) {
@@ -277,6 +332,55 @@ export const useThreatModelStore = create<ThreatModelState>((set, get) => ({
     }
   },
 
+  saveDataFlowDiagram: async (threatModelId: string, diagram: SaveDataFlowDiagramRequest) => {
+    try {
+      await apiFetch(API_ROUTES.dataFlowDiagram.save(threatModelId), {
+        method: 'PUT',
+        body: JSON.stringify(diagram),
+      });
+      // Saving can drop threat links to removed elements, so refresh the whole model
+      await get().fetchThreatModel(threatModelId);
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  deleteDataFlowDiagram: async (threatModelId: string) => {
+    try {
+      await apiFetch(API_ROUTES.dataFlowDiagram.delete(threatModelId), { method: 'DELETE' });
+      await get().fetchThreatModel(threatModelId);
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
+  fetchOrganizations: async () => {
+    try {
+      const { organizations } = await apiFetch<{ organizations: Organization[] }>(API_ROUTES.organizations.list);
+      set({ organizations });
+    } catch (err: any) {
+      set({ error: err.message });
+    }
+  },
+
+  createOrganization: async (name: string) => {
+    try {
+      const organization = await apiFetch<Organization>(API_ROUTES.organizations.create, {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      set((state) => ({
+        organizations: [...state.organizations, organization].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return organization;
+    } catch (err: any) {
+      set({ error: err.message });
+      throw err;
+    }
+  },
+
   clearError: () => set({ error: null }),
   setCurrentModel: (model) => set({ currentModel: model }),
 }));
@@ -4,16 +4,32 @@ export const API_ROUTES = {
   // Threat Models
   threatModels: {
     list: '/api/threat-models',
+    usage: '/api/threat-models/usage',
     create: '/api/threat-models',
     get: (id: string) => `/api/threat-models/${id}`,
     update: (id: string) => `/api/threat-models/${id}`,
     delete: (id: string) => `/api/threat-models/${id}`,
     generate: (id: string) => `/api/threat-models/${id}/generate`,
     generationStatus: (id: string) => `/api/threat-models/${id}/generation-status`,
+    generationEvents: (id: string) => `/api/threat-models/${id}/generation-events`,
     share: (id: string) => `/api/threat-models/${id}/share`,
+    shareLinks: (id: string) => `/api/threat-models/${id}/share/links`,
+    shareLink: (id: string, linkId: string) => `/api/threat-models/${id}/share/links/${linkId}`,
+    shareLinkAccesses: (id: string, linkId: string) =>
+      `/api/threat-models/${id}/share/links/${linkId}/accesses`,
     export: (id: string) => `/api/threat-models/${id}/export`,
   },
 
+  // Revisions of a model's generated analysis
+  revisions: {
+    list: (threatModelId: string) => `/api/threat-models/${threatModelId}/revisions`,
+    get: (threatModelId: string, revisionId: string) =>
+      `/api/threat-models/${threatModelId}/revisions/${revisionId}`,
+    restore: (threatModelId: string, revisionId: string) =>
+      `/api/threat-models/${threatModelId}/revisions/${revisionId}/restore`,
+    diff: (threatModelId: string) => `/api/threat-models/${threatModelId}/revisions/diff`,
+  },
+
   // Context Files
   files: {
     upload: (threatModelId: string) => `/api/threat-models/${threatModelId}/files`,
@@ -21,6 +37,19 @@ export const API_ROUTES = {
       `/api/threat-models/${threatModelId}/files/${fileId}`,
     download: (threatModelId: string, fileId: string) =>
       `/api/threat-models/${threatModelId}/files/${fileId}/download`,
+    text: (threatModelId: string, fileId: string) =>
+      `/api/threat-models/${threatModelId}/files/${fileId}/text`,
+    extract: (threatModelId: string, fileId: string) =>
+      `/api/threat-models/${threatModelId}/files/${fileId}/extract`,
+    rendered: (threatModelId: string, fileId: string) =>
+      `/api/threat-models/${threatModelId}/files/${fileId}/rendered`,
+  },
+
+  // Data flow diagram of a model
+  dataFlowDiagram: {
+    get: (threatModelId: string) => `/api/threat-models/${threatModelId}/dfd`,
+    save: (threatModelId: string) => `/api/threat-models/${threatModelId}/dfd`,
+    delete: (threatModelId: string) => `/api/threat-models/${threatModelId}/dfd`,
   },
 
   // Threats within a model
@@ -29,6 +58,18 @@ export const API_ROUTES = {
       `/api/threat-models/${threatModelId}/threats/${threatId}`,
   },
 
+  // Comment threads on a threat and its mitigations
+  comments: {
+    list: (threatModelId: string, threatId: string) =>
+      `/api/threat-models/${threatModelId}/threats/${threatId}/comments`,
+    create: (threatModelId: string, threatId: string) =>
+      `/api/threat-models/${threatModelId}/threats/${threatId}/comments`,
+    update: (threatModelId: string, threatId: string, commentId: string) =>
+      `/api/threat-models/${threatModelId}/threats/${threatId}/comments/${commentId}`,
+    history: (threatModelId: string, threatId: string, commentId: string) =>
+      `/api/threat-models/${threatModelId}/threats/${threatId}/comments/${commentId}/history`,
+  },
+
   // Mitigations
   mitigations: {
     update: (threatModelId: string, threatId: string, mitigationId: string) =>
@@ -39,6 +80,34 @@ export const API_ROUTES = {
   shared: {
     get: (shareToken: string) => `/api/shared/${shareToken}`,
     export: (shareToken: string) => `/api/shared/${shareToken}/export`,
+    updateThreat: (shareToken: string, threatId: string) =>
+      `/api/shared/${shareToken}/threats/${threatId}`,
+    updateMitigation: (shareToken: string, threatId: string, mitigationId: string) =>
+      `/api/shared/${shareToken}/threats/${threatId}/mitigations/${mitigationId}`,
+    comments: (shareToken: string, threatId: string) => `/api/shared/${shareToken}/threats/${threatId}/comments`,
+    comment: (shareToken: string, threatId: string, commentId: string) =>
+      `/api/shared/${shareToken}/threats/${threatId}/comments/${commentId}`,
+    commentHistory: (shareToken: string, threatId: string, commentId: string) =>
+      `/api/shared/${shareToken}/threats/${threatId}/comments/${commentId}/history`,
+  },
+
+  // Admin
+  admin: {
+    userQuota: (userId: string) => `/api/admin/quotas/users/${userId}`,
+    userQuotaChanges: (userId: string) => `/api/admin/quotas/users/${userId}/changes`,
+    organizationQuota: (organizationId: string) =>
+      `/api/admin/quotas/organizations/${organizationId}`,
+    organizationQuotaChanges: (organizationId: string) =>
+      `/api/admin/quotas/organizations/${organizationId}/changes`,
+  },
+
+  // Organizations and their members
+  organizations: {
+    list: '/api/organizations',
+    create: '/api/organizations',
+    members: (organizationId: string) => `/api/organizations/${organizationId}/members`,
+    member: (organizationId: string, memberId: string) =>
+      `/api/organizations/${organizationId}/members/${memberId}`,
   },
 
   // Guided Questions
@@ -53,6 +122,7 @@ export interface ListThreatModelsParams {
   pageSize?: number;
   status?: string;
   search?: string;
+  organizationId?: string;
 }
 
 export interface ExportParams {
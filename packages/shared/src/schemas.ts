@@ -15,7 +15,12 @@ export type ThreatModelStatus = z.infer<typeof ThreatModelStatus>;
 export const RiskSeverity = z.enum(['critical', 'high', 'medium', 'low', 'info']);
 export type RiskSeverity = z.infer<typeof RiskSeverity>;
 
-export const RiskCategory = z.enum([
+export const Methodology = z.enum(['stride', 'linddun', 'pasta', 'owasp_top10', 'owasp_api_top10']);
+export type Methodology = z.infer<typeof Methodology>;
+
+// Category taxonomies - each methodology classifies threats with its own set
+
+export const StrideCategory = z.enum([
   'spoofing',
   'tampering',
   'repudiation',
@@ -23,11 +28,99 @@ export const RiskCategory = z.enum([
   'denial_of_service',
   'elevation_of_privilege',
 ]);
+export type StrideCategory = z.infer<typeof StrideCategory>;
+
+export const LinddunCategory = z.enum([
+  'linking',
+  'identifying',
+  'non_repudiation',
+  'detecting',
+  'data_disclosure',
+  'unawareness',
+  'non_compliance',
+]);
+export type LinddunCategory = z.infer<typeof LinddunCategory>;
+
+export const PastaStage = z.enum([
+  'business_objectives',
+  'technical_scope',
+  'application_decomposition',
+  'threat_analysis',
+  'vulnerability_analysis',
+  'attack_modeling',
+  'risk_impact_analysis',
+]);
+export type PastaStage = z.infer<typeof PastaStage>;
+
+// OWASP Top 10 (2021)
+export const OwaspTop10Category = z.enum([
+  'a01_broken_access_control',
+  'a02_cryptographic_failures',
+  'a03_injection',
+  'a04_insecure_design',
+  'a05_security_misconfiguration',
+  'a06_vulnerable_components',
+  'a07_identification_authentication_failures',
+  'a08_software_data_integrity_failures',
+  'a09_logging_monitoring_failures',
+  'a10_server_side_request_forgery',
+]);
+export type OwaspTop10Category = z.infer<typeof OwaspTop10Category>;
+
+// OWASP API Security Top 10 (2023)
+export const OwaspApiTop10Category = z.enum([
+  'api1_broken_object_level_authorization',
+  'api2_broken_authentication',
+  'api3_broken_object_property_level_authorization',
+  'api4_unrestricted_resource_consumption',
+  'api5_broken_function_level_authorization',
+  'api6_unrestricted_access_to_sensitive_business_flows',
+  'api7_server_side_request_forgery',
+  'api8_security_misconfiguration',
+  'api9_improper_inventory_management',
+  'api10_unsafe_consumption_of_apis',
+]);
+export type OwaspApiTop10Category = z.infer<typeof OwaspApiTop10Category>;
+
+export const RiskCategory = z.enum([
+  ...StrideCategory.options,
+  ...LinddunCategory.options,
+  ...PastaStage.options,
+  ...OwaspTop10Category.options,
+  ...OwaspApiTop10Category.options,
+]);
 export type RiskCategory = z.infer<typeof RiskCategory>;
 
-export const FileType = z.enum(['prd', 'diagram', 'screenshot', 'other']);
+export const GenerationJobStatus = z.enum([
+  'queued',
+  'processing',
+  'completed',
+  'failed',
+  'cancelled',
+]);
+export type GenerationJobStatus = z.infer<typeof GenerationJobStatus>;
+
+export const FileType = z.enum(['prd', 'diagram', 'screenshot', 'api_spec', 'other']);
 export type FileType = z.infer<typeof FileType>;
 
+// `refresh` re-runs the analysis with the existing threats as context and keeps human edits
+export const GenerationMode = z.enum(['full', 'refresh']);
+export type GenerationMode = z.infer<typeof GenerationMode>;
+
+export const RevisionSource = z.enum(['generation', 'manual', 'restore']);
+export type RevisionSource = z.infer<typeof RevisionSource>;
+
+export const QuotaScope = z.enum(['user', 'organization']);
+export type QuotaScope = z.infer<typeof QuotaScope>;
+
+// Ordered from most to least access
+export const OrganizationRole = z.enum(['owner', 'editor', 'reviewer', 'viewer']);
+export type OrganizationRole = z.infer<typeof OrganizationRole>;
+
+// What a share link lets its holder do, from least to most
+export const SharePermission = z.enum(['view', 'comment', 'edit']);
+export type SharePermission = z.infer<typeof SharePermission>;
+
 // ============================================
 // JIRA SCHEMAS
 // ============================================
@@ -96,6 +189,202 @@ export type JiraTicket = z.infer<typeof JiraTicketSchema>;
 // CORE SCHEMAS
 // ============================================
 
+// Inventory parsed from Terraform, CloudFormation, Kubernetes and docker-compose uploads
+export const IacEntrySchema = z.object({
+  name: z.string(),
+  kind: z.string(),
+  source: z.string(),
+  details: z.array(z.string()),
+});
+export type IacEntry = z.infer<typeof IacEntrySchema>;
+
+export const IacInventorySchema = z.object({
+  services: z.array(IacEntrySchema),
+  exposures: z.array(IacEntrySchema),
+  secrets: z.array(IacEntrySchema),
+  dataStores: z.array(IacEntrySchema),
+});
+export type IacInventory = z.infer<typeof IacInventorySchema>;
+
+// Operations, auth schemes and data models parsed from an OpenAPI 3 / Swagger 2 upload
+export const ApiSecuritySchemeSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  details: z.string(),
+});
+export type ApiSecurityScheme = z.infer<typeof ApiSecuritySchemeSchema>;
+
+export const ApiParameterSchema = z.object({
+  name: z.string(),
+  in: z.string(),
+  required: z.boolean(),
+  type: z.string(),
+});
+export type ApiParameter = z.infer<typeof ApiParameterSchema>;
+
+export const ApiOperationSchema = z.object({
+  method: z.string(),
+  path: z.string(),
+  operationId: z.string().optional(),
+  summary: z.string().optional(),
+  // Any one requirement grants access; empty when no authentication is needed
+  security: z.array(z.string()),
+  parameters: z.array(ApiParameterSchema),
+  requestBody: z.string().optional(),
+  responses: z.array(z.string()),
+  deprecated: z.boolean().optional(),
+});
+export type ApiOperation = z.infer<typeof ApiOperationSchema>;
+
+export const ApiModelSchema = z.object({
+  name: z.string(),
+  properties: z.array(z.string()),
+  sensitiveProperties: z.array(z.string()),
+});
+export type ApiModel = z.infer<typeof ApiModelSchema>;
+
+export const ApiSpecSchema = z.object({
+  title: z.string(),
+  version: z.string(),
+  specVersion: z.string(),
+  servers: z.array(z.string()),
+  securitySchemes: z.array(ApiSecuritySchemeSchema),
+  operations: z.array(ApiOperationSchema),
+  models: z.array(ApiModelSchema),
+});
+export type ApiSpec = z.infer<typeof ApiSpecSchema>;
+
+// Team workspace; threat models in it are shared with every member by role
+export const OrganizationSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  // The requesting user's role
+  role: OrganizationRole,
+  memberCount: z.number(),
+  createdAt: z.string().datetime(),
+});
+export type Organization = z.infer<typeof OrganizationSchema>;
+
+export const OrganizationMemberSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  userId: z.string(),
+  email: z.string().nullable(),
+  role: OrganizationRole,
+  createdAt: z.string().datetime(),
+});
+export type OrganizationMember = z.infer<typeof OrganizationMemberSchema>;
+
+// How a share link may be used. A link with allowed emails only opens for
+// visitors signed in with one of them
+export const ShareSettingsSchema = z.object({
+  label: z.string().nullable(),
+  expiresAt: z.string().datetime().nullable(),
+  allowedEmails: z.array(z.string().email()),
+  permissions: z.array(SharePermission).min(1),
+});
+export type ShareSettings = z.infer<typeof ShareSettingsSchema>;
+
+export const ShareLinkSchema = ShareSettingsSchema.extend({
+  id: z.string().uuid(),
+  threatModelId: z.string().uuid(),
+  shareUrl: z.string().url(),
+  shareToken: z.string(),
+  hasPassword: z.boolean(),
+  // False once the link is revoked or has expired
+  isActive: z.boolean(),
+  revokedAt: z.string().datetime().nullable(),
+  lastAccessedAt: z.string().datetime().nullable(),
+  accessCount: z.number(),
+  createdAt: z.string().datetime(),
+});
+export type ShareLink = z.infer<typeof ShareLinkSchema>;
+
+// One request made with a share link, including refused ones
+export const ShareLinkAccessSchema = z.object({
+  id: z.string().uuid(),
+  action: SharePermission,
+  format: z.string().nullable(),
+  allowed: z.boolean(),
+  denialReason: z.string().nullable(),
+  email: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type ShareLinkAccess = z.infer<typeof ShareLinkAccessSchema>;
+
+// A comment on a threat, or on one of its mitigations when `mitigationId` is
+// set. Comments without a parent start a thread; replies have its ID
+export const CommentSchema = z.object({
+  id: z.string().uuid(),
+  threatModelId: z.string().uuid(),
+  threatId: z.string(),
+  mitigationId: z.string().nullable(),
+  parentId: z.string().uuid().nullable(),
+  authorName: z.string(),
+  authorEmail: z.string().nullable(),
+  // Posted through a share link rather than by a member
+  viaShareLink: z.boolean(),
+  body: z.string(),
+  // Emails mentioned in the body as @name@example.com
+  mentions: z.array(z.string()),
+  // Only threads are resolved, not their replies
+  resolvedAt: z.string().datetime().nullable(),
+  resolvedBy: z.string().nullable(),
+  editedAt: z.string().datetime().nullable(),
+  // Whether the requester wrote the comment and so may edit it
+  canEdit: z.boolean(),
+  createdAt: z.string().datetime(),
+});
+export type Comment = z.infer<typeof CommentSchema>;
+
+// An earlier version of a comment's body, replaced at `createdAt`
+export const CommentEditSchema = z.object({
+  id: z.string().uuid(),
+  body: z.string(),
+  createdAt: z.string().datetime(),
+});
+export type CommentEdit = z.infer<typeof CommentEditSchema>;
+
+// Components and connections parsed from a Mermaid, PlantUML or draw.io upload
+export const DiagramFormat = z.enum(['mermaid', 'plantuml', 'drawio']);
+export type DiagramFormat = z.infer<typeof DiagramFormat>;
+
+export const DiagramNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  shape: z.enum(['box', 'rounded', 'circle', 'diamond', 'database', 'actor', 'cloud', 'queue']),
+  description: z.string().optional(),
+  group: z.string().optional(),
+});
+export type DiagramNode = z.infer<typeof DiagramNodeSchema>;
+
+export const DiagramEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  label: z.string().optional(),
+  bidirectional: z.boolean().optional(),
+});
+export type DiagramEdge = z.infer<typeof DiagramEdgeSchema>;
+
+export const DiagramGroupSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  parent: z.string().optional(),
+});
+export type DiagramGroup = z.infer<typeof DiagramGroupSchema>;
+
+export const DiagramGraphSchema = z.object({
+  format: DiagramFormat,
+  kind: z.string(),
+  direction: z.enum(['TB', 'LR']),
+  nodes: z.array(DiagramNodeSchema),
+  edges: z.array(DiagramEdgeSchema),
+  groups: z.array(DiagramGroupSchema),
+});
+export type DiagramGraph = z.infer<typeof DiagramGraphSchema>;
+
 export const ContextFileSchema = z.object({
   id: z.string().uuid(),
   threatModelId: z.string().uuid(),
@@ -105,10 +394,93 @@ export const ContextFileSchema = z.object({
   size: z.number(),
   fileType: FileType,
   storagePath: z.string(),
+  // Text extracted at upload, sent to providers that can't read the native format
+  extractedText: z.string().nullable().optional(),
+  iacInventory: IacInventorySchema.nullable().optional(),
+  apiSpec: ApiSpecSchema.nullable().optional(),
+  diagramGraph: DiagramGraphSchema.nullable().optional(),
+  // PNG rendered from a diagram source, served by API_ROUTES.files.rendered
+  renderedDiagramPath: z.string().nullable().optional(),
   createdAt: z.string().datetime(),
 });
 export type ContextFile = z.infer<typeof ContextFileSchema>;
 
+// Data flow diagram of the system under review. Element, flow and boundary IDs
+// share one namespace so a threat can link to any of them
+export const DfdElementType = z.enum(['process', 'data_store', 'external_entity']);
+export type DfdElementType = z.infer<typeof DfdElementType>;
+
+export const DfdElementSchema = z.object({
+  id: z.string().min(1),
+  type: DfdElementType,
+  name: z.string().min(1),
+  description: z.string().optional(),
+  // Canvas position of the element's centre
+  x: z.number(),
+  y: z.number(),
+});
+export type DfdElement = z.infer<typeof DfdElementSchema>;
+
+export const DfdFlowSchema = z.object({
+  id: z.string().min(1),
+  sourceId: z.string(),
+  targetId: z.string(),
+  // What data moves along the flow
+  label: z.string(),
+  protocol: z.string().optional(),
+});
+export type DfdFlow = z.infer<typeof DfdFlowSchema>;
+
+export const DfdTrustBoundarySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  elementIds: z.array(z.string()),
+  // Canvas rectangle
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+export type DfdTrustBoundary = z.infer<typeof DfdTrustBoundarySchema>;
+
+export const DataFlowDiagramSchema = z.object({
+  id: z.string().uuid(),
+  threatModelId: z.string().uuid(),
+  elements: z.array(DfdElementSchema),
+  flows: z.array(DfdFlowSchema),
+  boundaries: z.array(DfdTrustBoundarySchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type DataFlowDiagram = z.infer<typeof DataFlowDiagramSchema>;
+
+// Components of the system and the flows between them, as drawn by the LLM
+// alongside its threats. Threats refer to components by name in affectedComponents
+export const ComponentType = z.enum(['client', 'service', 'data_store', 'queue', 'external']);
+export type ComponentType = z.infer<typeof ComponentType>;
+
+export const SystemComponentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: ComponentType,
+  // Components in the same zone share a level of trust, e.g. "Internet" or "Private subnet"
+  trustZone: z.string().optional(),
+});
+export type SystemComponent = z.infer<typeof SystemComponentSchema>;
+
+export const ComponentFlowSchema = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+  label: z.string(),
+});
+export type ComponentFlow = z.infer<typeof ComponentFlowSchema>;
+
+export const ComponentGraphSchema = z.object({
+  components: z.array(SystemComponentSchema).min(1),
+  flows: z.array(ComponentFlowSchema),
+});
+export type ComponentGraph = z.infer<typeof ComponentGraphSchema>;
+
 export const QuestionAnswerSchema = z.object({
   questionId: z.string(),
   question: z.string(),
@@ -118,16 +490,18 @@ export const QuestionAnswerSchema = z.object({
 export type QuestionAnswer = z.infer<typeof QuestionAnswerSchema>;
 
 export const MitigationSchema = z.object({
-  id: z.string().uuid(),
+  id: z.string().min(1),
   description: z.string(),
   priority: z.enum(['immediate', 'short_term', 'long_term']),
   effort: z.enum(['low', 'medium', 'high']),
   status: z.enum(['proposed', 'accepted', 'implemented', 'rejected']),
+  // Fields a reviewer has changed, kept when the model is refreshed
+  editedFields: z.array(z.string()).optional(),
 });
 export type Mitigation = z.infer<typeof MitigationSchema>;
 
 export const ThreatSchema = z.object({
-  id: z.string().uuid(),
+  id: z.string().min(1), // UUIDs for new threats; older models have other IDs
   title: z.string(),
   description: z.string(),
   category: RiskCategory,
@@ -136,11 +510,59 @@ export const ThreatSchema = z.object({
   impact: z.number().min(1).max(5),
   riskScore: z.number().min(1).max(25),
   affectedComponents: z.array(z.string()),
+  // IDs of the data flow diagram elements, flows and boundaries the threat affects
+  dfdElementIds: z.array(z.string()).optional(),
   attackVector: z.string().optional(),
   mitigations: z.array(MitigationSchema),
+  // Fields a reviewer has changed, kept when the model is refreshed
+  editedFields: z.array(z.string()).optional(),
+  // Set by the latest refresh: newly identified, or no longer identified by the LLM
+  refreshStatus: z.enum(['new', 'disappeared']).optional(),
 });
 export type Threat = z.infer<typeof ThreatSchema>;
 
+// What the backend had to fix in the LLM output to make it match ThreatSchema
+export const GenerationReportSchema = z.object({
+  repairAttempts: z.number(),
+  coercedFields: z.array(z.string()),
+  droppedFields: z.array(z.string()),
+  // How a refresh lined up with the previous threats
+  refresh: z
+    .object({
+      matched: z.number(),
+      added: z.number(),
+      disappeared: z.number(),
+      preservedEdits: z.number(),
+    })
+    .optional(),
+  // Set when the context was too large for one request and was summarised first
+  digest: z
+    .object({
+      sources: z.number(),
+      calls: z.number(),
+      passes: z.number(),
+    })
+    .optional(),
+});
+export type GenerationReport = z.infer<typeof GenerationReportSchema>;
+
+export const DEFAULT_THREAT_COUNT = 5;
+export const MAX_THREAT_COUNT = 50;
+
+// What a generation is asked to produce; stored on the model and reused by later runs
+export const GenerationSettingsSchema = z.object({
+  threatCount: z.number().int().min(1).max(MAX_THREAT_COUNT),
+  minSeverity: RiskSeverity,
+  focusAreas: z.array(z.string().trim().min(1).max(100)).max(10),
+});
+export type GenerationSettings = z.infer<typeof GenerationSettingsSchema>;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  threatCount: DEFAULT_THREAT_COUNT,
+  minSeverity: 'info',
+  focusAreas: [],
+};
+
 export const ThreatModelSchema = z.object({
   id: z.string().uuid(),
   title: z.string(),
@@ -150,29 +572,82 @@ export const ThreatModelSchema = z.object({
   createdBy: z.string(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
+  // The requesting user's role on this model
+  role: OrganizationRole.optional(),
 
   // Context data
+  methodology: Methodology.default('stride'),
   systemDescription: z.string().optional(),
   questionsAnswers: z.array(QuestionAnswerSchema),
   contextFiles: z.array(ContextFileSchema).optional(),
   jiraTickets: z.array(JiraTicketSchema).optional(),
+  dataFlowDiagram: DataFlowDiagramSchema.nullable().optional(),
 
   // Generated content
   threats: z.array(ThreatSchema),
   summary: z.string().optional(),
   recommendations: z.array(z.string()).optional(),
+  componentGraph: ComponentGraphSchema.nullable().optional(),
 
   // Sharing
   shareToken: z.string().optional(),
   isPublic: z.boolean().default(false),
+  // Permissions of the share link the model was opened with
+  sharePermissions: z.array(SharePermission).optional(),
 
   // Generation metadata
   generationStartedAt: z.string().datetime().optional(),
   generationCompletedAt: z.string().datetime().optional(),
   generationError: z.string().optional(),
+  generationReport: GenerationReportSchema.nullable().optional(),
+  generationProvider: z.string().nullable().optional(),
+  generationModel: z.string().nullable().optional(),
+  currentRevisionId: z.string().uuid().nullable().optional(),
+  generationSettings: GenerationSettingsSchema.nullable().optional(),
 });
 export type ThreatModel = z.infer<typeof ThreatModelSchema>;
 
+// What a revision's analysis was based on
+export const RevisionInputsSchema = z.object({
+  title: z.string(),
+  description: z.string().nullable(),
+  systemDescription: z.string().nullable(),
+  questionsAnswers: z.array(QuestionAnswerSchema),
+  files: z.array(
+    z.object({ id: z.string(), originalName: z.string(), fileType: z.string(), size: z.number() })
+  ),
+  jiraTickets: z.array(z.object({ issueKey: z.string(), title: z.string() })),
+  settings: GenerationSettingsSchema.optional(),
+  methodology: Methodology.optional(),
+});
+export type RevisionInputs = z.infer<typeof RevisionInputsSchema>;
+
+export const ThreatModelRevisionSummarySchema = z.object({
+  id: z.string().uuid(),
+  threatModelId: z.string().uuid(),
+  revisionNumber: z.number(),
+  source: RevisionSource,
+  restoredFromId: z.string().uuid().nullable(),
+  provider: z.string().nullable(),
+  model: z.string().nullable(),
+  threatCount: z.number(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  isCurrent: z.boolean(),
+});
+export type ThreatModelRevisionSummary = z.infer<typeof ThreatModelRevisionSummarySchema>;
+
+// Immutable snapshot of one analysis of a threat model
+export const ThreatModelRevisionSchema = ThreatModelRevisionSummarySchema.extend({
+  inputs: RevisionInputsSchema,
+  threats: z.array(ThreatSchema),
+  summary: z.string().nullable(),
+  recommendations: z.array(z.string()),
+  componentGraph: ComponentGraphSchema.nullable(),
+  generationReport: GenerationReportSchema.nullable(),
+});
+export type ThreatModelRevision = z.infer<typeof ThreatModelRevisionSchema>;
+
 // ============================================
 // GUIDED QUESTIONS
 // ============================================
@@ -278,6 +753,9 @@ export const CreateThreatModelRequestSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().max(2000).optional(),
   systemDescription: z.string().max(10000).optional(),
+  methodology: Methodology.optional(),
+  // Leave out for a personal model
+  organizationId: z.string().uuid().optional(),
 });
 export type CreateThreatModelRequest = z.infer<typeof CreateThreatModelRequestSchema>;
 
@@ -286,12 +764,13 @@ export const UpdateThreatModelRequestSchema = z.object({
   description: z.string().max(2000).optional(),
   systemDescription: z.string().max(10000).optional(),
   questionsAnswers: z.array(QuestionAnswerSchema).optional(),
-  isPublic: z.boolean().optional(),
+  methodology: Methodology.optional(),
 });
 export type UpdateThreatModelRequest = z.infer<typeof UpdateThreatModelRequestSchema>;
 
-export const GenerateThreatModelRequestSchema = z.object({
-  threatModelId: z.string().uuid(),
+// Settings left out fall back to the model's previous settings, then the defaults
+export const GenerateThreatModelRequestSchema = GenerationSettingsSchema.partial().extend({
+  mode: GenerationMode.default('full'),
 });
 export type GenerateThreatModelRequest = z.infer<typeof GenerateThreatModelRequestSchema>;
 
@@ -305,15 +784,116 @@ export const UpdateThreatRequestSchema = z.object({
   severity: RiskSeverity.optional(),
   likelihood: z.number().min(1).max(5).optional(),
   impact: z.number().min(1).max(5).optional(),
+  dfdElementIds: z.array(z.string()).optional(),
 });
 export type UpdateThreatRequest = z.infer<typeof UpdateThreatRequestSchema>;
 
+// Creates the model's diagram or replaces it. Flows and boundaries may only
+// refer to elements in the same request
+export const SaveDataFlowDiagramRequestSchema = z
+  .object({
+    elements: z.array(DfdElementSchema),
+    flows: z.array(DfdFlowSchema),
+    boundaries: z.array(DfdTrustBoundarySchema),
+  })
+  .superRefine((diagram, ctx) => {
+    const ids = [...diagram.elements, ...diagram.flows, ...diagram.boundaries].map((item) => item.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate diagram ID: ${duplicate}` });
+    }
+
+    const elementIds = new Set(diagram.elements.map((element) => element.id));
+    diagram.flows.forEach((flow, i) => {
+      for (const key of ['sourceId', 'targetId'] as const) {
+        if (!elementIds.has(flow[key])) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['flows', i, key],
+            message: `Unknown element: ${flow[key]}`,
+          });
+        }
+      }
+    });
+    diagram.boundaries.forEach((boundary, i) => {
+      boundary.elementIds.forEach((id, j) => {
+        if (!elementIds.has(id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['boundaries', i, 'elementIds', j],
+            message: `Unknown element: ${id}`,
+          });
+        }
+      });
+    });
+  });
+export type SaveDataFlowDiagramRequest = z.infer<typeof SaveDataFlowDiagramRequestSchema>;
+
 export const UpdateMitigationRequestSchema = z.object({
   status: z.enum(['proposed', 'accepted', 'implemented', 'rejected']).optional(),
   description: z.string().optional(),
 });
 export type UpdateMitigationRequest = z.infer<typeof UpdateMitigationRequestSchema>;
 
+// Admin override of a generation quota; a null limit means unlimited
+export const UpdateQuotaRequestSchema = z.object({
+  generationsLimit: z.number().int().min(0).nullable().optional(),
+  generationsUsed: z.number().int().min(0).optional(),
+});
+export type UpdateQuotaRequest = z.infer<typeof UpdateQuotaRequestSchema>;
+
+export const CreateOrganizationRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationRequestSchema>;
+
+// Members are added by the email they sign in with, or by user ID
+export const AddOrganizationMemberRequestSchema = z
+  .object({
+    email: z.string().email().optional(),
+    userId: z.string().min(1).optional(),
+    role: OrganizationRole,
+  })
+  .refine((member) => member.email || member.userId, { message: 'Provide an email or a user ID' });
+export type AddOrganizationMemberRequest = z.infer<typeof AddOrganizationMemberRequestSchema>;
+
+export const UpdateOrganizationMemberRequestSchema = z.object({
+  role: OrganizationRole,
+});
+export type UpdateOrganizationMemberRequest = z.infer<typeof UpdateOrganizationMemberRequestSchema>;
+
+// Without a body this creates a view-only link that never expires
+export const CreateShareLinkRequestSchema = z.object({
+  label: z.string().trim().max(100).optional(),
+  expiresAt: z.string().datetime().optional(),
+  allowedEmails: z.array(z.string().trim().toLowerCase().email()).max(50).default([]),
+  permissions: z.array(SharePermission).min(1).default(['view']),
+  password: z.string().min(4).max(200).optional(),
+});
+export type CreateShareLinkRequest = z.infer<typeof CreateShareLinkRequestSchema>;
+
+export const CreateCommentRequestSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  mitigationId: z.string().optional(),
+  // Reply to a thread
+  parentId: z.string().uuid().optional(),
+  // Required from share link visitors who aren't signed in
+  authorName: z.string().trim().min(1).max(100).optional(),
+});
+export type CreateCommentRequest = z.infer<typeof CreateCommentRequestSchema>;
+
+export const UpdateCommentRequestSchema = z
+  .object({
+    body: z.string().trim().min(1).max(5000).optional(),
+    resolved: z.boolean().optional(),
+    // Names share link visitors who aren't signed in when they resolve a thread
+    authorName: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine((update) => update.body !== undefined || update.resolved !== undefined, {
+    message: 'Provide a body or resolved',
+  });
+export type UpdateCommentRequest = z.infer<typeof UpdateCommentRequestSchema>;
+
 // ============================================
 // API CONTRACTS - RESPONSE SCHEMAS
 // ============================================
@@ -327,6 +907,9 @@ export const ThreatModelSummarySchema = z.object({
   highestSeverity: RiskSeverity.optional(),
   isShared: z.boolean().optional(),
   shareUrl: z.string().nullable().optional(),
+  organizationId: z.string(),
+  // The requesting user's role on this model
+  role: OrganizationRole.optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -345,9 +928,128 @@ export const GenerationStatusResponseSchema = z.object({
   progress: z.number().min(0).max(100).optional(),
   message: z.string().optional(),
   error: z.string().optional(),
+  jobId: z.string().uuid().optional(),
+  jobStatus: GenerationJobStatus.optional(),
+  attempts: z.number().optional(),
+  maxAttempts: z.number().optional(),
+  nextAttemptAt: z.string().datetime().optional(),
 });
 export type GenerationStatusResponse = z.infer<typeof GenerationStatusResponseSchema>;
 
+export const ModelUsageSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  calls: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  avgLatencyMs: z.number(),
+  // Null when a model's pricing is unknown
+  estimatedCostUsd: z.number().nullable(),
+});
+export type ModelUsage = z.infer<typeof ModelUsageSchema>;
+
+export const QuotaSchema = z.object({
+  scope: QuotaScope,
+  subjectId: z.string(),
+  generationsUsed: z.number(),
+  // Null when unlimited
+  generationsLimit: z.number().nullable(),
+  remaining: z.number().nullable(),
+  periodStart: z.string().datetime(),
+  resetsAt: z.string().datetime(),
+});
+export type Quota = z.infer<typeof QuotaSchema>;
+
+// An admin's change to a quota, with the values before and after
+export const QuotaChangeSchema = z.object({
+  id: z.string().uuid(),
+  scope: QuotaScope,
+  subjectId: z.string(),
+  changedBy: z.string(),
+  previousLimit: z.number().nullable(),
+  newLimit: z.number().nullable(),
+  previousUsed: z.number(),
+  newUsed: z.number(),
+  createdAt: z.string().datetime(),
+});
+export type QuotaChange = z.infer<typeof QuotaChangeSchema>;
+
+export const UsageResponseSchema = z.object({
+  generationsUsed: z.number(),
+  generationsLimit: z.number().nullable(),
+  remaining: z.number().nullable(),
+  resetsAt: z.string().datetime(),
+  organization: QuotaSchema.nullable(), // Null for personal usage
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  estimatedCostUsd: z.number(),
+  byModel: z.array(ModelUsageSchema),
+});
+export type UsageResponse = z.infer<typeof UsageResponseSchema>;
+
+export const ThreatFieldChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+export type ThreatFieldChange = z.infer<typeof ThreatFieldChangeSchema>;
+
+export const ThreatDiffSchema = z.object({
+  status: z.enum(['added', 'removed', 'changed', 'unchanged']),
+  title: z.string(),
+  before: ThreatSchema.optional(),
+  after: ThreatSchema.optional(),
+  changes: z.array(ThreatFieldChangeSchema),
+});
+export type ThreatDiff = z.infer<typeof ThreatDiffSchema>;
+
+// Threat-by-threat comparison of two revisions
+export const RevisionDiffSchema = z.object({
+  from: ThreatModelRevisionSummarySchema,
+  to: ThreatModelRevisionSummarySchema,
+  threats: z.array(ThreatDiffSchema),
+  summaryChanged: z.boolean(),
+  recommendationsAdded: z.array(z.string()),
+  recommendationsRemoved: z.array(z.string()),
+  // Input fields (e.g. systemDescription, files) that differ between the runs
+  inputsChanged: z.array(z.string()),
+});
+export type RevisionDiff = z.infer<typeof RevisionDiffSchema>;
+
+export const GenerationEventType = z.enum([
+  'queued',
+  'started',
+  'context_built',
+  'files_encoded',
+  'digesting',
+  'llm_started',
+  'tokens',
+  'repairing',
+  'parsed',
+  'saved',
+  'retrying',
+  'completed',
+  'failed',
+  'cancelled',
+]);
+export type GenerationEventType = z.infer<typeof GenerationEventType>;
+
+// Events streamed over SSE from /generation-events while a generation runs
+export const GenerationEventSchema = z.object({
+  type: GenerationEventType,
+  progress: z.number().min(0).max(100),
+  message: z.string(),
+  jobId: z.string().uuid().optional(),
+  outputTokens: z.number().optional(),
+  // Titles of threats the model has written so far, while the response streams
+  draftThreats: z.array(z.string()).optional(),
+  error: z.string().optional(),
+  timestamp: z.string().datetime(),
+});
+export type GenerationEvent = z.infer<typeof GenerationEventSchema>;
+
+export const TERMINAL_GENERATION_EVENTS: GenerationEventType[] = ['completed', 'failed', 'cancelled'];
+
 export const ShareLinkResponseSchema = z.object({
   shareUrl: z.string().url(),
   shareToken: z.string(),
@@ -371,6 +1073,32 @@ export function getRiskSeverityFromScore(score: number): RiskSeverity {
   return 'info';
 }
 
+// RiskSeverity options run from most to least severe
+export function isAtLeastSeverity(severity: RiskSeverity, minimum: RiskSeverity): boolean {
+  return RiskSeverity.options.indexOf(severity) <= RiskSeverity.options.indexOf(minimum);
+}
+
+// Organization ID of models that belong to their creator alone
+export const PERSONAL_ORGANIZATION_ID = 'default';
+
+// OrganizationRole options run from most to least access
+export function isAtLeastRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+  return OrganizationRole.options.indexOf(role) <= OrganizationRole.options.indexOf(minimum);
+}
+
+// A share link grants its highest permission and every one below it
+export function expandSharePermissions(permissions: SharePermission[]): SharePermission[] {
+  const highest = Math.max(...permissions.map((permission) => SharePermission.options.indexOf(permission)));
+  return SharePermission.options.slice(0, highest + 1);
+}
+
+const MENTION_PATTERN = /(?:^|[^\w.+-])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+// Emails mentioned in a comment body, lowercased and without duplicates
+export function parseMentions(body: string): string[] {
+  return [...new Set([...body.matchAll(MENTION_PATTERN)].map((match) => match[1].toLowerCase()))];
+}
+
 export function shouldEscalate(threat: Threat): boolean {
   return threat.severity === 'critical' || threat.riskScore >= 20;
 }
@@ -384,10 +1112,171 @@ export const SEVERITY_COLORS: Record<RiskSeverity, string> = {
 };
 
 export const CATEGORY_LABELS: Record<RiskCategory, string> = {
+  // STRIDE
   spoofing: 'Spoofing',
   tampering: 'Tampering',
   repudiation: 'Repudiation',
   information_disclosure: 'Information Disclosure',
   denial_of_service: 'Denial of Service',
   elevation_of_privilege: 'Elevation of Privilege',
+  // LINDDUN
+  linking: 'Linking',
+  identifying: 'Identifying',
+  non_repudiation: 'Non-repudiation',
+  detecting: 'Detecting',
+  data_disclosure: 'Data Disclosure',
+  unawareness: 'Unawareness',
+  non_compliance: 'Non-compliance',
+  // PASTA
+  business_objectives: 'Stage 1: Business Objectives',
+  technical_scope: 'Stage 2: Technical Scope',
+  application_decomposition: 'Stage 3: Application Decomposition',
+  threat_analysis: 'Stage 4: Threat Analysis',
+  vulnerability_analysis: 'Stage 5: Vulnerability Analysis',
+  attack_modeling: 'Stage 6: Attack Modeling',
+  risk_impact_analysis: 'Stage 7: Risk & Impact Analysis',
+  // OWASP Top 10
+  a01_broken_access_control: 'A01: Broken Access Control',
+  a02_cryptographic_failures: 'A02: Cryptographic Failures',
+  a03_injection: 'A03: Injection',
+  a04_insecure_design: 'A04: Insecure Design',
+  a05_security_misconfiguration: 'A05: Security Misconfiguration',
+  a06_vulnerable_components: 'A06: Vulnerable and Outdated Components',
+  a07_identification_authentication_failures: 'A07: Identification and Authentication Failures',
+  a08_software_data_integrity_failures: 'A08: Software and Data Integrity Failures',
+  a09_logging_monitoring_failures: 'A09: Security Logging and Monitoring Failures',
+  a10_server_side_request_forgery: 'A10: Server-Side Request Forgery',
+  // OWASP API Security Top 10
+  api1_broken_object_level_authorization: 'API1: Broken Object Level Authorization',
+  api2_broken_authentication: 'API2: Broken Authentication',
+  api3_broken_object_property_level_authorization: 'API3: Broken Object Property Level Authorization',
+  api4_unrestricted_resource_consumption: 'API4: Unrestricted Resource Consumption',
+  api5_broken_function_level_authorization: 'API5: Broken Function Level Authorization',
+  api6_unrestricted_access_to_sensitive_business_flows: 'API6: Unrestricted Access to Sensitive Business Flows',
+  api7_server_side_request_forgery: 'API7: Server Side Request Forgery',
+  api8_security_misconfiguration: 'API8: Security Misconfiguration',
+  api9_improper_inventory_management: 'API9: Improper Inventory Management',
+  api10_unsafe_consumption_of_apis: 'API10: Unsafe Consumption of APIs',
 };
+
+export interface MethodologyInfo {
+  label: string;
+  description: string;
+  // What a category is called in this methodology, e.g. "PASTA Stage"
+  categoryLabel: string;
+  categories: readonly RiskCategory[];
+}
+
+export const METHODOLOGIES: Record<Methodology, MethodologyInfo> = {
+  stride: {
+    label: 'STRIDE',
+    description: 'General-purpose security threat modeling',
+    categoryLabel: 'STRIDE Category',
+    categories: StrideCategory.options,
+  },
+  linddun: {
+    label: 'LINDDUN',
+    description: 'Privacy threat modeling for systems handling personal data',
+    categoryLabel: 'LINDDUN Category',
+    categories: LinddunCategory.options,
+  },
+  pasta: {
+    label: 'PASTA',
+    description: 'Risk-centric, attacker-focused analysis in seven stages',
+    categoryLabel: 'PASTA Stage',
+    categories: PastaStage.options,
+  },
+  owasp_top10: {
+    label: 'OWASP Top 10',
+    description: 'Web application risks from the OWASP Top 10 (2021)',
+    categoryLabel: 'OWASP Top 10 Category',
+    categories: OwaspTop10Category.options,
+  },
+  owasp_api_top10: {
+    label: 'OWASP API Top 10',
+    description: 'API risks from the OWASP API Security Top 10 (2023)',
+    categoryLabel: 'OWASP API Top 10 Category',
+    categories: OwaspApiTop10Category.options,
+  },
+};
+
+// ============================================
+// COMPONENT GRAPH UTILITIES
+// ============================================
+
+const normalizeComponentName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * The threats affecting each component of a generated graph, matched by the
+ * component names in their affectedComponents
+ */
+export function threatsByComponent<T extends Pick<Threat, 'affectedComponents'>>(
+  graph: ComponentGraph,
+  threats: T[]
+): Map<string, T[]> {
+  const byId = new Map<string, T[]>(graph.components.map((component) => [component.id, []]));
+  const idsByName = new Map(graph.components.map((component) => [normalizeComponentName(component.name), component.id]));
+
+  for (const threat of threats) {
+    const ids = new Set(threat.affectedComponents.flatMap((name) => idsByName.get(normalizeComponentName(name)) ?? []));
+    for (const id of ids) byId.get(id)!.push(threat);
+  }
+  return byId;
+}
+
+// Mermaid node brackets for each component type
+const MERMAID_SHAPES: Record<ComponentType, [open: string, close: string]> = {
+  client: ['([', '])'],
+  service: ['(', ')'],
+  data_store: ['[(', ')]'],
+  queue: ['[[', ']]'],
+  external: ['[', ']'],
+};
+
+const mermaidText = (text: string) => text.replace(/"/g, '#quot;').replace(/[<>]/g, '');
+
+/**
+ * Mermaid flowchart source for a generated graph, with each component marked
+ * with the number of threats affecting it and coloured by the worst of them
+ */
+export function buildComponentGraphMermaid(
+  graph: ComponentGraph,
+  threats: Pick<Threat, 'affectedComponents' | 'severity'>[]
+): string {
+  const affecting = threatsByComponent(graph, threats);
+  const nodeIds = new Map(graph.components.map((component, i) => [component.id, `c${i}`]));
+  const lines = ['flowchart LR'];
+
+  const node = (component: SystemComponent) => {
+    const found = affecting.get(component.id) ?? [];
+    const [open, close] = MERMAID_SHAPES[component.type];
+    const badge = found.length > 0 ? `<br/>⚠ ${found.length} ${found.length === 1 ? 'threat' : 'threats'}` : '';
+    const worst = RiskSeverity.options.find((severity) => found.some((threat) => threat.severity === severity));
+    return `${nodeIds.get(component.id)}${open}"${mermaidText(component.name)}${badge}"${close}${worst ? `:::${worst}` : ''}`;
+  };
+
+  const zones = [...new Set(graph.components.flatMap((component) => (component.trustZone ? [component.trustZone] : [])))];
+  zones.forEach((zone, i) => {
+    lines.push(`  subgraph zone${i}["${mermaidText(zone)}"]`);
+    for (const component of graph.components.filter((c) => c.trustZone === zone)) {
+      lines.push(`    ${node(component)}`);
+    }
+    lines.push('  end');
+  });
+  for (const component of graph.components.filter((c) => !c.trustZone)) {
+    lines.push(`  ${node(component)}`);
+  }
+
+  for (const flow of graph.flows) {
+    const source = nodeIds.get(flow.sourceId);
+    const target = nodeIds.get(flow.targetId);
+    if (!source || !target) continue;
+    lines.push(flow.label ? `  ${source} -->|"${mermaidText(flow.label)}"| ${target}` : `  ${source} --> ${target}`);
+  }
+
+  for (const severity of RiskSeverity.options) {
+    lines.push(`  classDef ${severity} stroke:${SEVERITY_COLORS[severity]},stroke-width:3px`);
+  }
+
+  return lines.join('\n');
+}
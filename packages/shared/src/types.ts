@@ -14,7 +14,7 @@ export type ThreatModelStatus =
   | 'archived';       // No longer active
 
 // File attachment types
-export type AttachmentType = 'prd' | 'diagram' | 'screenshot' | 'other';
+export type AttachmentType = 'prd' | 'diagram' | 'screenshot' | 'api_spec' | 'other';
 
 // ============================================================================
 // Core Entities
@@ -125,7 +125,7 @@ export interface QuestionnaireResponse {
 export interface Threat {
   id: string;
   threatModelId: string;
-  rank: number; // 1-5 for top 5
+  rank: number; // 1-based position by risk score
 
   // Threat details
   title: string;
@@ -195,7 +195,10 @@ export interface GenerationJob {
   progress: number; // 0-100
   currentStep: string | null;
   error: string | null;
-  startedAt: string;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string; // Earliest time the next attempt may start (retry backoff)
+  startedAt: string | null;
   completedAt: string | null;
 }
 
@@ -203,7 +206,8 @@ export type GenerationStatus =
   | 'queued'
   | 'processing'
   | 'completed'
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
 
 // ============================================================================
 // Escalation Rules
@@ -232,13 +236,16 @@ export interface EscalationAction {
 // Share & Export
 // ============================================================================
 
+// One of possibly many share links of a threat model
 export interface ShareSettings {
   threatModelId: string;
-  isPublic: boolean;
-  shareToken: string | null;
+  shareToken: string;
+  label: string | null;
   expiresAt: string | null;
   allowedEmails: string[];
   permissions: SharePermission[];
+  hasPassword: boolean;
+  revokedAt: string | null;
 }
 
 export type SharePermission = 'view' | 'comment' | 'edit';